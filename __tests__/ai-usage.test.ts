@@ -0,0 +1,171 @@
+/**
+ * Tests for AI token accounting: cost estimates, budget periods and enforcement
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    aIUsageRecord: {
+      create: jest.fn(),
+      aggregate: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    savedPath: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/db';
+import { generateText, getAIProvider } from '@/lib/ai';
+import { setAICacheStore } from '@/lib/ai/cache';
+import { budgetPeriod, estimateCost, getAIBudget } from '@/lib/ai/usage';
+import { AIBudgetExceededError } from '@/lib/error-handling';
+import { AIUsageService } from '@/lib/services/ai-usage';
+
+const mockPrisma = prisma as any;
+const usedSoFar = (totalTokens: number, costUsd: number) => ({
+  _count: { _all: 3 },
+  _sum: { promptTokens: 0, completionTokens: 0, totalTokens, costUsd },
+});
+
+describe('estimateCost', () => {
+  const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+  it('should price by the longest matching model prefix', () => {
+    expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(estimateCost('openai', 'gpt-4', usage)).toBeCloseTo(90);
+  });
+
+  it('should treat local, mock and unknown models as free', () => {
+    expect(estimateCost('local', 'gpt-4', usage)).toBe(0);
+    expect(estimateCost('mock', 'mock-1', usage)).toBe(0);
+    expect(estimateCost('openai', 'some-new-model', usage)).toBe(0);
+  });
+});
+
+describe('budget configuration', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should be off unless a limit is set', () => {
+    process.env = { ...originalEnv, AI_BUDGET_TOKENS: '', AI_BUDGET_USD: '' };
+    expect(getAIBudget()).toBeNull();
+  });
+
+  it('should read the limits and period', () => {
+    process.env = { ...originalEnv, AI_BUDGET_TOKENS: '50000', AI_BUDGET_USD: '', AI_BUDGET_PERIOD: 'month' };
+    expect(getAIBudget()).toEqual({ period: 'month', tokens: 50000, costUsd: undefined });
+  });
+
+  it('should compute UTC day and month periods', () => {
+    const now = new Date('2024-03-15T18:30:00Z');
+
+    expect(budgetPeriod('day', now)).toEqual({
+      start: new Date('2024-03-15T00:00:00Z'),
+      end: new Date('2024-03-16T00:00:00Z'),
+    });
+    expect(budgetPeriod('month', now)).toEqual({
+      start: new Date('2024-03-01T00:00:00Z'),
+      end: new Date('2024-04-01T00:00:00Z'),
+    });
+  });
+});
+
+describe('AIUsageService.assertWithinBudget', () => {
+  const now = new Date('2024-03-15T18:30:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pass while usage is under every limit', async () => {
+    mockPrisma.aIUsageRecord.aggregate.mockResolvedValue(usedSoFar(900, 0.5));
+
+    await expect(
+      AIUsageService.assertWithinBudget('user-1', { period: 'day', tokens: 1000, costUsd: 1 }, now)
+    ).resolves.toBeUndefined();
+    expect(mockPrisma.aIUsageRecord.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1', createdAt: { gte: new Date('2024-03-15T00:00:00Z') } },
+    }));
+  });
+
+  it('should throw with the reset time once a limit is reached', async () => {
+    mockPrisma.aIUsageRecord.aggregate.mockResolvedValue(usedSoFar(200, 1.25));
+
+    const error = await AIUsageService
+      .assertWithinBudget('user-1', { period: 'day', costUsd: 1 }, now)
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AIBudgetExceededError);
+    expect(error.statusCode).toBe(429);
+    expect(error.details).toMatchObject({
+      period: 'day',
+      used: { tokens: 200, costUsd: 1.25 },
+      resetsAt: '2024-03-16T00:00:00.000Z',
+    });
+  });
+
+  it('should not query usage without a budget', async () => {
+    await AIUsageService.assertWithinBudget('user-1', null);
+    expect(mockPrisma.aIUsageRecord.aggregate).not.toHaveBeenCalled();
+  });
+});
+
+describe('usage recording', () => {
+  const originalEnv = process.env;
+  const usage = { userId: 'user-1', projectId: 'project-1', route: '/api/chat' };
+  const messages = [{ role: 'user' as const, content: 'Summarize reef ecology' }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock', AI_CACHE: 'off', AI_BUDGET_TOKENS: '1000', AI_BUDGET_USD: '' };
+    setAICacheStore(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    setAICacheStore(undefined);
+  });
+
+  it('should record the tokens of each call for the user and project', async () => {
+    mockPrisma.aIUsageRecord.aggregate.mockResolvedValue(usedSoFar(0, 0));
+
+    const completion = await generateText('chat', messages, { usage });
+
+    expect(mockPrisma.aIUsageRecord.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        projectId: 'project-1',
+        route: '/api/chat',
+        task: 'chat',
+        provider: 'mock',
+        totalTokens: completion.usage!.totalTokens,
+        costUsd: 0,
+        cached: false,
+      }),
+    });
+  });
+
+  it('should refuse to call the model once the budget is spent', async () => {
+    mockPrisma.aIUsageRecord.aggregate.mockResolvedValue(usedSoFar(1000, 0));
+    const complete = jest.spyOn(getAIProvider(), 'complete');
+
+    await expect(generateText('chat', messages, { usage })).rejects.toBeInstanceOf(AIBudgetExceededError);
+    expect(complete).not.toHaveBeenCalled();
+    expect(mockPrisma.aIUsageRecord.create).not.toHaveBeenCalled();
+  });
+
+  it('should neither check nor record calls made without a user', async () => {
+    await generateText('chat', messages);
+
+    expect(mockPrisma.aIUsageRecord.aggregate).not.toHaveBeenCalled();
+    expect(mockPrisma.aIUsageRecord.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Tests for the AI layer's model selection, JSON reply parsing and cancellation
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AI_JSON_MAX_ATTEMPTS, generateJSON, generateText, getAIProvider, isAIConfigured, parseJSONResponse, repairJSON } from '@/lib/ai';
+import { aiCacheKey, createMemoryCacheStore, setAICacheStore } from '@/lib/ai/cache';
+import { resolveTaskModel } from '@/lib/ai/config';
+import { AIRequestAbortedError, AIResponseError } from '@/lib/error-handling';
+import { applyRateLimit, releaseRateLimit } from '@/lib/rate-limit';
+import { AIUsageService } from '@/lib/services/ai-usage';
+import { NodeRepository } from '@/lib/services/node-repository';
+import { requireResearchScope } from '@/lib/services/research-scope';
+import { POST as generateContent } from '@/app/api/ai/generate-content/route';
+import { POST as refineText } from '@/app/api/ai/refine-text/route';
+
+// The editor routes stream through the ai package, which needs web streams jsdom lacks
+jest.mock('ai', () => ({
+  StreamingTextResponse: class {},
+}));
+
+jest.mock('@/lib/services/research-scope', () => ({
+  requireResearchScope: jest.fn().mockResolvedValue({ userId: 'user-1' }),
+}));
+
+describe('parseJSONResponse', () => {
+  it('should parse plain JSON', () => {
+    expect(parseJSONResponse('{"nodes": []}')).toEqual({ nodes: [] });
+  });
+
+  it('should strip code fences', () => {
+    expect(parseJSONResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('should find the object inside surrounding prose', () => {
+    expect(parseJSONResponse('Here you go: {"a": {"b": 2}} Hope that helps.')).toEqual({ a: { b: 2 } });
+  });
+
+  it('should throw AIResponseError with the raw text when there is no JSON', () => {
+    expect.assertions(2);
+    try {
+      parseJSONResponse('Sorry, I cannot help with that.');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AIResponseError);
+      expect((error as AIResponseError).details).toEqual({ text: 'Sorry, I cannot help with that.' });
+    }
+  });
+});
+
+describe('repairJSON', () => {
+  it('should drop prose after the object closes', () => {
+    expect(repairJSON('{"a": "}"} and that is all {"b": 1}')).toBe('{"a": "}"}');
+  });
+
+  it('should close a reply truncated mid-string', () => {
+    expect(JSON.parse(repairJSON('{"nodes": [{"title": "Coral')!)).toEqual({ nodes: [{ title: 'Coral' }] });
+  });
+
+  it('should remove trailing commas and dangling keys', () => {
+    expect(JSON.parse(repairJSON('{"a": [1, 2,], "b":')!)).toEqual({ a: [1, 2], b: null });
+  });
+
+  it('should return null when there is no object', () => {
+    expect(repairJSON('no json here')).toBeNull();
+  });
+});
+
+describe('generateJSON validation', () => {
+  const originalEnv = process.env;
+  const schema = z.object({ nodes: z.array(z.object({ title: z.string() })).min(1) });
+  const reply = (text: string) => ({ text, provider: 'mock', model: 'mock-1' });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should retry with the validation problems and return the corrected reply', async () => {
+    const complete = jest.spyOn(getAIProvider(), 'complete')
+      .mockResolvedValueOnce(reply('{"nodes": []}'))
+      .mockResolvedValueOnce(reply('{"nodes": [{"title": "Reefs"}]}'));
+
+    const { data } = await generateJSON('search', [{ role: 'user', content: 'Find reefs' }], { schema });
+
+    expect(data).toEqual({ nodes: [{ title: 'Reefs' }] });
+    expect(complete).toHaveBeenCalledTimes(2);
+
+    const retry = complete.mock.calls[1][0].messages;
+    expect(retry[1]).toEqual({ role: 'assistant', content: '{"nodes": []}' });
+    expect(retry[2].content).toContain('nodes');
+  });
+
+  it('should throw AIResponseError with the issues once attempts run out', async () => {
+    const complete = jest.spyOn(getAIProvider(), 'complete').mockResolvedValue(reply('{"nodes": [{}]}'));
+
+    await expect(generateJSON('search', [{ role: 'user', content: 'Find reefs' }], { schema }))
+      .rejects.toMatchObject({ code: 'INVALID_AI_RESPONSE', details: { issues: ['nodes.0.title: Required'] } });
+    expect(complete).toHaveBeenCalledTimes(AI_JSON_MAX_ATTEMPTS);
+  });
+});
+
+describe('resolveTaskModel', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.AI_MODEL;
+    delete process.env.AI_MODEL_GENERATE_CONTENT;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should use the task model for the provider, then the provider default', () => {
+    expect(resolveTaskModel('generate-content', 'openai', 'gpt-4o-mini')).toBe('gpt-4');
+    expect(resolveTaskModel('generate-content', 'gemini', 'gemini-1.5-flash-latest')).toBe('gemini-1.5-flash-latest');
+  });
+
+  it('should prefer AI_MODEL_<TASK> over AI_MODEL', () => {
+    process.env.AI_MODEL = 'everywhere';
+    process.env.AI_MODEL_GENERATE_CONTENT = 'content-only';
+
+    expect(resolveTaskModel('generate-content', 'openai', 'gpt-4o-mini')).toBe('content-only');
+    expect(resolveTaskModel('chat', 'openai', 'gpt-4o-mini')).toBe('everywhere');
+  });
+});
+
+describe('mock provider', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock' };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should only be used when AI_PROVIDER selects it', () => {
+    expect(getAIProvider().name).toBe('mock');
+
+    process.env = { ...originalEnv, OPENAI_API_KEY: '', GEMINI_API_KEY: '' };
+    delete process.env.AI_PROVIDER;
+    expect(getAIProvider().name).not.toBe('mock');
+  });
+
+  it('should answer search prompts with nodes about the query, deterministically', async () => {
+    const messages = [{ role: 'system' as const, content: 'Search Query: "coral reefs"\nResearch Perspective: "general"' }];
+
+    const first = await generateJSON('search', messages);
+    const second = await generateJSON('search', messages);
+
+    expect(first.data).toEqual(second.data);
+    expect(first.data.query).toBe('coral reefs');
+    expect(first.data.nodes.length).toBeGreaterThanOrEqual(8);
+    expect(first.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should drill one level below the parent node', async () => {
+    const { data } = await generateJSON('drill-down', [
+      { role: 'system', content: '- Title: "Bleaching"\n- Target Depth: 2\n"parentNode": {\n    "id": "node-7"' },
+    ]);
+
+    expect(data.drillDownNodes.every((node: any) => node.depth === 2 && node.parentId === 'node-7')).toBe(true);
+    expect(data.drillDownNodes[0].title).toContain('Bleaching');
+  });
+
+  it('should stream the same text it completes', async () => {
+    const messages = [{ role: 'user' as const, content: 'What causes bleaching?' }];
+    const { text } = await generateText('chat', messages);
+
+    const chunks: string[] = [];
+    for await (const chunk of getAIProvider().stream({ task: 'chat', model: 'mock-1', messages })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe(text);
+    expect(text).toContain('What causes bleaching?');
+  });
+});
+
+describe('local provider', () => {
+  const originalEnv = process.env;
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should be configured by the base URL alone', () => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'local', LOCAL_AI_BASE_URL: '' };
+    expect(getAIProvider().name).toBe('local');
+    expect(isAIConfigured()).toBe(false);
+
+    process.env.LOCAL_AI_BASE_URL = 'http://localhost:11434/v1';
+    expect(isAIConfigured()).toBe(true);
+  });
+});
+
+describe('response cache', () => {
+  const originalEnv = process.env;
+  const messages = [{ role: 'user' as const, content: 'Summarize reef ecology' }];
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock' };
+    setAICacheStore(createMemoryCacheStore());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    setAICacheStore(undefined);
+  });
+
+  it('should key on the provider, model, prompt and parameters', () => {
+    const request = { task: 'chat' as const, model: 'mock-1', messages, temperature: 0.7, maxTokens: 100 };
+
+    expect(aiCacheKey('mock', request)).toBe(aiCacheKey('mock', { ...request }));
+    expect(aiCacheKey('openai', request)).not.toBe(aiCacheKey('mock', request));
+    expect(aiCacheKey('mock', { ...request, model: 'mock-2' })).not.toBe(aiCacheKey('mock', request));
+    expect(aiCacheKey('mock', { ...request, temperature: 0.2 })).not.toBe(aiCacheKey('mock', request));
+  });
+
+  it('should answer a repeated request from the cache', async () => {
+    const complete = jest.spyOn(getAIProvider(), 'complete');
+
+    const first = await generateText('chat', messages);
+    const second = await generateText('chat', messages);
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(second.text).toBe(first.text);
+    expect(second.cached).toBe(true);
+  });
+
+  it('should fetch a fresh reply when bypassed', async () => {
+    const complete = jest.spyOn(getAIProvider(), 'complete');
+
+    await generateText('chat', messages);
+    await generateText('chat', messages, { bypassCache: true });
+
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache replies that fail validation', async () => {
+    const schema = z.object({ nodes: z.array(z.string()).min(1) });
+    const complete = jest.spyOn(getAIProvider(), 'complete')
+      .mockResolvedValue({ text: '{"nodes": []}', provider: 'mock', model: 'mock-1' });
+
+    await expect(generateJSON('search', messages, { schema })).rejects.toThrow();
+    await expect(generateJSON('search', messages, { schema })).rejects.toThrow();
+
+    expect(complete).toHaveBeenCalledTimes(AI_JSON_MAX_ATTEMPTS * 2);
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const store = createMemoryCacheStore();
+    const completion = { text: 'hi', provider: 'mock', model: 'mock-1' };
+
+    await store.set('fresh', { completion, expires: Date.now() + 60_000 });
+    await store.set('stale', { completion, expires: Date.now() - 1 });
+
+    expect(await store.get('fresh')).not.toBeNull();
+    expect(await store.get('stale')).toBeNull();
+  });
+});
+
+describe('cancellation', () => {
+  const originalEnv = process.env;
+  const messages = [{ role: 'user' as const, content: 'Find reefs' }];
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock' };
+    setAICacheStore(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should not call the provider once the signal has aborted', async () => {
+    const complete = jest.spyOn(getAIProvider(), 'complete');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(generateJSON('search', messages, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AIRequestAbortedError);
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('should pass the signal to the provider and report its abort as AIRequestAbortedError', async () => {
+    const controller = new AbortController();
+    let started: () => void;
+    const providerCalled = new Promise<void>(resolve => { started = resolve; });
+    const complete = jest.spyOn(getAIProvider(), 'complete').mockImplementation(request =>
+      new Promise((_resolve, reject) => {
+        request.signal!.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+        started();
+      })
+    );
+
+    const pending = generateText('search', messages, { signal: controller.signal });
+    await providerCalled;
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AIRequestAbortedError);
+    expect(complete.mock.calls[0][0].signal).toBe(controller.signal);
+  });
+
+  it('should give an aborted request back to the rate limit', async () => {
+    const request = (): NextRequest => ({
+      nextUrl: { pathname: '/api/research/search' },
+      headers: { get: (name: string) => (name === 'x-forwarded-for' ? '203.0.113.7' : null) },
+    }) as unknown as NextRequest;
+    const remaining = (counted: NextRequest) => (counted as any).__rateLimitHeaders['X-RateLimit-Remaining'];
+
+    const first = request();
+    await applyRateLimit(first);
+    releaseRateLimit(first);
+
+    const second = request();
+    await applyRateLimit(second);
+
+    expect(remaining(first)).toBe(remaining(second));
+  });
+
+  describe('editor routes', () => {
+    const routes = [
+      ['generate-content', generateContent, { outline: { title: 'Coral Reefs', sections: [] }, nodeIds: ['node-1'] }],
+      ['refine-text', refineText, { text: 'Reefs are large.', type: 'refine' }],
+    ] as const;
+
+    const request = (body: object, signal: AbortSignal): NextRequest => ({
+      json: async () => body,
+      headers: { get: () => null },
+      signal,
+    }) as unknown as NextRequest;
+
+    beforeEach(() => {
+      jest.spyOn(AIUsageService, 'assertWithinBudget').mockResolvedValue(undefined as any);
+      jest.spyOn(AIUsageService, 'record').mockResolvedValue(undefined as any);
+      jest.spyOn(NodeRepository, 'findByIds').mockResolvedValue([
+        { id: 'node-1', title: 'Coral Reefs', content: 'Reef ecosystems', type: 'topic', depth: 0, sources: [], connections: [] } as any,
+      ]);
+    });
+
+    it.each(routes)('should cancel the %s provider call with the request', async (_route, POST, body) => {
+      const controller = new AbortController();
+      let started: () => void;
+      const providerCalled = new Promise<void>(resolve => { started = resolve; });
+      const complete = jest.spyOn(getAIProvider(), 'complete').mockImplementation(providerRequest =>
+        new Promise((_resolve, reject) => {
+          providerRequest.signal!.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+          started();
+        })
+      );
+
+      const pending = POST(request(body, controller.signal));
+      await providerCalled;
+      controller.abort();
+
+      expect((await pending).status).toBe(499);
+      expect(complete.mock.calls[0][0].signal).toBe(controller.signal);
+    });
+
+    it.each(routes)('should refuse signed-out %s requests without calling the provider', async (_route, POST, body) => {
+      (requireResearchScope as jest.Mock).mockResolvedValueOnce(
+        NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+      );
+      const complete = jest.spyOn(getAIProvider(), 'complete');
+
+      const response = await POST(request(body, new AbortController().signal));
+
+      expect(response.status).toBe(401);
+      expect(complete).not.toHaveBeenCalled();
+    });
+
+    it.each(routes)('should not start the %s stream once the request is cancelled', async (_route, POST, body) => {
+      const stream = jest.spyOn(getAIProvider(), 'stream');
+      const controller = new AbortController();
+      controller.abort();
+
+      const response = await POST(request({ ...body, stream: true }, controller.signal));
+
+      expect(response.status).toBe(499);
+      expect(stream).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -17,6 +17,7 @@ jest.mock('@/lib/db', () => ({
       count: jest.fn(),
       create: jest.fn(),
       findFirst: jest.fn(),
+      update: jest.fn(),
       delete: jest.fn(),
     },
   },
@@ -134,7 +135,7 @@ describe('Projects API', () => {
       }
 
       mockPrisma.savedPath.findFirst.mockResolvedValue(mockProject)
-      mockPrisma.savedPath.delete.mockResolvedValue(mockProject)
+      mockPrisma.savedPath.update.mockResolvedValue(mockProject)
 
       const request = new NextRequest('http://localhost:3000/api/projects/project-1', {
         method: 'DELETE',
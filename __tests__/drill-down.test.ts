@@ -0,0 +1,128 @@
+/**
+ * Tests for drill-down generation and breadth-first auto-explore
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+jest.mock('@/lib/services/research-scope', () => ({
+  requireResearchScope: jest.fn().mockResolvedValue({ userId: 'user-1' }),
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  applyRateLimit: jest.fn().mockResolvedValue(null),
+}));
+
+import { getAIProvider } from '@/lib/ai';
+import { createMemoryCacheStore, setAICacheStore } from '@/lib/ai/cache';
+import { AIRequestAbortedError } from '@/lib/error-handling';
+import { DrillDownService, ExploreLevel, ExploreOptions } from '@/lib/services/drill-down';
+import { NodeRepository } from '@/lib/services/node-repository';
+import { POST } from '@/app/api/research/drill-down/route';
+import type { NextRequest } from 'next/server';
+
+const scope = { userId: 'user-1' };
+const root = { id: 'root', title: 'Coral Reefs', content: 'Reef ecosystems', type: 'topic', depth: 0 };
+
+async function explore(options: ExploreOptions, signal?: AbortSignal): Promise<ExploreLevel[]> {
+  const levels: ExploreLevel[] = [];
+  for await (const level of DrillDownService.explore(scope, root, options, { signal })) {
+    levels.push(level);
+  }
+  return levels;
+}
+
+describe('DrillDownService.explore', () => {
+  const originalEnv = process.env;
+  let findNodes: jest.SpyInstance;
+  let createNodes: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock' };
+    setAICacheStore(createMemoryCacheStore());
+    jest.spyOn(NodeRepository, 'findAncestors').mockResolvedValue([]);
+    findNodes = jest.spyOn(NodeRepository, 'findNodes').mockResolvedValue({ nodes: [], total: 0 });
+    // Stored nodes keep their title and get an ID derived from the model's
+    createNodes = jest.spyOn(NodeRepository, 'createNodes').mockImplementation(async (_scope, inputs) =>
+      inputs.map(input => ({ id: `db-${input.key}`, title: input.title }) as any)
+    );
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setAICacheStore(undefined);
+    jest.restoreAllMocks();
+  });
+
+  it('should expand level by level, storing each child under its parent', async () => {
+    const levels = await explore({ levels: 2, breadth: 2, maxNodes: 50 });
+
+    expect(levels.map(level => [level.depth, level.nodes.length, level.total])).toEqual([[1, 2, 2], [2, 4, 6]]);
+    expect(levels[1].nodes.map(node => node.parentId)).toEqual([
+      levels[0].nodes[0].id, levels[0].nodes[0].id,
+      levels[0].nodes[1].id, levels[0].nodes[1].id,
+    ]);
+    expect(levels[1].nodes.every(node => node.type === 'detail' && node.id.startsWith('db-'))).toBe(true);
+    expect(createNodes).toHaveBeenCalledTimes(3);
+    expect(levels[0].promptVersion).toBe('research.drill-down@2');
+  });
+
+  it('should stop at the node cap', async () => {
+    const levels = await explore({ levels: 3, breadth: 3, maxNodes: 5 });
+
+    expect(levels.map(level => level.nodes.length)).toEqual([3, 2]);
+    expect(levels[1].total).toBe(5);
+  });
+
+  it('should not repeat the titles of ancestors or existing children', async () => {
+    jest.spyOn(NodeRepository, 'findAncestors').mockResolvedValue([{ title: 'Oceans' } as any]);
+    findNodes.mockResolvedValue({ nodes: [{ title: 'coral reefs:  key mechanisms' }], total: 1 });
+    const complete = jest.spyOn(getAIProvider(), 'complete');
+
+    const [level] = await explore({ levels: 1, breadth: 3, maxNodes: 50 });
+
+    expect(level.nodes.map(node => node.title)).toEqual([
+      'Coral Reefs: Empirical Evidence',
+      'Coral Reefs: Competing Interpretations',
+      'Coral Reefs: Measurement and Methods',
+    ]);
+    expect(findNodes).toHaveBeenCalledWith(scope, { parentId: 'root' });
+    const prompt = complete.mock.calls[0][0].messages[0].content;
+    expect(prompt).toContain('Generate 3 research nodes');
+    expect(prompt).toContain('ALREADY COVERED (do not repeat these titles or close variants of them):\n- "Oceans"\n- "Coral Reefs"\n- "coral reefs:  key mechanisms"');
+  });
+
+  it('should stop between expansions once the request is cancelled', async () => {
+    const controller = new AbortController();
+    const levels = DrillDownService.explore(scope, root, { levels: 2, breadth: 2, maxNodes: 50 }, { signal: controller.signal });
+
+    await levels.next();
+    controller.abort();
+
+    await expect(levels.next()).rejects.toBeInstanceOf(AIRequestAbortedError);
+  });
+});
+
+describe('POST /api/research/drill-down', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject requests without the node to drill into', async () => {
+    const generate = jest.spyOn(DrillDownService, 'generate');
+    const addChildren = jest.spyOn(NodeRepository, 'addChildren');
+
+    const request = {
+      json: async () => ({ title: 'Coral Reefs', content: 'Reef ecosystems', type: 'topic' }),
+      headers: new Headers(),
+      signal: new AbortController().signal,
+    } as unknown as NextRequest;
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(400);
+    expect(generate).not.toHaveBeenCalled();
+    expect(addChildren).not.toHaveBeenCalled();
+  });
+});
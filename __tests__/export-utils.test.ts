@@ -114,6 +114,20 @@ describe('Export Utilities', () => {
       expect(result).toContain('This section covers the main topic');
     });
 
+    it('should keep nesting headings for nodes below detail level', () => {
+      const deepNodes: OutlineNode[] = [
+        { id: '5', title: 'Micro Detail', type: 'micro-detail', depth: 3, order: 0 },
+        { id: '6', title: 'Deeper Still', type: 'micro-detail', depth: 9, order: 1 },
+        { id: '7', title: 'Kind Only', type: 'micro-detail', order: 2 },
+      ];
+      const options: ExportOptions = { format: 'markdown', includeContent: false, includeMetadata: false };
+      const result = convertToMarkdown(deepNodes, undefined, options);
+
+      expect(result).toContain('\n##### Micro Detail');
+      expect(result).toContain('\n###### Deeper Still'); // Headings stop at h6
+      expect(result).toContain('\n##### Kind Only'); // Depth inferred from the kind
+    });
+
     it('should convert nodes to markdown format without content', () => {
       const options: ExportOptions = { format: 'markdown', includeContent: false, includeMetadata: false };
       const result = convertToMarkdown(testNodes, undefined, options);
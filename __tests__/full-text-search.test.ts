@@ -0,0 +1,85 @@
+/**
+ * Tests for BM25 full-text search over research nodes
+ */
+import { buildSearchIndex, parseSearchQuery, searchIndex } from '@/lib/full-text-search';
+
+const documents = [
+  {
+    id: 'bleaching',
+    title: 'Coral Bleaching',
+    content: 'Marine heatwaves push reef corals to expel their algae, turning them white.',
+    sources: ['NOAA Coral Reef Watch'],
+  },
+  {
+    id: 'acidification',
+    title: 'Ocean Acidification',
+    content: 'Absorbed carbon dioxide lowers seawater pH and slows coral reef growth.',
+  },
+  {
+    id: 'fisheries',
+    title: 'Reef Fisheries',
+    content: 'Small-scale fisheries depend on healthy reefs for food security.',
+    sources: ['https://www.fao.org/fishery'],
+  },
+];
+
+describe('full-text search', () => {
+  const index = buildSearchIndex(documents);
+
+  it('should parse words, prefixes and phrases', () => {
+    expect(parseSearchQuery('the Reefs "heat waves" acid*')).toEqual({
+      terms: ['reef'],
+      prefixes: ['acid'],
+      phrases: [['heat', 'wave']],
+    });
+    expect(parseSearchQuery('the')).toEqual({ terms: ['the'], prefixes: [], phrases: [] });
+  });
+
+  it('should rank title matches above matches in the content', () => {
+    const hits = searchIndex(index, 'coral');
+
+    expect(hits.map(hit => hit.id)).toEqual(['bleaching', 'acidification']);
+    expect(hits[0].titleHighlights).toEqual([[0, 5]]);
+  });
+
+  it('should expand prefixes and fold plurals', () => {
+    expect(searchIndex(index, 'acid*').map(hit => hit.id)).toEqual(['acidification']);
+    expect(searchIndex(index, 'fishery').map(hit => hit.id)).toEqual(['fisheries']);
+    expect(searchIndex(index, 'reefs').map(hit => hit.id)).toContain('acidification');
+  });
+
+  it('should require every phrase to appear in order', () => {
+    expect(searchIndex(index, '"coral reef"').map(hit => hit.id).sort()).toEqual(['acidification', 'bleaching']);
+    expect(searchIndex(index, '"reef coral"').map(hit => hit.id)).toEqual(['bleaching']);
+    expect(searchIndex(index, '"coral growth"')).toEqual([]);
+
+    const [hit] = searchIndex(index, '"carbon dioxide" growth');
+    expect(hit.snippet.text.slice(hit.snippet.highlights[0][0], hit.snippet.highlights[0][1])).toBe('carbon dioxide');
+  });
+
+  it('should search source titles and URLs', () => {
+    const [hit] = searchIndex(index, 'fao');
+
+    expect(hit.id).toBe('fisheries');
+    expect(hit.snippet).toEqual({ field: 'sources', text: 'https://www.fao.org/fishery', highlights: [[12, 15]] });
+  });
+
+  it('should cut long content to a snippet around the first match', () => {
+    const long = buildSearchIndex([{
+      id: 'long',
+      title: 'Long',
+      content: `${'Filler words about nothing in particular. '.repeat(10)}The keyword appears here. ${'More filler. '.repeat(10)}`,
+    }]);
+
+    const { snippet } = searchIndex(long, 'keyword')[0];
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(162);
+    const [start, end] = snippet.highlights[0];
+    expect(snippet.text.slice(start, end)).toBe('keyword');
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(searchIndex(index, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for TF-IDF related-node suggestions
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+import { NodeRecommendationService } from '@/lib/services/node-recommendations';
+import { NodeRepository, ResearchNode } from '@/lib/services/node-repository';
+import { cosineSimilarity, inverseDocumentFrequencies, termCounts, tfidfVector } from '@/lib/term-vectors';
+
+const scope = { userId: 'user-1' };
+
+const node = (id: string, title: string, content: string, overrides: Partial<ResearchNode> = {}): ResearchNode => ({
+  id,
+  title,
+  content,
+  type: 'topic',
+  depth: 0,
+  lens: 'Science',
+  detailLevel: 'medium',
+  confidence: null,
+  tags: [],
+  parentId: null,
+  projectId: null,
+  promptVersion: null,
+  termCounts: null,
+  sources: [],
+  connections: [],
+  edges: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+describe('term vectors', () => {
+  it('should count title terms double and skip stop words and numbers', () => {
+    expect(termCounts('Coral Reefs', 'The reef in 2024 and its corals')).toEqual({ coral: 3, reef: 3 });
+  });
+
+  it('should score identical texts 1 and unrelated texts 0', () => {
+    const documents = [termCounts('Coral reefs'), termCounts('Coral reefs'), termCounts('Stock markets')];
+    const idf = inverseDocumentFrequencies(documents);
+    const [a, b, c] = documents.map(counts => tfidfVector(counts, idf));
+
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+    expect(cosineSimilarity(a, c)).toBe(0);
+  });
+});
+
+describe('NodeRecommendationService.findRelated', () => {
+  const selected = node('sel', 'Coral Bleaching', 'Marine heatwaves bleach coral reefs and kill algae', {
+    connections: ['linked'],
+    parentId: 'parent',
+  });
+
+  beforeEach(() => {
+    jest.spyOn(NodeRepository, 'findByIds').mockResolvedValue([selected]);
+    jest.spyOn(NodeRepository, 'findNodes').mockResolvedValue({
+      nodes: [
+        selected,
+        node('linked', 'Coral Bleaching Events', 'Mass coral bleaching during heatwaves'),
+        node('parent', 'Coral Reefs', 'Reef ecosystems'),
+        node('child', 'Bleaching Recovery', 'How bleached coral recovers', { parentId: 'sel' }),
+        node('heat', 'Marine Heatwaves', 'Heatwaves warm the ocean and stress coral', {
+          termCounts: termCounts('Marine Heatwaves', 'Heatwaves warm the ocean and stress coral'),
+        }),
+        node('algae', 'Symbiotic Algae', 'Algae living inside coral tissue'),
+        node('stocks', 'Stock Markets', 'Equity prices and trading volume'),
+      ],
+      total: 7,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should rank unconnected nodes by similarity with their shared terms', async () => {
+    const related = await NodeRecommendationService.findRelated(scope, 'sel');
+
+    expect(related.map(candidate => candidate.id)).toEqual(['heat', 'algae']);
+    expect(related[0].sharedTerms).toEqual(expect.arrayContaining(['heatwave', 'marine', 'coral']));
+    expect(related[0].score).toBeGreaterThan(related[1].score);
+  });
+
+  it('should honour the limit and the minimum score', async () => {
+    expect(await NodeRecommendationService.findRelated(scope, 'sel', { limit: 1 })).toHaveLength(1);
+    expect(await NodeRecommendationService.findRelated(scope, 'sel', { minScore: 0.99 })).toEqual([]);
+  });
+
+  it('should reject a node outside the scope', async () => {
+    jest.spyOn(NodeRepository, 'findByIds').mockResolvedValue([]);
+
+    await expect(NodeRecommendationService.findRelated(scope, 'missing')).rejects.toThrow('Node not found');
+  });
+});
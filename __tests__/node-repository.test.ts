@@ -0,0 +1,379 @@
+/**
+ * Tests for the research node repository
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    node: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    edge: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    source: {
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+import prisma from '@/lib/db';
+import {
+  NodeRepository,
+  ResearchNode,
+  fromGeneratedNode,
+  primarySource,
+  withStoredIds,
+} from '@/lib/services/node-repository';
+
+const mockPrisma = prisma as any;
+const scope = { userId: 'user-1' };
+
+const storedNode = (id: string, overrides: Partial<ResearchNode> = {}): ResearchNode => ({
+  id,
+  title: `Node ${id}`,
+  content: 'Content',
+  type: 'topic',
+  depth: 0,
+  lens: 'Science',
+  detailLevel: 'medium',
+  confidence: null,
+  tags: [],
+  parentId: null,
+  projectId: null,
+  promptVersion: null,
+  termCounts: null,
+  sources: [],
+  connections: [],
+  edges: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+describe('NodeRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findByIds', () => {
+    it('should return nodes in the requested order and merge both edge directions', async () => {
+      const edge = (sourceId: string, targetId: string) => ({
+        id: `${sourceId}-${targetId}`, sourceId, targetId, type: 'related', weight: 1, provenance: null,
+      });
+      mockPrisma.node.findMany.mockResolvedValue([
+        { ...storedNode('b'), outgoing: [edge('b', 'a')], incoming: [] },
+        { ...storedNode('a'), outgoing: [edge('a', 'c')], incoming: [edge('b', 'a')] },
+      ]);
+
+      const nodes = await NodeRepository.findByIds(scope, ['a', 'missing', 'b']);
+
+      expect(mockPrisma.node.findMany.mock.calls[0][0].where).toEqual({
+        id: { in: ['a', 'missing', 'b'] },
+        userId: 'user-1',
+      });
+      expect(nodes.map(n => n.id)).toEqual(['a', 'b']);
+      expect(nodes[0].connections).toEqual(['c', 'b']);
+      expect(nodes[0].edges).toHaveLength(2);
+      expect(nodes[1].connections).toEqual(['a']);
+    });
+
+    it('should not query the database for an empty ID list', async () => {
+      await expect(NodeRepository.findByIds(scope, [])).resolves.toEqual([]);
+      expect(mockPrisma.node.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createNodes', () => {
+    it('should resolve batch keys into typed edges and drop unknown targets', async () => {
+      let created = 0;
+      mockPrisma.node.create.mockImplementation(() => Promise.resolve({ id: `db-${++created}` }));
+      mockPrisma.node.findMany
+        .mockResolvedValueOnce([{ id: 'parent' }]) // existing external targets
+        .mockResolvedValueOnce([]); // final findByIds
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+
+      await NodeRepository.createNodes(scope, [
+        {
+          key: 'n1',
+          title: 'One',
+          content: 'First',
+          connections: ['n2', 'parent'],
+          relationships: [{ target: 'parent', type: 'part-of', weight: 1 }],
+          provenance: 'drill-down',
+        },
+        { key: 'n2', title: 'Two', content: 'Second', connections: ['n1', 'missing'] },
+      ]);
+
+      expect(mockPrisma.edge.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ sourceId: 'db-1', targetId: 'parent', type: 'part-of', provenance: 'drill-down' }),
+          expect.objectContaining({ sourceId: 'db-1', targetId: 'db-2', type: 'related', userId: 'user-1' }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe('addChildren', () => {
+    it('should keep existing children and reuse those with a repeated title', async () => {
+      mockPrisma.$transaction.mockImplementation((arg: any) => (typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)));
+      mockPrisma.node.findMany
+        .mockResolvedValueOnce([{ ...storedNode('old', { title: 'Key  Mechanisms', parentId: 'parent' }), outgoing: [], incoming: [] }])
+        .mockResolvedValueOnce([{ id: 'parent' }]) // existing external targets
+        .mockResolvedValueOnce([{ ...storedNode('db-1', { title: 'Case Studies' }), outgoing: [], incoming: [] }]);
+      mockPrisma.node.count.mockResolvedValue(1);
+      mockPrisma.node.create.mockResolvedValue({ id: 'db-1' });
+
+      const stored = await NodeRepository.addChildren(scope, 'parent', [
+        { key: 'g1', title: 'key mechanisms', content: 'Repeat' },
+        { key: 'g2', title: 'Case Studies', content: 'New', connections: ['g1', 'parent'] },
+      ]);
+
+      expect(mockPrisma.node.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.node.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.node.create.mock.calls[0][0].data).toMatchObject({ title: 'Case Studies', parentId: 'parent' });
+      expect(mockPrisma.node.findMany.mock.calls[1][0].where.id.in).toEqual(['old', 'parent']);
+      expect(stored.map(node => node.id)).toEqual(['old', 'db-1']);
+    });
+  });
+
+  describe('findNodes', () => {
+    it('should translate filters into a Prisma where clause', async () => {
+      mockPrisma.$transaction.mockImplementation((queries: any[]) => Promise.all(queries));
+      mockPrisma.node.findMany.mockResolvedValue([]);
+      mockPrisma.node.count.mockResolvedValue(0);
+
+      await NodeRepository.findNodes(
+        scope,
+        { lens: 'science', detailLevel: 'low', types: ['topic'] },
+        { offset: 10, limit: 5, sortBy: 'title', sortOrder: 'desc' }
+      );
+
+      const args = mockPrisma.node.findMany.mock.calls[0][0];
+      expect(args.where.AND).toEqual([
+        { userId: 'user-1' },
+        { lens: { equals: 'science', mode: 'insensitive' } },
+        { detailLevel: { in: ['low', 'medium'] } },
+        { type: { in: ['topic'] } },
+      ]);
+      expect(args.orderBy).toEqual([{ title: 'desc' }, { createdAt: 'asc' }]);
+      expect(args.skip).toBe(10);
+      expect(args.take).toBe(5);
+    });
+
+    it('should narrow the ownership filter to a project when one is given', async () => {
+      mockPrisma.$transaction.mockImplementation((queries: any[]) => Promise.all(queries));
+      mockPrisma.node.findMany.mockResolvedValue([]);
+      mockPrisma.node.count.mockResolvedValue(0);
+
+      await NodeRepository.findNodes({ userId: 'user-1', projectId: 'project-1' });
+
+      const args = mockPrisma.node.findMany.mock.calls[0][0];
+      expect(args.where.AND).toEqual([{ userId: 'user-1', projectId: 'project-1' }]);
+      expect(mockPrisma.node.count).toHaveBeenCalledWith({ where: args.where });
+    });
+  });
+
+  describe('mergeNodes', () => {
+    const row = (id: string, overrides: Record<string, unknown> = {}) => ({
+      ...storedNode(id), sources: [], conflicts: [], ...overrides,
+    });
+    const edge = (id: string, sourceId: string, targetId: string) => ({
+      id, sourceId, targetId, type: 'related', weight: 1, provenance: null, userId: 'user-1', createdAt: new Date(),
+    });
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    });
+
+    it('should move edges, new sources and children to the target before deleting the duplicate', async () => {
+      mockPrisma.node.findMany
+        .mockResolvedValueOnce([
+          row('keep', { tags: ['reef'], confidence: 0.6, sources: [{ id: 's1', url: 'https://a.org', title: 'A' }] }),
+          row('dup', {
+            tags: ['reef', 'ocean'],
+            confidence: 0.8,
+            sources: [{ id: 's2', url: 'https://a.org', title: 'A' }, { id: 's3', url: null, title: 'B' }],
+            conflicts: [{ id: 'c1' }],
+          }),
+        ])
+        .mockResolvedValueOnce([{ ...storedNode('keep'), outgoing: [], incoming: [] }]); // final findByIds
+      mockPrisma.edge.findMany.mockResolvedValue([edge('e1', 'dup', 'other'), edge('e2', 'keep', 'dup')]);
+
+      const node = await NodeRepository.mergeNodes(scope, 'keep', ['dup', 'keep']);
+
+      expect(mockPrisma.edge.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['e1', 'e2'] } } });
+      expect(mockPrisma.edge.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ sourceId: 'keep', targetId: 'other' })],
+        skipDuplicates: true,
+      });
+      expect(mockPrisma.source.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['s3'] } },
+        data: { nodeId: 'keep' },
+      });
+      expect(mockPrisma.node.updateMany).toHaveBeenCalledWith({
+        where: { parentId: { in: ['dup'] }, id: { not: 'keep' }, userId: 'user-1' },
+        data: { parentId: 'keep' },
+      });
+      expect(mockPrisma.node.update).toHaveBeenCalledWith({
+        where: { id: 'keep' },
+        data: {
+          parentId: null,
+          tags: ['reef', 'ocean'],
+          confidence: 0.8,
+          conflicts: { connect: [{ id: 'c1' }] },
+        },
+      });
+      expect(mockPrisma.node.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['dup'] }, userId: 'user-1' } });
+      expect(node.id).toBe('keep');
+    });
+
+    it('should give a target nested under a duplicate that duplicate\'s parent', async () => {
+      mockPrisma.node.findMany
+        .mockResolvedValueOnce([row('child', { parentId: 'dup' }), row('dup', { parentId: 'root' })])
+        .mockResolvedValueOnce([{ ...storedNode('child'), outgoing: [], incoming: [] }]);
+      mockPrisma.edge.findMany.mockResolvedValue([]);
+
+      await NodeRepository.mergeNodes(scope, 'child', ['dup']);
+
+      expect(mockPrisma.node.update.mock.calls[0][0].data.parentId).toBe('root');
+    });
+
+    it('should reject merges with no other node or a node outside the scope', async () => {
+      await expect(NodeRepository.mergeNodes(scope, 'keep', ['keep'])).rejects.toThrow('Choose at least one other node');
+
+      mockPrisma.node.findMany.mockResolvedValueOnce([row('keep')]);
+      await expect(NodeRepository.mergeNodes(scope, 'keep', ['elsewhere'])).rejects.toThrow('Node not found');
+      expect(mockPrisma.node.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('connectNodes', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+      mockPrisma.node.count.mockResolvedValue(2);
+    });
+
+    it('should store a typed edge between two nodes in scope', async () => {
+      mockPrisma.edge.count.mockResolvedValue(0);
+      mockPrisma.edge.createMany.mockResolvedValue({ count: 1 });
+
+      const created = await NodeRepository.connectNodes(scope, 'a', 'b', { type: 'supports', weight: 0.5, provenance: 'manual' });
+
+      expect(created).toBe(true);
+      expect(mockPrisma.node.count).toHaveBeenCalledWith({ where: { id: { in: ['a', 'b'] }, userId: 'user-1' } });
+      expect(mockPrisma.edge.count).toHaveBeenCalledWith({
+        where: { type: 'supports', OR: [{ sourceId: 'a', targetId: 'b' }] },
+      });
+      expect(mockPrisma.edge.createMany).toHaveBeenCalledWith({
+        data: [{
+          sourceId: 'a', targetId: 'b', type: 'supports', weight: 0.5, provenance: 'manual', userId: 'user-1', projectId: null,
+        }],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should report an edge stored by a concurrent request as already connected', async () => {
+      mockPrisma.edge.count.mockResolvedValue(0);
+      mockPrisma.edge.createMany.mockResolvedValue({ count: 0 });
+
+      expect(await NodeRepository.connectNodes(scope, 'a', 'b', { type: 'supports', weight: 0.5 })).toBe(false);
+    });
+
+    it('should not repeat a related edge stored in the other direction', async () => {
+      mockPrisma.edge.count.mockResolvedValue(1);
+
+      const created = await NodeRepository.connectNodes(scope, 'a', 'b', { type: 'related', weight: 1 });
+
+      expect(created).toBe(false);
+      expect(mockPrisma.edge.count.mock.calls[0][0].where.OR).toEqual([
+        { sourceId: 'a', targetId: 'b' },
+        { sourceId: 'b', targetId: 'a' },
+      ]);
+      expect(mockPrisma.edge.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject self-links and nodes outside the scope', async () => {
+      await expect(NodeRepository.connectNodes(scope, 'a', 'a', { type: 'related', weight: 1 })).rejects.toThrow('itself');
+
+      mockPrisma.node.count.mockResolvedValue(1);
+      await expect(NodeRepository.connectNodes(scope, 'a', 'elsewhere', { type: 'related', weight: 1 })).rejects.toThrow('Node not found');
+      expect(mockPrisma.edge.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('generated node helpers', () => {
+  it('should map a generated node to repository input keyed by its model ID', () => {
+    const input = fromGeneratedNode({
+      id: 'node-1',
+      title: 'Title',
+      content: 'Body',
+      type: 'subtopic',
+      source: 'Some paper',
+      connections: ['node-2'],
+    });
+
+    expect(input.key).toBe('node-1');
+    expect(input.sources).toEqual([{ title: 'Some paper' }]);
+    expect(input.connections).toEqual(['node-2']);
+  });
+
+  it('should normalize model relationships and fall back to related', () => {
+    const input = fromGeneratedNode({
+      title: 'Title',
+      content: 'Body',
+      relationships: [
+        { target: 'a', type: 'Example Of', weight: 3, note: 'Case study' },
+        { targetId: 'b', type: 'refutes' },
+        { type: 'supports' },
+      ],
+    }, 'chat');
+
+    expect(input.relationships).toEqual([
+      { target: 'a', type: 'example-of', weight: 1, provenance: 'Case study' },
+      { target: 'b', type: 'related', weight: 1, provenance: undefined },
+    ]);
+    expect(input.provenance).toBe('chat');
+  });
+
+  it('should replace generated IDs and batch references with stored IDs', () => {
+    const generated = [
+      {
+        id: 'node-1',
+        connections: ['node-2', 'parent'],
+        conflicts: ['node-2'],
+        relationships: [{ target: 'node-2', type: 'supports' as const, weight: 0.5 }],
+        extra: true,
+      },
+      { id: 'node-2', connections: ['node-1'] },
+    ];
+
+    const result = withStoredIds(generated, [storedNode('db-1'), storedNode('db-2')]);
+
+    expect(result[0]).toEqual({
+      id: 'db-1',
+      connections: ['db-2', 'parent'],
+      conflicts: ['db-2'],
+      relationships: [{ target: 'db-2', type: 'supports', weight: 0.5 }],
+      extra: true,
+    });
+    expect(result[1]).toEqual({ id: 'db-2', connections: ['db-1'] });
+  });
+
+  it('should prefer the source title over its URL', () => {
+    expect(primarySource(storedNode('a', { sources: [{ id: 's', url: 'https://x.org', title: 'X' }] }))).toBe('X');
+    expect(primarySource(storedNode('a', { sources: [{ id: 's', url: 'https://x.org', title: null }] }))).toBe('https://x.org');
+    expect(primarySource(storedNode('a'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for searching stored nodes with lens and depth facets
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+import { MAX_INDEXED_NODES, NodeSearchService } from '@/lib/services/node-search';
+import { NodeRepository, ResearchNode } from '@/lib/services/node-repository';
+
+const scope = { userId: 'user-1' };
+
+const node = (id: string, title: string, lens: string, depth: number): ResearchNode => ({
+  id,
+  title,
+  content: `${title} in detail`,
+  type: depth === 0 ? 'topic' : 'subtopic',
+  depth,
+  lens,
+  detailLevel: 'medium',
+  confidence: null,
+  tags: [],
+  parentId: null,
+  projectId: null,
+  promptVersion: null,
+  termCounts: null,
+  sources: [],
+  connections: [],
+  edges: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+describe('NodeSearchService', () => {
+  let findNodes: jest.SpyInstance;
+
+  beforeEach(() => {
+    findNodes = jest.spyOn(NodeRepository, 'findNodes').mockResolvedValue({
+      nodes: [
+        node('a', 'Reef Ecology', 'Biology', 0),
+        node('b', 'Reef Tourism', 'Economics', 1),
+        node('c', 'Reef Genetics', 'Biology', 1),
+        node('d', 'Deep Sea Mining', 'Economics', 0),
+      ],
+      total: 4,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count facets over all matches and filter by lens and depth', async () => {
+    const response = await NodeSearchService.search(scope, 'reef', { lens: 'biology', depth: 1 });
+
+    expect(findNodes).toHaveBeenCalledWith(scope, {}, { limit: MAX_INDEXED_NODES, sortBy: 'updatedAt', sortOrder: 'desc' });
+    expect(response.results.map(result => result.id)).toEqual(['c']);
+    expect(response.total).toBe(1);
+    expect(response.facets).toEqual({
+      lens: [{ value: 'Biology', count: 2 }, { value: 'Economics', count: 1 }],
+      depth: [{ value: 0, count: 1 }, { value: 1, count: 2 }],
+    });
+    expect(response.indexed).toBe(4);
+  });
+
+  it('should page through results', async () => {
+    const response = await NodeSearchService.search(scope, 'reef', { offset: 1, limit: 1 });
+
+    expect(response.results).toHaveLength(1);
+    expect(response.total).toBe(3);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for local duplicate detection
+ */
+import { findDuplicateCandidates, nodeSimilarity, shingles, titleTokens } from '@/lib/node-similarity';
+
+describe('node similarity', () => {
+  it('should normalize titles and drop stop words', () => {
+    expect(Array.from(titleTokens('The Basics of Machine-Learning'))).toEqual(['basic', 'machine', 'learning']);
+    expect(shingles('One two three four')).toEqual(new Set(['one two three', 'two three four']));
+    expect(shingles('Short text')).toEqual(new Set(['short text']));
+  });
+
+  it('should treat identical titles as duplicates whatever the content', () => {
+    const result = nodeSimilarity(
+      { id: 'a', title: 'Coral Bleaching', content: 'Warming oceans stress reef corals.' },
+      { id: 'b', title: 'coral  bleaching!', content: 'A completely different description.' }
+    );
+
+    expect(result.score).toBeGreaterThanOrEqual(0.9);
+    expect(result.reasons).toEqual(['Same title']);
+  });
+
+  it('should combine similar titles, overlapping content and shared sources', () => {
+    const content = 'Supervised models learn a mapping from labelled examples to predictions';
+    const result = nodeSimilarity(
+      { id: 'a', title: 'Machine Learning Basics', content, sources: ['https://www.example.org/ml/'] },
+      { id: 'b', title: 'Basic Machine Learning', content: `${content} on new data`, sources: ['http://example.org/ml'] }
+    );
+
+    expect(result.scores.title).toBe(1);
+    expect(result.scores.sources).toBe(1);
+    expect(result.reasons).toEqual(['Similar titles', 'Overlapping content', '1 shared source']);
+    expect(result.score).toBeGreaterThan(0.8);
+  });
+
+  it('should leave out parts neither node has data for', () => {
+    const result = nodeSimilarity({ id: 'a', title: 'Ocean Acidification' }, { id: 'b', title: 'Deep Sea Mining' });
+
+    expect(result.scores).toEqual({ title: 0, content: null, sources: null });
+    expect(result.score).toBe(0);
+  });
+
+  it('should rank candidates and skip a node paired with its own parent', () => {
+    const candidates = findDuplicateCandidates([
+      { id: 'root', title: 'Coral Reefs' },
+      { id: 'child', title: 'Coral Reefs', parentId: 'root' },
+      { id: 'copy', title: 'Coral Reef' },
+      { id: 'other', title: 'Deep Sea Mining' },
+    ]);
+
+    expect(candidates.map(candidate => candidate.ids)).toEqual([['root', 'copy'], ['child', 'copy']]);
+    expect(findDuplicateCandidates([{ id: 'a', title: 'Reefs' }, { id: 'b', title: 'Reefs' }], { limit: 0 })).toEqual([]);
+  });
+});
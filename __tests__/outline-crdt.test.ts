@@ -0,0 +1,115 @@
+/**
+ * Tests for the replicated outline state used by real-time collaboration
+ */
+import { OutlineCrdt, OutlineOp, OutlineSnapshot, positionBetween } from '@/lib/collaboration/outline-crdt';
+
+const node = (id: string, order: number, title = `Node ${id}`) => ({
+  id,
+  title,
+  type: 'topic' as const,
+  order,
+});
+
+const ids = (snapshot: OutlineSnapshot) => snapshot.nodes.map(n => n.id);
+
+// Two replicas that start from the same outline
+function replicas(initial: OutlineSnapshot) {
+  const alice = new OutlineCrdt('alice');
+  const bob = new OutlineCrdt('bob');
+  bob.apply(alice.commit(initial));
+  return { alice, bob };
+}
+
+describe('positionBetween', () => {
+  it('should sort strictly between its bounds', () => {
+    const cases: Array<[string | undefined, string | undefined]> = [
+      [undefined, undefined],
+      ['i', undefined],
+      [undefined, 'i'],
+      ['i', 'j'],
+      ['i', 'i1'],
+      ['a', 'a09'],
+      ['zz', undefined],
+    ];
+
+    cases.forEach(([before, after]) => {
+      const position = positionBetween(before, after);
+      if (before !== undefined) expect(position > before).toBe(true);
+      if (after !== undefined) expect(position < after).toBe(true);
+      expect(position.endsWith('0')).toBe(false);
+    });
+  });
+});
+
+describe('OutlineCrdt', () => {
+  it('should reproduce a committed outline on another replica', () => {
+    const { bob } = replicas({ nodes: [node('a', 0), node('b', 1)], selectedNodeIds: ['b'] });
+
+    expect(ids(bob.snapshot())).toEqual(['a', 'b']);
+    expect(bob.snapshot().selectedNodeIds).toEqual(['b']);
+  });
+
+  it('should only emit a move for a reordered node', () => {
+    const { alice } = replicas({ nodes: [node('a', 0), node('b', 1), node('c', 2)], selectedNodeIds: [] });
+
+    const ops = alice.commit({ nodes: [node('c', 0), node('a', 1), node('b', 2)], selectedNodeIds: [] });
+
+    expect(ops).toEqual([expect.objectContaining({ type: 'move-node', id: 'c' })]);
+    expect(ids(alice.snapshot())).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should converge when concurrent edits arrive in different orders', () => {
+    const { alice, bob } = replicas({ nodes: [node('a', 0), node('b', 1), node('c', 2)], selectedNodeIds: [] });
+
+    const aliceOps = alice.commit({
+      nodes: [node('c', 0), node('a', 1), node('b', 2), node('d', 3)],
+      selectedNodeIds: ['d'],
+    });
+    const bobOps = bob.commit({
+      nodes: [node('a', 0), node('c', 1, 'Renamed')],
+      selectedNodeIds: ['a'],
+    });
+
+    alice.apply(bobOps);
+    bob.apply(aliceOps);
+
+    expect(alice.snapshot()).toEqual(bob.snapshot());
+    expect(ids(alice.snapshot())).toEqual(['c', 'a', 'd']);
+    expect(alice.snapshot().nodes[0].title).toBe('Renamed');
+    expect(alice.snapshot().selectedNodeIds).toEqual(['a', 'd']);
+  });
+
+  it('should resolve conflicting writes to the same node by stamp', () => {
+    const { alice, bob } = replicas({ nodes: [node('a', 0)], selectedNodeIds: [] });
+
+    const aliceOps = alice.commit({ nodes: [node('a', 0, 'Alice')], selectedNodeIds: [] });
+    const bobOps = bob.commit({ nodes: [node('a', 0, 'Bob')], selectedNodeIds: [] });
+
+    alice.apply(bobOps);
+    bob.apply(aliceOps);
+
+    // Same clock, so the higher actor ID wins on both replicas
+    expect(alice.snapshot().nodes[0].title).toBe('Bob');
+    expect(bob.snapshot().nodes[0].title).toBe('Bob');
+  });
+
+  it('should be idempotent', () => {
+    const alice = new OutlineCrdt('alice');
+    const ops: OutlineOp[] = alice.commit({ nodes: [node('a', 0)], selectedNodeIds: [] });
+    const removal = alice.commit({ nodes: [], selectedNodeIds: [] });
+
+    const bob = new OutlineCrdt('bob');
+    bob.apply([...ops, ...removal, ...ops]);
+
+    expect(bob.snapshot().nodes).toEqual([]);
+  });
+
+  it('should let a later add bring a removed node back', () => {
+    const { alice, bob } = replicas({ nodes: [node('a', 0)], selectedNodeIds: [] });
+
+    bob.apply(alice.commit({ nodes: [], selectedNodeIds: [] }));
+    alice.apply(bob.commit({ nodes: [node('a', 0)], selectedNodeIds: [] }));
+
+    expect(ids(alice.snapshot())).toEqual(['a']);
+  });
+});
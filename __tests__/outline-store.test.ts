@@ -159,6 +159,32 @@ describe('Outline Store', () => {
       expect(result.current.nodes[1].order).toBe(1);
       expect(result.current.nodes[2].order).toBe(2);
     });
+
+    it('should merge nodes and point references at the kept node', () => {
+      const { result } = renderHook(() => useOutlineStore());
+
+      act(() => {
+        result.current.addNodes([
+          { id: 'dup', title: 'Reefs', type: 'topic', metadata: { confidence: 0.9, relationships: ['other'] } },
+          { id: 'other', title: 'Other', type: 'topic', metadata: { relationships: ['dup'] } },
+          { id: 'keep', title: 'Coral Reefs', type: 'topic', metadata: { confidence: 0.5, relationships: ['dup'] } },
+          { id: 'child', title: 'Child', type: 'subtopic', parentId: 'dup' },
+        ]);
+        result.current.setSelectedNodes(['dup', 'keep']);
+      });
+
+      act(() => {
+        result.current.mergeNodes('keep', ['dup']);
+      });
+
+      // The kept node takes the earlier position in the outline
+      expect(result.current.nodes.map(node => node.id)).toEqual(['keep', 'other', 'child']);
+      expect(result.current.nodes[0].title).toBe('Coral Reefs');
+      expect(result.current.nodes[0].metadata).toEqual({ confidence: 0.9, relationships: ['other'] });
+      expect(result.current.nodes[1].metadata?.relationships).toEqual(['keep']);
+      expect(result.current.nodes[2].parentId).toBe('keep');
+      expect(result.current.selectedNodeIds).toEqual(['keep']);
+    });
   });
 
   describe('Node Selection', () => {
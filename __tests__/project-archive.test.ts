@@ -0,0 +1,137 @@
+/**
+ * Tests for .kniit archive validation, ID remapping and import
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    savedPath: { delete: jest.fn() },
+  },
+}));
+
+import prisma from '@/lib/db';
+import {
+  KNIIT_ARCHIVE_VERSION,
+  createProjectArchive,
+  parseProjectArchive,
+  remapArchiveIds,
+} from '@/lib/project-archive';
+import { createProjectDocument } from '@/lib/project-document';
+import { ValidationError } from '@/lib/error-handling';
+import { ProjectArchiveService } from '@/lib/services/project-archive';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+
+const mockPrisma = prisma as any;
+
+const node = (id: string, parentId: string | null = null) => ({
+  id,
+  title: `Node ${id}`,
+  content: '',
+  type: 'topic',
+  depth: parentId ? 1 : 0,
+  lens: 'general',
+  detailLevel: 'medium',
+  confidence: null,
+  tags: [],
+  parentId,
+  sources: [{ url: 'https://example.com', title: 'Example' }],
+});
+
+function sampleArchive() {
+  const document = createProjectDocument({
+    nodes: [
+      { id: 'a', title: 'Node a', type: 'topic', order: 0 },
+      { id: 'b', title: 'Node b', type: 'subtopic', order: 1 },
+    ],
+    outlineContent: null,
+    conflicts: [
+      { id: 'c1', nodeId: 'b', relatedNodes: ['a', 'elsewhere'], severity: 'high' },
+      { id: 'c2', nodeId: 'elsewhere', severity: 'low' },
+    ],
+    summary: null,
+    detailLevel: 'medium',
+    selectedNodeIds: ['b', 'missing'],
+    chat: [{ id: 'm1', role: 'user', content: 'Hello' }],
+  });
+  document.nodes[1].parentId = 'a';
+
+  return createProjectArchive('Research', document, {
+    nodes: [node('a'), node('b', 'a')],
+    edges: [
+      { sourceId: 'a', targetId: 'b', type: 'supports', weight: 0.5, provenance: null },
+      { sourceId: 'a', targetId: 'elsewhere', type: 'related', weight: 1, provenance: null },
+    ],
+    conflicts: [
+      { title: null, type: null, severity: 'low', description: 'Disagree', nodeIds: ['a', 'b'] },
+      { title: null, type: null, severity: null, description: 'Orphan', nodeIds: ['elsewhere'] },
+    ],
+  });
+}
+
+describe('parseProjectArchive', () => {
+  it('should round-trip exported archives', () => {
+    const archive = sampleArchive();
+    const parsed = parseProjectArchive(JSON.parse(JSON.stringify(archive)));
+
+    expect(parsed.manifest.counts).toMatchObject({ nodes: 2, sources: 2, chatMessages: 1 });
+    expect(parsed.document).toEqual(archive.document);
+  });
+
+  it('should reject files that are not archives', () => {
+    expect(() => parseProjectArchive({ nodes: [] })).toThrow('Not a KniitNon project archive');
+  });
+
+  it('should reject archives from a newer version', () => {
+    const archive = sampleArchive();
+    archive.manifest.version = KNIIT_ARCHIVE_VERSION + 1;
+
+    expect(() => parseProjectArchive(archive)).toThrow(/newer version/);
+  });
+
+  it('should report the failing path of corrupt archives', () => {
+    const archive: any = sampleArchive();
+    archive.research.nodes[0].depth = 'deep';
+
+    expect(() => parseProjectArchive(archive)).toThrow(ValidationError);
+    expect(() => parseProjectArchive(archive)).toThrow(/research\.nodes\.0\.depth/);
+  });
+});
+
+describe('remapArchiveIds', () => {
+  it('should give every node a new ID and keep references consistent', () => {
+    let next = 0;
+    const remapped = remapArchiveIds(sampleArchive(), () => `new-${++next}`);
+    const [a, b] = remapped.research.nodes;
+
+    expect([a.id, b.id]).toEqual(['new-1', 'new-2']);
+    expect(b.parentId).toBe(a.id);
+    expect(remapped.document.nodes.map(n => [n.id, n.parentId])).toEqual([['new-1', undefined], ['new-2', 'new-1']]);
+    expect(remapped.document.visualization.selectedNodeIds).toEqual(['new-2']);
+    expect(remapped.document.conflicts).toEqual([
+      { id: 'c1', nodeId: 'new-2', relatedNodes: ['new-1'], severity: 'high' },
+    ]);
+    expect(remapped.research.edges).toEqual([
+      { sourceId: 'new-1', targetId: 'new-2', type: 'supports', weight: 0.5, provenance: null },
+    ]);
+    expect(remapped.research.conflicts.map(c => c.nodeIds)).toEqual([['new-1', 'new-2']]);
+  });
+});
+
+describe('ProjectArchiveService.restore', () => {
+  it('should store unknown node kinds as the kind for their depth', async () => {
+    const tx = {
+      node: { createMany: jest.fn() },
+      source: { createMany: jest.fn() },
+      edge: { createMany: jest.fn() },
+      conflict: { create: jest.fn() },
+    };
+    mockPrisma.$transaction.mockImplementation((run: (client: typeof tx) => Promise<void>) => run(tx));
+    jest.spyOn(ProjectRevisionService, 'saveWithRevision').mockResolvedValue({ id: 'project-1' } as any);
+    const archive = sampleArchive();
+    archive.research.nodes[1].type = 'Subtopic';
+
+    await ProjectArchiveService.restore(archive, 'user-1');
+
+    expect(tx.node.createMany.mock.calls[0][0].data.map((n: any) => n.type)).toEqual(['topic', 'subtopic']);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for comments on shared projects
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    projectComment: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/db';
+import { ProjectCommentService } from '@/lib/services/project-comments';
+
+const mockPrisma = prisma as any;
+
+describe('ProjectCommentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list comments oldest first, optionally for one node', async () => {
+    mockPrisma.projectComment.findMany.mockResolvedValue([]);
+
+    await ProjectCommentService.list('project-1', 'node-1');
+
+    expect(mockPrisma.projectComment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { projectId: 'project-1', nodeId: 'node-1' },
+      orderBy: { createdAt: 'asc' },
+    }));
+  });
+
+  it('should store trimmed comments', async () => {
+    mockPrisma.projectComment.create.mockResolvedValue({ id: 'c1' });
+
+    await ProjectCommentService.add('project-1', 'user-1', { body: '  Needs a source  ' });
+
+    expect(mockPrisma.projectComment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { projectId: 'project-1', authorId: 'user-1', body: 'Needs a source', nodeId: null },
+    }));
+  });
+
+  describe('remove', () => {
+    it('should let authors delete their own comments', async () => {
+      mockPrisma.projectComment.findFirst.mockResolvedValue({ authorId: 'user-1' });
+
+      expect(await ProjectCommentService.remove('project-1', 'c1', { id: 'user-1', isOwner: false })).toBe(true);
+      expect(mockPrisma.projectComment.delete).toHaveBeenCalledWith({ where: { id: 'c1' } });
+    });
+
+    it('should let the owner delete any comment', async () => {
+      mockPrisma.projectComment.findFirst.mockResolvedValue({ authorId: 'user-2' });
+
+      expect(await ProjectCommentService.remove('project-1', 'c1', { id: 'owner', isOwner: true })).toBe(true);
+    });
+
+    it("should refuse other members' comments", async () => {
+      mockPrisma.projectComment.findFirst.mockResolvedValue({ authorId: 'user-2' });
+
+      expect(await ProjectCommentService.remove('project-1', 'c1', { id: 'user-1', isOwner: false })).toBe(false);
+      expect(mockPrisma.projectComment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return null for comments on other projects', async () => {
+      mockPrisma.projectComment.findFirst.mockResolvedValue(null);
+
+      expect(await ProjectCommentService.remove('project-1', 'c1', { id: 'user-1', isOwner: true })).toBeNull();
+      expect(mockPrisma.projectComment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'c1', projectId: 'project-1' },
+      }));
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for project revision diffs
+ */
+import { describeProjectDiff, diffProjectData } from '@/lib/project-diff';
+
+const node = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  title: `Node ${id}`,
+  content: 'Content',
+  type: 'topic',
+  order: 0,
+  children: [],
+  ...overrides,
+});
+
+describe('diffProjectData', () => {
+  it('should report added, removed and modified nodes', () => {
+    const before = { title: 'Research', data: { nodes: [node('1'), node('2')], conflicts: [] } };
+    const after = {
+      title: 'Research',
+      data: { nodes: [node('1', { content: 'Rewritten' }), node('3')], conflicts: [{ id: 'c1' }] },
+    };
+
+    const diff = diffProjectData(before, after);
+
+    expect(diff.nodes.added).toEqual([{ id: '3', title: 'Node 3' }]);
+    expect(diff.nodes.removed).toEqual([{ id: '2', title: 'Node 2' }]);
+    expect(diff.nodes.modified).toEqual([{ id: '1', title: 'Node 1', fields: ['content'] }]);
+    expect(diff.conflicts).toEqual({ before: 0, after: 1 });
+    expect(diff.titleChanged).toBeNull();
+  });
+
+  it('should compare children by ID only', () => {
+    const before = { data: { nodes: [node('1', { children: [node('2')] })] } };
+    const after = { data: { nodes: [node('1', { children: [node('2', { content: 'Changed' })] })] } };
+
+    expect(diffProjectData(before, after).nodes.modified).toEqual([]);
+
+    const reordered = { data: { nodes: [node('1', { children: [node('3'), node('2')] })] } };
+    expect(diffProjectData(before, reordered).nodes.modified[0].fields).toEqual(['children']);
+  });
+
+  it('should tolerate snapshots without nodes', () => {
+    const diff = diffProjectData({ data: null }, { data: { nodes: [node('1')] } });
+
+    expect(diff.nodes.added).toHaveLength(1);
+    expect(diff.summaryChanged).toBe(false);
+  });
+});
+
+describe('describeProjectDiff', () => {
+  it('should summarize a diff in one line', () => {
+    const diff = diffProjectData(
+      { title: 'Old', data: { nodes: [node('1')], summary: 'a' } },
+      { title: 'New', data: { nodes: [node('1'), node('2'), node('3')], summary: 'b' } }
+    );
+
+    expect(describeProjectDiff(diff)).toBe('Renamed to "New", added 2 nodes, updated summary');
+  });
+
+  it('should say when nothing changed', () => {
+    const snapshot = { title: 'Same', data: { nodes: [node('1')] } };
+    expect(describeProjectDiff(diffProjectData(snapshot, snapshot))).toBe('No changes');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for the versioned project document schema and its migrations
+ */
+import {
+  PROJECT_DOCUMENT_VERSION,
+  createProjectDocument,
+  migrateProjectDocument,
+  parseProjectDocument,
+} from '@/lib/project-document';
+import { ProjectDocumentError } from '@/lib/error-handling';
+
+describe('parseProjectDocument', () => {
+  it('should upgrade unversioned documents', () => {
+    const legacy = {
+      nodes: [
+        { id: 1, title: 'First', type: 'topic' },
+        { id: '2', title: 'Second', type: 'subtopic', order: 7 },
+      ],
+      conflicts: null,
+      summary: { summary: 'Project summary' },
+      timestamp: '2024-01-01T00:00:00.000Z',
+    };
+
+    const document = parseProjectDocument(legacy);
+
+    expect(document.version).toBe(PROJECT_DOCUMENT_VERSION);
+    expect(document.nodes.map(node => [node.id, node.order])).toEqual([['1', 0], ['2', 7]]);
+    expect(document.conflicts).toEqual([]);
+    expect(document.outline).toBeNull();
+    expect(document.visualization).toEqual({ detailLevel: 'medium', selectedNodeIds: [] });
+    expect(document.savedAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(legacy).not.toHaveProperty('version');
+  });
+
+  it('should add empty chat history and drafts to version 1 documents', () => {
+    const document = parseProjectDocument({
+      version: 1,
+      nodes: [],
+      outline: null,
+      conflicts: [],
+      summary: null,
+      visualization: { detailLevel: 'low', selectedNodeIds: [] },
+    });
+
+    expect(document.chat).toEqual([]);
+    expect(document.drafts).toEqual([]);
+    expect(document.visualization.detailLevel).toBe('low');
+  });
+
+  it('should derive node depth from the type in version 2 documents', () => {
+    const document = parseProjectDocument({
+      version: 2,
+      nodes: [
+        { id: '1', title: 'Topic', type: 'topic', order: 0 },
+        { id: '2', title: 'Detail', type: 'detail', order: 1 },
+        { id: '3', title: 'Already deep', type: 'detail', depth: 5, order: 2 },
+      ],
+      outline: null,
+      conflicts: [],
+      summary: null,
+      visualization: { detailLevel: 'medium', selectedNodeIds: [] },
+      chat: [],
+      drafts: [],
+    });
+
+    expect(document.nodes.map(node => node.depth)).toEqual([0, 2, 5]);
+  });
+
+  it('should accept micro-detail nodes at any depth', () => {
+    const document = createProjectDocument({
+      nodes: [{ id: '1', title: 'Deep', type: 'micro-detail', depth: 7, order: 0 }],
+      outlineContent: null,
+      conflicts: null,
+      summary: null,
+      detailLevel: 'medium',
+      selectedNodeIds: [],
+    });
+
+    expect(parseProjectDocument(document).nodes[0]).toMatchObject({ type: 'micro-detail', depth: 7 });
+  });
+
+  it('should accept current documents unchanged', () => {
+    const document = createProjectDocument({
+      nodes: [{ id: '1', title: 'Node', type: 'topic', order: 0 }],
+      outlineContent: { title: 'Outline' },
+      conflicts: null,
+      summary: null,
+      detailLevel: 'high',
+      selectedNodeIds: ['1'],
+    });
+
+    expect(parseProjectDocument(document)).toEqual(document);
+  });
+
+  it('should reject corrupt documents with the failing path', () => {
+    const corrupt = { nodes: [{ id: '1', title: 'Node', type: 'chapter' }] };
+
+    expect(() => parseProjectDocument(corrupt)).toThrow(ProjectDocumentError);
+    expect(() => parseProjectDocument(corrupt)).toThrow(/nodes\.0\.type/);
+  });
+
+  it('should reject documents that are not objects', () => {
+    expect(() => parseProjectDocument(null)).toThrow('Project data is not a document');
+    expect(() => parseProjectDocument([])).toThrow(ProjectDocumentError);
+  });
+
+  it('should refuse documents from a newer version', () => {
+    expect(() => migrateProjectDocument({ version: PROJECT_DOCUMENT_VERSION + 1 })).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for project folder, tag and search text helpers
+ */
+import {
+  MAX_PROJECT_TAGS,
+  normalizeFolder,
+  normalizeTags,
+  parseTagList,
+  projectSearchText,
+} from '@/lib/project-labels';
+
+describe('normalizeTags', () => {
+  it('should trim tags and drop empty and duplicate ones', () => {
+    expect(normalizeTags(['  ethics ', 'Ethics', '', 'machine   learning'])).toEqual(['ethics', 'machine learning']);
+  });
+
+  it('should cap the number of tags', () => {
+    const tags = Array.from({ length: MAX_PROJECT_TAGS + 5 }, (_, i) => `tag${i}`);
+
+    expect(normalizeTags(tags)).toHaveLength(MAX_PROJECT_TAGS);
+  });
+
+  it('should split comma-separated input', () => {
+    expect(parseTagList('draft, thesis,,draft')).toEqual(['draft', 'thesis']);
+  });
+});
+
+describe('normalizeFolder', () => {
+  it('should treat blank folder names as unfiled', () => {
+    expect(normalizeFolder('   ')).toBeNull();
+    expect(normalizeFolder(undefined)).toBeNull();
+    expect(normalizeFolder(' Thesis  notes ')).toBe('Thesis notes');
+  });
+});
+
+describe('projectSearchText', () => {
+  it('should include the title and node titles in lowercase', () => {
+    const data = { nodes: [{ title: 'Neural Networks' }, { id: 'no-title' }, { title: 'Ethics' }] };
+
+    expect(projectSearchText('AI Research', data)).toBe('ai research\nneural networks\nethics');
+  });
+
+  it('should cope with documents without nodes', () => {
+    expect(projectSearchText('Empty', null)).toBe('empty');
+  });
+});
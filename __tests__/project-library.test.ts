@@ -0,0 +1,61 @@
+/**
+ * Tests for listing and filtering a user's saved projects
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn((queries: Promise<unknown>[]) => Promise.all(queries)),
+    savedPath: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/db';
+import { ProjectLibraryService } from '@/lib/services/project-library';
+
+const mockPrisma = prisma as any;
+
+// The listing query is the findMany that selects the list fields
+const listingWhere = () =>
+  mockPrisma.savedPath.findMany.mock.calls.find((call: any[]) => call[0].select.folder)[0].where;
+
+describe('ProjectLibraryService.findProjects', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.savedPath.findMany.mockResolvedValue([]);
+    mockPrisma.savedPath.count.mockResolvedValue(0);
+  });
+
+  it('should fill in missing search text without touching updatedAt', async () => {
+    const updatedAt = new Date('2024-01-01T00:00:00.000Z');
+    mockPrisma.savedPath.findMany.mockResolvedValueOnce([
+      { id: 'p1', title: 'Reefs', data: { nodes: [{ title: 'Bleaching' }] }, updatedAt },
+    ]);
+
+    await ProjectLibraryService.findProjects('user-1', { search: 'Bleaching' });
+
+    expect(mockPrisma.savedPath.findMany.mock.calls[0][0].where).toEqual({ userId: 'user-1', deletedAt: null, searchText: '' });
+    expect(mockPrisma.savedPath.update).toHaveBeenCalledWith({
+      where: { id: 'p1' },
+      data: { searchText: 'reefs\nbleaching', updatedAt },
+    });
+    expect(listingWhere().AND).toContainEqual({ searchText: { contains: 'bleaching' } });
+  });
+
+  it('should match tags whatever their case', async () => {
+    mockPrisma.savedPath.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ tags: ['biology', 'Thesis'] }, { tags: ['BIOLOGY'] }]);
+
+    await ProjectLibraryService.findProjects('user-1', { tags: ['Biology', 'draft'] });
+
+    expect(listingWhere().AND).toEqual([
+      { userId: 'user-1', deletedAt: null },
+      { OR: [{ tags: { has: 'biology' } }, { tags: { has: 'BIOLOGY' } }] },
+      { OR: [{ tags: { has: 'draft' } }] },
+    ]);
+  });
+});
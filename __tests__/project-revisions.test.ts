@@ -0,0 +1,142 @@
+/**
+ * Tests for project revision history
+ */
+// The real error classes, so the service can tell a taken revision number apart
+jest.mock('@prisma/client', () => jest.requireActual('@prisma/client'));
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    savedPath: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+    },
+    projectRevision: {
+      count: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { ProjectDocumentError } from '@/lib/error-handling';
+import { PROJECT_DOCUMENT_VERSION } from '@/lib/project-document';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+
+const mockPrisma = prisma as any;
+
+const project = (data: any = { nodes: [] }) => ({
+  id: 'project-1',
+  title: 'Research',
+  data,
+  folder: null,
+  tags: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const numberTaken = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+  code: 'P2002',
+  clientVersion: 'test',
+});
+
+describe('ProjectRevisionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.savedPath.findUnique.mockResolvedValue(project());
+    mockPrisma.savedPath.update.mockImplementation(({ data }: any) => Promise.resolve(project(data.data)));
+    mockPrisma.projectRevision.count.mockResolvedValue(1);
+    mockPrisma.projectRevision.findFirst.mockResolvedValue({ number: 4 });
+    mockPrisma.projectRevision.create.mockResolvedValue({});
+  });
+
+  describe('saveWithRevision', () => {
+    it('should append the next revision number', async () => {
+      await ProjectRevisionService.saveWithRevision({ projectId: 'project-1', authorId: 'user-1', data: { nodes: [] } });
+
+      expect(mockPrisma.projectRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ projectId: 'project-1', number: 5, authorId: 'user-1' }),
+      });
+    });
+
+    it('should retry when a concurrent save took the revision number', async () => {
+      mockPrisma.projectRevision.findFirst
+        .mockResolvedValueOnce({ number: 4 })
+        .mockResolvedValueOnce({ number: 5 });
+      mockPrisma.projectRevision.create.mockRejectedValueOnce(numberTaken());
+
+      await ProjectRevisionService.saveWithRevision({ projectId: 'project-1', authorId: 'user-1', data: { nodes: [] } });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.projectRevision.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({ number: 6 }),
+      });
+    });
+
+    it('should give up after repeated conflicts', async () => {
+      mockPrisma.projectRevision.create.mockRejectedValue(numberTaken());
+
+      await expect(
+        ProjectRevisionService.saveWithRevision({ projectId: 'project-1', authorId: 'user-1', data: { nodes: [] } })
+      ).rejects.toBeInstanceOf(Prisma.PrismaClientKnownRequestError);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(5);
+    });
+
+    it('should not retry other errors', async () => {
+      mockPrisma.projectRevision.create.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(
+        ProjectRevisionService.saveWithRevision({ projectId: 'project-1', authorId: 'user-1', data: { nodes: [] } })
+      ).rejects.toThrow('Connection lost');
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('restore', () => {
+    it('should migrate revisions saved in an older document format', async () => {
+      mockPrisma.projectRevision.findUnique.mockResolvedValue({
+        number: 2,
+        title: 'Research',
+        summary: 'Created project',
+        author: null,
+        createdAt: new Date(),
+        data: { nodes: [{ id: 1, title: 'Coral reefs', type: 'topic' }], timestamp: '2024-01-01T00:00:00.000Z' },
+      });
+
+      await ProjectRevisionService.restore('project-1', 2, 'user-1');
+
+      const saved = mockPrisma.savedPath.update.mock.calls[0][0].data.data;
+      expect(saved.version).toBe(PROJECT_DOCUMENT_VERSION);
+      expect(saved.nodes[0]).toMatchObject({ id: '1', depth: 0, order: 0 });
+      expect(mockPrisma.projectRevision.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({ summary: 'Restored revision 2' }),
+      });
+    });
+
+    it('should reject corrupt revisions without saving', async () => {
+      mockPrisma.projectRevision.findUnique.mockResolvedValue({
+        number: 2,
+        title: 'Research',
+        summary: 'Created project',
+        author: null,
+        createdAt: new Date(),
+        data: 'not a document',
+      });
+
+      await expect(ProjectRevisionService.restore('project-1', 2, 'user-1')).rejects.toBeInstanceOf(ProjectDocumentError);
+      expect(mockPrisma.savedPath.update).not.toHaveBeenCalled();
+    });
+
+    it('should return null for missing revisions', async () => {
+      mockPrisma.projectRevision.findUnique.mockResolvedValue(null);
+
+      expect(await ProjectRevisionService.restore('project-1', 9, 'user-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the project trash and its retention window
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    savedPath: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/db';
+import { PROJECT_TRASH_RETENTION_DAYS, ProjectTrashService } from '@/lib/services/project-trash';
+
+const mockPrisma = prisma as any;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2024-03-31T12:00:00.000Z');
+const cutoff = new Date(now.getTime() - PROJECT_TRASH_RETENTION_DAYS * DAY_MS);
+
+describe('ProjectTrashService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    mockPrisma.savedPath.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('restore', () => {
+    it('should only restore projects still within the retention window', async () => {
+      mockPrisma.savedPath.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.savedPath.findUnique.mockResolvedValue({ id: 'project-1', title: 'Reefs' });
+
+      expect(await ProjectTrashService.restore('project-1', 'user-1')).toEqual({ id: 'project-1', title: 'Reefs' });
+      expect(mockPrisma.savedPath.updateMany).toHaveBeenCalledWith({
+        where: { id: 'project-1', userId: 'user-1', deletedAt: { not: null, gte: cutoff } },
+        data: { deletedAt: null },
+      });
+    });
+
+    it('should return null for projects not in the trash', async () => {
+      mockPrisma.savedPath.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await ProjectTrashService.restore('project-1', 'user-1')).toBeNull();
+      expect(mockPrisma.savedPath.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purge', () => {
+    it('should only delete trashed projects of the user', async () => {
+      mockPrisma.savedPath.deleteMany.mockResolvedValue({ count: 1 });
+
+      expect(await ProjectTrashService.purge('project-1', 'user-1')).toBe(true);
+      expect(mockPrisma.savedPath.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'project-1', userId: 'user-1', deletedAt: { not: null } },
+      });
+    });
+
+    it('should report projects that are not in the trash', async () => {
+      expect(await ProjectTrashService.purge('project-1', 'user-1')).toBe(false);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it(`should delete projects trashed more than ${PROJECT_TRASH_RETENTION_DAYS} days ago`, async () => {
+      mockPrisma.savedPath.deleteMany.mockResolvedValue({ count: 2 });
+
+      expect(await ProjectTrashService.purgeExpired()).toBe(2);
+      expect(mockPrisma.savedPath.deleteMany).toHaveBeenCalledWith({ where: { deletedAt: { lt: cutoff } } });
+    });
+
+    it("should be limited to one user's trash when given a user", async () => {
+      await ProjectTrashService.purgeExpired('user-1');
+
+      expect(mockPrisma.savedPath.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1', deletedAt: { lt: cutoff } } });
+    });
+  });
+
+  describe('list', () => {
+    it('should purge expired projects first and report when each will be purged', async () => {
+      const deletedAt = new Date('2024-03-20T00:00:00.000Z');
+      mockPrisma.savedPath.findMany.mockResolvedValue([
+        { id: 'project-1', title: 'Reefs', createdAt: deletedAt, deletedAt },
+      ]);
+
+      const [project] = await ProjectTrashService.list('user-1');
+
+      expect(mockPrisma.savedPath.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1', deletedAt: { lt: cutoff } } });
+      expect(project.purgeAt).toEqual(new Date('2024-04-19T00:00:00.000Z'));
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the offline prompt evaluation harness and the replay provider
+ */
+import { createMockProvider } from '@/lib/ai/providers/mock';
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  emptyRecordings,
+} from '@/lib/ai/providers/replay';
+import {
+  PROMPT_EVAL_SUITES,
+  PromptEvalRun,
+  comparePromptEvals,
+  evaluateFixture,
+  formatPromptEvalReport,
+  scoreReply,
+} from '@/lib/prompts/evaluation';
+import { PROMPTS } from '@/lib/prompts';
+
+const suite = (promptId: string) => PROMPT_EVAL_SUITES.find(candidate => candidate.prompt.id === promptId)!;
+
+const drillDownFixture = {
+  id: 'bleaching',
+  input: { nodeId: 'node-1', title: 'Coral Bleaching', content: 'Loss of symbionts', type: 'topic', currentDepth: 0 },
+};
+
+const drillDownReply = (nodes: Array<{ title: string; depth?: number }>) => JSON.stringify({
+  parentNode: { id: 'node-1', title: 'Coral Bleaching', depth: 0 },
+  drillDownNodes: nodes.map((node, index) => ({ id: `n${index}`, content: 'Details', ...node })),
+});
+
+const failed = (checks: Array<{ name: string; passed: boolean }>) =>
+  checks.filter(check => !check.passed).map(check => check.name);
+
+describe('prompt evaluation suites', () => {
+  it('should cover every registered prompt, directly or as a system prompt', () => {
+    const covered = new Set(PROMPT_EVAL_SUITES.flatMap(item => [item.prompt.id, item.system?.id]));
+    expect(PROMPTS.map(prompt => prompt.id).filter(id => !covered.has(id))).toEqual([]);
+  });
+});
+
+describe('scoreReply', () => {
+  it('should pass a well-formed drill-down', () => {
+    const titles = ['Causes', 'Effects', 'Detection', 'Recovery', 'Policy', 'Economics'];
+    const checks = scoreReply(suite('research.drill-down'), drillDownFixture, drillDownReply(titles.map(title => ({ title, depth: 1 }))));
+
+    expect(failed(checks)).toEqual([]);
+    expect(checks.map(check => check.name)).toEqual(['nonEmpty', 'json', 'schema', 'count', 'depth', 'uniqueTitles']);
+  });
+
+  it('should flag too few nodes, wrong depths and duplicate titles', () => {
+    const checks = scoreReply(suite('research.drill-down'), drillDownFixture, drillDownReply([
+      { title: 'Causes', depth: 1 },
+      { title: 'causes ', depth: 2 },
+      { title: 'Effects' },
+    ]));
+
+    expect(failed(checks)).toEqual(['count', 'depth', 'uniqueTitles']);
+    expect(checks.find(check => check.name === 'depth')!.detail).toBe('2 of 3 items not at depth 1');
+  });
+
+  it('should stop at a reply that is not JSON', () => {
+    const checks = scoreReply(suite('research.search'), { id: 'q', input: { query: 'reefs', perspective: 'general' } }, 'I cannot help with that.');
+    expect(failed(checks)).toEqual(['json']);
+  });
+
+  it('should let a fixture override the expectations', () => {
+    const fixture = { ...drillDownFixture, expect: { count: [1, 2] as [number, number] } };
+    const checks = scoreReply(suite('research.drill-down'), fixture, drillDownReply([{ title: 'Causes', depth: 5 }]));
+    expect(failed(checks)).toEqual([]);
+  });
+});
+
+describe('replay provider', () => {
+  it('should replay what the recording provider saw', async () => {
+    const recordings = emptyRecordings();
+    const recorded = await evaluateFixture(suite('research.drill-down'), drillDownFixture, createRecordingProvider(createMockProvider(), recordings));
+    const replayed = await evaluateFixture(suite('research.drill-down'), drillDownFixture, createReplayProvider(recordings));
+
+    expect(Object.keys(recordings.replies)).toHaveLength(1);
+    expect(replayed.error).toBeUndefined();
+    expect(replayed.checks).toEqual(recorded.checks);
+  });
+
+  it('should report requests that were never recorded', async () => {
+    const result = await evaluateFixture(suite('research.drill-down'), drillDownFixture, createReplayProvider(emptyRecordings()));
+
+    expect(result.score).toBe(0);
+    expect(result.error).toMatch(/No recorded reply for this drill-down request/);
+  });
+});
+
+describe('comparePromptEvals', () => {
+  const run = (ref: string, passed: boolean): PromptEvalRun => ({
+    generatedAt: '2024-03-15T00:00:00.000Z',
+    provider: 'replay',
+    results: [{
+      promptId: 'research.drill-down',
+      ref,
+      fixtureId: 'bleaching',
+      score: passed ? 1 : 0.5,
+      checks: [{ name: 'json', passed: true }, { name: 'depth', passed }],
+    }],
+  });
+
+  it('should list the checks a new prompt version breaks', () => {
+    const [comparison] = comparePromptEvals(run('research.drill-down@1', true), run('research.drill-down@2', false));
+
+    expect(comparison).toEqual({
+      promptId: 'research.drill-down',
+      baseline: { ref: 'research.drill-down@1', score: 1 },
+      current: { ref: 'research.drill-down@2', score: 0.5 },
+      delta: -0.5,
+      regressions: ['bleaching: depth'],
+      improvements: [],
+    });
+  });
+
+  it('should report both versions side by side', () => {
+    const report = formatPromptEvalReport(run('research.drill-down@2', true), run('research.drill-down@1', false));
+
+    expect(report).toContain('| research.drill-down | research.drill-down@1 50% | research.drill-down@2 100% | +50 pts |');
+    expect(report).toContain('- Fixed: bleaching: depth');
+  });
+});
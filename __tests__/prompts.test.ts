@@ -0,0 +1,125 @@
+/**
+ * Tests for the prompt registry and per-project overrides
+ */
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    promptOverride: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/db';
+import {
+  DRILL_DOWN_PROMPT,
+  PROMPTS,
+  SEARCH_PROMPT,
+  SUMMARY_PROMPT,
+  fillTemplate,
+  renderPrompt,
+  templatePlaceholders,
+} from '@/lib/prompts';
+import { ValidationError } from '@/lib/error-handling';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+
+const mockPrisma = prisma as any;
+
+describe('prompt registry', () => {
+  it('should give every prompt a unique ID', () => {
+    const ids = PROMPTS.map(prompt => prompt.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should only use declared variables in templates', () => {
+    for (const prompt of PROMPTS) {
+      expect({ id: prompt.id, unknown: templatePlaceholders(prompt.template).filter(name => !(name in prompt.variables)) })
+        .toEqual({ id: prompt.id, unknown: [] });
+    }
+  });
+
+  it('should render the variables into the template and report the version', () => {
+    const { message, ref } = renderPrompt(SEARCH_PROMPT, { query: 'coral reefs', perspective: 'ecology' });
+
+    expect(message.role).toBe('system');
+    expect(message.content).toContain('Search Query: "coral reefs"\nResearch Perspective: "ecology"');
+    expect(ref).toBe(`research.search@${SEARCH_PROMPT.version}`);
+  });
+
+  it('should derive values from typed input', () => {
+    const { message } = renderPrompt(DRILL_DOWN_PROMPT, {
+      nodeId: 'node-7',
+      title: 'Bleaching',
+      content: 'Loss of symbionts',
+      type: 'subtopic',
+      currentDepth: 1,
+    });
+
+    expect(message.content).toContain('- Target Depth: 2');
+    expect(message.content).toContain('- Lens: "General"');
+    expect(message.content).toContain('"type": "detail"');
+  });
+
+  it('should not expand placeholders inside values', () => {
+    expect(fillTemplate('Q: {{query}}', { query: 'what is {{perspective}}?' })).toBe('Q: what is {{perspective}}?');
+  });
+
+  it('should apply an override template and instructions', () => {
+    const { message, ref } = renderPrompt(
+      SUMMARY_PROMPT,
+      { nodes: [], summaryType: 'overview', includeRelationships: false, includeConflicts: false, maxLength: 300 },
+      { promptId: SUMMARY_PROMPT.id, template: 'Summarize in {{maxLength}} words.', instructions: 'Use British spelling.', version: 3 }
+    );
+
+    expect(message.content).toBe('Summarize in 300 words.\n\nUse British spelling.');
+    expect(ref).toBe(`research.summarize@${SUMMARY_PROMPT.version}+override.3`);
+  });
+});
+
+describe('PromptOverrideService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject overrides that use unknown placeholders', async () => {
+    await expect(
+      PromptOverrideService.save('project-1', SEARCH_PROMPT, { template: 'Find {{topic}}' }, 'user-1')
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(mockPrisma.promptOverride.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should bump the version when an override changes', async () => {
+    mockPrisma.promptOverride.upsert.mockResolvedValue({});
+
+    await PromptOverrideService.save('project-1', SEARCH_PROMPT, { instructions: 'Prefer peer-reviewed sources.' }, 'user-1');
+
+    expect(mockPrisma.promptOverride.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { projectId_promptId: { projectId: 'project-1', promptId: 'research.search' } },
+      update: expect.objectContaining({ template: null, version: { increment: 1 } }),
+    }));
+  });
+
+  it('should only look up overrides for project-scoped requests', async () => {
+    mockPrisma.promptOverride.findUnique.mockResolvedValue({
+      promptId: 'research.search',
+      template: null,
+      instructions: 'Glossary: SST = sea surface temperature.',
+      version: 2,
+    });
+
+    const unscoped = await PromptOverrideService.render({ userId: 'user-1' }, SEARCH_PROMPT, { query: 'reefs', perspective: 'general' });
+    expect(mockPrisma.promptOverride.findUnique).not.toHaveBeenCalled();
+    expect(unscoped.ref).toBe(`research.search@${SEARCH_PROMPT.version}`);
+
+    const scoped = await PromptOverrideService.render(
+      { userId: 'user-1', projectId: 'project-1' },
+      SEARCH_PROMPT,
+      { query: 'reefs', perspective: 'general' }
+    );
+    expect(scoped.message.content).toMatch(/Glossary: SST = sea surface temperature\.$/);
+    expect(scoped.ref).toBe(`research.search@${SEARCH_PROMPT.version}+override.2`);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for the research search route's handling of generated nodes
+ */
+jest.mock('@/lib/services/research-scope', () => ({
+  requireResearchScope: jest.fn().mockResolvedValue({ userId: 'user-1' }),
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  applyRateLimit: jest.fn().mockResolvedValue(null),
+}));
+
+import type { NextRequest } from 'next/server';
+import { getAIProvider } from '@/lib/ai';
+import { setAICacheStore } from '@/lib/ai/cache';
+import { AIUsageService } from '@/lib/services/ai-usage';
+import { NodeRepository } from '@/lib/services/node-repository';
+import { POST } from '@/app/api/research/search/route';
+
+const request = (body: object): NextRequest => ({
+  json: async () => body,
+  headers: { get: () => null },
+  signal: new AbortController().signal,
+}) as unknown as NextRequest;
+
+describe('POST /api/research/search', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AI_PROVIDER: 'mock' };
+    setAICacheStore(undefined);
+    jest.spyOn(AIUsageService, 'assertWithinBudget').mockResolvedValue(undefined as any);
+    jest.spyOn(AIUsageService, 'record').mockResolvedValue(undefined as any);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("should derive unknown kinds from the model's depth, not the node's position", async () => {
+    jest.spyOn(getAIProvider(), 'complete').mockResolvedValue({
+      text: JSON.stringify({
+        nodes: [
+          { id: 'a', title: 'Coral Reefs', content: 'Reef ecosystems', type: 'area', depth: 0 },
+          { id: 'b', title: 'Bleaching Thresholds', content: 'Heat stress limits', type: 'area', depth: 2 },
+          { id: 'c', title: 'Reef Fisheries', content: 'Fishing pressure', type: 'area' },
+        ],
+      }),
+      provider: 'mock',
+      model: 'mock',
+    } as any);
+    const createNodes = jest.spyOn(NodeRepository, 'createNodes').mockResolvedValue([]);
+
+    await POST(request({ query: 'coral reefs' }));
+
+    expect(createNodes.mock.calls[0][1].map(node => [node.type, node.depth])).toEqual([
+      ['topic', 0],
+      ['detail', 2],
+      ['detail', 2],
+    ]);
+  });
+});
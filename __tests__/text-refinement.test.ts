@@ -0,0 +1,45 @@
+/**
+ * Tests for reading text refinement replies, whole and while streaming
+ */
+import { parseRefinementResponse, partialImprovedText } from '@/lib/text-refinement';
+
+const reply = `IMPROVED TEXT:
+Coral reefs support a quarter of marine species.
+
+EXPLANATION:
+Tightened the wording.
+
+SUGGESTIONS:
+Cite the survey.`;
+
+describe('parseRefinementResponse', () => {
+  it('should split the reply into its sections', () => {
+    expect(parseRefinementResponse(reply)).toEqual({
+      improvedText: 'Coral reefs support a quarter of marine species.',
+      explanation: 'Tightened the wording.',
+      suggestions: ['Cite the survey.'],
+    });
+  });
+
+  it('should use the whole reply when it ignores the format', () => {
+    expect(parseRefinementResponse('Just the text.').improvedText).toBe('Just the text.');
+  });
+});
+
+describe('partialImprovedText', () => {
+  it('should show nothing while the header is still arriving', () => {
+    expect(partialImprovedText('IMPROVED TE')).toBe('');
+  });
+
+  it('should show the improved text as it arrives', () => {
+    expect(partialImprovedText('IMPROVED TEXT:\nCoral reefs support')).toBe('Coral reefs support');
+  });
+
+  it('should hold back a line that may be the start of the explanation', () => {
+    expect(partialImprovedText('IMPROVED TEXT:\nCoral reefs.\n\nEXPLA')).toBe('Coral reefs.');
+  });
+
+  it('should stop at the explanation', () => {
+    expect(partialImprovedText(reply)).toBe('Coral reefs support a quarter of marine species.');
+  });
+});
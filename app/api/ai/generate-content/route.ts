@@ -1,19 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
+import { StreamingTextResponse } from 'ai';
+import { bypassesAICache, generateText, streamText } from '@/lib/ai';
+import { abortedResponse, budgetExceededResponse } from '@/lib/ai/responses';
+import { AIBudgetExceededError, AIRequestAbortedError } from '@/lib/error-handling';
 import { 
-  CONTENT_GENERATION_PROMPT, 
-  generateContentPrompt,
+  CONTENT_PROMPT, 
+  CONTENT_SYSTEM_PROMPT,
   NodeData,
   ContentContext 
 } from '@/lib/prompts';
+import { NodeRepository, primarySource } from '@/lib/services/node-repository';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
+import { normalizeNodeKind } from '@/lib/node-kinds';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -23,7 +26,9 @@ export async function POST(request: NextRequest) {
       targetLength = 'medium',
       tone = 'academic',
       audience,
-      sectionId // Optional: generate content for specific section
+      sectionId, // Optional: generate content for specific section
+      projectId,
+      stream = false // Optional: stream the content as plain text
     } = body;
 
     // Validate required parameters
@@ -59,8 +64,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
     // Fetch node data
-    const nodes = await fetchNodesByIds(nodeIds);
+    const nodes = await fetchNodesByIds(scope, nodeIds);
     
     if (nodes.length === 0) {
       return NextResponse.json(
@@ -78,23 +86,29 @@ export async function POST(request: NextRequest) {
       audience
     };
 
-    // Generate content using OpenAI
-    const contentPrompt = generateContentPrompt(context);
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        CONTENT_GENERATION_PROMPT,
-        contentPrompt
-      ],
-      temperature: 0.7,
-      max_tokens: getMaxTokensForLength(targetLength),
-    });
+    // Generate content with the configured AI provider
+    const prompts = await Promise.all([
+      PromptOverrideService.render(scope, CONTENT_SYSTEM_PROMPT, {}),
+      PromptOverrideService.render(scope, CONTENT_PROMPT, context),
+    ]);
+    const messages = prompts.map(prompt => prompt.message);
+    const options = {
+      maxTokens: getMaxTokensForLength(targetLength),
+      bypassCache: bypassesAICache(request),
+      signal: request.signal,
+      usage: { ...scope, route: '/api/ai/generate-content' },
+    };
+
+    if (stream) {
+      return new StreamingTextResponse(await streamText('generate-content', messages, options));
+    }
+
+    const completion = await generateText('generate-content', messages, options);
 
-    const generatedContent = completion.choices[0].message.content;
+    const generatedContent = completion.text;
     
     if (!generatedContent) {
-      throw new Error('No content generated from OpenAI');
+      throw new Error('No content generated by the AI provider');
     }
 
     // Structure the response
@@ -107,7 +121,7 @@ export async function POST(request: NextRequest) {
         tone,
         audience,
         sectionId,
-        estimatedTokens: completion.usage?.total_tokens || 0,
+        estimatedTokens: completion.usage?.totalTokens || 0,
         wordCount: estimateWordCount(generatedContent)
       },
       usedNodes: nodes.map(node => ({ 
@@ -124,6 +138,14 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response);
 
   } catch (error) {
+    if (error instanceof AIRequestAbortedError) {
+      return abortedResponse(request, error);
+    }
+
+    if (error instanceof AIBudgetExceededError) {
+      return budgetExceededResponse(error);
+    }
+
     console.error('Error generating AI content:', error);
     
     return NextResponse.json(
@@ -250,43 +272,18 @@ function generateImprovementSuggestions(content: string, context: ContentContext
 }
 
 /**
- * Fetch nodes by their IDs - same implementation as outline generation
+ * Fetch nodes by their IDs from the caller's research graph
  */
-async function fetchNodesByIds(nodeIds: string[]): Promise<NodeData[]> {
-  const sampleNodes: NodeData[] = [
-    {
-      id: '1',
-      title: 'Climate Change Overview',
-      content: 'Climate change refers to long-term shifts in global or regional climate patterns, primarily attributed to human activities since the mid-20th century. The phenomenon encompasses rising global temperatures, changing precipitation patterns, and increased frequency of extreme weather events.',
-      type: 'topic',
-      source: 'IPCC Report 2023',
-      connections: ['2', '3']
-    },
-    {
-      id: '2', 
-      title: 'Greenhouse Gas Emissions',
-      content: 'The primary driver of climate change is the increase in greenhouse gases, particularly carbon dioxide from fossil fuel combustion. Since the Industrial Revolution, atmospheric CO2 levels have increased by over 40%, contributing to global warming through the greenhouse effect.',
-      type: 'subtopic',
-      source: 'NASA Climate Data',
-      connections: ['1', '4']
-    },
-    {
-      id: '3',
-      title: 'Impact on Ecosystems',
-      content: 'Climate change affects ecosystems through temperature changes, altered precipitation patterns, and extreme weather events. These changes disrupt food chains, migration patterns, and species distribution, leading to biodiversity loss and ecosystem degradation.',
-      type: 'subtopic', 
-      source: 'Nature Journal 2023',
-      connections: ['1']
-    },
-    {
-      id: '4',
-      title: 'Carbon Footprint Measurement',
-      content: 'Detailed methodologies for measuring and calculating carbon footprints across different industries and activities. This includes lifecycle assessments, emissions factors, and standardized reporting frameworks used by organizations to track their environmental impact.',
-      type: 'detail',
-      source: 'Environmental Science Research',
-      connections: ['2']
-    }
-  ];
+async function fetchNodesByIds(scope: ResearchScope, nodeIds: string[]): Promise<NodeData[]> {
+  const nodes = await NodeRepository.findByIds(scope, nodeIds);
 
-  return sampleNodes.filter(node => nodeIds.includes(node.id));
+  return nodes.map(node => ({
+    id: node.id,
+    title: node.title,
+    content: node.content,
+    type: normalizeNodeKind(node.type, node.depth),
+    depth: node.depth,
+    source: primarySource(node),
+    connections: node.connections,
+  }));
 }
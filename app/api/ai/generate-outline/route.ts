@@ -1,23 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
+import { bypassesAICache, generateJSON } from '@/lib/ai';
+import { budgetExceededResponse } from '@/lib/ai/responses';
+import { AIBudgetExceededError, AIResponseError } from '@/lib/error-handling';
 import { 
-  OUTLINE_GENERATION_PROMPT, 
-  generateOutlinePrompt,
+  OUTLINE_PROMPT, 
+  OUTLINE_SYSTEM_PROMPT,
   NodeData,
   OutlineContext 
 } from '@/lib/prompts';
+import { NodeRepository, primarySource } from '@/lib/services/node-repository';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
+import { normalizeNodeKind } from '@/lib/node-kinds';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { nodeIds, detailLevel, purpose, academicLevel } = body;
+    const { nodeIds, detailLevel, purpose, academicLevel, projectId } = body;
 
     // Validate required parameters
     if (!nodeIds || !Array.isArray(nodeIds) || nodeIds.length === 0) {
@@ -34,8 +36,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Fetch node data (you may need to implement this based on your data source)
-    const nodes = await fetchNodesByIds(nodeIds);
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    // Fetch node data from the research graph
+    const nodes = await fetchNodesByIds(scope, nodeIds);
     
     if (nodes.length === 0) {
       return NextResponse.json(
@@ -52,38 +57,32 @@ export async function POST(request: NextRequest) {
       academicLevel
     };
 
-    // Generate outline using OpenAI
-    const outlinePrompt = generateOutlinePrompt(context);
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4', // Use gpt-4 for better academic writing
-      messages: [
-        OUTLINE_GENERATION_PROMPT,
-        outlinePrompt
-      ],
-      temperature: 0.7,
-      max_tokens: 2000,
-      response_format: { type: "json_object" }
-    });
-
-    const outlineContent = completion.choices[0].message.content;
-    
-    if (!outlineContent) {
-      throw new Error('No content generated from OpenAI');
-    }
+    // Generate the outline with the configured AI provider
+    const [systemPrompt, outlinePrompt] = await Promise.all([
+      PromptOverrideService.render(scope, OUTLINE_SYSTEM_PROMPT, {}),
+      PromptOverrideService.render(scope, OUTLINE_PROMPT, context),
+    ]);
 
-    // Parse the JSON response
-    let outline;
+    let completion;
     try {
-      outline = JSON.parse(outlineContent);
+      completion = await generateJSON('generate-outline', [
+        systemPrompt.message,
+        outlinePrompt.message
+      ], {
+        bypassCache: bypassesAICache(request),
+        usage: { ...scope, route: '/api/ai/generate-outline' },
+      });
     } catch (parseError) {
-      console.error('Failed to parse OpenAI response as JSON:', parseError);
+      if (!(parseError instanceof AIResponseError)) throw parseError;
+      console.error('Failed to parse AI response as JSON:', parseError);
       return NextResponse.json(
         { error: 'Failed to generate valid outline structure' },
         { status: 500 }
       );
     }
 
+    const outline = completion.data;
+
     // Add metadata to the response
     const response = {
       outline,
@@ -93,7 +92,7 @@ export async function POST(request: NextRequest) {
         detailLevel,
         purpose,
         academicLevel,
-        estimatedTokens: completion.usage?.total_tokens || 0
+        estimatedTokens: completion.usage?.totalTokens || 0
       },
       nodes: nodes.map(node => ({ id: node.id, title: node.title })) // Include node references
     };
@@ -101,6 +100,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response);
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return budgetExceededResponse(error);
+    }
+
     console.error('Error generating AI outline:', error);
     
     return NextResponse.json(
@@ -114,57 +117,29 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Fetch nodes by their IDs from your data source
- * This should be implemented based on your actual data storage
+ * Fetch nodes by their IDs from the caller's research graph
  */
-async function fetchNodesByIds(nodeIds: string[]): Promise<NodeData[]> {
-  // For now, return sample data that matches the expected structure
-  // You should replace this with actual database queries
-  
-  const sampleNodes: NodeData[] = [
-    {
-      id: '1',
-      title: 'Climate Change Overview',
-      content: 'Climate change refers to long-term shifts in global or regional climate patterns, primarily attributed to human activities since the mid-20th century.',
-      type: 'topic',
-      source: 'IPCC Report 2023',
-      connections: ['2', '3']
-    },
-    {
-      id: '2', 
-      title: 'Greenhouse Gas Emissions',
-      content: 'The primary driver of climate change is the increase in greenhouse gases, particularly carbon dioxide from fossil fuel combustion.',
-      type: 'subtopic',
-      source: 'NASA Climate Data',
-      connections: ['1', '4']
-    },
-    {
-      id: '3',
-      title: 'Impact on Ecosystems',
-      content: 'Climate change affects ecosystems through temperature changes, altered precipitation patterns, and extreme weather events.',
-      type: 'subtopic', 
-      source: 'Nature Journal 2023',
-      connections: ['1']
-    },
-    {
-      id: '4',
-      title: 'Carbon Footprint Measurement',
-      content: 'Detailed methodologies for measuring and calculating carbon footprints across different industries and activities.',
-      type: 'detail',
-      source: 'Environmental Science Research',
-      connections: ['2']
-    }
-  ];
-
-  // Filter to only return nodes that match the requested IDs
-  return sampleNodes.filter(node => nodeIds.includes(node.id));
+async function fetchNodesByIds(scope: ResearchScope, nodeIds: string[]): Promise<NodeData[]> {
+  const nodes = await NodeRepository.findByIds(scope, nodeIds);
+
+  return nodes.map(node => ({
+    id: node.id,
+    title: node.title,
+    content: node.content,
+    type: normalizeNodeKind(node.type, node.depth),
+    depth: node.depth,
+    source: primarySource(node),
+    connections: node.connections,
+  }));
 }
 
 // GET endpoint for testing and retrieving available nodes
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Return available sample nodes for testing
-    const availableNodes = await fetchNodesByIds(['1', '2', '3', '4']);
+    const scope = await requireResearchScope(request.nextUrl.searchParams.get('projectId'));
+    if (scope instanceof NextResponse) return scope;
+
+    const { nodes: availableNodes } = await NodeRepository.findNodes(scope, {}, { limit: 50 });
     
     return NextResponse.json({
       availableNodes: availableNodes.map(node => ({
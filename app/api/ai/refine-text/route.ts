@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
-import { TEXT_REFINEMENT_PROMPT } from '@/lib/prompts';
+import { StreamingTextResponse } from 'ai';
+import { bypassesAICache, generateText, streamText } from '@/lib/ai';
+import { abortedResponse, budgetExceededResponse } from '@/lib/ai/responses';
+import { AIBudgetExceededError, AIRequestAbortedError } from '@/lib/error-handling';
+import { REFINEMENT_PROMPT, REFINEMENT_SYSTEM_PROMPT } from '@/lib/prompts';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+import { requireResearchScope } from '@/lib/services/research-scope';
+import { REFINEMENT_TYPES, RefinementType, parseRefinementResponse } from '@/lib/text-refinement';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-type RefinementType = 'expand' | 'refine' | 'rephrase' | 'academic_upgrade' | 'simplify';
 
 interface RefinementRequest {
   text: string;
@@ -16,12 +17,14 @@ interface RefinementRequest {
   instructions?: string;
   targetLength?: number;
   tone?: 'academic' | 'professional' | 'casual';
+  /** Stream the raw reply as text instead of returning JSON. */
+  stream?: boolean;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: RefinementRequest = await request.json();
-    const { text, type, instructions, targetLength, tone = 'academic' } = body;
+    const { text, type, instructions, targetLength, tone = 'academic', stream = false } = body;
 
     // Validate required parameters
     if (!text || text.trim().length === 0) {
@@ -31,34 +34,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!type || !['expand', 'refine', 'rephrase', 'academic_upgrade', 'simplify'].includes(type)) {
+    if (!type || !REFINEMENT_TYPES.includes(type)) {
       return NextResponse.json(
         { error: 'Valid refinement type is required (expand, refine, rephrase, academic_upgrade, simplify)' },
         { status: 400 }
       );
     }
 
-    // Create specific prompt based on refinement type
-    const userPrompt = createRefinementPrompt(text, type, instructions, targetLength, tone);
+    // Signed-in only, so every refinement counts against the user's AI budget
+    const scope = await requireResearchScope();
+    if (scope instanceof NextResponse) return scope;
+
+    const prompts = await Promise.all([
+      PromptOverrideService.render(scope, REFINEMENT_SYSTEM_PROMPT, {}),
+      PromptOverrideService.render(scope, REFINEMENT_PROMPT, { text, type, instructions, targetLength, tone }),
+    ]);
+    const messages = prompts.map(prompt => prompt.message);
+    const options = {
+      maxTokens: calculateMaxTokens(text, type, targetLength),
+      bypassCache: bypassesAICache(request),
+      signal: request.signal,
+      usage: { ...scope, route: '/api/ai/refine-text' },
+    };
+
+    // Streamed as the raw reply; clients read it with lib/text-refinement
+    if (stream) {
+      return new StreamingTextResponse(await streamText('refine-text', messages, options));
+    }
 
-    // Generate refined content using OpenAI
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        TEXT_REFINEMENT_PROMPT,
-        {
-          role: 'user',
-          content: userPrompt
-        }
-      ],
-      temperature: 0.6, // Slightly lower for more controlled refinement
-      max_tokens: calculateMaxTokens(text, type, targetLength),
-    });
+    // Generate refined content with the configured AI provider
+    const completion = await generateText('refine-text', messages, options);
 
-    const refinedContent = completion.choices[0].message.content;
+    const refinedContent = completion.text;
     
     if (!refinedContent) {
-      throw new Error('No content generated from OpenAI');
+      throw new Error('No content generated by the AI provider');
     }
 
     // Parse the response to extract refined text and explanation
@@ -78,7 +88,7 @@ export async function POST(request: NextRequest) {
         tone,
         targetLength,
         instructions,
-        estimatedTokens: completion.usage?.total_tokens || 0
+        estimatedTokens: completion.usage?.totalTokens || 0
       },
       metrics
     };
@@ -86,6 +96,14 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response);
 
   } catch (error) {
+    if (error instanceof AIRequestAbortedError) {
+      return abortedResponse(request, error);
+    }
+
+    if (error instanceof AIBudgetExceededError) {
+      return budgetExceededResponse(error);
+    }
+
     console.error('Error refining text:', error);
     
     return NextResponse.json(
@@ -98,60 +116,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Create a specific prompt based on the refinement type
- */
-function createRefinementPrompt(
-  text: string, 
-  type: RefinementType, 
-  instructions?: string, 
-  targetLength?: number, 
-  tone?: string
-): string {
-  let basePrompt = `Please ${type.replace('_', ' ')} the following text:\n\n"${text}"\n\n`;
-
-  switch (type) {
-    case 'expand':
-      basePrompt += `Add depth, examples, analysis, or supporting details to make the content more comprehensive. `;
-      if (targetLength) {
-        basePrompt += `Target approximately ${targetLength} words. `;
-      }
-      break;
-    
-    case 'refine':
-      basePrompt += `Improve clarity, flow, word choice, and sentence structure while maintaining the original meaning. `;
-      break;
-    
-    case 'rephrase':
-      basePrompt += `Maintain the exact meaning while improving expression and ${tone} tone. `;
-      break;
-    
-    case 'academic_upgrade':
-      basePrompt += `Enhance scholarly tone, add academic rigor, and use appropriate terminology for academic writing. `;
-      break;
-    
-    case 'simplify':
-      basePrompt += `Make complex ideas more accessible without losing precision or important details. `;
-      break;
-  }
-
-  if (instructions) {
-    basePrompt += `\n\nSpecial instructions: ${instructions}`;
-  }
-
-  basePrompt += `\n\nPlease provide your response in the following format:
-IMPROVED TEXT:
-[Your improved version here]
-
-EXPLANATION:
-[Brief explanation of the changes made]
-
-SUGGESTIONS:
-[Any additional suggestions for further improvement]`;
-
-  return basePrompt;
-}
-
 /**
  * Calculate appropriate max tokens based on refinement type and target length
  */
@@ -173,47 +137,6 @@ function calculateMaxTokens(originalText: string, type: RefinementType, targetLe
   }
 }
 
-/**
- * Parse the refinement response to extract components
- */
-function parseRefinementResponse(response: string): {
-  improvedText: string;
-  explanation: string;
-  suggestions: string[];
-} {
-  const sections = response.split(/(?:IMPROVED TEXT:|EXPLANATION:|SUGGESTIONS:)/i);
-  
-  let improvedText = '';
-  let explanation = '';
-  let suggestions: string[] = [];
-
-  if (sections.length >= 2) {
-    improvedText = sections[1]?.trim() || '';
-  }
-  
-  if (sections.length >= 3) {
-    explanation = sections[2]?.trim() || '';
-  }
-  
-  if (sections.length >= 4) {
-    const suggestionsText = sections[3]?.trim() || '';
-    suggestions = suggestionsText
-      .split('\n')
-      .map(s => s.trim())
-      .filter(s => s.length > 0 && !s.startsWith('-'))
-      .map(s => s.replace(/^[-•]\s*/, ''));
-  }
-
-  // Fallback if parsing fails
-  if (!improvedText) {
-    improvedText = response;
-    explanation = 'Text has been refined according to your specifications.';
-    suggestions = ['Review the changes and make any additional adjustments as needed.'];
-  }
-
-  return { improvedText, explanation, suggestions };
-}
-
 /**
  * Calculate improvement metrics comparing original and improved text
  */
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
+import { bypassesAICache, generateText } from '@/lib/ai';
+import { budgetExceededResponse } from '@/lib/ai/responses';
+import { AIBudgetExceededError } from '@/lib/error-handling';
 import { 
-  MCP_GUIDANCE_PROMPT,
-  generateOutlineSuggestionsPrompt,
-  generateNodeExplorationPrompt,
-  NodeData 
+  CONTENT_SUGGESTIONS_PROMPT,
+  NODE_EXPLORATION_PROMPT,
+  OUTLINE_SUGGESTIONS_PROMPT,
+  STRUCTURE_SUGGESTIONS_PROMPT,
+  SUGGESTIONS_SYSTEM_PROMPT,
+  NodeData,
+  RenderedPrompt
 } from '@/lib/prompts';
+import { NodeRepository, primarySource } from '@/lib/services/node-repository';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 type SuggestionType = 'outline_improvement' | 'node_exploration' | 'structure_optimization' | 'content_enhancement';
 
 interface SuggestionRequest {
@@ -23,12 +27,13 @@ interface SuggestionRequest {
   currentContent?: string;
   focusArea?: string;
   academicLevel?: 'undergraduate' | 'graduate' | 'professional';
+  projectId?: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: SuggestionRequest = await request.json();
-    const { type, outline, nodeIds, currentContent, focusArea, academicLevel } = body;
+    const { type, outline, nodeIds, currentContent, focusArea, academicLevel, projectId } = body;
 
     // Validate required parameters
     if (!type || !['outline_improvement', 'node_exploration', 'structure_optimization', 'content_enhancement'].includes(type)) {
@@ -38,12 +43,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let prompt;
+    // Signed-in only, so every suggestion counts against the user's AI budget
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    let prompt: RenderedPrompt;
     let nodes: NodeData[] = [];
 
     // Fetch nodes if nodeIds provided
     if (nodeIds && nodeIds.length > 0) {
-      nodes = await fetchNodesByIds(nodeIds);
+      nodes = await fetchNodesByIds(scope, nodeIds);
     }
 
     // Generate appropriate prompt based on suggestion type
@@ -55,7 +64,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        prompt = generateOutlineSuggestionsPrompt(outline, nodes);
+        prompt = await PromptOverrideService.render(scope, OUTLINE_SUGGESTIONS_PROMPT, { outline, nodes });
         break;
 
       case 'node_exploration':
@@ -65,11 +74,16 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        prompt = generateNodeExplorationPrompt(nodes, outline);
+        prompt = await PromptOverrideService.render(scope, NODE_EXPLORATION_PROMPT, { outline, nodes });
         break;
 
       case 'structure_optimization':
-        prompt = createStructureOptimizationPrompt(outline, nodes, focusArea, academicLevel);
+        prompt = await PromptOverrideService.render(scope, STRUCTURE_SUGGESTIONS_PROMPT, {
+          outline,
+          nodes,
+          focusArea,
+          academicLevel,
+        });
         break;
 
       case 'content_enhancement':
@@ -79,7 +93,12 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        prompt = createContentEnhancementPrompt(currentContent, outline, nodes, focusArea);
+        prompt = await PromptOverrideService.render(scope, CONTENT_SUGGESTIONS_PROMPT, {
+          content: currentContent,
+          outline,
+          nodes,
+          focusArea,
+        });
         break;
 
       default:
@@ -89,21 +108,20 @@ export async function POST(request: NextRequest) {
         );
     }
 
-    // Generate suggestions using OpenAI
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        MCP_GUIDANCE_PROMPT,
-        prompt
-      ],
-      temperature: 0.7,
-      max_tokens: 1500,
+    // Generate suggestions with the configured AI provider
+    const system = await PromptOverrideService.render(scope, SUGGESTIONS_SYSTEM_PROMPT, {});
+    const completion = await generateText('suggestions', [
+      system.message,
+      prompt.message
+    ], {
+      bypassCache: bypassesAICache(request),
+      usage: { ...scope, route: '/api/ai/suggestions' },
     });
 
-    const suggestionsContent = completion.choices[0].message.content;
+    const suggestionsContent = completion.text;
     
     if (!suggestionsContent) {
-      throw new Error('No suggestions generated from OpenAI');
+      throw new Error('No suggestions generated by the AI provider');
     }
 
     // Parse and structure the suggestions
@@ -117,7 +135,7 @@ export async function POST(request: NextRequest) {
         nodeCount: nodes.length,
         focusArea,
         academicLevel,
-        estimatedTokens: completion.usage?.total_tokens || 0
+        estimatedTokens: completion.usage?.totalTokens || 0
       },
       context: {
         outline: outline ? { title: outline.title, sectionCount: outline.sections?.length || 0 } : null,
@@ -129,6 +147,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response);
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return budgetExceededResponse(error);
+    }
+
     console.error('Error generating AI suggestions:', error);
     
     return NextResponse.json(
@@ -141,77 +163,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Create prompt for structure optimization suggestions
- */
-function createStructureOptimizationPrompt(
-  outline: any, 
-  nodes: NodeData[], 
-  focusArea?: string,
-  academicLevel?: string
-) {
-  return {
-    role: 'user' as const,
-    content: `Analyze the following research structure and provide optimization suggestions:
-
-${outline ? `Current Outline:
-${JSON.stringify(outline, null, 2)}` : 'No outline provided - please suggest optimal structure.'}
-
-Available Research Nodes:
-${nodes.map(node => `- ${node.title} (${node.type}): ${node.content.substring(0, 150)}...`).join('\n')}
-
-${focusArea ? `Focus Area: ${focusArea}` : ''}
-${academicLevel ? `Academic Level: ${academicLevel}` : ''}
-
-Please provide specific suggestions for:
-1. Optimal organization and flow of sections
-2. Logical progression of arguments
-3. Balance between different topics and subtopics
-4. Integration opportunities for available research nodes
-5. Missing structural elements for academic rigor
-6. Potential restructuring for better impact
-
-Format your response with clear categories and actionable recommendations.`
-  };
-}
-
-/**
- * Create prompt for content enhancement suggestions
- */
-function createContentEnhancementPrompt(
-  currentContent: string,
-  outline: any,
-  nodes: NodeData[],
-  focusArea?: string
-) {
-  return {
-    role: 'user' as const,
-    content: `Analyze the following content and provide enhancement suggestions:
-
-Current Content:
-${currentContent}
-
-${outline ? `Related Outline Context:
-${JSON.stringify(outline, null, 2)}` : ''}
-
-Available Research Nodes for Integration:
-${nodes.map(node => `- ${node.title}: ${node.content.substring(0, 100)}...`).join('\n')}
-
-${focusArea ? `Focus Area: ${focusArea}` : ''}
-
-Please provide specific suggestions for:
-1. Content depth and detail improvements
-2. Integration of additional research nodes
-3. Clarity and flow enhancements
-4. Academic rigor and evidence strengthening
-5. Transition and connection improvements
-6. Areas requiring more support or examples
-7. Potential gaps or missing perspectives
-
-Provide concrete, actionable recommendations with specific examples where possible.`
-  };
-}
-
 /**
  * Parse suggestions response into structured format
  */
@@ -341,45 +292,19 @@ function generateNextSteps(type: SuggestionType, suggestions: any): string[] {
 }
 
 /**
- * Fetch nodes by their IDs - reusing from other AI endpoints
+ * Fetch nodes by their IDs from the caller's research graph
  */
-async function fetchNodesByIds(nodeIds: string[]): Promise<NodeData[]> {
-  const sampleNodes: NodeData[] = [
-    {
-      id: '1',
-      title: 'Climate Change Overview',
-      content: 'Climate change refers to long-term shifts in global or regional climate patterns, primarily attributed to human activities since the mid-20th century.',
-      type: 'topic',
-      source: 'IPCC Report 2023',
-      connections: ['2', '3']
-    },
-    {
-      id: '2', 
-      title: 'Greenhouse Gas Emissions',
-      content: 'The primary driver of climate change is the increase in greenhouse gases, particularly carbon dioxide from fossil fuel combustion.',
-      type: 'subtopic',
-      source: 'NASA Climate Data',
-      connections: ['1', '4']
-    },
-    {
-      id: '3',
-      title: 'Impact on Ecosystems',
-      content: 'Climate change affects ecosystems through temperature changes, altered precipitation patterns, and extreme weather events.',
-      type: 'subtopic', 
-      source: 'Nature Journal 2023',
-      connections: ['1']
-    },
-    {
-      id: '4',
-      title: 'Carbon Footprint Measurement',
-      content: 'Detailed methodologies for measuring and calculating carbon footprints across different industries and activities.',
-      type: 'detail',
-      source: 'Environmental Science Research',
-      connections: ['2']
-    }
-  ];
-
-  return sampleNodes.filter(node => nodeIds.includes(node.id));
+async function fetchNodesByIds(scope: ResearchScope, nodeIds: string[]): Promise<NodeData[]> {
+  const nodes = await NodeRepository.findByIds(scope, nodeIds);
+
+  return nodes.map(node => ({
+    id: node.id,
+    title: node.title,
+    content: node.content,
+    type: node.type as NodeData['type'],
+    source: primarySource(node),
+    connections: node.connections,
+  }));
 }
 
 // GET endpoint for testing and documentation
@@ -396,7 +321,7 @@ export async function GET() {
       endpoint: '/api/ai/suggestions',
       method: 'POST',
       requiredFields: ['type'],
-      optionalFields: ['outline', 'nodeIds', 'currentContent', 'focusArea', 'academicLevel']
+      optionalFields: ['outline', 'nodeIds', 'currentContent', 'focusArea', 'academicLevel', 'projectId']
     },
     examples: {
       outlineImprovement: {
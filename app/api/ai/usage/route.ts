@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { AIUsageService } from '@/lib/services/ai-usage';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+// GET /api/ai/usage - The authenticated user's AI usage and budget for the current period
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const summary = await AIUsageService.summary(session.user.id);
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch AI usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,37 +1,34 @@
-import { OpenAIStream, StreamingTextResponse } from 'ai';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { StreamingTextResponse } from 'ai';
+import { isAIConfigured, streamText, AIMessage } from '@/lib/ai';
+import { retryAfterSeconds } from '@/lib/ai/responses';
+import { AIBudgetExceededError } from '@/lib/error-handling';
+import { requireResearchScope } from '@/lib/services/research-scope';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-const aiProvider = process.env.AI_PROVIDER || 'openai'; // Default to openai
-
-let aiClient: any;
-let modelName: string;
-
-if (aiProvider === 'gemini') {
-  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-  aiClient = genAI.getGenerativeModel({ model: 'gemini-pro' });
-  modelName = 'gemini-pro';
-} else {
-  aiClient = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY!,
-  });
-  modelName = 'gpt-4o-mini';
-}
-
 export async function POST(req: Request) {
   try {
     // Extract the messages from the body of the request
     const { messages } = await req.json();
 
+    // Signed-in only, so every chat reply counts against the user's AI budget
+    const scope = await requireResearchScope();
+    if (scope instanceof Response) {
+      return new Response('Sign in to chat', {
+        status: 401,
+        headers: {
+          'Content-Type': 'text/plain',
+        },
+      });
+    }
+
     // Check if API keys are missing and provide a mock response for testing
-    if (!process.env.OPENAI_API_KEY && !process.env.GEMINI_API_KEY) {
+    if (!isAIConfigured()) {
       // Mock response for testing when API keys are not available
       const lastMessage = messages[messages.length - 1];
-      const mockResponse = `Thank you for your message: "${lastMessage.content}". This is a mock response because no API keys are configured. To enable real AI responses, please add your OPENAI_API_KEY or GEMINI_API_KEY to your .env.local file.`;
+      const mockResponse = `Thank you for your message: "${lastMessage.content}". This is a mock response because no API keys are configured. To enable real AI responses, please add your OPENAI_API_KEY or GEMINI_API_KEY to your .env.local file, or set AI_PROVIDER=mock for offline canned responses.`;
       
       // Return a simple text response instead of a stream for testing
       return new Response(mockResponse, {
@@ -41,31 +38,25 @@ export async function POST(req: Request) {
       });
     }
 
-    let response;
+    const chatMessages: AIMessage[] = messages
+      .filter((msg: any) => ['system', 'user', 'assistant'].includes(msg.role))
+      .map((msg: any) => ({ role: msg.role, content: msg.content }));
 
-    if (aiProvider === 'gemini') {
-      const chat = aiClient.startChat({
-        history: messages.map((msg: any) => ({
-          role: msg.role === 'user' ? 'user' : 'model',
-          parts: [{ text: msg.content }],
-        })),
-        generationConfig: {
-          maxOutputTokens: 2000,
+    return new StreamingTextResponse(await streamText('chat', chatMessages, {
+      usage: { ...scope, route: '/api/chat' },
+    }));
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      const retryAfter = retryAfterSeconds(error);
+      return new Response(error.message, {
+        status: error.statusCode,
+        headers: {
+          'Content-Type': 'text/plain',
+          ...(retryAfter ? { 'Retry-After': String(retryAfter) } : {}),
         },
       });
-      response = await chat.sendMessageStream(messages[messages.length - 1].content);
-      const stream = response.stream.pipeThrough(new TextEncoderStream());
-      return new StreamingTextResponse(stream);
-    } else {
-      response = await aiClient.chat.completions.create({
-        model: modelName,
-        stream: true,
-        messages: messages,
-      });
-      const stream = OpenAIStream(response);
-      return new StreamingTextResponse(stream);
     }
-  } catch (error) {
+
     console.error('Chat API error:', error);
     return new Response(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`, {
       status: 500,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { collabSecret, signCollabToken } from '@/lib/collaboration/collab-token';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// POST /api/projects/[id]/collaboration - Issue a token for the project's collaboration room
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const secret = collabSecret();
+    if (!secret) {
+      return NextResponse.json(
+        { success: false, error: 'Collaboration is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+    const name = session?.user?.name || session?.user?.email || 'Collaborator';
+
+    const token = signCollabToken(
+      { projectId: access.projectId, userId: access.userId, name, role: access.role },
+      secret
+    );
+
+    return NextResponse.json(
+      {
+        url: process.env.NEXT_PUBLIC_COLLAB_URL || 'ws://localhost:3001',
+        token,
+        role: access.role,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error issuing collaboration token:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start collaboration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectCommentService } from '@/lib/services/project-comments';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// DELETE /api/projects/[id]/comments/[commentId] - Delete your own comment, or any comment (owner)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'commenter');
+    if (access instanceof NextResponse) return access;
+
+    const removed = await ProjectCommentService.remove(access.projectId, params.commentId, {
+      id: access.userId,
+      isOwner: access.role === 'owner',
+    });
+
+    if (removed === null) {
+      return NextResponse.json(
+        { success: false, error: 'Comment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Comment deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting project comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete project comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { MAX_COMMENT_LENGTH, ProjectCommentService } from '@/lib/services/project-comments';
+import { z } from 'zod';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Validation schema for adding comments
+const AddCommentSchema = z.object({
+  body: z.string().trim().min(1).max(MAX_COMMENT_LENGTH),
+  nodeId: z.string().min(1).nullable().optional(), // Node of the project document
+});
+
+// GET /api/projects/[id]/comments - List a project's comments, optionally for one node
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const nodeId = request.nextUrl.searchParams.get('nodeId') || undefined;
+    const comments = await ProjectCommentService.list(access.projectId, nodeId);
+
+    return NextResponse.json(comments, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching project comments:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project comments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/comments - Comment on a project (commenter or above)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'commenter');
+    if (access instanceof NextResponse) return access;
+
+    const body = await request.json();
+    const validatedData = AddCommentSchema.parse(body);
+
+    const comment = await ProjectCommentService.add(access.projectId, access.userId, validatedData);
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error adding project comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add project comment' },
+      { status: 500 }
+    );
+  }
+}
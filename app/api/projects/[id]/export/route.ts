@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectArchiveService } from '@/lib/services/project-archive';
+import { KNIIT_FILE_EXTENSION } from '@/lib/project-archive';
+import { ProjectDocumentError } from '@/lib/error-handling';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/[id]/export - Download the project as a .kniit archive (owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'owner');
+    if (access instanceof NextResponse) return access;
+
+    const archive = await ProjectArchiveService.build(access.projectId, access.ownerId);
+    if (!archive) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const filename = archive.manifest.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'project';
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}.${KNIIT_FILE_EXTENSION}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ProjectDocumentError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error exporting project:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export project' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectMemberService } from '@/lib/services/project-members';
+import { PROJECT_ROLES } from '@/lib/project-roles';
+import { z } from 'zod';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Validation schema for changing a member's role
+const UpdateMemberSchema = z.object({
+  role: z.enum(PROJECT_ROLES),
+});
+
+// PATCH /api/projects/[id]/members/[userId] - Change a member's role (owner only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'owner');
+    if (access instanceof NextResponse) return access;
+
+    const body = await request.json();
+    const validatedData = UpdateMemberSchema.parse(body);
+
+    const member = await ProjectMemberService.updateRole(access.projectId, params.userId, validatedData.role);
+
+    if (!member) {
+      return NextResponse.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(member, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating project member:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update project member' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/members/[userId] - Remove a member (owner), or leave a project (the member)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    if (access.role !== 'owner' && access.userId !== params.userId) {
+      return NextResponse.json(
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const removed = await ProjectMemberService.remove(access.projectId, params.userId);
+
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Member removed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error removing project member:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove project member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectMemberService } from '@/lib/services/project-members';
+import { PROJECT_ROLES } from '@/lib/project-roles';
+import { z } from 'zod';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Validation schema for inviting members
+const InviteMemberSchema = z.object({
+  identifier: z.string().min(1).max(200), // Email address or username
+  role: z.enum(PROJECT_ROLES).default('viewer'),
+});
+
+// GET /api/projects/[id]/members - List the owner and members of a project
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const members = await ProjectMemberService.list(access.projectId);
+
+    return NextResponse.json(members, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching project members:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project members' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/members - Share a project with a user (owner only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'owner');
+    if (access instanceof NextResponse) return access;
+
+    const body = await request.json();
+    const validatedData = InviteMemberSchema.parse(body);
+
+    const invitee = await ProjectMemberService.findInvitee(validatedData.identifier);
+
+    if (!invitee) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (invitee.id === access.ownerId) {
+      return NextResponse.json(
+        { success: false, error: 'The owner already has full access' },
+        { status: 400 }
+      );
+    }
+
+    const member = await ProjectMemberService.invite(access.projectId, invitee.id, validatedData.role);
+
+    return NextResponse.json(member, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error inviting project member:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to invite project member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ValidationError } from '@/lib/error-handling';
+import { getPrompt } from '@/lib/prompts';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Validation schema for a prompt override
+const PromptOverrideSchema = z.object({
+  template: z.string().max(50000).nullable().optional(),
+  instructions: z.string().max(10000).nullable().optional(),
+});
+
+// PUT /api/projects/[id]/prompts/[promptId] - Override a prompt for this project (editors)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; promptId: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'editor');
+    if (access instanceof NextResponse) return access;
+
+    const prompt = getPrompt(params.promptId);
+    if (!prompt) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = PromptOverrideSchema.parse(body);
+
+    const override = await PromptOverrideService.save(access.projectId, prompt, validatedData, access.userId);
+
+    return NextResponse.json(override, { status: 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving prompt override:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save prompt override' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/prompts/[promptId] - Go back to the built-in prompt (editors)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; promptId: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'editor');
+    if (access instanceof NextResponse) return access;
+
+    const removed = await PromptOverrideService.remove(access.projectId, params.promptId);
+
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'Prompt override not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Prompt override removed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error removing prompt override:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove prompt override' },
+      { status: 500 }
+    );
+  }
+}
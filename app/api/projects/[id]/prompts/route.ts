@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/[id]/prompts - List every AI prompt with the project's overrides
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const prompts = await PromptOverrideService.list(access.projectId);
+
+    return NextResponse.json(prompts, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching project prompts:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project prompts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/[id]/revisions/[revision]/diff?against=N - Compare with revision N (default: the one before)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; revision: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const number = parseInt(params.revision, 10);
+    const againstParam = request.nextUrl.searchParams.get('against');
+    const against = againstParam !== null ? parseInt(againstParam, 10) : undefined;
+
+    if (Number.isNaN(number) || (against !== undefined && Number.isNaN(against))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid revision number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await ProjectRevisionService.diff(access.projectId, number, against);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Error diffing project revisions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to diff project revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+import { ProjectDocumentError } from '@/lib/error-handling';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// POST /api/projects/[id]/revisions/[revision]/restore - Restore a revision as a new save
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; revision: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'editor');
+    if (access instanceof NextResponse) return access;
+
+    const number = parseInt(params.revision, 10);
+    if (Number.isNaN(number)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid revision number' },
+        { status: 400 }
+      );
+    }
+
+    const restoredProject = await ProjectRevisionService.restore(access.projectId, number, access.userId);
+
+    if (!restoredProject) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(restoredProject, { status: 200 });
+  } catch (error) {
+    if (error instanceof ProjectDocumentError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error restoring project revision:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore project revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/[id]/revisions/[revision] - View one revision, including its data
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; revision: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const number = parseInt(params.revision, 10);
+    if (Number.isNaN(number)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid revision number' },
+        { status: 400 }
+      );
+    }
+
+    const revision = await ProjectRevisionService.get(access.projectId, number);
+
+    if (!revision) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(revision, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching project revision:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project revision' },
+      { status: 500 }
+    );
+  }
+}
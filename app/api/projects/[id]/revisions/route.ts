@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/[id]/revisions - List a project's revisions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
+
+    const revisions = await ProjectRevisionService.list(access.projectId);
+
+    return NextResponse.json(revisions, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching project revisions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch project revisions' },
+      { status: 500 }
+    );
+  }
+}
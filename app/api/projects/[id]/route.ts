@@ -1,47 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
-import { PrismaClient } from '@prisma/client';
+import prisma from '@/lib/db';
+import { requireProjectAccess } from '@/lib/services/project-access';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+import { ProjectLibraryService } from '@/lib/services/project-library';
+import { MAX_FOLDER_LENGTH, MAX_PROJECT_TAGS, MAX_TAG_LENGTH } from '@/lib/project-labels';
+import { PROJECT_TRASH_RETENTION_DAYS, ProjectTrashService } from '@/lib/services/project-trash';
+import { parseProjectDocument } from '@/lib/project-document';
+import { ProjectDocumentError } from '@/lib/error-handling';
 import { z } from 'zod';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-const prisma = new PrismaClient();
-
 // Validation schema for updating projects
 const UpdateProjectSchema = z.object({
   title: z.string().min(1).max(200).optional(),
-  data: z.object({
-    nodes: z.array(z.any()).optional(),
-    conflicts: z.array(z.any()).optional(),
-    summary: z.any().optional(),
-    timestamp: z.string().optional(),
-  }).optional(),
+  data: z.record(z.any()).optional(), // Project document, see lib/project-document.ts
+  changeSummary: z.string().max(200).optional(), // Recorded on the revision this save creates
+  folder: z.string().max(MAX_FOLDER_LENGTH).nullable().optional(), // Owner only; not revisioned
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_PROJECT_TAGS).optional(), // Owner only; not revisioned
 });
 
-// GET /api/projects/[id] - Get a specific project
+// GET /api/projects/[id] - Get a specific project (owner or any member)
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const access = await requireProjectAccess(params.id, 'viewer');
+    if (access instanceof NextResponse) return access;
 
-    const project = await prisma.savedPath.findFirst({
-      where: {
-        id: params.id,
-        user: {
-          email: session.user.email,
-        },
-      },
+    const project = await prisma.savedPath.findUnique({
+      where: { id: access.projectId },
       select: {
         id: true,
         title: true,
@@ -58,7 +48,7 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(project, { status: 200 });
+    return NextResponse.json({ ...project, role: access.role }, { status: 200 });
   } catch (error) {
     console.error('Error fetching project:', error);
     return NextResponse.json(
@@ -68,58 +58,52 @@ export async function GET(
   }
 }
 
-// PUT /api/projects/[id] - Update a project
+// PUT /api/projects/[id] - Update a project (owner or editor; folder and tags owner only)
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const access = await requireProjectAccess(params.id, 'editor');
+    if (access instanceof NextResponse) return access;
 
     const body = await request.json();
     const validatedData = UpdateProjectSchema.parse(body);
+    const { folder, tags } = validatedData;
+    const organizing = folder !== undefined || tags !== undefined;
 
-    // Check if the project exists and belongs to the user
-    const existingProject = await prisma.savedPath.findFirst({
-      where: {
-        id: params.id,
-        user: {
-          email: session.user.email,
-        },
-      },
-    });
-
-    if (!existingProject) {
+    // Folders and tags organize the owner's own project list
+    if (organizing && access.role !== 'owner') {
       return NextResponse.json(
-        { success: false, error: 'Project not found' },
-        { status: 404 }
+        { success: false, error: 'Insufficient permissions' },
+        { status: 403 }
       );
     }
 
-    const updatedProject = await prisma.savedPath.update({
-      where: { id: params.id },
-      data: {
-        ...(validatedData.title && { title: validatedData.title }),
-        ...(validatedData.data && { data: validatedData.data }),
-      },
-      select: {
-        id: true,
-        title: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+    let updatedProject;
+    if (validatedData.title || validatedData.data || !organizing) {
+      // Keep the previous state reachable through the revision history
+      updatedProject = await ProjectRevisionService.saveWithRevision({
+        projectId: access.projectId,
+        authorId: access.userId,
+        title: validatedData.title,
+        data: validatedData.data && parseProjectDocument(validatedData.data),
+        summary: validatedData.changeSummary,
+      });
+    }
+    if (organizing) {
+      updatedProject = await ProjectLibraryService.organize(access.projectId, { folder, tags });
+    }
 
     return NextResponse.json(updatedProject, { status: 200 });
   } catch (error) {
+    if (error instanceof ProjectDocumentError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { success: false, error: 'Invalid request data', details: error.errors },
@@ -135,44 +119,25 @@ export async function PUT(
   }
 }
 
-// DELETE /api/projects/[id] - Delete a project
+// DELETE /api/projects/[id] - Move a project to the trash (owner only)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const access = await requireProjectAccess(params.id, 'owner');
+    if (access instanceof NextResponse) return access;
 
-    // Check if the project exists and belongs to the user
-    const existingProject = await prisma.savedPath.findFirst({
-      where: {
-        id: params.id,
-        user: {
-          email: session.user.email,
-        },
-      },
-    });
-
-    if (!existingProject) {
-      return NextResponse.json(
-        { success: false, error: 'Project not found' },
-        { status: 404 }
-      );
-    }
-
-    await prisma.savedPath.delete({
-      where: { id: params.id },
-    });
+    await ProjectTrashService.moveToTrash(access.projectId);
+    // Best effort: the project is already in the trash
+    await ProjectTrashService.purgeExpired()
+      .catch(error => console.error('Failed to purge expired projects:', error));
 
     return NextResponse.json(
-      { success: true, message: 'Project deleted successfully' },
+      {
+        success: true,
+        message: `Project moved to trash; it will be deleted permanently after ${PROJECT_TRASH_RETENTION_DAYS} days`,
+      },
       { status: 200 }
     );
   } catch (error) {
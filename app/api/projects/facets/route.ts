@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { ProjectLibraryService } from '@/lib/services/project-library';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/facets - Get the folders and tags used by the authenticated user's projects
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const facets = await ProjectLibraryService.facets(session.user.id);
+
+    return NextResponse.json(facets, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching project facets:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch folders and tags' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { ProjectArchiveService } from '@/lib/services/project-archive';
+import { parseProjectArchive } from '@/lib/project-archive';
+import { ProjectDocumentError, ValidationError } from '@/lib/error-handling';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+// POST /api/projects/import - Create a new project from an uploaded .kniit archive
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Archive is not valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const archive = parseProjectArchive(body);
+    const project = await ProjectArchiveService.restore(archive, session.user.id);
+
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof ProjectDocumentError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error importing project:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import project' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,62 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { PrismaClient } from '@prisma/client';
+import prisma from '@/lib/db';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+import { ProjectLibraryService, ProjectQuery } from '@/lib/services/project-library';
+import { ProjectTrashService } from '@/lib/services/project-trash';
+import { withPagination, PaginationParams } from '@/lib/api-pagination';
+import {
+  MAX_FOLDER_LENGTH,
+  MAX_PROJECT_TAGS,
+  MAX_TAG_LENGTH,
+  normalizeFolder,
+  normalizeTags,
+  parseTagList,
+  ProjectSortField,
+} from '@/lib/project-labels';
+import { parseProjectDocument } from '@/lib/project-document';
+import { ProjectDocumentError } from '@/lib/error-handling';
 import { z } from 'zod';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
-const prisma = new PrismaClient();
 
 // Validation schema for creating/updating projects
 const SaveProjectSchema = z.object({
   title: z.string().min(1).max(200),
-  data: z.object({
-    nodes: z.array(z.any()).optional(),
-    conflicts: z.array(z.any()).optional(),
-    summary: z.any().optional(),
-    timestamp: z.string().optional(),
-  }),
+  data: z.record(z.any()), // Project document, see lib/project-document.ts
+  folder: z.string().max(MAX_FOLDER_LENGTH).nullable().optional(),
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_PROJECT_TAGS).optional(),
 });
 
-// GET /api/projects - Get all projects for the authenticated user
-export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+// Configure pagination settings; `id` is the helpers' default and means "last updated"
+const paginationConfig = {
+  defaultLimit: 20,
+  maxLimit: 100,
+  allowedSortFields: ['id', 'updatedAt', 'createdAt', 'title'],
+};
 
-    const projects = await prisma.savedPath.findMany({
-      where: {
-        user: {
-          email: session.user.email,
-        },
-      },
-      orderBy: {
-        updatedAt: 'desc',
-      },
-      select: {
-        id: true,
-        title: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+// Translate `search`, `filter[folder]` and `filter[tag]` query parameters into a library query.
+// An empty `filter[folder]=` lists unfiled projects; tags may be comma-separated.
+function toProjectQuery(params: PaginationParams): ProjectQuery {
+  const filters = params.filters || {};
 
-    return NextResponse.json(projects, { status: 200 });
-  } catch (error) {
-    console.error('Error fetching projects:', error);
+  return {
+    search: params.search,
+    ...(filters.folder !== undefined && { folder: normalizeFolder(filters.folder) }),
+    ...(filters.tag && { tags: parseTagList(filters.tag) }),
+  };
+}
+
+// GET /api/projects - Search, filter and page through the authenticated user's projects
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email || !session.user.id) {
     return NextResponse.json(
-      { success: false, error: 'Failed to fetch projects' },
-      { status: 500 }
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
     );
   }
+
+  const userId = session.user.id;
+
+  // Projects are listed far more often than the trash, so expired ones go here too.
+  // Best effort: a failed purge must not break the listing.
+  await ProjectTrashService.purgeExpired()
+    .catch(error => console.error('Failed to purge expired projects:', error));
+
+  return withPagination(async (_request, params) => {
+    const { projects, total } = await ProjectLibraryService.findProjects(userId, toProjectQuery(params), {
+      offset: (params.page! - 1) * params.limit!,
+      limit: params.limit!,
+      sortBy: params.sort === 'id' ? undefined : (params.sort as ProjectSortField),
+      // The helpers default to descending; titles read better A-Z unless asked otherwise
+      sortOrder: request.nextUrl.searchParams.has('order') ? params.order : undefined,
+    });
+
+    return { data: projects, total };
+  }, paginationConfig)(request);
 }
 
 // POST /api/projects - Create a new project
@@ -86,23 +107,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const project = await prisma.savedPath.create({
-      data: {
-        title: validatedData.title,
-        data: validatedData.data,
-        userId: user.id,
-      },
-      select: {
-        id: true,
-        title: true,
-        data: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const project = await ProjectRevisionService.saveWithRevision({
+      ownerId: user.id,
+      authorId: user.id,
+      title: validatedData.title,
+      data: parseProjectDocument(validatedData.data),
+      folder: normalizeFolder(validatedData.folder),
+      tags: validatedData.tags && normalizeTags(validatedData.tags),
     });
 
     return NextResponse.json(project, { status: 201 });
   } catch (error) {
+    if (error instanceof ProjectDocumentError) {
+      return NextResponse.json(
+        { success: false, error: error.message, details: error.details },
+        { status: 400 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { success: false, error: 'Invalid request data', details: error.errors },
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { ProjectMemberService } from '@/lib/services/project-members';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/shared - Get projects other users have shared with the authenticated user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const projects = await ProjectMemberService.sharedWith(session.user.id);
+
+    return NextResponse.json(projects, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching shared projects:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch shared projects' },
+      { status: 500 }
+    );
+  }
+}
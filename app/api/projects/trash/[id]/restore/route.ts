@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { ProjectTrashService } from '@/lib/services/project-trash';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// POST /api/projects/trash/[id]/restore - Take a project out of the trash (owner only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const project = await ProjectTrashService.restore(params.id, session.user.id);
+
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(project, { status: 200 });
+  } catch (error) {
+    console.error('Error restoring project:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore project' },
+      { status: 500 }
+    );
+  }
+}
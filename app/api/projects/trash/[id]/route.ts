@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { ProjectTrashService } from '@/lib/services/project-trash';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// DELETE /api/projects/trash/[id] - Permanently delete a trashed project (owner only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const purged = await ProjectTrashService.purge(params.id, session.user.id);
+
+    if (!purged) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Project deleted permanently' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error purging project:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete project' },
+      { status: 500 }
+    );
+  }
+}
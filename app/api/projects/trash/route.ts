@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { ProjectTrashService } from '@/lib/services/project-trash';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+// GET /api/projects/trash - Get the authenticated user's trashed projects
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const projects = await ProjectTrashService.list(session.user.id);
+
+    return NextResponse.json(projects, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/trash - Permanently delete every project in the trash
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email || !session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const purged = await ProjectTrashService.empty(session.user.id);
+
+    return NextResponse.json(
+      { success: true, purged },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to empty trash' },
+      { status: 500 }
+    );
+  }
+}
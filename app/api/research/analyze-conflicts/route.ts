@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { NodeRepository, primarySource } from '@/lib/services/node-repository';
+import { PromptOverrideService } from '@/lib/services/prompt-overrides';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
+import { AIRequestOptions, bypassesAICache, generateJSON, isAIConfigured } from '@/lib/ai';
+import { CONFLICT_PROMPT, CONFLICT_SYSTEM_PROMPT } from '@/lib/prompts';
+import { ConflictAnalysisResponseSchema } from '@/lib/ai/schemas';
+import { abortedResponse, budgetExceededResponse } from '@/lib/ai/responses';
+import { AIBudgetExceededError, AIRequestAbortedError, AIResponseError } from '@/lib/error-handling';
+import { applyRateLimit } from '@/lib/rate-limit';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
@@ -11,6 +20,7 @@ const ConflictAnalysisRequestSchema = z.object({
   includeUnresolved: z.boolean().default(true),
   includeBiases: z.boolean().default(false),
   severityThreshold: z.enum(['low', 'medium', 'high']).default('low'),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
 });
 
 type ConflictAnalysisRequest = z.infer<typeof ConflictAnalysisRequestSchema>;
@@ -41,164 +51,46 @@ interface ConflictAnalysisResult {
   analysisDate: string;
 }
 
-// Mock node data for conflict analysis (in real app, fetch from database)
-const mockNodeData = {
-  'node-1': {
-    id: 'node-1',
-    title: 'Climate Change',
-    content: 'Overview of global climate change impacts and causes. While there is broad scientific consensus on anthropogenic climate change, debates persist regarding the precise magnitude of warming, regional impacts, and optimal mitigation strategies. Some studies suggest temperature increases of 1.5°C while others project 2-3°C by 2100. The effectiveness of carbon pricing versus regulatory approaches remains contentious among policymakers.',
-    type: 'topic',
-    source: 'NASA Climate'
-  },
-  'node-2': {
-    id: 'node-2',
-    title: 'Carbon Emissions',
-    content: 'Analysis of CO2 and greenhouse gas emissions from various sources. Recent studies show conflicting data on emission reduction trends: EPA reports a 10% decrease since 2010, while independent analyses suggest only 3-5% actual reduction when accounting for exported emissions. The methodology for measuring Scope 3 emissions remains highly contested among researchers.',
-    type: 'subtopic',
-    source: 'EPA Reports'
-  },
-  'node-3': {
-    id: 'node-3',
-    title: 'Sea Level Rise',
-    content: 'Documentation of rising sea levels and coastal impacts. Satellite altimetry shows 3.3mm/year rise, but tide gauge data indicates 1.8mm/year. This discrepancy between measurement methods has sparked debate about data reliability. Antarctic ice sheet stability projections vary wildly from 10cm to 2m additional rise by 2100, creating uncertainty for coastal planning.',
-    type: 'subtopic',
-    source: 'NOAA Data'
-  },
-};
-
 // Helper function to detect conflicts using AI
 async function detectConflictsWithAI(
   nodes: Array<{ id: string; title: string; content: string; source?: string }>,
   analysisType: string,
   includeUnresolved: boolean,
-  includeBiases: boolean
+  includeBiases: boolean,
+  scope: ResearchScope,
+  aiOptions: AIRequestOptions
 ): Promise<ConflictHighlight[]> {
   
-  const apiKey = process.env.OPENAI_API_KEY || process.env.GEMINI_API_KEY;
-  const isOpenAI = process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
+  if (!isAIConfigured()) {
     throw new Error('No AI API key configured');
   }
 
-  const nodeTexts = nodes.map(n => `**Node ${n.id} - ${n.title}** (${n.source || 'Unknown source'}): ${n.content}`).join('\n\n');
-  
-  let prompt = `Analyze the following research content for scholarly debates, conflicts, methodological disputes, and unresolved questions. Look for:
-
-1. **Methodological conflicts**: Different research methods producing different results
-2. **Empirical conflicts**: Contradictory data or findings between studies
-3. **Theoretical conflicts**: Competing theories or frameworks
-4. **Interpretive conflicts**: Different interpretations of the same data
-5. **Unresolved questions**: Areas where research is incomplete or inconclusive`;
-
-  if (includeBiases) {
-    prompt += `\n6. **Potential biases**: Sources of bias that might affect conclusions`;
-  }
-
-  prompt += `\n\nContent to analyze:\n\n${nodeTexts}`;
-
-  prompt += `\n\nIdentify specific conflicts and format your response as JSON with this structure:
-{
-  "conflicts": [
-    {
-      "nodeId": "node-X",
-      "conflictType": "methodological|empirical|theoretical|interpretive|unresolved",
-      "severity": "low|medium|high",
-      "description": "Description of the conflict or debate",
-      "textSegment": "The specific text that shows the conflict",
-      "relatedNodes": ["other-node-ids-if-applicable"],
-      "sources": ["conflicting source names"],
-      "keywords": ["key", "terms", "identifying", "conflict"],
-      "suggestedResolution": "How this might be resolved"
-    }
-  ]
-}`;
+  const [system, prompt] = await Promise.all([
+    PromptOverrideService.render(scope, CONFLICT_SYSTEM_PROMPT, {}),
+    PromptOverrideService.render(scope, CONFLICT_PROMPT, { nodes, includeBiases }),
+  ]);
 
   try {
-    if (isOpenAI) {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert research analyst specializing in identifying scholarly debates, methodological conflicts, and unresolved questions in academic content. You excel at spotting contradictions, inconsistencies, and areas where more research is needed.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.3, // Lower temperature for more consistent analysis
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const aiResponse = data.choices[0]?.message?.content;
-
-      if (!aiResponse) {
-        throw new Error('No response from OpenAI');
-      }
-
-      // Try to parse JSON response
-      try {
-        const parsed = JSON.parse(aiResponse);
-        return parsed.conflicts || [];
-      } catch {
-        // Fallback parsing attempt
-        return [];
-      }
-    } else {
-      // Use Gemini API
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            maxOutputTokens: 2000,
-            temperature: 0.3,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-      if (!aiResponse) {
-        throw new Error('No response from Gemini');
-      }
+    const { data } = await generateJSON('analyze-conflicts', [system.message, prompt.message], {
+      schema: ConflictAnalysisResponseSchema,
+      ...aiOptions,
+    });
 
-      // Try to parse JSON response
-      try {
-        const parsed = JSON.parse(aiResponse);
-        return parsed.conflicts || [];
-      } catch {
-        // Fallback parsing attempt
-        return [];
-      }
-    }
+    const lastUpdated = new Date().toISOString();
+    return data.conflicts.map((conflict, index) => ({
+      ...conflict,
+      id: `conflict_${Date.now()}_${index + 1}`,
+      nodeTitle: nodes.find(node => node.id === conflict.nodeId)?.title || 'Unknown',
+      lastUpdated,
+    }));
   } catch (error) {
+    // Reported to the client by the route
+    if (
+      error instanceof AIResponseError ||
+      error instanceof AIBudgetExceededError ||
+      error instanceof AIRequestAbortedError
+    ) throw error;
+
     console.error('AI API error:', error);
     // Return fallback conflicts for demo
     return [
@@ -219,12 +111,18 @@ async function detectConflictsWithAI(
 }
 
 export async function POST(request: NextRequest) {
+  const limited = await applyRateLimit(request);
+  if (limited) return limited;
+
   try {
     const body = await request.json();
     
     // Validate the request
     const validatedData = ConflictAnalysisRequestSchema.parse(body);
     
+    const scope = await requireResearchScope(validatedData.projectId);
+    if (scope instanceof NextResponse) return scope;
+    
     // Determine which nodes to analyze
     let nodeIds: string[] = [];
     if (validatedData.nodeId) {
@@ -238,10 +136,13 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Get node data (in real app, fetch from database)
-    const nodes = nodeIds
-      .map(id => mockNodeData[id as keyof typeof mockNodeData])
-      .filter(Boolean);
+    const nodes = (await NodeRepository.findByIds(scope, nodeIds)).map(node => ({
+      id: node.id,
+      title: node.title,
+      content: node.content,
+      type: node.type,
+      source: primarySource(node),
+    }));
 
     if (nodes.length === 0) {
       return NextResponse.json({
@@ -255,7 +156,13 @@ export async function POST(request: NextRequest) {
       nodes,
       validatedData.analysisType,
       validatedData.includeUnresolved,
-      validatedData.includeBiases
+      validatedData.includeBiases,
+      scope,
+      {
+        bypassCache: bypassesAICache(request),
+        usage: { ...scope, route: '/api/research/analyze-conflicts' },
+        signal: request.signal,
+      }
     );
 
     // Filter by severity threshold
@@ -265,6 +172,16 @@ export async function POST(request: NextRequest) {
       conflict => severityOrder[conflict.severity] >= thresholdLevel
     );
 
+    await NodeRepository.createConflicts(
+      scope,
+      filteredConflicts.map(conflict => ({
+        type: conflict.conflictType,
+        severity: conflict.severity,
+        description: conflict.description,
+        nodeIds: [conflict.nodeId, ...(conflict.relatedNodes || [])],
+      }))
+    );
+
     // Generate analysis results for each node
     const results: ConflictAnalysisResult[] = nodes.map(node => {
       const nodeConflicts = filteredConflicts.filter(c => c.nodeId === node.id);
@@ -318,6 +235,24 @@ export async function POST(request: NextRequest) {
         details: error.errors,
       }, { status: 400 });
     }
+
+    if (error instanceof AIRequestAbortedError) {
+      return abortedResponse(request, error);
+    }
+
+    if (error instanceof AIBudgetExceededError) {
+      return budgetExceededResponse(error, { success: false });
+    }
+
+    if (error instanceof AIResponseError) {
+      console.error('AI returned an unusable conflict analysis:', error.details);
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        issues: error.details?.issues,
+      }, { status: error.statusCode });
+    }
     
     console.error('Error analyzing conflicts:', error);
     return NextResponse.json({
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { NodeRepository, primarySource } from '@/lib/services/node-repository';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
@@ -10,6 +12,7 @@ const ConflictRequestSchema = z.object({
   includeScholarly: z.boolean().default(true),
   includeMethodological: z.boolean().default(true),
   includeConceptual: z.boolean().default(true),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
 });
 
 type ConflictRequest = z.infer<typeof ConflictRequestSchema>;
@@ -44,52 +47,18 @@ interface ConflictAnalysis {
   recommendations: string[];
 }
 
-// Sample node data - in a real app, this would come from database
-const getSampleNodeData = (nodeIds: string[]): NodeData[] => {
-  const allNodes: NodeData[] = [
-    {
-      id: 'node-1',
-      title: 'Climate Change',
-      content: 'Overview of global climate change impacts and causes. Scientific consensus shows human activities are the primary driver of recent climate change, though some debates exist about specific timelines and regional impacts.',
-      type: 'topic',
-      connections: ['node-2', 'node-3'],
-      source: 'NASA Climate'
-    },
-    {
-      id: 'node-2',
-      title: 'Carbon Emissions',
-      content: 'Analysis of CO2 and greenhouse gas emissions. While most studies agree on major emission sources, there are disagreements about the effectiveness of different reduction strategies and carbon accounting methodologies.',
-      type: 'subtopic',
-      connections: ['node-1', 'node-4', 'node-5'],
-      source: 'EPA Reports'
-    },
-    {
-      id: 'node-3',
-      title: 'Sea Level Rise',
-      content: 'Documentation of rising sea levels. Multiple studies show accelerating sea level rise, but predictions vary significantly due to different models and assumptions about ice sheet dynamics.',
-      type: 'subtopic',
-      connections: ['node-1', 'node-6'],
-      source: 'NOAA Data'
-    },
-    {
-      id: 'node-4',
-      title: 'Industrial Sources',
-      content: 'Manufacturing emissions data. Recent studies question earlier emission estimates from heavy industry, suggesting previous calculations may have underestimated actual emissions by 15-30%.',
-      type: 'detail',
-      connections: ['node-2'],
-      source: 'Industry Reports'
-    },
-    {
-      id: 'node-5',
-      title: 'Transportation',
-      content: 'Vehicle emissions analysis. There is ongoing debate about the lifecycle emissions of electric vehicles versus traditional vehicles, with studies reaching different conclusions based on electricity grid composition.',
-      type: 'detail',
-      connections: ['node-2'],
-      source: 'Transport Studies'
-    },
-  ];
-  
-  return allNodes.filter(node => nodeIds.includes(node.id));
+// Load the requested nodes from the research graph
+const getNodeData = async (scope: ResearchScope, nodeIds: string[]): Promise<NodeData[]> => {
+  const nodes = await NodeRepository.findByIds(scope, nodeIds);
+
+  return nodes.map(node => ({
+    id: node.id,
+    title: node.title,
+    content: node.content,
+    type: node.type,
+    source: primarySource(node),
+    connections: node.connections,
+  }));
 };
 
 const detectConflicts = async (
@@ -275,8 +244,10 @@ export async function POST(request: NextRequest) {
     // Validate the request
     const validatedData = ConflictRequestSchema.parse(body);
     
-    // Get node data (in production, fetch from database)
-    const nodeData = getSampleNodeData(validatedData.nodeIds);
+    const scope = await requireResearchScope(validatedData.projectId);
+    if (scope instanceof NextResponse) return scope;
+    
+    const nodeData = await getNodeData(scope, validatedData.nodeIds);
     
     if (nodeData.length < 2) {
       return NextResponse.json({
@@ -296,6 +267,17 @@ export async function POST(request: NextRequest) {
       }
     );
     
+    await NodeRepository.createConflicts(
+      scope,
+      conflicts.map(conflict => ({
+        title: conflict.title,
+        type: conflict.type,
+        severity: conflict.severity,
+        description: conflict.description,
+        nodeIds: conflict.involvedNodes,
+      }))
+    );
+    
     return NextResponse.json({
       success: true,
       conflicts,
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { bypassesAICache } from '@/lib/ai';
+import { abortedResponse, budgetExceededResponse } from '@/lib/ai/responses';
+import { AIBudgetExceededError, AIRequestAbortedError, AIResponseError, APIError } from '@/lib/error-handling';
+import { DrillDownService, EXPLORE_LIMITS, ExploreLevel } from '@/lib/services/drill-down';
+import { applyRateLimit } from '@/lib/rate-limit';
+import { requireResearchScope } from '@/lib/services/research-scope';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+const ExploreRequestSchema = z.object({
+  nodeId: z.string().min(1),
+  title: z.string().min(1),
+  content: z.string().default(''),
+  type: z.string().default('topic'),
+  lens: z.string().optional(),
+  depth: z.number().int().min(0).default(0),
+  targetDepth: z.number().int().min(1),
+  breadth: z.number().int().min(1).max(EXPLORE_LIMITS.maxBreadth).default(4),
+  maxNodes: z.number().int().min(1).max(EXPLORE_LIMITS.maxNodes).default(40),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
+}).refine(
+  data => data.targetDepth > data.depth && data.targetDepth - data.depth <= EXPLORE_LIMITS.maxLevels,
+  { message: `targetDepth must be 1 to ${EXPLORE_LIMITS.maxLevels} levels below depth`, path: ['targetDepth'] }
+);
+
+type ExploreEvent =
+  | ({ type: 'level' } & ExploreLevel)
+  | { type: 'done'; total: number }
+  | { type: 'error'; error: string; code?: string };
+
+/**
+ * Expand a node's subtree breadth-first, down to `targetDepth`, and stream
+ * the result as newline-delimited JSON: one `level` event per completed
+ * level, then `done`, or `error` if a later level fails. Failures before the
+ * first level is ready get the usual JSON error responses instead.
+ */
+export async function POST(request: NextRequest) {
+  const limited = await applyRateLimit(request);
+  if (limited) return limited;
+
+  try {
+    const body = ExploreRequestSchema.parse(await request.json());
+
+    const scope = await requireResearchScope(body.projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    const levels = DrillDownService.explore(
+      scope,
+      { id: body.nodeId, title: body.title, content: body.content, type: body.type, lens: body.lens, depth: body.depth },
+      { levels: body.targetDepth - body.depth, breadth: body.breadth, maxNodes: body.maxNodes },
+      {
+        bypassCache: bypassesAICache(request),
+        usage: { ...scope, route: '/api/research/drill-down/explore' },
+        signal: request.signal,
+      }
+    );
+
+    const first = await levels.next();
+    return new Response(streamLevels(first, levels), {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache',
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors,
+      }, { status: 400 });
+    }
+
+    if (error instanceof AIRequestAbortedError) {
+      return abortedResponse(request, error);
+    }
+
+    if (error instanceof AIBudgetExceededError) {
+      return budgetExceededResponse(error);
+    }
+
+    if (error instanceof AIResponseError) {
+      console.error('AI returned unusable drill-down nodes:', error.details);
+      return NextResponse.json(
+        { error: error.message, code: error.code, issues: error.details?.issues },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error exploring drill-down levels:', error);
+    return NextResponse.json(
+      { error: 'Failed to explore drill-down levels' },
+      { status: 500 }
+    );
+  }
+}
+
+function streamLevels(
+  first: IteratorResult<ExploreLevel>,
+  levels: AsyncGenerator<ExploreLevel>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const line = (event: ExploreEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+  let pending: IteratorResult<ExploreLevel> | null = first;
+  let total = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = pending ?? await levels.next();
+        pending = null;
+        if (done) {
+          controller.enqueue(line({ type: 'done', total }));
+          controller.close();
+          return;
+        }
+        total = value.total;
+        controller.enqueue(line({ type: 'level', ...value }));
+      } catch (error) {
+        // A cancelled request has no reader left; anything else is reported in-stream
+        if (!(error instanceof AIRequestAbortedError)) {
+          console.error('Error exploring drill-down levels:', error);
+          controller.enqueue(line(error instanceof APIError
+            ? { type: 'error', error: error.message, code: error.code }
+            : { type: 'error', error: 'Failed to explore drill-down levels' }));
+        }
+        controller.close();
+      }
+    },
+    async cancel() {
+      await levels.return(undefined);
+    },
+  });
+}
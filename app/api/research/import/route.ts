@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { NodeRepository, ResearchNode, outgoingRelationships, primarySource } from '@/lib/services/node-repository';
+import { RELATIONSHIP_TYPES, Relationship } from '@/lib/relationships';
+import { requireResearchScope } from '@/lib/services/research-scope';
+import { NodeKind, depthForNodeKind, nodeKindForDepth, normalizeNodeKind } from '@/lib/node-kinds';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
@@ -13,7 +17,11 @@ const ImportRequestSchema = z.object({
   imageUrl: z.string().url().optional(),
   source: z.string().optional(),
   parentNodeId: z.string().optional(), // For adding as a child of existing node
+  relationship: z.enum(RELATIONSHIP_TYPES).default('part-of'), // How the node relates to its parent
+  weight: z.number().min(0).max(1).default(1),
+  note: z.string().max(500).optional(), // Why the node relates to its parent
   tags: z.array(z.string()).optional(),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
 });
 
 type ImportRequest = z.infer<typeof ImportRequestSchema>;
@@ -22,8 +30,10 @@ interface ImportedNode {
   id: string;
   title: string;
   content: string;
-  type: 'topic' | 'subtopic' | 'detail';
+  type: NodeKind;
+  depth: number;
   connections: string[];
+  relationships: Relationship[];
   source?: string;
   url?: string;
   imageUrl?: string;
@@ -32,6 +42,25 @@ interface ImportedNode {
   importedAt: string;
 }
 
+// Imported nodes carry this tag so they can be listed separately from generated ones
+const IMPORTED_TAG = 'imported';
+
+const toImportedNode = (node: ResearchNode, imageUrl?: string): ImportedNode => ({
+  id: node.id,
+  title: node.title,
+  content: node.content,
+  type: normalizeNodeKind(node.type, node.depth),
+  depth: node.depth,
+  connections: node.connections,
+  relationships: outgoingRelationships(node),
+  source: primarySource(node),
+  url: node.sources.find(source => source.url)?.url || undefined,
+  imageUrl,
+  tags: node.tags.filter(tag => tag !== IMPORTED_TAG),
+  isImported: true,
+  importedAt: node.createdAt.toISOString(),
+});
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -39,36 +68,38 @@ export async function POST(request: NextRequest) {
     // Validate the request
     const validatedData = ImportRequestSchema.parse(body);
     
-    // Generate a unique ID for the imported node
-    const nodeId = `imported_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    const scope = await requireResearchScope(validatedData.projectId);
+    if (scope instanceof NextResponse) return scope;
     
-    // Determine node type based on content and context
-    let nodeType: 'topic' | 'subtopic' | 'detail' = 'detail';
+    // Children sit one level below their parent; longer standalone content suggests a main topic
+    let depth = validatedData.content.length > 500 ? 0 : 1;
     if (validatedData.parentNodeId) {
-      nodeType = 'detail'; // Children are always details
-    } else if (validatedData.content.length > 500) {
-      nodeType = 'topic'; // Longer content suggests main topic
-    } else {
-      nodeType = 'subtopic'; // Default for medium content
+      const [parent] = await NodeRepository.findByIds(scope, [validatedData.parentNodeId]);
+      depth = parent ? parent.depth + 1 : depthForNodeKind('detail');
     }
     
-    // Create the imported node
-    const importedNode: ImportedNode = {
-      id: nodeId,
+    // Persist the imported node, linking it to its parent when one was given
+    const [stored] = await NodeRepository.createNodes(scope, [{
       title: validatedData.title,
       content: validatedData.content,
-      type: nodeType,
-      connections: validatedData.parentNodeId ? [validatedData.parentNodeId] : [],
-      source: validatedData.source || `Imported ${validatedData.type}`,
-      url: validatedData.url,
-      imageUrl: validatedData.imageUrl,
-      tags: validatedData.tags || [],
-      isImported: true,
-      importedAt: new Date().toISOString(),
-    };
+      type: nodeKindForDepth(depth),
+      depth,
+      lens: 'Imported',
+      parentId: validatedData.parentNodeId,
+      tags: [IMPORTED_TAG, ...(validatedData.tags || [])],
+      sources: [{
+        title: validatedData.source || `Imported ${validatedData.type}`,
+        url: validatedData.url || validatedData.imageUrl,
+      }],
+      relationships: validatedData.parentNodeId ? [{
+        target: validatedData.parentNodeId,
+        type: validatedData.relationship,
+        weight: validatedData.weight,
+        provenance: validatedData.note || 'import',
+      }] : [],
+    }]);
     
-    // TODO: In a real application, save to database
-    // For now, we'll return the node for client-side storage
+    const importedNode = toImportedNode(stored, validatedData.imageUrl);
     
     return NextResponse.json({
       success: true,
@@ -95,13 +126,20 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
-  // Return list of imported nodes (for future use)
+  // Return list of imported nodes
   try {
-    // TODO: Fetch from database
-    // For now, return empty array
+    const scope = await requireResearchScope(request.nextUrl.searchParams.get('projectId'));
+    if (scope instanceof NextResponse) return scope;
+    
+    const { nodes } = await NodeRepository.findNodes(
+      scope,
+      { tags: [IMPORTED_TAG] },
+      { sortBy: 'createdAt', sortOrder: 'desc' }
+    );
+    
     return NextResponse.json({
       success: true,
-      importedNodes: [],
+      importedNodes: nodes.map(node => toImportedNode(node)),
       message: 'Retrieved imported nodes',
     });
     
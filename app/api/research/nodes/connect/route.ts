@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NotFoundError, ValidationError } from '@/lib/error-handling';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+import { NodeRepository } from '@/lib/services/node-repository';
+import { requireResearchScope } from '@/lib/services/research-scope';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+const ConnectRequestSchema = z.object({
+  sourceId: z.string().min(1),
+  targetId: z.string().min(1),
+  type: z.enum(RELATIONSHIP_TYPES).default('related'),
+  weight: z.number().min(0).max(1).default(1),
+  provenance: z.string().max(200).optional(), // Why the link exists, e.g. 'related-nodes'
+  projectId: z.string().optional(), // Restrict to one of the user's projects
+});
+
+/**
+ * Link two stored nodes. Connecting nodes that are already linked the same
+ * way succeeds without adding a second edge.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sourceId, targetId, projectId, ...relationship } = ConnectRequestSchema.parse(await request.json());
+
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    const created = await NodeRepository.connectNodes(scope, sourceId, targetId, relationship);
+
+    return NextResponse.json({
+      success: true,
+      created,
+      edge: { sourceId, targetId, type: relationship.type, weight: relationship.weight, provenance: relationship.provenance },
+    }, { status: created ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors,
+      }, { status: 400 });
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error connecting nodes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to connect nodes' },
+      { status: 500 }
+    );
+  }
+}
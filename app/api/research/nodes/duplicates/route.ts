@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DUPLICATE_THRESHOLD, findDuplicateCandidates } from '@/lib/node-similarity';
+import { NodeRepository } from '@/lib/services/node-repository';
+import { requireResearchScope } from '@/lib/services/research-scope';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+// Pairwise comparison is quadratic, so only the oldest nodes are scanned in very large graphs
+const MAX_SCANNED_NODES = 500;
+
+/**
+ * Suggest pairs of stored nodes that look like duplicates (see lib/node-similarity).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const scope = await requireResearchScope(params.get('projectId'));
+    if (scope instanceof NextResponse) return scope;
+
+    const threshold = params.get('threshold') ? Number(params.get('threshold')) : DUPLICATE_THRESHOLD;
+    const limit = params.get('limit') ? Number(params.get('limit')) : 20;
+    if (!(threshold >= 0 && threshold <= 1) || !Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { success: false, error: 'threshold must be between 0 and 1 and limit a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const { nodes, total } = await NodeRepository.findNodes(scope, {}, { limit: MAX_SCANNED_NODES });
+    const byId = new Map(nodes.map(node => [node.id, node]));
+
+    const candidates = findDuplicateCandidates(
+      nodes.map(node => ({
+        id: node.id,
+        title: node.title,
+        content: node.content,
+        sources: node.sources.map(source => source.url || source.title || '').filter(Boolean),
+        parentId: node.parentId,
+      })),
+      { threshold, limit }
+    ).map(candidate => ({
+      ...candidate,
+      nodes: candidate.ids.map(id => {
+        const node = byId.get(id)!;
+        return { id: node.id, title: node.title, type: node.type, depth: node.depth };
+      }),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      candidates,
+      scanned: nodes.length,
+      total,
+    });
+  } catch (error) {
+    console.error('Error finding duplicate nodes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to find duplicate nodes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NotFoundError, ValidationError } from '@/lib/error-handling';
+import { NodeRepository, outgoingRelationships, primarySource } from '@/lib/services/node-repository';
+import { requireResearchScope } from '@/lib/services/research-scope';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+const MergeRequestSchema = z.object({
+  targetId: z.string().min(1), // Node to keep
+  sourceIds: z.array(z.string().min(1)).min(1).max(20), // Duplicates folded into it and deleted
+  projectId: z.string().optional(), // Restrict to one of the user's projects
+});
+
+/**
+ * Merge duplicate nodes into one (see NodeRepository.mergeNodes).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { targetId, sourceIds, projectId } = MergeRequestSchema.parse(await request.json());
+
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    const node = await NodeRepository.mergeNodes(scope, targetId, sourceIds);
+
+    return NextResponse.json({
+      success: true,
+      node: {
+        id: node.id,
+        title: node.title,
+        content: node.content,
+        type: node.type,
+        depth: node.depth,
+        lens: node.lens,
+        parentId: node.parentId ?? undefined,
+        source: primarySource(node),
+        sources: node.sources.map(source => source.title || source.url).filter(Boolean),
+        tags: node.tags,
+        connections: node.connections,
+        relationships: outgoingRelationships(node),
+      },
+      mergedIds: Array.from(new Set(sourceIds)).filter(id => id !== targetId),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors,
+      }, { status: 400 });
+    }
+
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error merging nodes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge nodes' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,79 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withPagination, PaginationParams } from '@/lib/api-pagination';
+import {
+  NodeRepository,
+  NodeQuery,
+  NodeSortField,
+  ResearchNode,
+  primarySource,
+} from '@/lib/services/node-repository';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
-// Mock data for research nodes
-const mockResearchNodes = Array.from({ length: 250 }, (_, i) => ({
-  id: `node-${i + 1}`,
-  title: `Research Node ${i + 1}`,
-  content: `This is the content for research node ${i + 1}. It contains important information about the research topic.`,
-  type: ['topic', 'subtopic', 'detail'][i % 3] as 'topic' | 'subtopic' | 'detail',
-  source: `Source ${Math.floor(i / 10) + 1}`,
-  confidence: Math.random(),
-  createdAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-  updatedAt: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-  tags: [`tag-${i % 10}`, `category-${i % 5}`],
-  connections: Array.from({ length: Math.floor(Math.random() * 5) }, (_, j) => `node-${j + 1}`),
-  metadata: {
-    wordCount: Math.floor(Math.random() * 1000) + 100,
-    readingTime: Math.floor(Math.random() * 10) + 1,
-    difficulty: ['beginner', 'intermediate', 'advanced'][i % 3],
-  },
-}));
 
-// Handler function for paginated research nodes
-async function handleGetResearchNodes(
-  request: NextRequest,
-  params: PaginationParams
-): Promise<{ data: any[]; total: number }> {
-  // Simulate database query delay
-  await new Promise(resolve => setTimeout(resolve, 100));
+const DIFFICULTY_BY_DEPTH = ['beginner', 'intermediate', 'advanced'];
 
-  let filteredNodes = [...mockResearchNodes];
+// Shape a stored node for the paginated listing
+function toListItem(node: ResearchNode) {
+  const wordCount = node.content.split(/\s+/).filter(Boolean).length;
 
-  // Apply search filter
-  if (params.search) {
-    const searchLower = params.search.toLowerCase();
-    filteredNodes = filteredNodes.filter(node => 
-      node.title.toLowerCase().includes(searchLower) ||
-      node.content.toLowerCase().includes(searchLower) ||
-      node.source.toLowerCase().includes(searchLower)
-    );
-  }
-
-  // Apply filters
-  if (params.filters) {
-    Object.entries(params.filters).forEach(([key, value]) => {
-      filteredNodes = filteredNodes.filter(node => {
-        const nodeValue = (node as any)[key];
-        if (typeof nodeValue === 'string') {
-          return nodeValue.toLowerCase().includes(value.toLowerCase());
-        }
-        return nodeValue === value;
-      });
-    });
-  }
+  return {
+    id: node.id,
+    title: node.title,
+    content: node.content,
+    type: node.type,
+    source: primarySource(node) || '',
+    confidence: node.confidence ?? 0,
+    createdAt: node.createdAt.toISOString(),
+    updatedAt: node.updatedAt.toISOString(),
+    tags: node.tags,
+    connections: node.connections,
+    metadata: {
+      wordCount,
+      readingTime: Math.max(1, Math.ceil(wordCount / 200)),
+      difficulty: DIFFICULTY_BY_DEPTH[Math.min(node.depth, DIFFICULTY_BY_DEPTH.length - 1)],
+      promptVersion: node.promptVersion,
+    },
+  };
+}
 
-  // Apply sorting
-  if (params.sort) {
-    filteredNodes.sort((a, b) => {
-      const aValue = (a as any)[params.sort!];
-      const bValue = (b as any)[params.sort!];
-      
-      if (aValue < bValue) return params.order === 'asc' ? -1 : 1;
-      if (aValue > bValue) return params.order === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }
+// Translate `filter[key]=value` query parameters into a repository query
+function toNodeQuery(params: PaginationParams): NodeQuery {
+  const filters = params.filters || {};
 
-  const total = filteredNodes.length;
+  return {
+    search: params.search,
+    ...(filters.type && { types: [filters.type] }),
+    ...(filters.lens && { lens: filters.lens }),
+    ...(filters.depth !== undefined && { depth: parseInt(filters.depth, 10) }),
+    ...(filters.source && { source: filters.source }),
+    ...(filters.tag && { tags: [filters.tag] }),
+  };
+}
 
-  // Apply pagination
-  const offset = (params.page! - 1) * params.limit!;
-  const paginatedNodes = filteredNodes.slice(offset, offset + params.limit!);
+// Handler function for paginated research nodes
+async function handleGetResearchNodes(
+  scope: ResearchScope,
+  params: PaginationParams
+): Promise<{ data: any[]; total: number }> {
+  const { nodes, total } = await NodeRepository.findNodes(scope, toNodeQuery(params), {
+    offset: (params.page! - 1) * params.limit!,
+    limit: params.limit!,
+    sortBy: params.sort === 'id' || params.sort === 'source' ? undefined : (params.sort as NodeSortField),
+    sortOrder: params.order,
+  });
 
-  return { data: paginatedNodes, total };
+  return { data: nodes.map(toListItem), total };
 }
 
 // Configure pagination settings
@@ -83,19 +74,27 @@ const paginationConfig = {
   allowedSortFields: ['id', 'title', 'type', 'source', 'createdAt', 'updatedAt', 'confidence'],
 };
 
-// Export the paginated handler
-export const GET = withPagination(handleGetResearchNodes, paginationConfig);
+// Export the paginated handler, scoped to the signed-in user's nodes
+export async function GET(request: NextRequest) {
+  const scope = await requireResearchScope(request.nextUrl.searchParams.get('projectId'));
+  if (scope instanceof NextResponse) return scope;
+
+  return withPagination((_request, params) => handleGetResearchNodes(scope, params), paginationConfig)(request);
+}
 
 // Example additional endpoints for different filters
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
+    const scope = await requireResearchScope(body.projectId);
+    if (scope instanceof NextResponse) return scope;
+    
     // Handle bulk operations or filtered queries
     if (body.action === 'bulk_get') {
-      const { nodeIds, includeMeta = false } = body;
+      const { nodeIds = [], includeMeta = false } = body;
       
-      const nodes = mockResearchNodes.filter(node => nodeIds.includes(node.id));
+      const nodes = (await NodeRepository.findByIds(scope, nodeIds)).map(toListItem);
       
       const response = {
         data: nodes,
@@ -122,75 +121,42 @@ export async function POST(request: NextRequest) {
         includeConnections = false,
       } = body;
       
-      let filteredNodes = [...mockResearchNodes];
-      
-      // Apply complex filters
-      if (filters.type) {
-        filteredNodes = filteredNodes.filter(node => 
-          Array.isArray(filters.type) ? filters.type.includes(node.type) : node.type === filters.type
-        );
-      }
-      
-      if (filters.confidenceRange) {
-        const [min, max] = filters.confidenceRange;
-        filteredNodes = filteredNodes.filter(node => 
-          node.confidence >= min && node.confidence <= max
-        );
-      }
-      
-      if (filters.tags) {
-        filteredNodes = filteredNodes.filter(node =>
-          filters.tags.some((tag: string) => node.tags.includes(tag))
-        );
-      }
-      
-      if (filters.dateRange) {
-        const [startDate, endDate] = filters.dateRange;
-        filteredNodes = filteredNodes.filter(node => {
-          const nodeDate = new Date(node.createdAt);
-          return nodeDate >= new Date(startDate) && nodeDate <= new Date(endDate);
-        });
-      }
-      
-      // Apply search
-      if (search) {
-        const searchLower = search.toLowerCase();
-        filteredNodes = filteredNodes.filter(node => 
-          node.title.toLowerCase().includes(searchLower) ||
-          node.content.toLowerCase().includes(searchLower) ||
-          node.source.toLowerCase().includes(searchLower) ||
-          node.tags.some(tag => tag.toLowerCase().includes(searchLower))
-        );
-      }
+      const query: NodeQuery = {
+        search,
+        ...(filters.type && { types: Array.isArray(filters.type) ? filters.type : [filters.type] }),
+        ...(filters.tags && { tags: filters.tags }),
+        ...(filters.confidenceRange && { confidenceRange: filters.confidenceRange }),
+        ...(filters.dateRange && {
+          createdBetween: [new Date(filters.dateRange[0]), new Date(filters.dateRange[1])],
+        }),
+      };
       
-      // Apply sorting
-      filteredNodes.sort((a, b) => {
-        const aValue = (a as any)[sortBy];
-        const bValue = (b as any)[sortBy];
-        
-        if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-        if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-        return 0;
+      const { nodes, total } = await NodeRepository.findNodes(scope, query, {
+        offset: (page - 1) * limit,
+        limit,
+        sortBy,
+        sortOrder,
       });
-      
-      const total = filteredNodes.length;
-      const offset = (page - 1) * limit;
-      const paginatedNodes = filteredNodes.slice(offset, offset + limit);
+      const paginatedNodes = nodes.map(toListItem);
       
       // Include connection details if requested
-      const nodesWithConnections = includeConnections 
-        ? paginatedNodes.map(node => ({
-            ...node,
-            connectionDetails: node.connections.map(connId => {
-              const connectedNode = mockResearchNodes.find(n => n.id === connId);
-              return connectedNode ? {
-                id: connectedNode.id,
-                title: connectedNode.title,
-                type: connectedNode.type,
-              } : { id: connId, title: 'Unknown', type: 'unknown' };
-            })
-          }))
-        : paginatedNodes;
+      let nodesWithConnections: any[] = paginatedNodes;
+      if (includeConnections) {
+        const connectedIds = Array.from(new Set(nodes.flatMap(node => node.connections)));
+        const connectedNodes = await NodeRepository.findByIds(scope, connectedIds);
+        
+        nodesWithConnections = paginatedNodes.map(node => ({
+          ...node,
+          connectionDetails: node.connections.map(connId => {
+            const connectedNode = connectedNodes.find(n => n.id === connId);
+            return connectedNode ? {
+              id: connectedNode.id,
+              title: connectedNode.title,
+              type: connectedNode.type,
+            } : { id: connId, title: 'Unknown', type: 'unknown' };
+          })
+        }));
+      }
       
       const response = {
         data: nodesWithConnections,
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NotFoundError } from '@/lib/error-handling';
+import { NodeRecommendationService } from '@/lib/services/node-recommendations';
+import { requireResearchScope } from '@/lib/services/research-scope';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+const RelatedParamsSchema = z.object({
+  nodeId: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
+});
+
+/**
+ * Suggest stored nodes related to `nodeId` that it is not linked to yet
+ * (see NodeRecommendationService).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { nodeId, limit, projectId } = RelatedParamsSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    const related = await NodeRecommendationService.findRelated(scope, nodeId, { limit });
+
+    return NextResponse.json({ success: true, nodeId, related });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors,
+      }, { status: 400 });
+    }
+
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error finding related nodes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to find related nodes' },
+      { status: 500 }
+    );
+  }
+}
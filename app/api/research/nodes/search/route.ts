@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NodeSearchService } from '@/lib/services/node-search';
+import { requireResearchScope } from '@/lib/services/research-scope';
+
+// Force dynamic rendering for this route since it uses request.headers
+export const dynamic = 'force-dynamic';
+
+const SearchParamsSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  lens: z.string().optional(),
+  depth: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
+});
+
+/**
+ * Search stored nodes and their sources by keyword. Unlike POST
+ * /api/research/search, nothing is generated: results are existing nodes,
+ * ranked locally (see NodeSearchService).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { q, projectId, ...options } = SearchParamsSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    const result = await NodeSearchService.search(scope, q, options);
+
+    return NextResponse.json({ success: true, query: q, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors,
+      }, { status: 400 });
+    }
+
+    console.error('Error searching nodes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search nodes' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EndpointMiddleware, ApiUtils } from '@/lib/api-middleware';
+import { NodeRepository } from '@/lib/services/node-repository';
+import { requireResearchScope } from '@/lib/services/research-scope';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
@@ -7,7 +9,7 @@ export const dynamic = 'force-dynamic';
 async function handleOutlineGeneration(request: NextRequest) {
   try {
     // Access validated data from middleware
-    const { nodeIds, detailLevel, includeMetadata, includeRelationships } = (request as any).validatedBody;
+    const { nodeIds, detailLevel, includeMetadata, includeRelationships, projectId } = (request as any).validatedBody;
 
     // Validate node count for performance
     if (nodeIds.length > 50) {
@@ -21,24 +23,33 @@ async function handleOutlineGeneration(request: NextRequest) {
       );
     }
 
+    const scope = await requireResearchScope(projectId);
+    if (scope instanceof NextResponse) return scope;
+
+    // Only the caller's own nodes make it into the outline
+    const nodes = await NodeRepository.findByIds(scope, nodeIds);
+    if (nodes.length === 0) {
+      return ApiUtils.createErrorResponse('No valid nodes found', { status: 404 });
+    }
+
     // Placeholder for generating dynamically structured outline content
     // This will eventually involve AI integration and more complex logic
     const outline = {
       detailLevel,
       metadata: includeMetadata ? {
         generatedAt: new Date().toISOString(),
-        nodeCount: nodeIds.length,
-        estimatedReadingTime: `${Math.ceil(nodeIds.length * 2)} minutes`
+        nodeCount: nodes.length,
+        estimatedReadingTime: `${Math.ceil(nodes.length * 2)} minutes`
       } : undefined,
-      nodes: nodeIds.map((id: string) => ({
-        id,
-        title: `Outline Item for Node ${id}`,
-        content: `Content for node ${id} at ${detailLevel} detail level.`,
-        relationships: includeRelationships ? [`related-${id}-1`, `related-${id}-2`] : undefined,
+      nodes: nodes.map(node => ({
+        id: node.id,
+        title: node.title,
+        content: node.content,
+        relationships: includeRelationships ? node.connections : undefined,
       })),
       structure: {
-        totalSections: nodeIds.length,
-        estimatedLength: `${nodeIds.length * 250} words`,
+        totalSections: nodes.length,
+        estimatedLength: `${nodes.length * 250} words`,
         complexity: detailLevel === 'high' ? 'Advanced' : detailLevel === 'medium' ? 'Intermediate' : 'Basic'
       }
     };
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { NodeRepository, primarySource } from '@/lib/services/node-repository';
+import { requireResearchScope, ResearchScope } from '@/lib/services/research-scope';
 
 // Force dynamic rendering for this route since it uses request.headers
 export const dynamic = 'force-dynamic';
@@ -10,6 +12,7 @@ const SummaryRequestSchema = z.object({
   includeConnections: z.boolean().default(true),
   focusAreas: z.array(z.string()).optional(),
   maxLength: z.number().min(50).max(2000).default(500),
+  projectId: z.string().optional(), // Restrict to one of the user's projects
 });
 
 type SummaryRequest = z.infer<typeof SummaryRequestSchema>;
@@ -19,56 +22,24 @@ interface NodeData {
   title: string;
   content: string;
   type: string;
+  depth: number;
   source?: string;
   connections: string[];
 }
 
-// Sample node data - in a real app, this would come from database
-const getSampleNodeData = (nodeIds: string[]): NodeData[] => {
-  const allNodes: NodeData[] = [
-    {
-      id: 'node-1',
-      title: 'Climate Change',
-      content: 'Overview of global climate change impacts and causes. This comprehensive topic covers the fundamental science behind climate change, including greenhouse gas emissions, temperature rise patterns, and environmental impacts.',
-      type: 'topic',
-      connections: ['node-2', 'node-3'],
-      source: 'NASA Climate'
-    },
-    {
-      id: 'node-2',
-      title: 'Carbon Emissions',
-      content: 'Analysis of CO2 and greenhouse gas emissions from various sources including industry, transportation, and agriculture. Detailed breakdown of emission sources and reduction strategies.',
-      type: 'subtopic',
-      connections: ['node-1', 'node-4', 'node-5'],
-      source: 'EPA Reports'
-    },
-    {
-      id: 'node-3',
-      title: 'Sea Level Rise',
-      content: 'Documentation of rising sea levels and coastal impacts due to thermal expansion and ice sheet melting. Regional variations and future projections.',
-      type: 'subtopic',
-      connections: ['node-1', 'node-6'],
-      source: 'NOAA Data'
-    },
-    {
-      id: 'node-4',
-      title: 'Industrial Sources',
-      content: 'Manufacturing and industrial carbon footprint data, including steel, cement, and chemical production emissions.',
-      type: 'detail',
-      connections: ['node-2'],
-      source: 'Industry Reports'
-    },
-    {
-      id: 'node-5',
-      title: 'Transportation',
-      content: 'Vehicle emissions from cars, trucks, aviation, and shipping. Analysis of electric vehicle adoption impacts.',
-      type: 'detail',
-      connections: ['node-2'],
-      source: 'Transport Studies'
-    },
-  ];
-  
-  return allNodes.filter(node => nodeIds.includes(node.id));
+// Load the requested nodes from the research graph
+const getNodeData = async (scope: ResearchScope, nodeIds: string[]): Promise<NodeData[]> => {
+  const nodes = await NodeRepository.findByIds(scope, nodeIds);
+
+  return nodes.map(node => ({
+    id: node.id,
+    title: node.title,
+    content: node.content,
+    type: node.type,
+    depth: node.depth,
+    source: primarySource(node),
+    connections: node.connections,
+  }));
 };
 
 const generateSummary = async (nodes: NodeData[], summaryType: string, includeConnections: boolean, maxLength: number): Promise<string> => {
@@ -131,9 +102,9 @@ Summary:`;
         
       case 'thematic':
         summary = `Thematic Organization:\n\n`;
-        summary += `Theme 1 - Foundational Concepts: ${nodes.filter(n => n.type === 'topic').map(n => n.title).join(', ')}\n`;
-        summary += `Theme 2 - Specific Applications: ${nodes.filter(n => n.type === 'subtopic').map(n => n.title).join(', ')}\n`;
-        summary += `Theme 3 - Detailed Findings: ${nodes.filter(n => n.type === 'detail').map(n => n.title).join(', ')}\n\n`;
+        summary += `Theme 1 - Foundational Concepts: ${nodes.filter(n => n.depth === 0).map(n => n.title).join(', ')}\n`;
+        summary += `Theme 2 - Specific Applications: ${nodes.filter(n => n.depth === 1).map(n => n.title).join(', ')}\n`;
+        summary += `Theme 3 - Detailed Findings: ${nodes.filter(n => n.depth >= 2).map(n => n.title).join(', ')}\n\n`;
         summary += `These themes work together to provide a comprehensive understanding of the research domain.`;
         break;
     }
@@ -152,8 +123,10 @@ export async function POST(request: NextRequest) {
     // Validate the request
     const validatedData = SummaryRequestSchema.parse(body);
     
-    // Get node data (in production, fetch from database)
-    const nodeData = getSampleNodeData(validatedData.nodeIds);
+    const scope = await requireResearchScope(validatedData.projectId);
+    if (scope instanceof NextResponse) return scope;
+    
+    const nodeData = await getNodeData(scope, validatedData.nodeIds);
     
     if (nodeData.length === 0) {
       return NextResponse.json({
@@ -0,0 +1,138 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+
+interface UsageTotals {
+  requests: number
+  totalTokens: number
+  costUsd: number
+}
+
+interface UsageSummary {
+  period: "day" | "month"
+  resetsAt: string
+  budget: { tokens?: number; costUsd?: number } | null
+  totals: UsageTotals
+  byRoute: (UsageTotals & { route: string })[]
+  byProject: (UsageTotals & { projectId: string | null; title: string | null })[]
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString()
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`
+
+function BudgetBar({ used, limit, label }: { used: number; limit: number; label: string }) {
+  const percent = Math.min(100, Math.round((used / limit) * 100))
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-gray-700">
+        <span>{label}</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="mt-1 h-2 rounded bg-gray-200">
+        <div
+          className={`h-2 rounded ${percent >= 90 ? "bg-red-500" : "bg-blue-500"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+function UsageTable({ rows, heading }: { rows: (UsageTotals & { label: string })[]; heading: string }) {
+  if (rows.length === 0) return null
+
+  return (
+    <div>
+      <Label>{heading}</Label>
+      <table className="mt-1 w-full text-sm">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-b last:border-0">
+              <td className="py-1 text-gray-900">{row.label}</td>
+              <td className="py-1 text-right text-gray-600">{row.requests} requests</td>
+              <td className="py-1 text-right text-gray-600">{formatTokens(row.totalTokens)} tokens</td>
+              <td className="py-1 text-right text-gray-600">{formatCost(row.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function AIUsageCard() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    fetch("/api/ai/usage")
+      .then((response) => (response.ok ? response.json() : Promise.reject(response)))
+      .then(setUsage)
+      .catch(() => setError("Failed to load AI usage"))
+  }, [])
+
+  const periodLabel = usage?.period === "month" ? "this month" : "today"
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Usage</CardTitle>
+        <CardDescription>
+          Tokens and estimated cost of AI requests {periodLabel}
+          {usage && ` (resets ${new Date(usage.resetsAt).toLocaleString()})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!usage && !error && <p className="text-sm text-gray-500">Loading usage...</p>}
+
+        {usage && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Requests</Label>
+                <div className="mt-1 text-sm text-gray-900">{usage.totals.requests}</div>
+              </div>
+              <div>
+                <Label>Tokens</Label>
+                <div className="mt-1 text-sm text-gray-900">
+                  {formatTokens(usage.totals.totalTokens)}
+                  {usage.budget?.tokens && ` of ${formatTokens(usage.budget.tokens)}`}
+                </div>
+              </div>
+              <div>
+                <Label>Estimated cost</Label>
+                <div className="mt-1 text-sm text-gray-900">
+                  {formatCost(usage.totals.costUsd)}
+                  {usage.budget?.costUsd && ` of ${formatCost(usage.budget.costUsd)}`}
+                </div>
+              </div>
+            </div>
+
+            {usage.budget?.tokens && (
+              <BudgetBar used={usage.totals.totalTokens} limit={usage.budget.tokens} label="Token budget" />
+            )}
+            {usage.budget?.costUsd && (
+              <BudgetBar used={usage.totals.costUsd} limit={usage.budget.costUsd} label="Spending budget" />
+            )}
+
+            <UsageTable
+              heading="By feature"
+              rows={usage.byRoute.map((row) => ({ ...row, label: row.route }))}
+            />
+            <UsageTable
+              heading="By project"
+              rows={usage.byProject.map((row) => ({
+                ...row,
+                label: row.title ?? (row.projectId ? "Deleted project" : "No project"),
+              }))}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import type { CollaboratorPresence } from '@/lib/collaboration/protocol';
+import type { CollaborationStatus } from '@/lib/collaboration/outline-sync';
+import { PROJECT_ROLE_LABELS } from '@/lib/project-roles';
+
+function initials(name: string): string {
+  return name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+}
+
+const STATUS_STYLES: Record<CollaborationStatus, { color: string; label: string }> = {
+  connected: { color: 'bg-green-500', label: 'Live' },
+  connecting: { color: 'bg-amber-500', label: 'Connecting…' },
+  disconnected: { color: 'bg-gray-400', label: 'Offline' },
+};
+
+interface CollaboratorAvatarsProps {
+  status: CollaborationStatus;
+  peers: CollaboratorPresence[];
+}
+
+// Connection status and everyone else currently in the project
+export const CollaboratorAvatars: React.FC<CollaboratorAvatarsProps> = ({ status, peers }) => {
+  const { color, label } = STATUS_STYLES[status];
+
+  return (
+    <div className="flex items-center gap-2" aria-label={`${peers.length} collaborators online`}>
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <span className={`w-2 h-2 rounded-full ${color}`} />
+        {label}
+      </span>
+      <div className="flex -space-x-2">
+        {peers.map(peer => (
+          <span
+            key={peer.clientId}
+            className="w-6 h-6 rounded-full border-2 border-background text-[10px] font-medium text-white flex items-center justify-center"
+            style={{ backgroundColor: peer.color }}
+            title={`${peer.name} (${PROJECT_ROLE_LABELS[peer.role]})`}
+          >
+            {initials(peer.name)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface CollaboratorCursorsProps {
+  peers: CollaboratorPresence[];
+}
+
+// Name tags of the collaborators whose cursor is on an outline item
+export const CollaboratorCursors: React.FC<CollaboratorCursorsProps> = ({ peers }) => {
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="absolute -top-2 right-2 flex gap-1 pointer-events-none">
+      {peers.map(peer => (
+        <span
+          key={peer.clientId}
+          className="px-1.5 rounded text-[10px] leading-4 text-white shadow-sm"
+          style={{ backgroundColor: peer.color }}
+        >
+          {peer.name}
+        </span>
+      ))}
+    </div>
+  );
+};
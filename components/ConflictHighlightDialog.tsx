@@ -23,6 +23,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { AlertTriangle, Brain, Search, Eye, EyeOff, Filter } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
+import { useCancellableRequest } from '@/lib/use-cancellable-request';
+import { researchProjectId } from '@/lib/stores/outline-store';
 
 interface ConflictHighlightDialogProps {
   selectedNodeIds: string[];
@@ -67,7 +69,7 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
   onConflictsDetected,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const { start, finish, cancel, isPending: isLoading } = useCancellableRequest();
   const [analysisType, setAnalysisType] = useState<AnalysisType>('comprehensive');
   const [severityThreshold, setSeverityThreshold] = useState<SeverityThreshold>('low');
   const [includeUnresolved, setIncludeUnresolved] = useState(true);
@@ -87,7 +89,7 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
   };
 
   const handleAnalyzeConflicts = async () => {
-    setIsLoading(true);
+    const signal = start();
     try {
       const requestData = {
         nodeIds: selectedNodeIds,
@@ -95,6 +97,7 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
         includeUnresolved,
         includeBiases,
         severityThreshold,
+        projectId: researchProjectId(),
       };
 
       const response = await fetch('/api/research/analyze-conflicts', {
@@ -103,10 +106,12 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestData),
+        signal,
       });
 
       const result = await response.json();
 
+      if (!finish(signal)) return;
       if (result.success) {
         setAnalysisResults(result.results);
         
@@ -117,10 +122,11 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
         throw new Error(result.error || 'Failed to analyze conflicts');
       }
     } catch (error) {
+      // Cancelled by the user, or replaced by a newer request
+      if (signal.aborted) return;
+      finish(signal);
       console.error('Error analyzing conflicts:', error);
       alert(error instanceof Error ? error.message : 'Failed to analyze conflicts');
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -181,7 +187,10 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
       setIsOpen(open);
-      if (!open) resetState();
+      if (!open) {
+        cancel();
+        resetState();
+      }
     }}>
       <DialogTrigger asChild>
         {trigger || defaultTrigger}
@@ -424,7 +433,7 @@ const ConflictHighlightDialog: React.FC<ConflictHighlightDialogProps> = ({
         )}
 
         <DialogFooter>
-          <Button variant="outline" onClick={() => setIsOpen(false)}>
+          <Button variant="outline" onClick={isLoading ? cancel : () => setIsOpen(false)}>
             {analysisResults.length > 0 ? 'Close' : 'Cancel'}
           </Button>
           {analysisResults.length === 0 && (
@@ -5,12 +5,15 @@ import * as d3 from 'd3';
 import { useDrag } from 'react-dnd';
 import { useOutlineStore } from '@/lib/stores/outline-store';
 import { ItemTypes } from '@/components/providers/DragDropProvider';
+import { NodeKind, nodeDepth } from '@/lib/node-kinds';
+import { RELATIONSHIP_STYLES, RelationshipType, relationshipStroke } from '@/lib/relationships';
+import RelationshipLegend from './RelationshipLegend';
 
 export interface D3Node extends d3.SimulationNodeDatum {
   id: string;
   title: string;
   content: string;
-  type: 'topic' | 'subtopic' | 'detail' | 'micro-detail';
+  type: NodeKind;
   source?: string;
   connections?: string[];
   url?: string;
@@ -30,6 +33,9 @@ export interface D3Node extends d3.SimulationNodeDatum {
 
 export interface D3Link extends d3.SimulationLinkDatum<D3Node> {
   id: string;
+  type?: RelationshipType; // Untyped links are drawn as 'related'
+  weight?: number; // 0-1, drives line width and pull
+  provenance?: string; // What created the edge, shown on hover
 }
 
 interface D3VisualizationProps {
@@ -174,8 +180,8 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
         .id(d => d.id)
         .distance((link) => {
           // Improved distance calculation for better connectivity
-          const sourceDepth = (link.source as D3Node).depth || 0;
-          const targetDepth = (link.target as D3Node).depth || 0;
+          const sourceDepth = nodeDepth(link.source as D3Node);
+          const targetDepth = nodeDepth(link.target as D3Node);
           const depthDiff = Math.abs(sourceDepth - targetDepth);
           
           // Larger nodes need more space - adjust distance based on node size
@@ -189,12 +195,12 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
           // Parent-child relationships are closer, siblings are further apart
           return depthDiff === 1 ? baseDistance : baseDistance * 1.4; // Reduced multiplier
         })
-        .strength(1.0)  // Increased link strength for better connectivity
+        .strength(link => 0.5 + 0.5 * (link.weight ?? 1))  // Heavier relationships pull harder
       )
       .force('charge', d3.forceManyBody()
         .strength((node) => {
           // Improved repulsion based on node size and depth
-          const depth = (node as D3Node).depth || 0;
+          const depth = nodeDepth(node as D3Node);
           const radius = getNodeRadius((node as D3Node).type, depth);
           
           // Balanced repulsion to prevent overlap while maintaining connections
@@ -209,7 +215,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
       .force('center', d3.forceCenter(width / 2, height / 2))
       .force('collision', d3.forceCollide()
         .radius(d => {
-          const depth = (d as D3Node).depth || 0;
+          const depth = nodeDepth(d as D3Node);
           const radius = getNodeRadius((d as D3Node).type, depth);
           return radius + 10; // Smaller buffer for tighter but stable layout
         })
@@ -218,7 +224,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
       // Gentle radial force to organize by hierarchy without excessive movement
       .force('radial', d3.forceRadial(
         (node) => {
-          const depth = (node as D3Node).depth || 0;
+          const depth = nodeDepth(node as D3Node);
           // Smaller radial distances to keep nodes closer and prevent spinning
           return 60 + (depth * 50); // Reduced from 80 + 120 to prevent excessive spreading
         },
@@ -255,9 +261,19 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
       .data(links)
       .enter()
       .append('line')
-      .attr('stroke', '#e5e7eb')
-      .attr('stroke-width', 2)
-      .attr('stroke-opacity', 0.6);
+      .attr('stroke', d => relationshipStroke(d.type, d.weight).color)
+      .attr('stroke-width', d => relationshipStroke(d.type, d.weight).width)
+      .attr('stroke-opacity', d => relationshipStroke(d.type, d.weight).opacity)
+      .attr('stroke-dasharray', d => relationshipStroke(d.type, d.weight).dashArray || null);
+
+    // Hovering a link names its relationship, weight and provenance
+    linkElements
+      .append('title')
+      .text(d => [
+        RELATIONSHIP_STYLES[d.type || 'related'].label,
+        d.weight !== undefined && `weight ${d.weight}`,
+        d.provenance,
+      ].filter(Boolean).join(' · '));
 
     // Create node groups
     const nodeGroups = container
@@ -273,12 +289,12 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
     // Add circles to nodes with hierarchical sizing
     const circles = nodeGroups
       .append('circle')
-      .attr('r', d => getNodeRadius(d.type, d.depth || 0))
-      .attr('fill', d => getNodeColor(d.type, selectedNodeIds.includes(d.id), d.depth || 0))
+      .attr('r', d => getNodeRadius(d.type, nodeDepth(d)))
+      .attr('fill', d => getNodeColor(d.type, selectedNodeIds.includes(d.id), nodeDepth(d)))
       .attr('stroke', '#ffffff')
       .attr('stroke-width', d => {
         // Larger nodes get thicker strokes for better definition
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         return radius > 30 ? 3 : 2;
       })
@@ -288,7 +304,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
     const labels = nodeGroups
       .append('text')
       .text(d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         // Longer text for larger nodes, shorter for smaller ones
         const maxLength = radius > 35 ? 25 : radius > 25 ? 18 : 12;
@@ -296,18 +312,18 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
       })
       .attr('text-anchor', 'middle')
       .attr('dy', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         return radius + 18; // Scale label distance with node size
       })
       .attr('font-size', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         // Font size scales with node size for visual hierarchy
         return Math.max(10, Math.min(16, radius * 0.35)) + 'px';
       })
       .attr('font-weight', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         // Higher levels get bolder text
         return depth <= 1 ? 'bold' : depth <= 2 ? '600' : 'normal';
       })
@@ -318,13 +334,13 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
     nodeGroups
       .append('text')
       .text(d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         return depth > 0 ? depth.toString() : d.type.charAt(0).toUpperCase();
       })
       .attr('text-anchor', 'middle')
       .attr('dy', '0.35em')
       .attr('font-size', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         // Scale indicator text with node size
         return Math.max(8, Math.min(14, radius * 0.3)) + 'px';
@@ -337,7 +353,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
     const selectionRings = nodeGroups
       .append('circle')
       .attr('r', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         return getNodeRadius(d.type, depth) + 5;
       })
       .attr('fill', 'none')
@@ -383,12 +399,12 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
       .attr('class', 'pin-indicator')
       .attr('r', 4)
       .attr('cx', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         return radius * 0.7; // Position on the edge of the node
       })
       .attr('cy', d => {
-        const depth = d.depth || 0;
+        const depth = nodeDepth(d);
         const radius = getNodeRadius(d.type, depth);
         return -radius * 0.7;
       })
@@ -436,7 +452,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
         d3.select(this).select('circle')
           .transition()
           .duration(200)
-          .attr('r', getNodeRadius(d.type, d.depth || 0) + 3);
+          .attr('r', getNodeRadius(d.type, nodeDepth(d)) + 3);
         
         // Show tooltip
         const tooltip = d3.select('body')
@@ -468,7 +484,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
         d3.select(this).select('circle')
           .transition()
           .duration(200)
-          .attr('r', getNodeRadius(d.type, d.depth || 0));
+          .attr('r', getNodeRadius(d.type, nodeDepth(d)));
         
         d3.selectAll('.tooltip').remove();
       });
@@ -486,7 +502,7 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
     });
 
     // Update colors when selection or color scheme changes
-    circles.attr('fill', d => getNodeColor(d.type, selectedNodeIds.includes(d.id), d.depth || 0));
+    circles.attr('fill', d => getNodeColor(d.type, selectedNodeIds.includes(d.id), nodeDepth(d)));
     selectionRings.attr('opacity', d => selectedNodeIds.includes(d.id) ? 1 : 0);
 
     return () => {
@@ -522,6 +538,9 @@ const D3Visualization: React.FC<D3VisualizationProps> = ({
         height={height}
         style={{ border: '1px solid #e5e7eb', borderRadius: '8px' }}
       />
+
+      {/* Legend for the relationship types currently on screen */}
+      <RelationshipLegend links={links} />
     </div>
   );
 };
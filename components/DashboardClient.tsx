@@ -1,14 +1,18 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import OutlineBuilder from '@/components/OutlineBuilder';
 import AdjustableDetailSlider from '@/components/AdjustableDetailSlider';
 import VisualizationCanvas from '@/components/VisualizationCanvas';
+import WritingView from '@/components/WritingView';
+import { Button } from '@/components/ui/button';
 import { AuthButton } from '@/components/AuthButton';
 import { ProjectManager } from '@/components/ProjectManager';
 import { DetailLevel } from '@/components/AdjustableDetailSlider';
 
 export default function DashboardClient() {
+  const [view, setView] = useState<'explore' | 'write'>('explore');
+
   const handleDetailLevelChange = (level: DetailLevel) => {
     console.log('Detail level changed to:', level);
   };
@@ -19,17 +23,42 @@ export default function DashboardClient() {
       <div className="flex-1 flex flex-col">
         {/* Header */}
         <div className="h-16 border-b flex items-center justify-between px-6">
-          <h1 className="text-2xl font-bold">Research Explorer</h1>
+          <div className="flex items-center gap-4">
+            <h1 className="text-2xl font-bold">Research Explorer</h1>
+            <div className="flex gap-1">
+              <Button
+                variant={view === 'explore' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('explore')}
+              >
+                Explore
+              </Button>
+              <Button
+                variant={view === 'write' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('write')}
+              >
+                Write
+              </Button>
+            </div>
+          </div>
           <div className="flex items-center gap-3">
             <ProjectManager />
             <AuthButton />
           </div>
         </div>
         
-        {/* Visualization Area */}
-        <div className="flex-1 p-6">
+        {/* Visualization Area; kept mounted while writing so the graph survives switching views */}
+        <div className={view === 'explore' ? 'flex-1 p-6' : 'hidden'}>
           <VisualizationCanvas />
         </div>
+
+        {/* Writing Area */}
+        {view === 'write' && (
+          <div className="flex-1 p-6 min-h-0">
+            <WritingView />
+          </div>
+        )}
       </div>
 
       {/* Sidebar */}
@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Copy, GitMerge } from 'lucide-react';
+import type { DuplicateCandidate } from '@/lib/node-similarity';
+import { researchProjectId } from '@/lib/stores/outline-store';
+import { useCancellableRequest } from '@/lib/use-cancellable-request';
+
+interface DuplicateNodesDialogProps {
+  trigger?: React.ReactNode;
+  // Called once the server has merged `mergedIds` into `targetId`
+  onMerged: (targetId: string, mergedIds: string[]) => void;
+}
+
+// As returned by GET /api/research/nodes/duplicates
+interface StoredDuplicate extends DuplicateCandidate {
+  nodes: Array<{ id: string; title: string; type: string; depth: number }>;
+}
+
+// Pairs fetched at once; merging or dismissing one reveals the next
+const MAX_CANDIDATES = 20;
+
+/**
+ * Likely duplicates among the saved nodes. Only stored nodes can be merged,
+ * so candidates come from the server rather than from what is on the canvas.
+ */
+const DuplicateNodesDialog: React.FC<DuplicateNodesDialogProps> = ({ trigger, onMerged }) => {
+  const { start, finish, cancel, isPending } = useCancellableRequest();
+  const [isOpen, setIsOpen] = useState(false);
+  const [candidates, setCandidates] = useState<StoredDuplicate[]>([]);
+  const [scanned, setScanned] = useState(0);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const signal = start();
+    const url = new URL('/api/research/nodes/duplicates', window.location.origin);
+    url.searchParams.set('limit', String(MAX_CANDIDATES));
+    const projectId = researchProjectId();
+    if (projectId) url.searchParams.set('projectId', projectId);
+
+    fetch(url.toString(), { signal })
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok || !data.success) throw new Error(data.error || 'Failed to find duplicates');
+        if (!finish(signal)) return;
+        setCandidates(data.candidates);
+        setScanned(data.scanned);
+      })
+      .catch(duplicatesError => {
+        if (signal.aborted) return;
+        finish(signal);
+        console.error('Error finding duplicate nodes:', duplicatesError);
+        setError(duplicatesError instanceof Error ? duplicatesError.message : 'Failed to find duplicates');
+      });
+  }, [isOpen, start, finish]);
+
+  const dismiss = (key: string) => {
+    setCandidates(prev => prev.filter(candidate => candidate.ids.join('|') !== key));
+  };
+
+  const handleMerge = async (targetId: string, sourceId: string) => {
+    setMergingKey(`${targetId}|${sourceId}`);
+    setError(null);
+    try {
+      const response = await fetch('/api/research/nodes/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId, sourceIds: [sourceId], projectId: researchProjectId() }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to merge nodes');
+      }
+      // Pairs involving the merged node are gone from the graph
+      const merged: string[] = data.mergedIds;
+      setCandidates(prev => prev.filter(candidate => !candidate.ids.some(id => merged.includes(id))));
+      onMerged(targetId, merged);
+    } catch (mergeError) {
+      console.error('Error merging nodes:', mergeError);
+      setError(mergeError instanceof Error ? mergeError.message : 'Failed to merge nodes');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  const defaultTrigger = (
+    <Button variant="outline" size="sm">
+      <Copy className="h-4 w-4 mr-2" />
+      Find Duplicates
+    </Button>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) {
+        cancel();
+        setCandidates([]);
+        setError(null);
+      }
+    }}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            Saved nodes with similar titles, overlapping content or shared sources{scanned > 0 && ` among ${scanned} nodes`}. Merging keeps the first node and folds the second into it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded">
+            {error}
+          </div>
+        )}
+
+        {isPending ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Looking for duplicates...</p>
+        ) : candidates.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No likely duplicates found.</p>
+        ) : (
+          <div className="space-y-3">
+            {candidates.map(candidate => {
+              const [targetId, sourceId] = candidate.ids;
+              const [target, source] = candidate.nodes;
+              const key = candidate.ids.join('|');
+              return (
+                <div key={key} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium truncate">{target.title}</p>
+                      <p className="text-sm text-muted-foreground truncate">{source.title}</p>
+                    </div>
+                    <Badge variant="secondary">{Math.round(candidate.score * 100)}% similar</Badge>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.reasons.map(reason => (
+                        <Badge key={reason} variant="outline" className="text-xs">{reason}</Badge>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => dismiss(key)}
+                        disabled={mergingKey !== null}
+                      >
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleMerge(targetId, sourceId)}
+                        disabled={mergingKey !== null}
+                      >
+                        <GitMerge className="h-4 w-4 mr-2" />
+                        {mergingKey === key ? 'Merging...' : 'Merge'}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateNodesDialog;
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { useChatContext } from '@/lib/contexts/ChatContext';
 import { useRouter } from 'next/navigation';
 import { useState, useEffect } from 'react';
+import { researchProjectId } from '@/lib/stores/outline-store';
 
 export default function HomeClient() {
   const { messages, hasMessages } = useChatContext();
@@ -56,7 +57,7 @@ export default function HomeClient() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ messages }),
+          body: JSON.stringify({ messages, projectId: researchProjectId() }),
         });
 
         if (response.ok) {
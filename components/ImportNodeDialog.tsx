@@ -23,6 +23,8 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { X, Plus, FileText, Link, Image, Upload } from 'lucide-react';
+import { RELATIONSHIP_STYLES, RELATIONSHIP_TYPES, RelationshipType } from '@/lib/relationships';
+import { researchProjectId } from '@/lib/stores/outline-store';
 
 interface ImportNodeDialogProps {
   onImportSuccess: (node: any) => void;
@@ -40,6 +42,7 @@ const ImportNodeDialog: React.FC<ImportNodeDialogProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [importType, setImportType] = useState<ImportType>('text');
+  const [relationship, setRelationship] = useState<RelationshipType>('part-of');
   const [formData, setFormData] = useState({
     title: '',
     content: '',
@@ -61,6 +64,7 @@ const ImportNodeDialog: React.FC<ImportNodeDialogProps> = ({
     });
     setCurrentTag('');
     setImportType('text');
+    setRelationship('part-of');
   };
 
   const handleAddTag = () => {
@@ -112,7 +116,8 @@ const ImportNodeDialog: React.FC<ImportNodeDialogProps> = ({
         ...(formData.imageUrl && { imageUrl: formData.imageUrl }),
         ...(formData.source && { source: formData.source }),
         ...(formData.tags.length > 0 && { tags: formData.tags }),
-        ...(parentNodeId && { parentNodeId }),
+        ...(parentNodeId && { parentNodeId, relationship }),
+        projectId: researchProjectId(),
       };
 
       const response = await fetch('/api/research/import', {
@@ -206,6 +211,31 @@ const ImportNodeDialog: React.FC<ImportNodeDialogProps> = ({
             </Select>
           </div>
 
+          {/* Relationship to the parent node */}
+          {parentNodeId && (
+            <div className="space-y-2">
+              <Label htmlFor="relationship">Relationship to Parent</Label>
+              <Select value={relationship} onValueChange={(value: RelationshipType) => setRelationship(value)}>
+                <SelectTrigger id="relationship">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATIONSHIP_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>
+                      <div className="flex items-center">
+                        <span
+                          className="inline-block h-2 w-2 rounded-full mr-2"
+                          style={{ backgroundColor: RELATIONSHIP_STYLES[type].color }}
+                        />
+                        {RELATIONSHIP_STYLES[type].label}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Title */}
           <div className="space-y-2">
             <Label htmlFor="title">Title *</Label>
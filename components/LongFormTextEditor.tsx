@@ -1,7 +1,14 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
+import { useCompletion } from 'ai/react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { 
   Bold, 
   Italic, 
@@ -16,14 +23,42 @@ import {
   Heading2,
   Heading3,
   Save,
-  Download
+  Download,
+  Sparkles,
+  Wand2,
+  Square
 } from 'lucide-react';
+import {
+  REFINEMENT_LABELS,
+  REFINEMENT_TYPES,
+  RefinementType,
+  partialImprovedText,
+} from '@/lib/text-refinement';
+
+// What the Generate button writes from; see /api/ai/generate-content
+interface GenerationContext {
+  outline: any;
+  nodeIds: string[];
+  projectId?: string;
+  sectionId?: string;
+  targetLength?: 'short' | 'medium' | 'long';
+  tone?: 'academic' | 'professional' | 'casual';
+}
 
 interface TextEditorProps {
   content?: string;
   onContentChange?: (content: string) => void;
   onSave?: (content: string) => void;
   className?: string;
+  /** Enables generating content at the end of the document. */
+  generation?: GenerationContext;
+}
+
+// Where streamed AI text is being written, and what to put back if nothing arrives
+interface StreamTarget {
+  kind: 'generate' | 'refine';
+  element: HTMLElement;
+  originalText: string;
 }
 
 type FormatCommand = 
@@ -46,14 +81,24 @@ const LongFormTextEditor: React.FC<TextEditorProps> = ({
   onContentChange,
   onSave,
   className = '',
+  generation,
 }) => {
   const [editorContent, setEditorContent] = useState(content);
   const [wordCount, setWordCount] = useState(0);
   const editorRef = useRef<HTMLDivElement>(null);
+  const selectionRef = useRef<Range | null>(null);
+  const streamTargetRef = useRef<StreamTarget | null>(null);
+
+  const generator = useCompletion({ api: '/api/ai/generate-content', streamProtocol: 'text' });
+  const refiner = useCompletion({ api: '/api/ai/refine-text', streamProtocol: 'text' });
+  const isStreaming = generator.isLoading || refiner.isLoading;
+  const streamError = generator.error || refiner.error;
 
+  // Only replace the DOM for outside changes (e.g. a loaded draft); echoing typed content back would reset the caret
   useEffect(() => {
-    if (editorRef.current) {
+    if (editorRef.current && editorRef.current.innerHTML !== content) {
       editorRef.current.innerHTML = content;
+      setEditorContent(content);
       updateWordCount(content);
     }
   }, [content]);
@@ -78,6 +123,83 @@ const LongFormTextEditor: React.FC<TextEditorProps> = ({
     handleInput();
   };
 
+  // Remember the selection so toolbar menus, which take focus, can act on it
+  const rememberSelection = () => {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    if (editorRef.current?.contains(range.commonAncestorContainer)) {
+      selectionRef.current = range.cloneRange();
+    }
+  };
+
+  const handleGenerate = () => {
+    if (!generation || !editorRef.current || isStreaming) return;
+
+    const element = document.createElement('div');
+    element.style.whiteSpace = 'pre-wrap';
+    editorRef.current.appendChild(element);
+    streamTargetRef.current = { kind: 'generate', element, originalText: '' };
+
+    generator.complete('', { body: { ...generation, stream: true } });
+  };
+
+  const handleRefine = (type: RefinementType) => {
+    const range = selectionRef.current;
+    const text = range?.toString() ?? '';
+    if (!range || !text.trim() || isStreaming) return;
+
+    // The selection is replaced by a span the refined text streams into
+    const element = document.createElement('span');
+    element.textContent = text;
+    range.deleteContents();
+    range.insertNode(element);
+    selectionRef.current = null;
+    streamTargetRef.current = { kind: 'refine', element, originalText: text };
+
+    refiner.complete('', { body: { text, type, stream: true } });
+  };
+
+  const handleStop = () => {
+    generator.stop();
+    refiner.stop();
+  };
+
+  // Render the text as it streams in
+  useEffect(() => {
+    const target = streamTargetRef.current;
+    if (target?.kind !== 'generate') return;
+    target.element.textContent = generator.completion;
+  }, [generator.completion]);
+
+  useEffect(() => {
+    const target = streamTargetRef.current;
+    if (target?.kind !== 'refine') return;
+    target.element.textContent = partialImprovedText(refiner.completion) || target.originalText;
+  }, [refiner.completion]);
+
+  // Once a stream ends (finished, stopped or failed), keep what arrived as ordinary editor content
+  useEffect(() => {
+    const target = streamTargetRef.current;
+    if (isStreaming || !target) return;
+    streamTargetRef.current = null;
+
+    if (target.kind === 'generate') {
+      const generated = generator.error ? '' : generator.completion;
+      const paragraphs = generated.split(/\n\s*\n/).map(text => text.trim()).filter(Boolean);
+      target.element.replaceWith(...paragraphs.map(text => {
+        const paragraph = document.createElement('p');
+        paragraph.textContent = text;
+        return paragraph;
+      }));
+    } else {
+      const refined = refiner.error ? '' : partialImprovedText(refiner.completion);
+      target.element.replaceWith(document.createTextNode(refined || target.originalText));
+    }
+
+    handleInput();
+  }, [isStreaming]);
+
   const handleHeading = (level: number) => {
     executeCommand('formatBlock', `h${level}`);
   };
@@ -216,6 +338,54 @@ const LongFormTextEditor: React.FC<TextEditorProps> = ({
           </Button>
         </div>
 
+        <div className="w-px h-6 bg-border" />
+
+        <div className="flex gap-1">
+          {generation && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleGenerate}
+              disabled={isStreaming}
+              className="flex items-center gap-2"
+            >
+              <Sparkles className="h-4 w-4" />
+              Generate
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isStreaming}
+                className="flex items-center gap-2"
+              >
+                <Wand2 className="h-4 w-4" />
+                Refine selection
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {REFINEMENT_TYPES.map(type => (
+                <DropdownMenuItem key={type} onClick={() => handleRefine(type)}>
+                  {REFINEMENT_LABELS[type]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {isStreaming && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleStop}
+              className="flex items-center gap-2"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
+          )}
+        </div>
+
         <div className="ml-auto flex gap-2">
           <Button
             variant="outline"
@@ -242,8 +412,10 @@ const LongFormTextEditor: React.FC<TextEditorProps> = ({
       <div className="relative">
         <div
           ref={editorRef}
-          contentEditable
+          contentEditable={!isStreaming}
           onInput={handleInput}
+          onMouseUp={rememberSelection}
+          onKeyUp={rememberSelection}
           className="min-h-[500px] p-6 focus:outline-none prose prose-sm max-w-none"
           style={{ 
             lineHeight: '1.8',
@@ -262,7 +434,11 @@ const LongFormTextEditor: React.FC<TextEditorProps> = ({
       {/* Status Bar */}
       <div className="border-t px-6 py-3 flex justify-between items-center text-sm text-muted-foreground">
         <span>Words: {wordCount}</span>
-        <span>Ready for AI assistance</span>
+        {streamError ? (
+          <span className="text-red-600">AI request failed: {streamError.message}</span>
+        ) : (
+          <span>{generator.isLoading ? 'Generating...' : refiner.isLoading ? 'Refining...' : 'Ready for AI assistance'}</span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { nodeKindForDepth } from '@/lib/node-kinds';
+import type { HighlightRange } from '@/lib/full-text-search';
+import type { NodeSearchResponse, NodeSearchResult } from '@/lib/services/node-search';
+import { useCancellableRequest } from '@/lib/use-cancellable-request';
+import { researchProjectId } from '@/lib/stores/outline-store';
+
+interface NodeSearchPanelProps {
+  query: string;
+  onOpenResult: (result: NodeSearchResult) => void;
+  onClose: () => void;
+}
+
+const Highlighted: React.FC<{ text: string; highlights: HighlightRange[] }> = ({ text, highlights }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+/**
+ * Results of a keyword search over stored nodes, with lens and depth facets
+ * to narrow them down.
+ */
+const NodeSearchPanel: React.FC<NodeSearchPanelProps> = ({ query, onOpenResult, onClose }) => {
+  const { start, finish, isPending } = useCancellableRequest();
+  const [lens, setLens] = useState<string | null>(null);
+  const [depth, setDepth] = useState<number | null>(null);
+  const [response, setResponse] = useState<NodeSearchResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new query starts unfiltered
+  useEffect(() => {
+    setLens(null);
+    setDepth(null);
+  }, [query]);
+
+  useEffect(() => {
+    const signal = start();
+    const url = new URL('/api/research/nodes/search', window.location.origin);
+    url.searchParams.set('q', query);
+    if (lens !== null) url.searchParams.set('lens', lens);
+    if (depth !== null) url.searchParams.set('depth', String(depth));
+    const projectId = researchProjectId();
+    if (projectId) url.searchParams.set('projectId', projectId);
+
+    fetch(url.toString(), { signal })
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok || !data.success) throw new Error(data.error || 'Search failed');
+        if (!finish(signal)) return;
+        setResponse(data);
+        setError(null);
+      })
+      .catch(searchError => {
+        if (signal.aborted) return;
+        finish(signal);
+        console.error('Error searching nodes:', searchError);
+        setError(searchError instanceof Error ? searchError.message : 'Search failed');
+      });
+  }, [query, lens, depth, start, finish]);
+
+  return (
+    <div className="mb-4 p-3 border rounded-lg bg-background space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          {isPending
+            ? `Searching for "${query}"...`
+            : `${response?.total ?? 0} saved node${response?.total === 1 ? '' : 's'} matching "${query}"`}
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          ✕
+        </Button>
+      </div>
+
+      {response && (response.facets.lens.length > 1 || response.facets.depth.length > 1) && (
+        <div className="flex flex-wrap gap-1">
+          {response.facets.lens.map(facet => (
+            <Button
+              key={`lens-${facet.value}`}
+              variant={lens === facet.value ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setLens(lens === facet.value ? null : facet.value)}
+            >
+              {facet.value} ({facet.count})
+            </Button>
+          ))}
+          {response.facets.depth.map(facet => (
+            <Button
+              key={`depth-${facet.value}`}
+              variant={depth === facet.value ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs capitalize"
+              onClick={() => setDepth(depth === facet.value ? null : facet.value)}
+            >
+              {nodeKindForDepth(facet.value)} · level {facet.value} ({facet.count})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : response && response.results.length > 0 ? (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {response.results.map(result => (
+            <li key={result.id}>
+              <button
+                type="button"
+                className="w-full text-left p-2 rounded hover:bg-muted"
+                onClick={() => onOpenResult(result)}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">
+                    <Highlighted text={result.title} highlights={result.titleHighlights} />
+                  </span>
+                  <Badge variant="outline" className="text-xs">{result.lens}</Badge>
+                  <Badge variant="secondary" className="text-xs">{result.type}</Badge>
+                </div>
+                {result.snippet.text && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {result.snippet.field === 'sources' && 'Source: '}
+                    <Highlighted text={result.snippet.text} highlights={result.snippet.highlights} />
+                  </p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : !isPending && (
+        <p className="text-sm text-muted-foreground">
+          No saved nodes match. Use Generate to create new research nodes with AI.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NodeSearchPanel;
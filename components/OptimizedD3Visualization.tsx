@@ -6,12 +6,16 @@ import { useDrag } from 'react-dnd';
 import { useOutlineStore } from '@/lib/stores/outline-store';
 import { ItemTypes } from '@/components/providers/DragDropProvider';
 import { debounce } from '@/lib/performance';
+import { NodeKind, nodeDepth } from '@/lib/node-kinds';
+import { RelationshipType, relationshipStroke } from '@/lib/relationships';
+import RelationshipLegend from './RelationshipLegend';
 
 export interface D3Node extends d3.SimulationNodeDatum {
   id: string;
   title: string;
   content: string;
-  type: 'topic' | 'subtopic' | 'detail';
+  type: NodeKind;
+  depth?: number;
   source?: string;
   connections?: string[];
   url?: string;
@@ -26,6 +30,8 @@ export interface D3Node extends d3.SimulationNodeDatum {
 export interface D3Link extends d3.SimulationLinkDatum<D3Node> {
   id: string;
   strength?: number; // For connection strength
+  type?: RelationshipType; // Untyped links are drawn as 'related'
+  weight?: number; // 0-1, drives line width and pull
 }
 
 interface D3VisualizationProps {
@@ -153,7 +159,7 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
       .force('link', d3.forceLink<D3Node, D3Link>(visibleLinks)
         .id(d => d.id)
         .distance(isLargeGraph ? 30 : 50)
-        .strength(isLargeGraph ? 0.1 : 0.3)
+        .strength(link => (isLargeGraph ? 0.1 : 0.3) * (link.weight ?? 1))
       )
       .force('charge', d3.forceManyBody()
         .strength(isLargeGraph ? -30 : -100)
@@ -182,7 +188,7 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
   const getNodeRadius = useCallback((node: D3Node) => {
     const baseRadius = 8;
     const connectionBonus = Math.min((node.connections?.length || 0) * 2, 12);
-    const typeMultiplier = node.type === 'topic' ? 1.5 : node.type === 'subtopic' ? 1.2 : 1;
+    const typeMultiplier = Math.max(1, 1.5 - nodeDepth(node) * 0.3);
     const selectedBonus = selectedNodeIds.includes(node.id) ? 4 : 0;
     
     return baseRadius + connectionBonus * typeMultiplier + selectedBonus;
@@ -192,15 +198,19 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
   const getNodeColor = useCallback((node: D3Node) => {
     if (selectedNodeIds.includes(node.id)) return '#3b82f6';
     
-    const colors = {
+    const colors: Record<NodeKind, string> = {
       topic: '#10b981',
       subtopic: '#f59e0b',
       detail: '#8b5cf6',
+      'micro-detail': '#ec4899',
     };
     
     return colors[node.type] || '#6b7280';
   }, [selectedNodeIds]);
 
+  // Link styling by relationship type, with width scaled by weight
+  const getLinkStyle = useCallback((link: D3Link) => relationshipStroke(link.type, link.weight), []);
+
   // Debounced render function for performance
   const debouncedRender = useMemo(
     () => debounce(() => {
@@ -236,15 +246,17 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
     context.scale(transform.k, transform.k);
 
     // Draw links
-    context.strokeStyle = 'rgba(156, 163, 175, 0.4)';
-    context.lineWidth = 1 / transform.k; // Adjust for zoom
-    
     visibleLinks.forEach(link => {
       const source = link.source as D3Node;
       const target = link.target as D3Node;
       
       if (source.x !== undefined && source.y !== undefined && 
           target.x !== undefined && target.y !== undefined) {
+        const style = getLinkStyle(link);
+        context.strokeStyle = style.color;
+        context.globalAlpha = style.opacity;
+        context.lineWidth = style.width / transform.k; // Adjust for zoom
+        context.setLineDash(style.dashArray ? style.dashArray.split(' ').map(n => Number(n) / transform.k) : []);
         context.beginPath();
         context.moveTo(source.x, source.y);
         context.lineTo(target.x, target.y);
@@ -252,6 +264,9 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
       }
     });
 
+    context.globalAlpha = 1;
+    context.setLineDash([]);
+
     // Draw nodes
     visibleNodes.forEach(node => {
       if (node.x === undefined || node.y === undefined) return;
@@ -290,7 +305,7 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
 
     context.restore();
     perfMonitor.endTiming('render-canvas');
-  }, [visibleNodes, visibleLinks, width, height, transform, getNodeRadius, getNodeColor, selectedNodeIds]);
+  }, [visibleNodes, visibleLinks, width, height, transform, getNodeRadius, getNodeColor, getLinkStyle, selectedNodeIds]);
 
   // SVG rendering for smaller graphs
   const renderSVG = useCallback(() => {
@@ -307,13 +322,16 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
     linkSelection.exit().remove();
 
     const linkEnter = linkSelection.enter()
-      .append('line')
-      .attr('stroke', '#9ca3af')
-      .attr('stroke-opacity', 0.4)
-      .attr('stroke-width', 1);
+      .append('line');
 
     const linkMerged = linkEnter.merge(linkSelection);
 
+    linkMerged
+      .attr('stroke', d => getLinkStyle(d).color)
+      .attr('stroke-opacity', d => getLinkStyle(d).opacity)
+      .attr('stroke-width', d => getLinkStyle(d).width)
+      .attr('stroke-dasharray', d => getLinkStyle(d).dashArray || null);
+
     // Update nodes
     const nodeSelection = svg.select('.nodes')
       .selectAll<SVGGElement, D3Node>('g')
@@ -402,7 +420,7 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
       );
 
     perfMonitor.endTiming('render-svg');
-  }, [visibleNodes, visibleLinks, getNodeRadius, getNodeColor, selectedNodeIds, onNodeClick, onNodeDoubleClick]);
+  }, [visibleNodes, visibleLinks, getNodeRadius, getNodeColor, getLinkStyle, selectedNodeIds, onNodeClick, onNodeDoubleClick]);
 
   // Initialize quadtree for efficient collision detection
   const updateQuadtree = useCallback(() => {
@@ -513,6 +531,9 @@ const OptimizedD3Visualization: React.FC<D3VisualizationProps> = ({
         </div>
       )}
 
+      {/* Legend for the relationship types currently on screen */}
+      <RelationshipLegend links={visibleLinks} />
+
       {/* Canvas for high-performance rendering */}
       {shouldUseCanvas && (
         <canvas
@@ -5,6 +5,7 @@ import { useDrop, useDrag } from 'react-dnd';
 import { FixedSizeList as List } from 'react-window';
 import { useOutlineStore, OutlineNode } from '@/lib/stores/outline-store';
 import { ItemTypes } from '@/components/providers/DragDropProvider';
+import { normalizeNodeKind } from '@/lib/node-kinds';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -27,6 +28,9 @@ import { convertToMarkdown, convertToText, downloadFile, generateFilename } from
 import { useInView } from 'react-intersection-observer';
 import { performanceMonitor } from '@/lib/performance';
 import { useFocusTrap, useKeyboardNavigation, ariaAttributes, announceToScreenReader, generateId, KEYS } from '@/lib/accessibility';
+import { useOutlineCollaboration } from '@/lib/collaboration/use-outline-collaboration';
+import type { CollaboratorPresence } from '@/lib/collaboration/protocol';
+import { CollaboratorAvatars, CollaboratorCursors } from '@/components/CollaboratorPresence';
 
 // Performance monitoring instance
 const perfMonitor = performanceMonitor;
@@ -38,6 +42,8 @@ interface VirtualizedItemProps {
     nodes: OutlineNode[];
     onReorder: (dragIndex: number, hoverIndex: number) => void;
     onRemove: (nodeId: string) => void;
+    cursorsByNode: Map<string, CollaboratorPresence[]>;
+    onFocus: (nodeId: string | null) => void;
   };
 }
 
@@ -47,6 +53,9 @@ interface DraggableOutlineItemProps {
   onReorder: (dragIndex: number, hoverIndex: number) => void;
   onRemove: (nodeId: string) => void;
   style?: React.CSSProperties;
+  // Collaborators whose cursor is on this item
+  collaborators?: CollaboratorPresence[];
+  onFocus?: (nodeId: string | null) => void;
 }
 
 const DraggableOutlineItem: React.FC<DraggableOutlineItemProps> = ({
@@ -55,6 +64,8 @@ const DraggableOutlineItem: React.FC<DraggableOutlineItemProps> = ({
   onReorder,
   onRemove,
   style,
+  collaborators = [],
+  onFocus,
 }) => {
   const [{ isDragging }, drag, dragPreview] = useDrag({
     type: ItemTypes.OUTLINE_ITEM,
@@ -112,6 +123,7 @@ const DraggableOutlineItem: React.FC<DraggableOutlineItemProps> = ({
         className={`group p-3 bg-background border rounded-lg shadow-sm hover:shadow-md transition-all duration-200 ${
           isDragging ? 'opacity-50 rotate-1' : ''
         } ${isOver ? 'border-primary/50 bg-primary/5' : ''}`}
+        style={collaborators.length > 0 ? { boxShadow: `0 0 0 2px ${collaborators[0].color}` } : undefined}
       >
         <div className="flex items-start gap-3">
           <div
@@ -181,10 +193,17 @@ const DraggableOutlineItem: React.FC<DraggableOutlineItemProps> = ({
         </div>
       </div>
     );
-  }, [inView, node, isDragging, isOver, onRemove, dragPreview]);
+  }, [inView, node, isDragging, isOver, onRemove, dragPreview, collaborators]);
 
   return (
-    <div ref={combineRefs} style={style} className="px-2 py-1">
+    <div
+      ref={combineRefs}
+      style={style}
+      className="px-2 py-1 relative"
+      onMouseEnter={() => onFocus?.(node.id)}
+      onMouseLeave={() => onFocus?.(null)}
+    >
+      <CollaboratorCursors peers={collaborators} />
       {renderContent}
     </div>
   );
@@ -192,7 +211,7 @@ const DraggableOutlineItem: React.FC<DraggableOutlineItemProps> = ({
 
 // Virtualized item component for react-window
 const VirtualizedItem: React.FC<VirtualizedItemProps> = ({ index, style, data }) => {
-  const { nodes, onReorder, onRemove } = data;
+  const { nodes, onReorder, onRemove, cursorsByNode, onFocus } = data;
   const node = nodes[index];
 
   if (!node) return null;
@@ -205,6 +224,8 @@ const VirtualizedItem: React.FC<VirtualizedItemProps> = ({ index, style, data })
       onReorder={onReorder}
       onRemove={onRemove}
       style={style}
+      collaborators={cursorsByNode.get(node.id)}
+      onFocus={onFocus}
     />
   );
 };
@@ -224,8 +245,27 @@ const OutlineBuilder: React.FC = () => {
     reorderNodes,
     addNode,
     fetchOutlineContent,
+    projectId,
   } = useOutlineStore();
 
+  // Live collaboration on the loaded project
+  const {
+    status: collaborationStatus,
+    peers,
+    error: collaborationError,
+    setFocus,
+  } = useOutlineCollaboration(projectId ?? null);
+
+  const cursorsByNode = useMemo(() => {
+    const cursors = new Map<string, CollaboratorPresence[]>();
+    peers.forEach(peer => {
+      if (peer.focusNodeId) {
+        cursors.set(peer.focusNodeId, [...(cursors.get(peer.focusNodeId) ?? []), peer]);
+      }
+    });
+    return cursors;
+  }, [peers]);
+
   // Accessibility IDs
   const outlineId = generateId('outline');
   const descriptionId = generateId('outline-description');
@@ -300,13 +340,14 @@ const OutlineBuilder: React.FC = () => {
   // Drop zone for accepting nodes from visualization
   const [{ isOver }, drop] = useDrop({
     accept: ItemTypes.NODE,
-    drop: (item: { id: string; title: string; content?: string; type?: string }) => {
+    drop: (item: { id: string; title: string; content?: string; type?: string; depth?: number }) => {
       perfMonitor.startTiming('add-node-drop');
       addNode({
         id: item.id,
         title: item.title,
         content: item.content || '',
-        type: (item.type as 'topic' | 'subtopic' | 'detail') || 'topic',
+        type: normalizeNodeKind(item.type, item.depth),
+        depth: item.depth,
         metadata: {},
       });
       perfMonitor.endTiming('add-node-drop');
@@ -381,13 +422,18 @@ const OutlineBuilder: React.FC = () => {
     nodes: sortedNodes,
     onReorder: handleReorder,
     onRemove: removeNode,
-  }), [sortedNodes, handleReorder, removeNode]);
+    cursorsByNode,
+    onFocus: setFocus,
+  }), [sortedNodes, handleReorder, removeNode, cursorsByNode, setFocus]);
 
   return (
     <div ref={dropRef} className="h-full flex flex-col">
       <div className="flex items-center justify-between mb-4">
         <h2 id={outlineId} className="text-xl font-semibold">Outline Builder</h2>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          {projectId && (
+            <CollaboratorAvatars status={collaborationStatus} peers={peers} />
+          )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button
@@ -442,6 +488,12 @@ const OutlineBuilder: React.FC = () => {
         </div>
       </div>
 
+      {collaborationError && (
+        <p className="mb-2 text-xs text-muted-foreground" role="status">
+          Live collaboration unavailable: {collaborationError}
+        </p>
+      )}
+
       <div 
         className={`flex-1 border-2 border-dashed rounded-lg p-4 transition-colors ${
           isOver ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
@@ -542,6 +594,8 @@ const OutlineBuilder: React.FC = () => {
                     index={index}
                     onReorder={handleReorder}
                     onRemove={removeNode}
+                    collaborators={cursorsByNode.get(node.id)}
+                    onFocus={setFocus}
                   />
                 ))}
               </div>
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Send, User, X } from "lucide-react";
+
+interface ProjectComment {
+  id: string;
+  body: string;
+  nodeId: string | null;
+  author: { id: string; name: string | null; email: string | null };
+  createdAt: string;
+}
+
+interface ProjectCommentsPanelProps {
+  projectId: string;
+  currentUserId?: string;
+  // Commenters and up can add comments; the owner can delete anyone's
+  canComment?: boolean;
+  canModerate?: boolean;
+}
+
+export function ProjectCommentsPanel({
+  projectId,
+  currentUserId,
+  canComment = true,
+  canModerate = false,
+}: ProjectCommentsPanelProps) {
+  const [comments, setComments] = useState<ProjectComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [body, setBody] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadComments();
+  }, [projectId]);
+
+  const loadComments = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/comments`);
+      if (response.ok) {
+        setComments(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load project comments:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addComment = async () => {
+    if (!body.trim()) return;
+
+    setIsPosting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/comments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ body: body.trim() }),
+      });
+
+      if (response.ok) {
+        const comment = await response.json();
+        setComments((prev) => [...prev, comment]);
+        setBody("");
+      } else {
+        const result = await response.json();
+        setError(result.error || "Failed to add comment");
+      }
+    } catch (error) {
+      console.error("Failed to add project comment:", error);
+      setError("Failed to add comment");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/comments/${commentId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setComments((prev) => prev.filter((comment) => comment.id !== commentId));
+      }
+    } catch (error) {
+      console.error("Failed to delete project comment:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h5 className="text-sm font-medium flex items-center gap-1">
+        <MessageSquare className="w-3 h-3" />
+        Comments
+      </h5>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <div className="w-5 h-5 animate-spin rounded-full border-2 border-gray-300 border-t-gray-600" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {comments.map((comment) => (
+            <div key={comment.id} className="border rounded p-2 text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <p className="whitespace-pre-wrap break-words min-w-0">{comment.body}</p>
+                {(canModerate || comment.author.id === currentUserId) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteComment(comment.id)}
+                    title="Delete comment"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+              <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  {comment.author.name || comment.author.email}
+                </span>
+                <span>{new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canComment && (
+        <div className="space-y-2">
+          <Label htmlFor={`comment-${projectId}`} className="sr-only">
+            Comment
+          </Label>
+          <Textarea
+            id={`comment-${projectId}`}
+            placeholder="Add a comment..."
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={2}
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={addComment}
+              disabled={!body.trim() || isPosting}
+              className="flex items-center gap-1"
+            >
+              <Send className="w-3 h-3" />
+              Comment
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
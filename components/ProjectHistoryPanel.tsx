@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw, GitCompare, User } from "lucide-react";
+import type { ProjectDiff } from "@/lib/project-diff";
+
+interface RevisionSummary {
+  number: number;
+  title: string;
+  summary: string;
+  author: { id: string; name: string | null; email: string | null } | null;
+  nodeCount: number;
+  createdAt: string;
+}
+
+interface ProjectHistoryPanelProps {
+  projectId: string;
+  canRestore?: boolean;
+  onRestored: (project: any) => void;
+}
+
+export function ProjectHistoryPanel({ projectId, canRestore = true, onRestored }: ProjectHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [openDiff, setOpenDiff] = useState<{ number: number; diff: ProjectDiff } | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [projectId]);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/revisions`);
+      if (response.ok) {
+        setRevisions(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load revisions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleDiff = async (number: number) => {
+    if (openDiff?.number === number) {
+      setOpenDiff(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/revisions/${number}/diff`);
+      if (response.ok) {
+        const result = await response.json();
+        setOpenDiff({ number, diff: result.diff });
+      }
+    } catch (error) {
+      console.error("Failed to load revision diff:", error);
+    }
+  };
+
+  const restoreRevision = async (number: number) => {
+    if (!window.confirm(`Restore revision ${number}? Your current state stays in the history.`)) return;
+
+    setRestoring(number);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/revisions/${number}/restore`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        onRestored(await response.json());
+        loadRevisions();
+      }
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="w-5 h-5 animate-spin rounded-full border-2 border-gray-300 border-t-gray-600" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-2">
+        No history yet. Revisions are recorded each time the project is saved.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-sm font-medium flex items-center gap-1">
+        <History className="w-3 h-3" />
+        History
+      </h5>
+      {revisions.map((revision, index) => (
+        <div key={revision.number} className="border rounded p-2 text-sm">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs">#{revision.number}</Badge>
+                <span className="truncate">{revision.summary}</span>
+              </div>
+              <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  {revision.author?.name || revision.author?.email || "Unknown"}
+                </span>
+                <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                <span>{revision.nodeCount} nodes</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => toggleDiff(revision.number)}>
+                <GitCompare className="w-3 h-3" />
+              </Button>
+              {canRestore && index > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => restoreRevision(revision.number)}
+                  disabled={restoring !== null}
+                  className="flex items-center gap-1"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Restore
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {openDiff?.number === revision.number && (
+            <div className="mt-2 border-t pt-2 text-xs space-y-1">
+              {openDiff.diff.titleChanged && (
+                <p>Title: &ldquo;{openDiff.diff.titleChanged.from}&rdquo; → &ldquo;{openDiff.diff.titleChanged.to}&rdquo;</p>
+              )}
+              {openDiff.diff.nodes.added.map(node => (
+                <p key={`added-${node.id}`} className="text-green-700">+ {node.title}</p>
+              ))}
+              {openDiff.diff.nodes.removed.map(node => (
+                <p key={`removed-${node.id}`} className="text-red-700">− {node.title}</p>
+              ))}
+              {openDiff.diff.nodes.modified.map(node => (
+                <p key={`modified-${node.id}`} className="text-amber-700">
+                  ~ {node.title} ({node.fields.join(", ")})
+                </p>
+              ))}
+              {openDiff.diff.conflicts.before !== openDiff.diff.conflicts.after && (
+                <p>Conflicts: {openDiff.diff.conflicts.before} → {openDiff.diff.conflicts.after}</p>
+              )}
+              {openDiff.diff.summaryChanged && <p>Summary updated</p>}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
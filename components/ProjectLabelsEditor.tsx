@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { normalizeFolder, parseTagList } from "@/lib/project-labels";
+
+interface ProjectLabelsEditorProps {
+  projectId: string;
+  folder: string | null;
+  tags: string[];
+  // Existing folder names, offered as suggestions
+  folders: string[];
+  onSaved: () => void;
+}
+
+// Folder and tags of one of the user's own projects
+export function ProjectLabelsEditor({ projectId, folder, tags, folders, onSaved }: ProjectLabelsEditorProps) {
+  const [folderInput, setFolderInput] = useState(folder ?? "");
+  const [tagsInput, setTagsInput] = useState(tags.join(", "));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          folder: normalizeFolder(folderInput),
+          tags: parseTagList(tagsInput),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to save");
+      }
+
+      onSaved();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const datalistId = `project-folders-${projectId}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor={`folder-${projectId}`} className="text-xs">
+            Folder
+          </Label>
+          <Input
+            id={`folder-${projectId}`}
+            list={datalistId}
+            placeholder="Unfiled"
+            value={folderInput}
+            onChange={(e) => setFolderInput(e.target.value)}
+          />
+          <datalist id={datalistId}>
+            {folders.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <Label htmlFor={`tags-${projectId}`} className="text-xs">
+            Tags (comma-separated)
+          </Label>
+          <Input
+            id={`tags-${projectId}`}
+            placeholder="ethics, draft"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <Button size="sm" onClick={save} disabled={isSaving}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
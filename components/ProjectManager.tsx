@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useSession } from "next-auth/react";
 import {
   Dialog,
@@ -21,8 +21,38 @@ import {
   Calendar,
   FileText,
   Plus,
+  History,
+  MessageSquare,
+  Upload,
+  Users,
+  Download,
+  FileUp,
+  RotateCcw,
+  ArrowLeft,
+  Search,
+  Folder,
+  Tag,
+  ChevronLeft,
+  ChevronRight,
 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useOutlineStore } from "@/lib/stores/outline-store";
+import { createProjectDocument } from "@/lib/project-document";
+import { KNIIT_FILE_EXTENSION } from "@/lib/project-archive";
+import { useOptionalChatContext } from "@/lib/contexts/ChatContext";
+import { downloadFile } from "@/lib/export-utils";
+import { ProjectHistoryPanel } from "@/components/ProjectHistoryPanel";
+import { ProjectCommentsPanel } from "@/components/ProjectCommentsPanel";
+import { ProjectSharePanel } from "@/components/ProjectSharePanel";
+import { ProjectLabelsEditor } from "@/components/ProjectLabelsEditor";
+import { PROJECT_SORT_LABELS, ProjectSortField } from "@/lib/project-labels";
+import { hasProjectRole, PROJECT_ROLE_LABELS, ProjectAccessRole } from "@/lib/project-roles";
 
 interface SavedPath {
   id: string;
@@ -30,8 +60,30 @@ interface SavedPath {
   createdAt: string;
   updatedAt: string;
   data: any;
+  folder?: string | null;
+  tags?: string[];
+  // Set on projects shared with the user; absent on their own projects
+  role?: ProjectAccessRole;
+  owner?: { id: string; name: string | null; email: string | null };
+}
+
+interface TrashedPath {
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface ProjectFacets {
+  folders: { name: string; count: number }[];
+  tags: { name: string; count: number }[];
+  unfiled: number;
 }
 
+// Select values for the folder filter; any other value is a folder name
+const ALL_FOLDERS = "__all";
+const UNFILED = "__unfiled";
+
 interface ProjectManagerProps {
   children?: React.ReactNode;
 }
@@ -40,25 +92,111 @@ export function ProjectManager({ children }: ProjectManagerProps) {
   const { data: session } = useSession();
   const [isOpen, setIsOpen] = useState(false);
   const [savedPaths, setSavedPaths] = useState<SavedPath[]>([]);
+  const [sharedPaths, setSharedPaths] = useState<SavedPath[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [saveTitle, setSaveTitle] = useState("");
   const [isSaving, setIsSaving] = useState(false);
+  const [historyProjectId, setHistoryProjectId] = useState<string | null>(null);
+  const [shareProjectId, setShareProjectId] = useState<string | null>(null);
+  const [commentsProjectId, setCommentsProjectId] = useState<string | null>(null);
+  const [updatingProjectId, setUpdatingProjectId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashedPaths, setTrashedPaths] = useState<TrashedPath[]>([]);
+  // Last project moved to the trash, offered for undo
+  const [lastTrashed, setLastTrashed] = useState<SavedPath | null>(null);
+  const [labelsProjectId, setLabelsProjectId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [sort, setSort] = useState<ProjectSortField>("updatedAt");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [facets, setFacets] = useState<ProjectFacets>({ folders: [], tags: [], unfiled: 0 });
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const chat = useOptionalChatContext();
   
-  const { nodes, conflicts, summary, loadProject: storeLoadProject } = useOutlineStore();
+  const {
+    nodes,
+    conflicts,
+    summary,
+    outlineContent,
+    detailLevel,
+    selectedNodeIds,
+    drafts,
+    loadProject: storeLoadProject,
+  } = useOutlineStore();
+
+  const currentDocument = () =>
+    createProjectDocument({
+      nodes,
+      conflicts,
+      summary,
+      outlineContent,
+      detailLevel,
+      selectedNodeIds,
+      drafts,
+      chat: chat?.messages.map(({ id, role, content, createdAt }) => ({
+        id,
+        role,
+        content,
+        createdAt: createdAt ? new Date(createdAt).toISOString() : undefined,
+      })),
+    });
+
+  // The outline store restores everything but the chat, which lives in ChatContext
+  const openDocument = (data: unknown, projectId: string, role?: ProjectAccessRole) => {
+    const document = storeLoadProject(data, projectId, role);
+    if (document && chat) {
+      chat.restoreMessages(
+        document.chat.map(({ createdAt, ...message }) => ({
+          ...message,
+          ...(createdAt && { createdAt: new Date(createdAt) }),
+        }))
+      );
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
 
   useEffect(() => {
     if (session && isOpen) {
       loadSavedPaths();
     }
+  }, [session, isOpen, debouncedSearch, folderFilter, tagFilter, sort, page]);
+
+  useEffect(() => {
+    if (session && isOpen) {
+      loadSharedPaths();
+      loadFacets();
+    }
   }, [session, isOpen]);
 
   const loadSavedPaths = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch("/api/projects");
+      // Only non-default parameters are sent
+      const params = new URLSearchParams();
+      if (debouncedSearch) params.set("search", debouncedSearch);
+      if (folderFilter !== ALL_FOLDERS) params.set("filter[folder]", folderFilter === UNFILED ? "" : folderFilter);
+      if (tagFilter) params.set("filter[tag]", tagFilter);
+      if (sort !== "updatedAt") params.set("sort", sort);
+      if (page > 1) params.set("page", String(page));
+
+      const query = params.toString();
+      const response = await fetch(query ? `/api/projects?${query}` : "/api/projects");
       if (response.ok) {
-        const paths = await response.json();
-        setSavedPaths(paths);
+        const result = await response.json();
+        setSavedPaths(Array.isArray(result?.data) ? result.data : []);
+        setTotalPages(Math.max(1, result?.meta?.totalPages ?? 1));
       }
     } catch (error) {
       console.error("Failed to load saved paths:", error);
@@ -67,17 +205,56 @@ export function ProjectManager({ children }: ProjectManagerProps) {
     }
   };
 
+  // Changing the filters starts again from the first page
+  const changeFolderFilter = (value: string) => {
+    setFolderFilter(value);
+    setPage(1);
+  };
+
+  const changeTagFilter = (value: string | null) => {
+    setTagFilter(value);
+    setPage(1);
+  };
+
+  const changeSort = (value: ProjectSortField) => {
+    setSort(value);
+    setPage(1);
+  };
+
+  const loadFacets = async () => {
+    try {
+      const response = await fetch("/api/projects/facets");
+      if (response.ok) {
+        const result = await response.json();
+        setFacets({
+          folders: result?.folders ?? [],
+          tags: result?.tags ?? [],
+          unfiled: result?.unfiled ?? 0,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to load folders and tags:", error);
+    }
+  };
+
+  const loadSharedPaths = async () => {
+    try {
+      const response = await fetch("/api/projects/shared");
+      if (response.ok) {
+        const paths = await response.json();
+        setSharedPaths(Array.isArray(paths) ? paths : []);
+      }
+    } catch (error) {
+      console.error("Failed to load shared projects:", error);
+    }
+  };
+
   const saveCurrentProject = async () => {
     if (!saveTitle.trim() || !session) return;
 
     setIsSaving(true);
     try {
-      const projectData = {
-        nodes,
-        conflicts,
-        summary,
-        timestamp: new Date().toISOString(),
-      };
+      const projectData = currentDocument();
 
       const response = await fetch("/api/projects", {
         method: "POST",
@@ -87,12 +264,15 @@ export function ProjectManager({ children }: ProjectManagerProps) {
         body: JSON.stringify({
           title: saveTitle,
           data: projectData,
+          // Save into the folder being browsed
+          ...(folderFilter !== ALL_FOLDERS && folderFilter !== UNFILED && { folder: folderFilter }),
         }),
       });
 
       if (response.ok) {
         setSaveTitle("");
         loadSavedPaths();
+        loadFacets();
       }
     } catch (error) {
       console.error("Failed to save project:", error);
@@ -101,30 +281,393 @@ export function ProjectManager({ children }: ProjectManagerProps) {
     }
   };
 
+  // Save the current outline over an existing project; the previous state stays in its history
+  const updateProject = async (path: SavedPath) => {
+    setUpdatingProjectId(path.id);
+    try {
+      const response = await fetch(`/api/projects/${path.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          data: currentDocument(),
+        }),
+      });
+
+      if (response.ok) {
+        loadSavedPaths();
+        loadSharedPaths();
+      }
+    } catch (error) {
+      console.error("Failed to update project:", error);
+    } finally {
+      setUpdatingProjectId(null);
+    }
+  };
+
+  const handleRestored = (project: SavedPath, role?: ProjectAccessRole) => {
+    try {
+      openDocument(project.data, project.id, role);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load project");
+    }
+    loadSavedPaths();
+    loadSharedPaths();
+  };
+
   const loadProject = async (path: SavedPath) => {
     try {
-      // Use the new loadProject method from the store
-      storeLoadProject(path.data);
+      // The store migrates older documents and rejects corrupt ones
+      openDocument(path.data, path.id, path.role);
+      setLoadError(null);
       setIsOpen(false);
     } catch (error) {
       console.error("Failed to load project:", error);
+      setLoadError(`Could not load "${path.title}": ${error instanceof Error ? error.message : "unknown error"}`);
     }
   };
 
-  const deleteProject = async (id: string) => {
+  const exportProject = async (path: SavedPath) => {
     try {
-      const response = await fetch(`/api/projects/${id}`, {
+      const response = await fetch(`/api/projects/${path.id}/export`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Export failed");
+      }
+
+      const slug = path.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "project";
+      downloadFile(await response.text(), `${slug}.${KNIIT_FILE_EXTENSION}`, "application/json");
+    } catch (error) {
+      console.error("Failed to export project:", error);
+      setLoadError(`Could not export "${path.title}": ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  };
+
+  const importProject = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/projects/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: await file.text(),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Import failed");
+      }
+
+      setLoadError(null);
+      loadSavedPaths();
+      loadFacets();
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      setLoadError(`Could not import ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`);
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) importInputRef.current.value = "";
+    }
+  };
+
+  // Deleting moves the project to the trash, from where it can be restored
+  const deleteProject = async (path: SavedPath) => {
+    try {
+      const response = await fetch(`/api/projects/${path.id}`, {
         method: "DELETE",
       });
 
       if (response.ok) {
+        setLastTrashed(path);
         loadSavedPaths();
+        loadFacets();
       }
     } catch (error) {
       console.error("Failed to delete project:", error);
     }
   };
 
+  const loadTrash = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/projects/trash");
+      if (response.ok) {
+        const paths = await response.json();
+        setTrashedPaths(Array.isArray(paths) ? paths : []);
+      }
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openTrash = (open: boolean) => {
+    setShowTrash(open);
+    if (open) {
+      loadTrash();
+    } else {
+      loadSavedPaths();
+    }
+  };
+
+  const restoreFromTrash = async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/trash/${id}/restore`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        if (lastTrashed?.id === id) setLastTrashed(null);
+        if (showTrash) {
+          loadTrash();
+        } else {
+          loadSavedPaths();
+        }
+        loadFacets();
+      }
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+    }
+  };
+
+  const purgeProject = async (path: TrashedPath) => {
+    if (!window.confirm(`Delete "${path.title}" permanently? This cannot be undone.`)) return;
+
+    try {
+      const response = await fetch(`/api/projects/trash/${path.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        loadTrash();
+      }
+    } catch (error) {
+      console.error("Failed to delete project permanently:", error);
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (!window.confirm("Delete every project in the trash permanently? This cannot be undone.")) return;
+
+    try {
+      const response = await fetch("/api/projects/trash", {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setLastTrashed(null);
+        loadTrash();
+      }
+    } catch (error) {
+      console.error("Failed to empty trash:", error);
+    }
+  };
+
+  const renderTrashRow = (path: TrashedPath) => {
+    const daysLeft = Math.max(0, Math.ceil((new Date(path.purgeAt).getTime() - Date.now()) / 86400000));
+
+    return (
+      <div key={path.id} className="border rounded-lg p-3 flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <h4 className="font-medium truncate">{path.title}</h4>
+          <p className="mt-1 text-sm text-gray-500">
+            Deleted {new Date(path.deletedAt).toLocaleDateString()} · removed permanently in {daysLeft}{" "}
+            {daysLeft === 1 ? "day" : "days"}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 ml-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => restoreFromTrash(path.id)}
+            className="flex items-center gap-1"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Restore
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => purgeProject(path)}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            title="Delete permanently"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProjectRow = (path: SavedPath) => {
+    const role = path.role ?? "owner";
+
+    return (
+      <div
+        key={path.id}
+        className="border rounded-lg p-3 hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <h4 className="font-medium truncate">{path.title}</h4>
+            <div className="flex items-center gap-4 mt-1 text-sm text-gray-500">
+              <span className="flex items-center gap-1">
+                <Calendar className="w-3 h-3" />
+                {new Date(path.createdAt).toLocaleDateString()}
+              </span>
+              {path.owner && (
+                <span className="truncate">by {path.owner.name || path.owner.email}</span>
+              )}
+              {path.role && (
+                <Badge variant="outline" className="text-xs">
+                  {PROJECT_ROLE_LABELS[path.role]}
+                </Badge>
+              )}
+              {path.data?.nodes && (
+                <Badge variant="secondary" className="text-xs">
+                  {path.data.nodes.length} nodes
+                </Badge>
+              )}
+              {path.folder && (
+                <span className="flex items-center gap-1 truncate">
+                  <Folder className="w-3 h-3" />
+                  {path.folder}
+                </span>
+              )}
+            </div>
+            {path.tags && path.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {path.tags.map((tag) => (
+                  <Badge key={tag} variant="outline" className="text-xs">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-1 ml-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => loadProject(path)}
+              className="flex items-center gap-1"
+            >
+              <FolderOpen className="w-3 h-3" />
+              Load
+            </Button>
+            {hasProjectRole(role, "editor") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateProject(path)}
+                disabled={updatingProjectId === path.id}
+                title="Save current outline to this project"
+              >
+                <Upload className="w-3 h-3" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setHistoryProjectId(historyProjectId === path.id ? null : path.id)}
+              title="Show history"
+            >
+              <History className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCommentsProjectId(commentsProjectId === path.id ? null : path.id)}
+              title="Comments"
+            >
+              <MessageSquare className="w-3 h-3" />
+            </Button>
+            {role === "owner" && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLabelsProjectId(labelsProjectId === path.id ? null : path.id)}
+                  title="Folder and tags"
+                >
+                  <Tag className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShareProjectId(shareProjectId === path.id ? null : path.id)}
+                  title="Share"
+                >
+                  <Users className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => exportProject(path)}
+                  title={`Download as .${KNIIT_FILE_EXTENSION} archive`}
+                >
+                  <Download className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteProject(path)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  title="Move to trash"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        {historyProjectId === path.id && (
+          <div className="mt-3 border-t pt-3">
+            <ProjectHistoryPanel
+              projectId={path.id}
+              canRestore={hasProjectRole(role, "editor")}
+              onRestored={(project) => handleRestored(project, path.role)}
+            />
+          </div>
+        )}
+        {commentsProjectId === path.id && (
+          <div className="mt-3 border-t pt-3">
+            <ProjectCommentsPanel
+              projectId={path.id}
+              currentUserId={session?.user?.id}
+              canComment={hasProjectRole(role, "commenter")}
+              canModerate={role === "owner"}
+            />
+          </div>
+        )}
+        {shareProjectId === path.id && (
+          <div className="mt-3 border-t pt-3">
+            <ProjectSharePanel projectId={path.id} />
+          </div>
+        )}
+        {labelsProjectId === path.id && (
+          <div className="mt-3 border-t pt-3">
+            <ProjectLabelsEditor
+              projectId={path.id}
+              folder={path.folder ?? null}
+              tags={path.tags ?? []}
+              folders={facets.folders.map((folder) => folder.name)}
+              onSaved={() => {
+                setLabelsProjectId(null);
+                loadSavedPaths();
+                loadFacets();
+              }}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (!session) {
     return null;
   }
@@ -190,61 +733,193 @@ export function ProjectManager({ children }: ProjectManagerProps) {
 
         {/* Saved Projects List */}
         <div className="flex-1 overflow-hidden flex flex-col">
-          <h3 className="font-medium mb-3">Saved Projects</h3>
+          <div className="flex items-center justify-between mb-3">
+            {showTrash ? (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openTrash(false)}
+                  className="flex items-center gap-1"
+                >
+                  <ArrowLeft className="w-3 h-3" />
+                  Saved Projects
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={emptyTrash}
+                  disabled={trashedPaths.length === 0}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Empty trash
+                </Button>
+              </>
+            ) : (
+              <>
+                <h3 className="font-medium">Saved Projects</h3>
+                <div className="flex items-center gap-1">
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept={`.${KNIIT_FILE_EXTENSION},application/json`}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importProject(file);
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isImporting}
+                    className="flex items-center gap-1"
+                  >
+                    <FileUp className="w-3 h-3" />
+                    Import
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openTrash(true)}
+                    className="flex items-center gap-1"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Trash
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+          {loadError && (
+            <p className="mb-3 rounded border border-red-200 bg-red-50 p-2 text-sm text-red-700" role="alert">
+              {loadError}
+            </p>
+          )}
+          {!showTrash && (
+            <div className="mb-3 space-y-2">
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    placeholder="Search projects and nodes..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-8"
+                    aria-label="Search projects"
+                  />
+                </div>
+                <Select value={folderFilter} onValueChange={changeFolderFilter}>
+                  <SelectTrigger className="w-36" aria-label="Folder">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+                    <SelectItem value={UNFILED}>Unfiled ({facets.unfiled})</SelectItem>
+                    {facets.folders.map((folder) => (
+                      <SelectItem key={folder.name} value={folder.name}>
+                        {folder.name} ({folder.count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sort} onValueChange={changeSort}>
+                  <SelectTrigger className="w-36" aria-label="Sort by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PROJECT_SORT_LABELS) as ProjectSortField[]).map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {PROJECT_SORT_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {facets.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {facets.tags.map((tag) => (
+                    <button key={tag.name} type="button" onClick={() => changeTagFilter(tagFilter === tag.name ? null : tag.name)}>
+                      <Badge variant={tagFilter === tag.name ? "default" : "outline"} className="text-xs">
+                        {tag.name} ({tag.count})
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {lastTrashed && !showTrash && (
+            <div className="mb-3 flex items-center justify-between rounded border bg-gray-50 p-2 text-sm" role="status">
+              <span className="truncate">&quot;{lastTrashed.title}&quot; moved to trash</span>
+              <Button variant="ghost" size="sm" onClick={() => restoreFromTrash(lastTrashed.id)}>
+                Undo
+              </Button>
+            </div>
+          )}
           <div className="flex-1 overflow-y-auto space-y-2">
             {isLoading ? (
               <div className="flex items-center justify-center py-8">
                 <div className="w-6 h-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-600" />
               </div>
+            ) : showTrash ? (
+              trashedPaths.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Trash2 className="w-8 h-8 mx-auto mb-2" />
+                  <p>Trash is empty</p>
+                </div>
+              ) : (
+                trashedPaths.map((path) => renderTrashRow(path))
+              )
             ) : savedPaths.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 <FileText className="w-8 h-8 mx-auto mb-2" />
-                <p>No saved projects yet</p>
-                <p className="text-sm">Save your current research to get started</p>
+                {debouncedSearch || folderFilter !== ALL_FOLDERS || tagFilter ? (
+                  <p>No projects match these filters</p>
+                ) : (
+                  <>
+                    <p>No saved projects yet</p>
+                    <p className="text-sm">Save your current research to get started</p>
+                  </>
+                )}
               </div>
             ) : (
-              savedPaths.map((path) => (
-                <div
-                  key={path.id}
-                  className="border rounded-lg p-3 hover:bg-gray-50 transition-colors"
+              savedPaths.map((path) => renderProjectRow(path))
+            )}
+
+            {!showTrash && totalPages > 1 && (
+              <div className="flex items-center justify-center gap-2 pt-2 text-sm text-gray-500">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  aria-label="Previous page"
                 >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-medium truncate">{path.title}</h4>
-                      <div className="flex items-center gap-4 mt-1 text-sm text-gray-500">
-                        <span className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          {new Date(path.createdAt).toLocaleDateString()}
-                        </span>
-                        {path.data?.nodes && (
-                          <Badge variant="secondary" className="text-xs">
-                            {path.data.nodes.length} nodes
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-1 ml-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => loadProject(path)}
-                        className="flex items-center gap-1"
-                      >
-                        <FolderOpen className="w-3 h-3" />
-                        Load
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteProject(path.id)}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              ))
+                  <ChevronLeft className="w-3 h-3" />
+                </Button>
+                Page {page} of {totalPages}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
+
+            {!showTrash && sharedPaths.length > 0 && (
+              <>
+                <h3 className="font-medium pt-4 flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Shared with me
+                </h3>
+                {sharedPaths.map((path) => renderProjectRow(path))}
+              </>
             )}
           </div>
         </div>
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserPlus, Users, X } from "lucide-react";
+import {
+  PROJECT_ROLES,
+  PROJECT_ROLE_LABELS,
+  ProjectAccessRole,
+  ProjectRole,
+} from "@/lib/project-roles";
+
+interface ProjectMember {
+  user: { id: string; name: string | null; email: string | null; username: string | null };
+  role: ProjectAccessRole;
+  createdAt: string;
+}
+
+interface ProjectSharePanelProps {
+  projectId: string;
+}
+
+// Members list and invite form for a project the signed-in user owns
+export function ProjectSharePanel({ projectId }: ProjectSharePanelProps) {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [identifier, setIdentifier] = useState("");
+  const [role, setRole] = useState<ProjectRole>("viewer");
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMembers();
+  }, [projectId]);
+
+  const loadMembers = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`);
+      if (response.ok) {
+        setMembers(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load project members:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inviteMember = async () => {
+    if (!identifier.trim()) return;
+
+    setIsInviting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ identifier: identifier.trim(), role }),
+      });
+
+      if (response.ok) {
+        setIdentifier("");
+        loadMembers();
+      } else {
+        const result = await response.json();
+        setError(result.error || "Failed to invite member");
+      }
+    } catch (error) {
+      console.error("Failed to invite project member:", error);
+      setError("Failed to invite member");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const changeRole = async (userId: string, newRole: ProjectRole) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${userId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ role: newRole }),
+      });
+
+      if (response.ok) {
+        loadMembers();
+      }
+    } catch (error) {
+      console.error("Failed to change member role:", error);
+    }
+  };
+
+  const removeMember = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${userId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        loadMembers();
+      }
+    } catch (error) {
+      console.error("Failed to remove project member:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h5 className="text-sm font-medium flex items-center gap-1">
+        <Users className="w-3 h-3" />
+        Sharing
+      </h5>
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Label htmlFor={`invite-${projectId}`} className="sr-only">
+            Email or username
+          </Label>
+          <Input
+            id={`invite-${projectId}`}
+            placeholder="Email or username..."
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            onKeyPress={(e) => {
+              if (e.key === "Enter") {
+                inviteMember();
+              }
+            }}
+          />
+        </div>
+        <Select value={role} onValueChange={(value: ProjectRole) => setRole(value)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROJECT_ROLES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {PROJECT_ROLE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={inviteMember}
+          disabled={!identifier.trim() || isInviting}
+          className="flex items-center gap-1"
+        >
+          <UserPlus className="w-3 h-3" />
+          Invite
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <div className="w-5 h-5 animate-spin rounded-full border-2 border-gray-300 border-t-gray-600" />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {members.map((member) => (
+            <div key={member.user.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">
+                {member.user.name || member.user.username || member.user.email}
+                {member.user.email && member.user.name && (
+                  <span className="text-gray-500 ml-1">({member.user.email})</span>
+                )}
+              </span>
+              {member.role === "owner" ? (
+                <Badge variant="secondary" className="text-xs">
+                  {PROJECT_ROLE_LABELS.owner}
+                </Badge>
+              ) : (
+                <div className="flex items-center gap-1 shrink-0">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value: ProjectRole) => changeRole(member.user.id, value)}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROJECT_ROLES.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {PROJECT_ROLE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMember(member.user.id)}
+                    title="Remove access"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
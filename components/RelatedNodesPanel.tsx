@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Link2 } from 'lucide-react';
+import type { RelatedNode } from '@/lib/services/node-recommendations';
+import { useCancellableRequest } from '@/lib/use-cancellable-request';
+import { researchProjectId } from '@/lib/stores/outline-store';
+
+interface RelatedNodesPanelProps {
+  nodeId: string;
+  nodeTitle: string;
+  // Called once the server has stored the new edge
+  onConnected: (nodeId: string, related: RelatedNode) => void;
+}
+
+/**
+ * Suggestions of saved nodes related to the selected one that it is not yet
+ * linked to, each with a one-click Connect.
+ */
+const RelatedNodesPanel: React.FC<RelatedNodesPanelProps> = ({ nodeId, nodeTitle, onConnected }) => {
+  const { start, finish, isPending } = useCancellableRequest();
+  const [related, setRelated] = useState<RelatedNode[]>([]);
+  const [connectingId, setConnectingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const signal = start();
+    const url = new URL('/api/research/nodes/related', window.location.origin);
+    url.searchParams.set('nodeId', nodeId);
+    const projectId = researchProjectId();
+    if (projectId) url.searchParams.set('projectId', projectId);
+
+    setRelated([]);
+    setError(null);
+    fetch(url.toString(), { signal })
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok || !data.success) throw new Error(data.error || 'Failed to find related nodes');
+        if (!finish(signal)) return;
+        setRelated(data.related);
+      })
+      .catch(relatedError => {
+        if (signal.aborted) return;
+        finish(signal);
+        console.error('Error finding related nodes:', relatedError);
+        setError(relatedError instanceof Error ? relatedError.message : 'Failed to find related nodes');
+      });
+  }, [nodeId, start, finish]);
+
+  const handleConnect = async (node: RelatedNode) => {
+    setConnectingId(node.id);
+    setError(null);
+    try {
+      const response = await fetch('/api/research/nodes/connect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: nodeId, targetId: node.id, provenance: 'related-nodes', projectId: researchProjectId() }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to connect nodes');
+      }
+      setRelated(prev => prev.filter(candidate => candidate.id !== node.id));
+      onConnected(nodeId, node);
+    } catch (connectError) {
+      console.error('Error connecting nodes:', connectError);
+      setError(connectError instanceof Error ? connectError.message : 'Failed to connect nodes');
+    } finally {
+      setConnectingId(null);
+    }
+  };
+
+  return (
+    <div className="absolute top-4 right-4 w-72 bg-background/95 backdrop-blur-sm p-3 rounded-lg border text-sm space-y-2 shadow">
+      <p className="font-medium line-clamp-2">Related to &quot;{nodeTitle}&quot;</p>
+
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : isPending ? (
+        <p className="text-xs text-muted-foreground">Finding related nodes...</p>
+      ) : related.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No unconnected related nodes found.</p>
+      ) : (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {related.map(node => (
+            <li key={node.id} className="p-2 border rounded space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-medium line-clamp-2">{node.title}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{Math.round(node.score * 100)}%</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {node.sharedTerms.map(term => (
+                  <Badge key={term} variant="outline" className="text-xs">{term}</Badge>
+                ))}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 w-full"
+                onClick={() => handleConnect(node)}
+                disabled={connectingId !== null}
+              >
+                <Link2 className="h-3 w-3 mr-2" />
+                {connectingId === node.id ? 'Connecting...' : 'Connect'}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RelatedNodesPanel;
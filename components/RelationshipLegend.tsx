@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { RELATIONSHIP_STYLES, RelationshipType } from '@/lib/relationships';
+
+interface RelationshipLegendProps {
+  links: Array<{ type?: RelationshipType }>;
+}
+
+/**
+ * Key for the relationship types among `links`; plain 'related' links are not
+ * listed. Renders nothing when no typed link is shown.
+ */
+const RelationshipLegend: React.FC<RelationshipLegendProps> = ({ links }) => {
+  const types = Array.from(new Set(links.map(link => link.type).filter(Boolean) as RelationshipType[]))
+    .filter(type => type !== 'related');
+
+  if (types.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-2 left-2 z-10 bg-white/90 border rounded px-2 py-1 text-xs space-y-0.5">
+      {types.map(type => (
+        <div key={type} className="flex items-center gap-1">
+          <svg width="16" height="4">
+            <line
+              x1="0" y1="2" x2="16" y2="2"
+              stroke={RELATIONSHIP_STYLES[type].color}
+              strokeWidth="2"
+              strokeDasharray={RELATIONSHIP_STYLES[type].dashArray}
+            />
+          </svg>
+          {RELATIONSHIP_STYLES[type].label}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RelationshipLegend;
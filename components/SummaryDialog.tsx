@@ -23,6 +23,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { FileText, Brain, Network, AlertTriangle, Copy, Download } from 'lucide-react';
+import { useCancellableRequest } from '@/lib/use-cancellable-request';
+import { researchProjectId } from '@/lib/stores/outline-store';
 
 interface SummaryDialogProps {
   selectedNodeIds: string[];
@@ -58,7 +60,7 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
   trigger,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const { start, finish, cancel, isPending: isLoading } = useCancellableRequest();
   const [summaryType, setSummaryType] = useState<SummaryType>('overview');
   const [includeRelationships, setIncludeRelationships] = useState(true);
   const [includeConflicts, setIncludeConflicts] = useState(false);
@@ -74,7 +76,7 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
   };
 
   const handleGenerateSummary = async () => {
-    setIsLoading(true);
+    const signal = start();
     try {
       const requestData = {
         nodeIds: selectedNodeIds,
@@ -82,6 +84,7 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
         includeRelationships,
         includeConflicts,
         maxLength,
+        projectId: researchProjectId(),
       };
 
       const response = await fetch('/api/research/summarize', {
@@ -90,20 +93,23 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestData),
+        signal,
       });
 
       const result = await response.json();
 
+      if (!finish(signal)) return;
       if (result.success) {
         setGeneratedSummary(result.summary);
       } else {
         throw new Error(result.error || 'Failed to generate summary');
       }
     } catch (error) {
+      // Cancelled by the user, or replaced by a newer request
+      if (signal.aborted) return;
+      finish(signal);
       console.error('Error generating summary:', error);
       alert(error instanceof Error ? error.message : 'Failed to generate summary');
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -160,7 +166,10 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
   return (
     <Dialog open={isOpen} onOpenChange={(open) => {
       setIsOpen(open);
-      if (!open) resetState();
+      if (!open) {
+        cancel();
+        resetState();
+      }
     }}>
       <DialogTrigger asChild>
         {trigger || defaultTrigger}
@@ -345,7 +354,7 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
         )}
 
         <DialogFooter>
-          <Button variant="outline" onClick={() => setIsOpen(false)}>
+          <Button variant="outline" onClick={isLoading ? cancel : () => setIsOpen(false)}>
             {generatedSummary ? 'Close' : 'Cancel'}
           </Button>
           {!generatedSummary && (
@@ -5,6 +5,7 @@ import { useDrop, useDrag } from 'react-dnd';
 import { FixedSizeList as List } from 'react-window';
 import { useOutlineStore, OutlineNode } from '@/lib/stores/outline-store';
 import { ItemTypes } from '@/components/providers/DragDropProvider';
+import { normalizeNodeKind } from '@/lib/node-kinds';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -237,13 +238,14 @@ const OutlineBuilder: React.FC = () => {
   // Drop zone for accepting nodes from visualization
   const [{ isOver }, drop] = useDrop({
     accept: ItemTypes.NODE,
-    drop: (item: { id: string; title: string; content?: string; type?: string }) => {
+    drop: (item: { id: string; title: string; content?: string; type?: string; depth?: number }) => {
       performanceMonitor.startTiming('add-node-drop');
       addNode({
         id: item.id,
         title: item.title,
         content: item.content || '',
-        type: (item.type as 'topic' | 'subtopic' | 'detail') || 'topic',
+        type: normalizeNodeKind(item.type, item.depth),
+        depth: item.depth,
         metadata: {},
       });
       performanceMonitor.endTiming('add-node-drop');
@@ -2,8 +2,10 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useDrag } from 'react-dnd';
-import { useOutlineStore } from '@/lib/stores/outline-store';
+import { researchProjectId, useOutlineStore } from '@/lib/stores/outline-store';
 import { ItemTypes } from '@/components/providers/DragDropProvider';
+import { NodeKind, nodeDepth, normalizeNodeKind } from '@/lib/node-kinds';
+import type { Relationship } from '@/lib/relationships';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Search, Plus, RefreshCw, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
@@ -12,13 +14,20 @@ import D3Visualization, { D3Node, D3Link } from './D3Visualization';
 import ImportNodeDialog from './ImportNodeDialog';
 import SummaryDialog from './SummaryDialog';
 import ConflictHighlightDialog from './ConflictHighlightDialog';
+import DuplicateNodesDialog from './DuplicateNodesDialog';
+import NodeSearchPanel from './NodeSearchPanel';
+import RelatedNodesPanel from './RelatedNodesPanel';
+import type { NodeSearchResult } from '@/lib/services/node-search';
+import type { RelatedNode } from '@/lib/services/node-recommendations';
+import { useCancellableRequest } from '@/lib/use-cancellable-request';
 
 interface VisualizationNode {
   id: string;
   title: string;
   content: string;
-  type: 'topic' | 'subtopic' | 'detail';
+  type: NodeKind;
   connections: string[];
+  relationships?: Relationship[]; // Typed edges to other nodes; connections without one are drawn as 'related'
   source?: string;
   depth?: number; // Taxonomic depth level (0 = root, 1 = subtopic, 2 = detail, etc.)
   url?: string;
@@ -48,6 +57,7 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({
       title: node.title,
       content: node.content,
       type: node.type,
+      depth: nodeDepth(node),
     },
     collect: (monitor: any) => ({
       isDragging: monitor.isDragging(),
@@ -62,11 +72,13 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({
       case 'topic': return 'bg-blue-500 border-blue-600';
       case 'subtopic': return 'bg-green-500 border-green-600';
       case 'detail': return 'bg-purple-500 border-purple-600';
+      case 'micro-detail': return 'bg-pink-500 border-pink-600';
       default: return 'bg-gray-500 border-gray-600';
     }
   };
 
-  const nodeSize = node.type === 'topic' ? 'w-32 h-20' : node.type === 'subtopic' ? 'w-28 h-16' : 'w-24 h-12';
+  const depth = nodeDepth(node);
+  const nodeSize = depth === 0 ? 'w-32 h-20' : depth === 1 ? 'w-28 h-16' : 'w-24 h-12';
 
   return (
     <div
@@ -86,7 +98,7 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({
             <div className="text-xs font-medium mb-1 line-clamp-2">
               {node.title}
             </div>
-            {node.type !== 'detail' && (
+            {depth < 2 && (
               <div className="text-xs opacity-80 line-clamp-1">
                 {node.content.substring(0, 30)}...
               </div>
@@ -104,13 +116,23 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({
   );
 };
 
+// Shape of the subtree "Explore Levels" asks /api/research/drill-down/explore for
+const AUTO_EXPLORE_LEVELS = 3;
+const AUTO_EXPLORE_BREADTH = 4;
+const AUTO_EXPLORE_MAX_NODES = 60;
+
 const VisualizationCanvas: React.FC = () => {
-  const { selectedNodeIds, toggleNodeSelection, addNodes, detailLevel } = useOutlineStore();
+  const { selectedNodeIds, toggleNodeSelection, addNodes, detailLevel, mergeNodes } = useOutlineStore();
   const [searchTerm, setSearchTerm] = useState('');
+  // Last query sent to the saved-node search; null hides the results
+  const [submittedSearch, setSubmittedSearch] = useState<string | null>(null);
   const [nodes, setNodes] = useState<VisualizationNode[]>([]);
   const [d3Nodes, setD3Nodes] = useState<D3Node[]>([]);
   const [d3Links, setD3Links] = useState<D3Link[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // Search and drill-down share one AI request; starting either cancels the other
+  const aiRequest = useCancellableRequest();
+  const [aiRequestLabel, setAIRequestLabel] = useState('');
   const [viewMode, setViewMode] = useState<'d3' | 'traditional'>('d3');
   const [selectedNodeDetails, setSelectedNodeDetails] = useState<D3Node | null>(null);
   const [showChatDataNotification, setShowChatDataNotification] = useState(false);
@@ -238,25 +260,38 @@ const VisualizationCanvas: React.FC = () => {
 
     const d3LinksData: D3Link[] = [];
     const nodeIds = new Set(nodes.map(n => n.id));
-    
+    const linkedPairs = new Set<string>();
+
+    const addLink = (sourceId: string, targetId: string, relationship?: Relationship) => {
+      // Only create links if both nodes exist in the current visualization
+      if (!nodeIds.has(targetId) || targetId === sourceId) return;
+
+      // Avoid duplicate links
+      const pair = [sourceId, targetId].sort().join('|');
+      if (linkedPairs.has(pair)) return;
+      linkedPairs.add(pair);
+
+      d3LinksData.push({
+        source: sourceId,
+        target: targetId,
+        id: `${sourceId}-${targetId}`,
+        ...(relationship && {
+          type: relationship.type,
+          weight: relationship.weight,
+          provenance: relationship.provenance,
+        }),
+      });
+    };
+
+    // Typed relationships first, so a plain connection never hides one
+    nodes.forEach(node => {
+      if (Array.isArray(node.relationships)) {
+        node.relationships.forEach(relationship => addLink(node.id, relationship.target, relationship));
+      }
+    });
     nodes.forEach(node => {
       if (node.connections && Array.isArray(node.connections)) {
-        node.connections.forEach(connectionId => {
-          // Only create links if both nodes exist in the current visualization
-          if (nodeIds.has(connectionId)) {
-            const linkId = `${node.id}-${connectionId}`;
-            const reverseLinkId = `${connectionId}-${node.id}`;
-            
-            // Avoid duplicate links
-            if (!d3LinksData.some(link => link.id === linkId || link.id === reverseLinkId)) {
-              d3LinksData.push({
-                source: node.id,
-                target: connectionId,
-                id: linkId
-              });
-            }
-          }
-        });
+        node.connections.forEach(connectionId => addLink(node.id, connectionId));
       }
     });
 
@@ -289,19 +324,27 @@ const VisualizationCanvas: React.FC = () => {
       if (detailLevel) {
         apiUrl.searchParams.set('detailLevel', detailLevel);
       }
+      const projectId = researchProjectId();
+      if (projectId) {
+        apiUrl.searchParams.set('projectId', projectId);
+      }
       
       console.log('📊 Fetching nodes with detail level:', detailLevel);
       const response = await fetch(apiUrl.toString());
       if (response.ok) {
-        const data = await response.json();
-        console.log('✅ API response received:', data);
+        const payload = await response.json();
+        console.log('✅ API response received:', payload);
+        const data = Array.isArray(payload) ? payload : payload.data || [];
         const transformedNodes = data.map((node: any, index: number) => ({
           id: node.id || `api-node-${index}`,
           title: node.title || 'Untitled',
           content: node.content || '',
           type: node.type || 'topic',
           connections: node.children || node.connections || [], // API uses 'children', generated data uses 'connections'
-          source: node.source || `${node.lens} (API)`
+          relationships: node.relationships,
+          source: node.source || node.sources?.[0] || `${node.lens} (API)`,
+          depth: node.depth,
+          parentId: node.parentId,
         }));
         console.log('✅ Using API data, transformed nodes count:', transformedNodes.length);
         setNodes(transformedNodes);
@@ -352,6 +395,7 @@ const VisualizationCanvas: React.FC = () => {
                 content: node.content,
                 type: node.type,
                 connections: transformedConnections,
+                relationships: node.relationships,
                 source: node.source
               };
             });
@@ -418,6 +462,7 @@ const VisualizationCanvas: React.FC = () => {
         title: node.title,
         content: node.content,
         type: node.type,
+        depth: nodeDepth(node),
         metadata: {
           source: node.source,
           relationships: node.connections
@@ -435,7 +480,8 @@ const VisualizationCanvas: React.FC = () => {
   }, []);
 
   const handleDrillDown = async (node: D3Node) => {
-    setIsLoading(true);
+    const signal = aiRequest.start();
+    setAIRequestLabel(`Drilling into "${node.title}"...`);
     try {
       // Calculate current depth for this node
       const currentDepth = (node as any).depth || 0;
@@ -452,8 +498,10 @@ const VisualizationCanvas: React.FC = () => {
           type: node.type,
           lens: (node as any).lens || 'Other',
           depth: currentDepth,
-          parentId: (node as any).parentId
+          parentId: (node as any).parentId,
+          projectId: researchProjectId(),
         }),
+        signal,
       });
 
       if (response.ok) {
@@ -475,6 +523,7 @@ const VisualizationCanvas: React.FC = () => {
             content: newNode.content,
             type: newNode.type,
             connections: newNode.connections || [node.id],
+            relationships: newNode.relationships,
             source: newNode.source,
             depth: newNode.depth || currentDepth + 1,
             lens: newNode.lens || (node as any).lens || 'General',
@@ -521,9 +570,78 @@ const VisualizationCanvas: React.FC = () => {
         console.error('Failed to generate drill-down nodes');
       }
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error generating drill-down nodes:', error);
     } finally {
-      setIsLoading(false);
+      aiRequest.finish(signal);
+    }
+  };
+
+  // Seed a taxonomy below a node in one action; each level is added as it streams in
+  const handleAutoExplore = async (node: D3Node) => {
+    const signal = aiRequest.start();
+    const currentDepth = (node as any).depth || 0;
+    const targetDepth = currentDepth + AUTO_EXPLORE_LEVELS;
+    setAIRequestLabel(`Exploring "${node.title}" ${AUTO_EXPLORE_LEVELS} levels deep...`);
+    try {
+      const response = await fetch('/api/research/drill-down/explore', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          nodeId: node.id,
+          title: node.title,
+          content: node.content,
+          type: node.type,
+          lens: (node as any).lens || 'Other',
+          depth: currentDepth,
+          targetDepth,
+          breadth: AUTO_EXPLORE_BREADTH,
+          maxNodes: AUTO_EXPLORE_MAX_NODES,
+          projectId: researchProjectId(),
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        console.error('Failed to explore drill-down levels');
+        return;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      const handleEvent = (event: any) => {
+        if (event.type === 'level') {
+          const levelNodes: VisualizationNode[] = event.nodes.map((newNode: any) => ({
+            ...newNode,
+            connections: newNode.connections || [newNode.parentId],
+          }));
+          setNodes(prevNodes => {
+            const known = new Set(prevNodes.map(n => n.id));
+            return [...prevNodes, ...levelNodes.filter(n => !known.has(n.id))];
+          });
+          setAIRequestLabel(`Exploring "${node.title}": level ${event.depth} of ${targetDepth} done, ${event.total} nodes so far...`);
+        } else if (event.type === 'error') {
+          console.error('Exploration stopped early:', event.error);
+        }
+      };
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => handleEvent(JSON.parse(line)));
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Error exploring drill-down levels:', error);
+    } finally {
+      aiRequest.finish(signal);
     }
   };
 
@@ -537,7 +655,8 @@ const VisualizationCanvas: React.FC = () => {
   const handleSearchGenerate = async () => {
     if (!searchTerm.trim()) return;
     
-    setIsLoading(true);
+    const signal = aiRequest.start();
+    setAIRequestLabel(`Generating research nodes for "${searchTerm}"...`);
     try {
       const response = await fetch('/api/research/search', {
         method: 'POST',
@@ -546,8 +665,10 @@ const VisualizationCanvas: React.FC = () => {
         },
         body: JSON.stringify({ 
           query: searchTerm,
-          perspective: 'general'
+          perspective: 'general',
+          projectId: researchProjectId(),
         }),
+        signal,
       });
 
       if (response.ok) {
@@ -562,18 +683,46 @@ const VisualizationCanvas: React.FC = () => {
         console.error('Failed to generate research nodes from search');
       }
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error generating research nodes from search:', error);
     } finally {
-      setIsLoading(false);
+      aiRequest.finish(signal);
     }
   };
 
+  // Enter searches saved nodes; generating new ones with AI is the explicit Generate action
   const handleSearchKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleSearchGenerate();
+    if (e.key === 'Enter' && searchTerm.trim()) {
+      setSubmittedSearch(searchTerm.trim());
     }
   };
 
+  // Show a search result's details, bringing it onto the canvas if it isn't loaded
+  const handleOpenSearchResult = (result: NodeSearchResult) => {
+    const existing = d3Nodes.find(node => node.id === result.id);
+    if (!existing) {
+      setNodes(prevNodes => [...prevNodes, {
+        id: result.id,
+        title: result.title,
+        content: result.content,
+        type: normalizeNodeKind(result.type, result.depth),
+        connections: [],
+        source: result.source,
+        depth: result.depth,
+        lens: result.lens,
+      }]);
+    }
+    setSearchTerm('');
+    setSelectedNodeDetails(existing ?? {
+      id: result.id,
+      title: result.title,
+      content: result.content,
+      type: normalizeNodeKind(result.type, result.depth),
+      source: result.source,
+      depth: result.depth,
+    });
+  };
+
   const { nodes: outlineNodes, addNodes: addToOutline } = useOutlineStore();
   
   // Add handler for successful imports
@@ -584,6 +733,7 @@ const VisualizationCanvas: React.FC = () => {
       content: importedNode.content,
       type: importedNode.type,
       connections: importedNode.connections || [],
+      relationships: importedNode.relationships,
       source: importedNode.source,
     };
     
@@ -608,18 +758,70 @@ const VisualizationCanvas: React.FC = () => {
     };
     
     setD3Nodes(prevNodes => [...prevNodes, newD3Node]);
-    
-    // Add connections if parent node exists
-    if (importedNode.connections && importedNode.connections.length > 0) {
-      const newLinks: D3Link[] = importedNode.connections.map((targetId: string) => ({
-        source: importedNode.id,
-        target: targetId,
-        type: 'parent-child',
-      }));
-      setD3Links(prevLinks => [...prevLinks, ...newLinks]);
-    }
+    // Its link to the parent is drawn from `relationships` along with all the others
   }, []);
 
+  // Mirror a server-side merge: drop the merged nodes and point their links at the target
+  const handleNodesMerged = useCallback((targetId: string, mergedIds: string[]) => {
+    const merged = new Set(mergedIds);
+    const remap = (id: string) => (merged.has(id) ? targetId : id);
+
+    setNodes(prevNodes => {
+      const absorbed = prevNodes.filter(node => merged.has(node.id)).flatMap(node => node.connections);
+      const absorbedRelationships = prevNodes
+        .filter(node => merged.has(node.id))
+        .flatMap(node => node.relationships || []);
+      return prevNodes
+        .filter(node => !merged.has(node.id))
+        .map(node => {
+          const connections = node.id === targetId ? [...node.connections, ...absorbed] : node.connections;
+          const relationships = node.id === targetId
+            ? [...(node.relationships || []), ...absorbedRelationships]
+            : node.relationships || [];
+          const parentId = node.parentId && remap(node.parentId);
+          return {
+            ...node,
+            connections: Array.from(new Set(connections.map(remap))).filter(id => id !== node.id),
+            relationships: relationships
+              .map(relationship => ({ ...relationship, target: remap(relationship.target) }))
+              .filter(relationship => relationship.target !== node.id),
+            parentId: parentId && parentId !== node.id ? parentId : undefined,
+          };
+        });
+    });
+    setSelectedNodeDetails(prev => (prev && merged.has(prev.id) ? null : prev));
+    mergeNodes(targetId, mergedIds);
+  }, [mergeNodes]);
+
+  // Mirror an edge stored from a related-node suggestion, bringing the related node onto the canvas
+  const handleRelatedConnected = useCallback((nodeId: string, related: RelatedNode) => {
+    setNodes(prevNodes => {
+      const link = (node: VisualizationNode, otherId: string) => (
+        node.connections.includes(otherId) ? node : { ...node, connections: [...node.connections, otherId] }
+      );
+      const linked = prevNodes.map(node =>
+        node.id === nodeId ? link(node, related.id) : node.id === related.id ? link(node, nodeId) : node
+      );
+      if (linked.some(node => node.id === related.id)) return linked;
+
+      return [...linked, {
+        id: related.id,
+        title: related.title,
+        content: related.content,
+        type: normalizeNodeKind(related.type, related.depth),
+        connections: [nodeId],
+        source: related.source,
+        depth: related.depth,
+        lens: related.lens,
+      }];
+    });
+  }, []);
+
+  // Suggestions follow a single selected node
+  const relatedForNode = selectedNodeIds.length === 1
+    ? nodes.find(node => node.id === selectedNodeIds[0])
+    : undefined;
+
   return (
     <div ref={containerRef} className="h-full flex flex-col">
       {/* Chat Data Notification */}
@@ -651,7 +853,7 @@ const VisualizationCanvas: React.FC = () => {
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search or generate research nodes..."
+              placeholder="Search saved nodes, or generate new ones..."
               value={searchTerm}
               onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
               onKeyPress={handleSearchKeyPress}
@@ -661,10 +863,10 @@ const VisualizationCanvas: React.FC = () => {
               <Button
                 size="sm"
                 onClick={handleSearchGenerate}
-                disabled={isLoading}
+                disabled={isLoading || aiRequest.isPending}
                 className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8"
               >
-                {isLoading ? 'Generating...' : 'Generate'}
+                {aiRequest.isPending ? 'Generating...' : 'Generate'}
               </Button>
             )}
           </div>
@@ -718,6 +920,8 @@ const VisualizationCanvas: React.FC = () => {
           selectedNodes={nodes.filter(node => selectedNodeIds.includes(node.id))}
         />
         
+        <DuplicateNodesDialog onMerged={handleNodesMerged} />
+        
         <Button
           size="sm"
           onClick={handleAddSelectedToOutline}
@@ -728,9 +932,25 @@ const VisualizationCanvas: React.FC = () => {
         </Button>
       </div>
 
+      {submittedSearch && (
+        <NodeSearchPanel
+          query={submittedSearch}
+          onOpenResult={handleOpenSearchResult}
+          onClose={() => setSubmittedSearch(null)}
+        />
+      )}
+
       {/* Canvas */}
       <div className="flex-1 relative border-2 border-dashed border-muted-foreground/25 rounded-lg bg-muted/10 overflow-hidden">
-        {isLoading ? (
+        {aiRequest.isPending ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3" role="status">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            <p className="text-sm text-muted-foreground">{aiRequestLabel}</p>
+            <Button variant="outline" size="sm" onClick={aiRequest.cancel}>
+              Cancel
+            </Button>
+          </div>
+        ) : isLoading ? (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
           </div>
@@ -789,14 +1009,23 @@ const VisualizationCanvas: React.FC = () => {
           </>
         )}
         
+        {relatedForNode && (
+          <RelatedNodesPanel
+            nodeId={relatedForNode.id}
+            nodeTitle={relatedForNode.title}
+            onConnected={handleRelatedConnected}
+          />
+        )}
+
         {/* Instructions */}
         <div className="absolute bottom-4 left-4 bg-background/90 backdrop-blur-sm p-3 rounded-lg border text-sm">
           <p className="font-medium mb-1">How to use:</p>
           <ul className="space-y-1 text-muted-foreground">
             <li>• {viewMode === 'd3' ? 'Click nodes to select, double-click for details' : 'Check boxes to select nodes'}</li>
+            <li>• Select a single node to see related nodes you can connect</li>
             <li>• {viewMode === 'd3' ? 'Shift+click or right-click topics/subtopics to drill deeper' : 'Drag nodes to the outline builder'}</li>
-            <li>• Type a topic and press Enter or click Generate to create research nodes</li>
-            <li>• Use search to filter existing nodes</li>
+            <li>• Type to filter the canvas; press Enter to search all saved nodes</li>
+            <li>• Click Generate to create new research nodes with AI</li>
             <li>• {viewMode === 'd3' ? 'Zoom and pan the graph as needed' : 'Switch to D3 view for interactive graph'}</li>
           </ul>
         </div>
@@ -834,6 +1063,15 @@ const VisualizationCanvas: React.FC = () => {
               >
                 Drill Deeper
               </Button>
+              <Button 
+                variant="outline"
+                onClick={() => {
+                  handleAutoExplore(selectedNodeDetails);
+                  setSelectedNodeDetails(null);
+                }}
+              >
+                Explore {AUTO_EXPLORE_LEVELS} Levels
+              </Button>
               <Button 
                 onClick={() => {
                   handleNodeClick(selectedNodeDetails);
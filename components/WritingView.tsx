@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import LongFormTextEditor from '@/components/LongFormTextEditor';
+import { researchProjectId, useOutlineStore } from '@/lib/stores/outline-store';
+
+// The writing view edits a single draft, saved with the project
+const DRAFT_ID = 'draft-1';
+
+/**
+ * Long-form writing from the current outline. Generate writes from the
+ * generated outline when there is one, else from the outline's node titles.
+ */
+const WritingView: React.FC = () => {
+  const { nodes, outlineContent, drafts, saveDraft } = useOutlineStore();
+  const draft = drafts.find(d => d.id === DRAFT_ID) ?? drafts[0];
+
+  const handleContentChange = (content: string) => {
+    saveDraft({ id: draft?.id ?? DRAFT_ID, title: draft?.title ?? 'Draft', content });
+  };
+
+  const generation = nodes.length > 0
+    ? {
+        outline: outlineContent ?? {
+          sections: nodes.map(node => ({ id: node.id, title: node.title, type: node.type })),
+        },
+        nodeIds: nodes.map(node => node.id),
+        projectId: researchProjectId(),
+      }
+    : undefined;
+
+  return (
+    <div className="h-full overflow-y-auto space-y-2">
+      {!generation && (
+        <p className="text-sm text-muted-foreground">
+          Add nodes to the outline to generate writing from them.
+        </p>
+      )}
+      <LongFormTextEditor
+        content={draft?.content ?? ''}
+        onContentChange={handleContentChange}
+        onSave={handleContentChange}
+        generation={generation}
+      />
+    </div>
+  );
+};
+
+export default WritingView;
@@ -191,7 +191,7 @@ describe('ProjectManager', () => {
 
     (global.fetch as jest.Mock).mockResolvedValueOnce({
       ok: true,
-      json: async () => mockProjects,
+      json: async () => ({ data: mockProjects, meta: { totalPages: 1 } }),
     });
 
     render(<ProjectManager />);
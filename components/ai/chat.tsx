@@ -6,10 +6,20 @@ import { useChatContext } from '@/lib/contexts/ChatContext';
 import { useEffect } from 'react';
 
 export function Chat() {
-  const { messages, input, handleInputChange, handleSubmit, isLoading, error } = useChat({
+  const {
+    messages: contextMessages,
+    setMessages: setChatContextMessages,
+    restoreVersion,
+  } = useChatContext();
+  const { messages, setMessages, input, handleInputChange, handleSubmit, isLoading, error } = useChat({
     api: '/api/chat',
+    initialMessages: contextMessages,
   });
-  const { setMessages: setChatContextMessages } = useChatContext();
+
+  // Take over conversations restored from a saved project
+  useEffect(() => {
+    if (restoreVersion > 0) setMessages(contextMessages);
+  }, [restoreVersion]);
 
   // Sync messages with context
   useEffect(() => {
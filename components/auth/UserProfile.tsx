@@ -9,6 +9,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { TwoFactorSetupDialog } from "@/components/auth/AuthForm"
+import { AIUsageCard } from "@/components/AIUsageCard"
 
 export function UserProfile() {
   const { data: session, update } = useSession()
@@ -233,6 +234,9 @@ export function UserProfile() {
         </CardContent>
       </Card>
 
+      {/* AI Usage */}
+      <AIUsageCard />
+
       {/* Two-Factor Setup Dialog */}
       <TwoFactorSetupDialog
         isOpen={showTwoFactorSetup}
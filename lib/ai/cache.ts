@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import prisma from '@/lib/db';
+import type { AICompletion, AIProviderRequest } from './types';
+
+/**
+ * Cache of model replies, keyed on everything that determines the reply:
+ * provider, model, the hashed prompt and the sampling parameters. Storage is
+ * chosen by AI_CACHE:
+ *
+ *   memory  (default) per-process, lost on restart
+ *   file    JSON files under AI_CACHE_DIR (default .cache/ai)
+ *   prisma  the AIResponseCache table, shared by every server instance
+ *   off     no caching
+ *
+ * Entries live for AI_CACHE_TTL seconds (default one day) unless a request
+ * sets its own TTL.
+ */
+
+export const DEFAULT_AI_CACHE_TTL_SECONDS = 24 * 60 * 60;
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+export interface AICacheEntry {
+  completion: AICompletion;
+  expires: number;
+}
+
+export interface AICacheStore {
+  get(key: string): Promise<AICacheEntry | null>;
+  set(key: string, entry: AICacheEntry): Promise<void>;
+}
+
+export function aiCacheKey(provider: string, request: AIProviderRequest): string {
+  const { model, messages, temperature, maxTokens, json } = request;
+
+  return createHash('sha256')
+    .update(JSON.stringify({ provider, model, messages, temperature, maxTokens, json: Boolean(json) }))
+    .digest('hex');
+}
+
+export function createMemoryCacheStore(maxEntries = MEMORY_CACHE_MAX_ENTRIES): AICacheStore {
+  const entries = new Map<string, AICacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expires <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      // Re-insert so the Map's order tracks recent use
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+export function createFileCacheStore(directory: string): AICacheStore {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const entry: AICacheEntry = JSON.parse(await readFile(fileFor(key), 'utf8'));
+        if (entry.expires > Date.now()) return entry;
+        await rm(fileFor(key), { force: true });
+      } catch {
+        // Missing or unreadable entries are misses
+      }
+      return null;
+    },
+
+    async set(key, entry) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(entry));
+    },
+  };
+}
+
+export function createPrismaCacheStore(): AICacheStore {
+  return {
+    async get(key) {
+      const row = await prisma.aIResponseCache.findUnique({ where: { key } });
+      if (!row) return null;
+      if (row.expires.getTime() <= Date.now()) {
+        await prisma.aIResponseCache.deleteMany({ where: { key } });
+        return null;
+      }
+      return { completion: row.response as unknown as AICompletion, expires: row.expires.getTime() };
+    },
+
+    async set(key, entry) {
+      const data = {
+        provider: entry.completion.provider,
+        model: entry.completion.model,
+        response: entry.completion as any,
+        expires: new Date(entry.expires),
+      };
+      await prisma.aIResponseCache.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+    },
+  };
+}
+
+let store: AICacheStore | null | undefined;
+
+// The store AI_CACHE selects, or null when caching is off
+export function getAICacheStore(): AICacheStore | null {
+  if (store === undefined) {
+    switch (process.env.AI_CACHE?.trim().toLowerCase() || 'memory') {
+      case 'off':
+        store = null;
+        break;
+      case 'file':
+        store = createFileCacheStore(process.env.AI_CACHE_DIR || path.join(process.cwd(), '.cache', 'ai'));
+        break;
+      case 'prisma':
+        store = createPrismaCacheStore();
+        break;
+      default:
+        store = createMemoryCacheStore();
+    }
+  }
+  return store;
+}
+
+// Swap the store, e.g. for tests; pass undefined to re-read AI_CACHE
+export function setAICacheStore(next: AICacheStore | null | undefined): void {
+  store = next;
+}
+
+export function aiCacheTTLSeconds(): number {
+  const configured = Number(process.env.AI_CACHE_TTL);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_AI_CACHE_TTL_SECONDS;
+}
+
+/**
+ * Whether a request asked for a fresh reply with `Cache-Control: no-cache`.
+ * The fresh reply still replaces the cached one.
+ */
+export function bypassesAICache(request: Request): boolean {
+  return /no-cache|no-store/i.test(request.headers.get('cache-control') ?? '');
+}
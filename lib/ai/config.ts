@@ -0,0 +1,49 @@
+/**
+ * Per-task model settings. Every AI route names its task; the model comes
+ * from (in order) AI_MODEL_<TASK>, AI_MODEL, the task's per-provider
+ * default below, then the provider's own default.
+ */
+
+export type AITask =
+  | 'chat'
+  | 'search'
+  | 'drill-down'
+  | 'generate-from-chat'
+  | 'analyze-conflicts'
+  | 'summarize'
+  | 'generate-outline'
+  | 'generate-content'
+  | 'refine-text'
+  | 'suggestions';
+
+export interface AITaskConfig {
+  temperature: number;
+  maxTokens: number;
+  /** Model per provider name; providers not listed use their default model. */
+  models?: Record<string, string>;
+}
+
+// Writing tasks favour a stronger model on OpenAI
+const WRITING_MODELS = { openai: 'gpt-4' };
+
+export const AI_TASKS: Record<AITask, AITaskConfig> = {
+  'chat': { temperature: 0.7, maxTokens: 2000 },
+  'search': { temperature: 0.8, maxTokens: 3000 },
+  'drill-down': { temperature: 0.8, maxTokens: 2500 },
+  'generate-from-chat': { temperature: 0.7, maxTokens: 2000 },
+  'analyze-conflicts': { temperature: 0.3, maxTokens: 2000 },
+  'summarize': { temperature: 0.7, maxTokens: 2000 },
+  'generate-outline': { temperature: 0.7, maxTokens: 2000, models: WRITING_MODELS },
+  'generate-content': { temperature: 0.7, maxTokens: 1500, models: WRITING_MODELS },
+  'refine-text': { temperature: 0.6, maxTokens: 1500, models: WRITING_MODELS },
+  'suggestions': { temperature: 0.7, maxTokens: 1500, models: WRITING_MODELS },
+};
+
+export function resolveTaskModel(task: AITask, providerName: string, providerDefault: string): string {
+  const envKey = `AI_MODEL_${task.toUpperCase().replace(/-/g, '_')}`;
+
+  return process.env[envKey]
+    || process.env.AI_MODEL
+    || AI_TASKS[task].models?.[providerName]
+    || providerDefault;
+}
@@ -0,0 +1,277 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { AIRequestAbortedError, AIResponseError } from '@/lib/error-handling';
+import { AIUsageService } from '@/lib/services/ai-usage';
+import { aiCacheKey, aiCacheTTLSeconds, getAICacheStore } from './cache';
+import { AI_TASKS, AITask, resolveTaskModel } from './config';
+import { describeIssues, parseJSONResponse } from './json';
+import { AI_PROVIDERS, EXPLICIT_ONLY_PROVIDERS } from './providers';
+import type {
+  AICompletion,
+  AIJSONCompletion,
+  AIMessage,
+  AIProvider,
+  AIProviderRequest,
+  AIUsageContext,
+} from './types';
+import { estimateUsage } from './usage';
+
+/**
+ * The one way routes talk to language models. Each call names its task
+ * (see lib/ai/config.ts), which picks the model and default sampling
+ * settings; the provider is chosen by AI_PROVIDER (`mock` answers from
+ * fixtures without any network access). Calls that pass `usage` are
+ * checked against the user's budget and recorded (lib/services/ai-usage.ts).
+ * Calls that pass `signal` stop when it aborts and fail with
+ * AIRequestAbortedError.
+ */
+
+export type { AITask } from './config';
+export type * from './types';
+export { parseJSONResponse, repairJSON } from './json';
+export { bypassesAICache } from './cache';
+
+export interface AIRequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** Skip the cached reply, if any, and replace it with a fresh one. */
+  bypassCache?: boolean;
+  /** How long to keep this reply, instead of AI_CACHE_TTL. */
+  cacheTTLSeconds?: number;
+  /** Bill the call to this user; it fails with AIBudgetExceededError once their budget is spent. */
+  usage?: AIUsageContext;
+  /** Cancels the call; pass the route's request.signal so a closed tab stops it. */
+  signal?: AbortSignal;
+}
+
+const providers = new Map<string, AIProvider>();
+
+function loadProvider(name: string): AIProvider {
+  if (!providers.has(name)) {
+    const create = AI_PROVIDERS[name];
+    if (!create) {
+      throw new Error(`Unknown AI_PROVIDER "${name}" (expected one of: ${Object.keys(AI_PROVIDERS).join(', ')})`);
+    }
+    providers.set(name, create());
+  }
+  return providers.get(name)!;
+}
+
+/**
+ * The provider named by AI_PROVIDER, or else the first one with credentials
+ * (falling back to the first registered provider).
+ */
+export function getAIProvider(): AIProvider {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (configured) return loadProvider(configured);
+
+  const names = Object.keys(AI_PROVIDERS).filter(name => !EXPLICIT_ONLY_PROVIDERS.has(name));
+  const name = names.find(candidate => loadProvider(candidate).isConfigured()) ?? names[0];
+  return loadProvider(name);
+}
+
+// Whether a real model can be called; routes fall back to canned output otherwise
+export function isAIConfigured(): boolean {
+  try {
+    return getAIProvider().isConfigured();
+  } catch {
+    return false;
+  }
+}
+
+function buildRequest(task: AITask, messages: AIMessage[], options: AIRequestOptions & { json?: boolean }) {
+  const provider = getAIProvider();
+  const config = AI_TASKS[task];
+
+  const request: AIProviderRequest = {
+    task,
+    model: resolveTaskModel(task, provider.name, provider.defaultModel),
+    messages,
+    temperature: options.temperature ?? config.temperature,
+    maxTokens: options.maxTokens ?? config.maxTokens,
+    json: options.json,
+    signal: options.signal,
+  };
+
+  return { provider, request };
+}
+
+// Whatever an SDK throws when its call is aborted, callers see AIRequestAbortedError
+async function callProvider<T>(signal: AbortSignal | undefined, call: () => Promise<T>): Promise<T> {
+  if (signal?.aborted) throw new AIRequestAbortedError();
+  try {
+    return await call();
+  } catch (error) {
+    if (signal?.aborted) throw new AIRequestAbortedError();
+    throw error;
+  }
+}
+
+// Recording usage never fails the request
+async function recordUsage(request: AIProviderRequest, completion: AICompletion, context?: AIUsageContext) {
+  if (!context) return;
+  await AIUsageService.record(context, {
+    task: request.task,
+    provider: completion.provider,
+    model: completion.model,
+    usage: completion.usage ?? estimateUsage(request.messages, completion.text),
+    cached: completion.cached,
+  }).catch(error => console.error('Failed to record AI usage:', error));
+}
+
+/**
+ * Complete a request, answering from the response cache when possible.
+ * A fresh reply is only cached once the caller calls `remember`, so replies
+ * that turn out to be unusable are not served again.
+ */
+async function completeCached(provider: AIProvider, request: AIProviderRequest, options: AIRequestOptions) {
+  const store = getAICacheStore();
+  const key = store ? aiCacheKey(provider.name, request) : null;
+
+  if (store && key && !options.bypassCache) {
+    // A failing cache never fails the request
+    const entry = await store.get(key).catch(() => null);
+    if (entry) {
+      const completion = { ...entry.completion, cached: true };
+      await recordUsage(request, completion, options.usage);
+      return { completion, remember: async () => {} };
+    }
+  }
+
+  if (options.usage) await AIUsageService.assertWithinBudget(options.usage.userId);
+  const completion = await callProvider(request.signal, () => provider.complete(request));
+  await recordUsage(request, completion, options.usage);
+
+  const remember = async () => {
+    if (!store || !key) return;
+    const ttlSeconds = options.cacheTTLSeconds ?? aiCacheTTLSeconds();
+    await store
+      .set(key, { completion, expires: Date.now() + ttlSeconds * 1000 })
+      .catch(error => console.error('Failed to cache AI response:', error));
+  };
+
+  return { completion, remember };
+}
+
+export async function generateText(
+  task: AITask,
+  messages: AIMessage[],
+  options: AIRequestOptions = {}
+): Promise<AICompletion> {
+  const { provider, request } = buildRequest(task, messages, options);
+  const { completion, remember } = await completeCached(provider, request, options);
+
+  if (completion.text) await remember();
+  return completion;
+}
+
+// Attempts at a JSON reply before giving up: the first ask plus corrections
+export const AI_JSON_MAX_ATTEMPTS = 3;
+
+export interface AIJSONRequestOptions<T> extends AIRequestOptions {
+  /** Validates (and may transform) the parsed reply. */
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+}
+
+/**
+ * Ask for a JSON object, parse it (repairing fences, stray prose and
+ * truncation) and validate it against `schema`. A reply that still does not
+ * fit is sent back to the model with the problems listed, up to
+ * AI_JSON_MAX_ATTEMPTS times in all. Throws AIResponseError, with the last
+ * raw text in `details.text` and any validation problems in
+ * `details.issues`, when no attempt succeeds.
+ */
+export async function generateJSON<T = any>(
+  task: AITask,
+  messages: AIMessage[],
+  options: AIJSONRequestOptions<T> = {}
+): Promise<AIJSONCompletion<T>> {
+  const { schema, ...requestOptions } = options;
+  let conversation = messages;
+  let failure: AIResponseError | undefined;
+
+  for (let attempt = 1; attempt <= AI_JSON_MAX_ATTEMPTS; attempt++) {
+    const { provider, request } = buildRequest(task, conversation, { ...requestOptions, json: true });
+    const { completion, remember } = await completeCached(provider, request, requestOptions);
+
+    let problems: string[];
+    try {
+      const parsed = parseJSONResponse(completion.text);
+      if (!schema) {
+        await remember();
+        return { ...completion, data: parsed };
+      }
+
+      const result = schema.safeParse(parsed);
+      if (result.success) {
+        await remember();
+        return { ...completion, data: result.data };
+      }
+
+      problems = describeIssues(result.error.issues);
+      failure = new AIResponseError('AI response did not match the expected format', {
+        text: completion.text,
+        issues: problems,
+      });
+    } catch (error) {
+      if (!(error instanceof AIResponseError)) throw error;
+      problems = ['the reply is not a valid JSON object'];
+      failure = error;
+    }
+
+    conversation = [
+      ...messages,
+      { role: 'assistant', content: completion.text },
+      {
+        role: 'user',
+        content: `Your reply could not be used:\n${problems.map(problem => `- ${problem}`).join('\n')}\n\nReply again with only the corrected JSON object, in the structure requested above.`,
+      },
+    ];
+  }
+
+  throw failure!;
+}
+
+/**
+ * Stream the completion as UTF-8 text, ready for StreamingTextResponse.
+ * The budget is checked before streaming starts; streamed replies carry no
+ * usage figures, so the tokens recorded when the stream ends are estimated.
+ */
+export async function streamText(
+  task: AITask,
+  messages: AIMessage[],
+  options: AIRequestOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const { provider, request } = buildRequest(task, messages, options);
+  if (options.signal?.aborted) throw new AIRequestAbortedError();
+  if (options.usage) await AIUsageService.assertWithinBudget(options.usage.userId);
+
+  const encoder = new TextEncoder();
+  let iterator: AsyncIterator<string> | undefined;
+  let text = '';
+
+  const finish = () =>
+    recordUsage(request, { text, provider: provider.name, model: request.model }, options.usage);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        iterator ??= provider.stream(request)[Symbol.asyncIterator]();
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          await finish();
+        } else {
+          text += value;
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        controller.error(options.signal?.aborted ? new AIRequestAbortedError() : error);
+        await finish();
+      }
+    },
+    async cancel() {
+      await iterator?.return?.();
+      await finish();
+    },
+  });
+}
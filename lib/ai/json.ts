@@ -0,0 +1,94 @@
+import type { ZodIssue } from 'zod';
+import { AIResponseError } from '@/lib/error-handling';
+
+/**
+ * Getting a JSON object out of model text: the reply may be wrapped in code
+ * fences, surrounded by prose or cut off at the token limit.
+ */
+
+function stripFences(text: string): string {
+  return text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+}
+
+/**
+ * Best-effort fix-up of an almost-JSON reply: drop prose before the first
+ * brace and after the object closes, remove trailing commas, and close any
+ * string, array or object a truncated reply left open. Returns null when
+ * there is no object to repair.
+ */
+export function repairJSON(text: string): string | null {
+  const source = stripFences(text);
+  const start = source.indexOf('{');
+  if (start === -1) return null;
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let end = source.length;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') closers.push('}');
+    else if (char === '[') closers.push(']');
+    else if (char === '}' || char === ']') {
+      closers.pop();
+      if (closers.length === 0) {
+        end = i + 1;
+        break;
+      }
+    }
+  }
+
+  let repaired = source.slice(start, end);
+
+  if (closers.length > 0) {
+    if (escaped) repaired = repaired.slice(0, -1);
+    if (inString) repaired += '"';
+    // A value cut off after its key, or a dangling separator
+    repaired = repaired.replace(/:\s*$/, ': null').replace(/,\s*$/, '');
+    repaired += closers.reverse().join('');
+  }
+
+  return repaired.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Extract the JSON object from a model reply, tolerating code fences and
+ * prose around it and repairing truncation.
+ */
+export function parseJSONResponse<T = any>(text: string): T {
+  try {
+    return JSON.parse(stripFences(text));
+  } catch {
+    const repaired = repairJSON(text);
+    if (repaired) {
+      try {
+        return JSON.parse(repaired);
+      } catch {
+        // Reported below
+      }
+    }
+  }
+
+  throw new AIResponseError('AI response did not contain valid JSON', { text });
+}
+
+// Validation problems as short lines the model can act on
+export function describeIssues(issues: ZodIssue[], limit = 10): string[] {
+  const lines = issues.slice(0, limit).map(issue =>
+    `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`
+  );
+  if (issues.length > limit) {
+    lines.push(`...and ${issues.length - limit} more`);
+  }
+  return lines;
+}
@@ -0,0 +1,80 @@
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+import type { AIMessage, AIProvider, AIProviderRequest } from '../types';
+
+// Gemini takes system prompts separately and calls the assistant "model"
+function toGeminiRequest(messages: AIMessage[]) {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  const contents: Content[] = messages
+    .filter(message => message.role !== 'system')
+    .map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }],
+    }));
+
+  // A prompt made only of instructions is sent as the user turn
+  if (contents.length === 0) {
+    return { contents: [{ role: 'user', parts: [{ text: system.join('\n\n') }] }] };
+  }
+
+  return {
+    contents,
+    ...(system.length > 0 && { systemInstruction: system.join('\n\n') }),
+  };
+}
+
+export function createGeminiProvider(): AIProvider {
+  let client: GoogleGenerativeAI | null = null;
+  const getClient = () => (client ??= new GoogleGenerativeAI(process.env.GEMINI_API_KEY || ''));
+
+  const model = (request: AIProviderRequest) => {
+    const { systemInstruction } = toGeminiRequest(request.messages);
+
+    return getClient().getGenerativeModel({
+      model: request.model,
+      ...(systemInstruction && { systemInstruction }),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        ...(request.json && { responseMimeType: 'application/json' }),
+      },
+    });
+  };
+
+  return {
+    name: 'gemini',
+    defaultModel: 'gemini-1.5-flash-latest',
+
+    isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+
+    async complete(request) {
+      const result = await model(request).generateContent(
+        { contents: toGeminiRequest(request.messages).contents },
+        { signal: request.signal }
+      );
+      const usage = result.response.usageMetadata;
+
+      return {
+        text: result.response.text(),
+        provider: 'gemini',
+        model: request.model,
+        usage: usage && {
+          promptTokens: usage.promptTokenCount,
+          completionTokens: usage.candidatesTokenCount,
+          totalTokens: usage.totalTokenCount,
+        },
+      };
+    },
+
+    async *stream(request) {
+      const result = await model(request).generateContentStream(
+        { contents: toGeminiRequest(request.messages).contents },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import type { AIProvider } from '../types';
+import { createOpenAIProvider } from './openai';
+import { createGeminiProvider } from './gemini';
+import { createLocalProvider } from './local';
+import { createMockProvider } from './mock';
+import { createReplayProvider } from './replay';
+
+/**
+ * Every available provider, by the name AI_PROVIDER selects it with. When
+ * AI_PROVIDER is not set, the first configured provider in this list is used.
+ * To add a provider, implement AIProvider in its own file and list it here.
+ */
+export const AI_PROVIDERS: Record<string, () => AIProvider> = {
+  openai: createOpenAIProvider,
+  gemini: createGeminiProvider,
+  local: createLocalProvider,
+  mock: createMockProvider,
+  replay: () => createReplayProvider(),
+};
+
+// Providers that are only used when AI_PROVIDER names them
+export const EXPLICIT_ONLY_PROVIDERS = new Set(['mock', 'replay']);
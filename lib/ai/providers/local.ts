@@ -0,0 +1,25 @@
+import type { AIProvider } from '../types';
+import { createChatCompletionsProvider } from './openai';
+
+/**
+ * A self-hosted model behind an OpenAI-compatible API, such as Ollama
+ * (http://localhost:11434/v1) or the llama.cpp server
+ * (http://localhost:8080/v1). Set AI_PROVIDER=local as well, so a cloud key
+ * left in the environment is never used instead.
+ *
+ * LOCAL_AI_BASE_URL  the server's /v1 endpoint (required)
+ * LOCAL_AI_MODEL     model for every task unless AI_MODEL_<TASK> overrides it
+ * LOCAL_AI_API_KEY   only if the server checks one
+ */
+export function createLocalProvider(): AIProvider {
+  return createChatCompletionsProvider({
+    name: 'local',
+    defaultModel: process.env.LOCAL_AI_MODEL || 'llama3.1',
+    isConfigured: () => Boolean(process.env.LOCAL_AI_BASE_URL),
+    clientOptions: () => ({
+      baseURL: process.env.LOCAL_AI_BASE_URL,
+      // The SDK insists on a key; most local servers ignore it
+      apiKey: process.env.LOCAL_AI_API_KEY || 'not-needed',
+    }),
+  });
+}
@@ -0,0 +1,314 @@
+import type { AITask } from '../config';
+import type { AIMessage } from '../types';
+
+/**
+ * Canned replies for the mock provider, one per task. Each reads what it
+ * needs (a query, node titles, a conversation) back out of the prompt the
+ * route built and answers in the shape that prompt asks for, so the same
+ * request always gets the same reply.
+ */
+
+// `prompt` is every message's content joined, for fixtures that only pattern-match
+type Fixture = (prompt: string, messages: AIMessage[]) => string | object;
+
+const LENSES = ['Technology', 'Science', 'History', 'Philosophy', 'Ethics', 'Economics', 'Psychology', 'Sociology'];
+
+const SEARCH_ASPECTS = [
+  { title: 'Conceptual Foundations', content: 'the core definitions, frameworks and assumptions' },
+  { title: 'Historical Development', content: 'how thinking about the subject has changed over time' },
+  { title: 'Current Research', content: 'recent studies and the questions they leave open' },
+  { title: 'Debates and Controversies', content: 'where researchers disagree and why' },
+  { title: 'Practical Applications', content: 'how the ideas are used outside the academy' },
+  { title: 'Methodological Approaches', content: 'the methods used to study it and their limits' },
+  { title: 'Future Directions', content: 'emerging lines of inquiry' },
+  { title: 'Cross-Disciplinary Connections', content: 'links to neighbouring fields' },
+];
+
+const DRILL_DOWN_ASPECTS = [
+  'Key Mechanisms',
+  'Empirical Evidence',
+  'Competing Interpretations',
+  'Measurement and Methods',
+  'Case Studies',
+  'Open Questions',
+];
+
+function hash(text: string): number {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(value);
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'topic';
+}
+
+function lensFor(text: string): string {
+  return LENSES[hash(text) % LENSES.length];
+}
+
+function match(prompt: string, pattern: RegExp, fallback: string): string {
+  return prompt.match(pattern)?.[1]?.trim() || fallback;
+}
+
+// Titles from prompt lines like "**Title** (type): content" or "- Title (type): content"
+function listedTitles(prompt: string, pattern: RegExp): string[] {
+  return Array.from(prompt.matchAll(pattern), found => found[1].trim());
+}
+
+const search: Fixture = prompt => {
+  const query = match(prompt, /Search Query: "([^"]*)"/, 'Research topic');
+  const perspective = match(prompt, /Research Perspective: "([^"]*)"/, 'general');
+  const base = `mock-${slug(query)}`;
+  const lens = lensFor(query);
+
+  const nodes = [
+    {
+      id: `${base}-0`,
+      title: query,
+      content: `An overview of ${query} from a ${perspective} perspective, mapping its main themes and the questions researchers ask about it.`,
+      type: 'topic',
+      connections: SEARCH_ASPECTS.slice(0, 4).map((_, index) => `${base}-${index + 1}`),
+      source: `Survey literature on ${query}`,
+      depth: 0,
+      lens,
+      conflicts: [],
+      children: [],
+      parents: [],
+    },
+    ...SEARCH_ASPECTS.map((aspect, index) => ({
+      id: `${base}-${index + 1}`,
+      title: `${query}: ${aspect.title}`,
+      content: `Covers ${aspect.content} in ${query}.`,
+      type: index < 4 ? 'subtopic' : 'detail',
+      connections: [index < 4 ? `${base}-0` : `${base}-${index - 3}`],
+      source: `Research on ${query}`,
+      depth: index < 4 ? 1 : 2,
+      lens: index % 2 === 0 ? lens : lensFor(aspect.title),
+      conflicts: aspect.title === 'Debates and Controversies' ? [`${base}-3`] : [],
+      children: [],
+      parents: [],
+    })),
+  ];
+
+  return {
+    query,
+    perspective,
+    summary: `A research map of ${query} covering its foundations, history, current work, debates and applications.`,
+    nodes,
+  };
+};
+
+const drillDown: Fixture = prompt => {
+  const title = match(prompt, /- Title: "([^"]*)"/, 'Research topic');
+  const parentId = match(prompt, /"parentNode": \{\s*"id": "([^"]*)"/, `mock-${slug(title)}`);
+  const depth = Number(match(prompt, /- Target Depth: (\d+)/, '1'));
+  const lens = match(prompt, /- Lens: "([^"]*)"/, 'General');
+  const type = depth === 1 ? 'subtopic' : depth === 2 ? 'detail' : 'micro-detail';
+
+  const ids = DRILL_DOWN_ASPECTS.map((_, index) => `mock-drill-${slug(parentId)}-${index + 1}`);
+
+  return {
+    parentNode: { id: parentId, title, depth: depth - 1 },
+    drillDownNodes: DRILL_DOWN_ASPECTS.map((aspect, index) => ({
+      id: ids[index],
+      title: `${title}: ${aspect}`,
+      content: `${aspect} of ${title}, examined at level ${depth} of the taxonomy.`,
+      type,
+      connections: [parentId],
+      relationships: index > 0
+        ? [{ target: ids[index - 1], type: index % 2 === 0 ? 'supports' : 'related', weight: 0.6, note: `${aspect} builds on ${DRILL_DOWN_ASPECTS[index - 1].toLowerCase()}` }]
+        : [],
+      source: `Level ${depth} analysis of ${title}`,
+      depth,
+      lens,
+      parentId,
+      taxonomy: { level: depth, parent: title, branch: slug(aspect) },
+    })),
+  };
+};
+
+const generateFromChat: Fixture = prompt => {
+  const conversation = prompt.split('Conversation to analyze:')[1] ?? '';
+  const userLines = listedTitles(conversation, /^User: (.+)$/gm);
+  const topics = (userLines.length ? userLines : ['the conversation'])
+    .map(line => line.split(/\s+/).slice(0, 8).join(' ').replace(/[?.!,;:]+$/, ''))
+    .slice(0, 5);
+
+  const nodes = topics.flatMap((topic, index) => {
+    const id = `mock-chat-${index + 1}`;
+    return [
+      {
+        id,
+        title: topic.charAt(0).toUpperCase() + topic.slice(1),
+        content: `A research thread raised in the conversation: ${topic}.`,
+        type: index === 0 ? 'topic' : 'subtopic',
+        connections: index > 0 ? ['mock-chat-1'] : [],
+        relationships: index > 0
+          ? [{ target: 'mock-chat-1', type: 'related', weight: 0.5, note: 'Follows on from the opening question' }]
+          : [],
+        source: 'Derived from conversation',
+        depth: index === 0 ? 0 : 1,
+        lens: lensFor(topic),
+      },
+      {
+        id: `${id}-detail`,
+        title: `Evidence on ${topic}`,
+        content: `Studies and sources that would substantiate the discussion of ${topic}.`,
+        type: 'detail',
+        connections: [id],
+        relationships: [{ target: id, type: 'supports', weight: 0.7, note: 'Evidence for the thread' }],
+        source: 'Derived from conversation',
+        depth: 2,
+        lens: lensFor(topic),
+      },
+    ];
+  });
+
+  return {
+    summary: `The conversation covered ${topics.join('; ')}.`,
+    nodes,
+  };
+};
+
+const analyzeConflicts: Fixture = prompt => {
+  const nodes = Array.from(prompt.matchAll(/\*\*Node (\S+) - (.+?)\*\* \((.*?)\):/g), found => ({
+    id: found[1],
+    title: found[2],
+    source: found[3],
+  }));
+
+  return {
+    conflicts: nodes.slice(0, 3).map((node, index) => {
+      const other = nodes[index + 1];
+      return {
+        nodeId: node.id,
+        conflictType: other ? 'interpretive' : 'unresolved',
+        severity: index === 0 ? 'medium' : 'low',
+        description: other
+          ? `${node.title} and ${other.title} interpret the same evidence differently.`
+          : `${node.title} leaves its central question open.`,
+        textSegment: node.title,
+        relatedNodes: other ? [other.id] : [],
+        sources: other ? [node.source, other.source] : [node.source],
+        keywords: slug(node.title).split('-').slice(0, 4),
+        suggestedResolution: 'Compare the methods and samples behind each claim.',
+      };
+    }),
+  };
+};
+
+const summarize: Fixture = prompt => {
+  const titles = listedTitles(prompt, /\*\*(.+?)\*\* \([^)]*\):/g);
+  const wantsConflicts = prompt.includes('Highlight any scholarly debates');
+
+  return {
+    summary: titles.length
+      ? `These notes examine ${titles.join(', ')}. Together they trace how the topics connect and where the evidence is strongest.`
+      : 'No research nodes were provided to summarize.',
+    keyInsights: titles.slice(0, 5).map(title => `${title} is central to the argument`),
+    relationships: titles.slice(1).map((title, index) => ({
+      source: titles[index],
+      target: title,
+      type: 'related',
+      description: `${title} builds on ${titles[index]}`,
+    })),
+    conflicts: wantsConflicts && titles.length > 1
+      ? [{ nodes: titles.slice(0, 2), description: `${titles[0]} and ${titles[1]} draw different conclusions`, severity: 'medium' }]
+      : [],
+  };
+};
+
+const generateOutline: Fixture = prompt => {
+  const detailLevel = match(prompt, /Detail Level: (\w+)/, 'MEDIUM').toLowerCase();
+  const titles = listedTitles(prompt, /^- (.+?) \((?:topic|subtopic|detail|[\w-]+)\):/gm);
+  const bodyTitles = titles.slice(0, detailLevel === 'low' ? 3 : 6);
+  const subject = titles[0] ?? 'the research';
+
+  const section = (id: string, title: string, description: string, keyPoints: string[]) => ({
+    id,
+    title,
+    level: 1,
+    description,
+    subsections: detailLevel === 'low'
+      ? []
+      : keyPoints.map((point, index) => ({
+          id: `${id}_${index + 1}`,
+          title: point,
+          level: 2,
+          description: `Discussion of ${point.toLowerCase()}`,
+          keyPoints: [`Context for ${point.toLowerCase()}`, 'Supporting evidence'],
+          relatedNodes: [],
+        })),
+  });
+
+  return {
+    title: `An Outline of ${subject}`,
+    sections: [
+      section('introduction', 'Introduction', `Introduces ${subject} and the questions the work addresses.`, ['Background', 'Research Questions']),
+      ...bodyTitles.map((title, index) =>
+        section(`section_${index + 1}`, title, `Develops ${title} and its place in the argument.`, ['Key Concepts', 'Evidence'])
+      ),
+      section('conclusion', 'Conclusion', 'Draws the threads together and names areas for further work.', ['Synthesis', 'Future Research']),
+    ],
+    suggestedLength: `${(bodyTitles.length + 2) * 400} words`,
+    additionalResearchAreas: [`Recent empirical work on ${subject}`, 'Comparative perspectives'],
+  };
+};
+
+const generateContent: Fixture = prompt => {
+  const outline = prompt.split('Outline Structure:')[1]?.split('Available Research Content:')[0] ?? '';
+  const headings = listedTitles(outline, /"title": "([^"]*)"/g);
+  const [title = 'Draft', ...sections] = headings;
+
+  return [
+    `# ${title}`,
+    ...(sections.length ? sections : ['Overview']).map(heading =>
+      `## ${heading}\n\nThis section discusses ${heading.toLowerCase()}, drawing on the research nodes provided. [Citation needed]`
+    ),
+  ].join('\n\n');
+};
+
+const refineText: Fixture = prompt => {
+  const original = match(prompt, /the following text:\n\n"([\s\S]*?)"\n\n/, '');
+  const improved = original.replace(/\s+/g, ' ').trim();
+
+  return `IMPROVED TEXT:
+${improved.charAt(0).toUpperCase()}${improved.slice(1)}
+
+EXPLANATION:
+Tidied spacing and capitalisation; the wording is otherwise unchanged.
+
+SUGGESTIONS:
+Add a supporting citation for the main claim.
+Consider a concrete example to illustrate the point.`;
+};
+
+const suggestions: Fixture = () => `1. Critical: strengthen the introduction
+State the research question explicitly and preview the structure of the argument.
+
+2. Quick win: add transitions
+Link each section to the next with a sentence that names the connection.
+
+3. Broaden the evidence base
+Bring in sources that take an opposing view so the analysis addresses counterarguments.`;
+
+const chat: Fixture = (_prompt, messages) => {
+  const question = [...messages].reverse().find(message => message.role === 'user')?.content.trim() ?? '';
+  return `(Mock response) You asked: "${question}". Try searching for the topic or drilling into a node to explore it further.`;
+};
+
+export const MOCK_FIXTURES: Record<AITask, Fixture> = {
+  chat,
+  search,
+  'drill-down': drillDown,
+  'generate-from-chat': generateFromChat,
+  'analyze-conflicts': analyzeConflicts,
+  summarize,
+  'generate-outline': generateOutline,
+  'generate-content': generateContent,
+  'refine-text': refineText,
+  suggestions,
+};
@@ -0,0 +1,43 @@
+import type { AICompletion, AIProvider, AIProviderRequest } from '../types';
+import { estimateUsage } from '../usage';
+import { MOCK_FIXTURES } from './mock-fixtures';
+
+function reply(request: AIProviderRequest): AICompletion {
+  const prompt = request.messages.map(message => message.content).join('\n\n');
+  const answer = MOCK_FIXTURES[request.task](prompt, request.messages);
+  const text = typeof answer === 'string' ? answer : JSON.stringify(answer, null, 2);
+
+  return {
+    text,
+    provider: 'mock',
+    model: request.model,
+    usage: estimateUsage(request.messages, text),
+  };
+}
+
+/**
+ * Offline provider for development and end-to-end tests: answers every
+ * task from lib/ai/providers/mock-fixtures.ts, deterministically and
+ * without network access. Select it with AI_PROVIDER=mock.
+ */
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    defaultModel: 'mock-1',
+
+    isConfigured: () => true,
+
+    async complete(request) {
+      return reply(request);
+    },
+
+    async *stream(request) {
+      const { text } = reply(request);
+
+      // Word by word, like a real model's deltas
+      for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) {
+        yield chunk;
+      }
+    },
+  };
+}
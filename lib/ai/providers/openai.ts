@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+import type { AIProvider, AIProviderRequest } from '../types';
+
+interface ChatCompletionsOptions {
+  name: string;
+  defaultModel: string;
+  isConfigured: () => boolean;
+  /** Read when the first request is made, so env changes before then apply. */
+  clientOptions: () => { apiKey?: string; baseURL?: string };
+}
+
+/**
+ * A provider for any server that speaks the OpenAI Chat Completions API:
+ * OpenAI itself, or a compatible server at another base URL.
+ */
+export function createChatCompletionsProvider(options: ChatCompletionsOptions): AIProvider {
+  let client: OpenAI | null = null;
+  const getClient = () => (client ??= new OpenAI(options.clientOptions()));
+
+  const params = (request: AIProviderRequest) => ({
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.json && { response_format: { type: 'json_object' as const } }),
+  });
+
+  return {
+    name: options.name,
+    defaultModel: options.defaultModel,
+
+    isConfigured: options.isConfigured,
+
+    async complete(request) {
+      const completion = await getClient().chat.completions.create(params(request), { signal: request.signal });
+
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        provider: options.name,
+        model: completion.model || request.model,
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+          totalTokens: completion.usage.total_tokens,
+        },
+      };
+    },
+
+    async *stream(request) {
+      const stream = await getClient().chat.completions.create(
+        { ...params(request), stream: true },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+export function createOpenAIProvider(): AIProvider {
+  return createChatCompletionsProvider({
+    name: 'openai',
+    defaultModel: 'gpt-4o-mini',
+    isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+    clientOptions: () => ({ apiKey: process.env.OPENAI_API_KEY }),
+  });
+}
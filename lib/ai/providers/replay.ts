@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AICompletion, AIProvider, AIProviderRequest } from '../types';
+
+/**
+ * Recorded model replies, so prompt evaluations (npm run eval:prompts) and
+ * tests can be repeated without a model. Replies are keyed on the task and
+ * the exact messages, not the model, so a recording made with one model
+ * replays whatever AI_MODEL is set to. Any change to a prompt's wording
+ * changes its key, and the new wording has to be recorded again.
+ *
+ * AI_REPLAY_FILE  recordings to replay (default evals/prompts/recordings.json)
+ */
+
+export const DEFAULT_AI_REPLAY_FILE = 'evals/prompts/recordings.json';
+
+export interface AIRecording {
+  task: string;
+  provider: string;
+  model: string;
+  text: string;
+}
+
+export interface AIRecordings {
+  version: 1;
+  replies: Record<string, AIRecording>;
+}
+
+export function recordingKey(request: AIProviderRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ task: request.task, messages: request.messages }))
+    .digest('hex');
+}
+
+export function emptyRecordings(): AIRecordings {
+  return { version: 1, replies: {} };
+}
+
+export function readRecordings(file: string): AIRecordings {
+  try {
+    const recordings = JSON.parse(readFileSync(file, 'utf8'));
+    return { ...emptyRecordings(), ...recordings };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return emptyRecordings();
+    throw error;
+  }
+}
+
+export async function writeRecordings(file: string, recordings: AIRecordings): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  // Sorted keys keep diffs of a committed recordings file small
+  const replies = Object.fromEntries(Object.entries(recordings.replies).sort(([a], [b]) => a.localeCompare(b)));
+  await writeFile(file, `${JSON.stringify({ ...recordings, replies }, null, 2)}\n`);
+}
+
+/**
+ * Answers from recorded replies and fails for any request that was not
+ * recorded. Select it with AI_PROVIDER=replay.
+ */
+export function createReplayProvider(recordings?: AIRecordings): AIProvider {
+  const load = () => {
+    recordings ??= readRecordings(process.env.AI_REPLAY_FILE || DEFAULT_AI_REPLAY_FILE);
+    return recordings;
+  };
+
+  const reply = (request: AIProviderRequest): AICompletion => {
+    const recording = load().replies[recordingKey(request)];
+    if (!recording) {
+      throw new Error(`No recorded reply for this ${request.task} request; record one with npm run eval:prompts -- --record`);
+    }
+    return { text: recording.text, provider: 'replay', model: recording.model };
+  };
+
+  return {
+    name: 'replay',
+    defaultModel: 'replay',
+
+    isConfigured: () => true,
+
+    async complete(request) {
+      return reply(request);
+    },
+
+    async *stream(request) {
+      yield reply(request).text;
+    },
+  };
+}
+
+/**
+ * Wraps a provider so every reply it completes is added to `recordings`.
+ */
+export function createRecordingProvider(provider: AIProvider, recordings: AIRecordings): AIProvider {
+  return {
+    name: provider.name,
+    defaultModel: provider.defaultModel,
+    isConfigured: () => provider.isConfigured(),
+
+    async complete(request) {
+      const completion = await provider.complete(request);
+      recordings.replies[recordingKey(request)] = {
+        task: request.task,
+        provider: completion.provider,
+        model: completion.model,
+        text: completion.text,
+      };
+      return completion;
+    },
+
+    stream: request => provider.stream(request),
+  };
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIBudgetExceededError, AIRequestAbortedError } from '@/lib/error-handling';
+import { releaseRateLimit } from '@/lib/rate-limit';
+
+// Seconds until the spent budget resets, for the Retry-After header
+export function retryAfterSeconds(error: AIBudgetExceededError): number | undefined {
+  const resetsAt = Date.parse(error.details?.resetsAt);
+  if (!Number.isFinite(resetsAt)) return undefined;
+  return Math.max(1, Math.ceil((resetsAt - Date.now()) / 1000));
+}
+
+/**
+ * The 429 routes return when the user's AI budget is spent: the usual error
+ * body plus the budget figures, and Retry-After set to the period reset.
+ */
+export function budgetExceededResponse(error: AIBudgetExceededError, body: Record<string, unknown> = {}) {
+  const retryAfter = retryAfterSeconds(error);
+
+  return NextResponse.json(
+    { ...body, error: error.message, code: error.code, budget: error.details },
+    {
+      status: error.statusCode,
+      headers: retryAfter ? { 'Retry-After': String(retryAfter) } : undefined,
+    }
+  );
+}
+
+/**
+ * For an AI call the client cancelled. Nobody is left to read the response;
+ * what matters is that the request no longer counts against the client's
+ * rate limit.
+ */
+export function abortedResponse(request: NextRequest, error: AIRequestAbortedError) {
+  releaseRateLimit(request);
+  return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * Shapes the research routes expect back from the model. generateJSON
+ * validates replies against these and asks the model to correct itself
+ * when they do not match. Optional fields are filled in by the routes.
+ */
+
+export const GeneratedNodeSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().min(1),
+  content: z.string().min(1),
+  type: z.string().optional(),
+  connections: z.array(z.string()).optional(),
+  // Each entry is checked by normalizeRelationship, which drops bad ones
+  relationships: z.array(z.unknown()).optional(),
+  source: z.string().optional(),
+  depth: z.number().int().min(0).optional(),
+  lens: z.string().optional(),
+}).passthrough();
+
+export const SearchResponseSchema = z.object({
+  query: z.string().optional(),
+  perspective: z.string().optional(),
+  summary: z.string().optional(),
+  nodes: z.array(GeneratedNodeSchema).min(1),
+}).passthrough();
+
+export const DrillDownResponseSchema = z.object({
+  parentNode: z.object({ id: z.string().optional(), title: z.string().optional() }).passthrough().optional(),
+  drillDownNodes: z.array(GeneratedNodeSchema).min(1),
+}).passthrough();
+
+export const ChatNodesResponseSchema = z.object({
+  summary: z.string().optional(),
+  nodes: z.array(GeneratedNodeSchema).min(1),
+}).passthrough();
+
+export const DetectedConflictSchema = z.object({
+  nodeId: z.string(),
+  conflictType: z.enum(['methodological', 'empirical', 'theoretical', 'interpretive', 'unresolved']),
+  severity: z.enum(['low', 'medium', 'high']),
+  description: z.string().min(1),
+  textSegment: z.string().default(''),
+  relatedNodes: z.array(z.string()).optional(),
+  sources: z.array(z.string()).default([]),
+  keywords: z.array(z.string()).default([]),
+  suggestedResolution: z.string().optional(),
+});
+
+export const ConflictAnalysisResponseSchema = z.object({
+  conflicts: z.array(DetectedConflictSchema),
+});
+
+export type GeneratedNode = z.infer<typeof GeneratedNodeSchema>;
+export type DetectedConflict = z.infer<typeof DetectedConflictSchema>;
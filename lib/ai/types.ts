@@ -0,0 +1,65 @@
+/**
+ * Provider-neutral request and response shapes for language model calls.
+ * Routes never see vendor SDK types; adapters in lib/ai/providers translate.
+ */
+
+import type { AITask } from './config';
+
+export type AIMessageRole = 'system' | 'user' | 'assistant';
+
+export interface AIMessage {
+  role: AIMessageRole;
+  content: string;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** Who a call is made for, so its tokens count against their budget. */
+export interface AIUsageContext {
+  userId: string;
+  /** SavedPath the call was made for, if any. */
+  projectId?: string;
+  /** API route that made the call, e.g. /api/research/search. */
+  route: string;
+}
+
+export interface AIProviderRequest {
+  /** The task the request serves; providers may ignore it. */
+  task: AITask;
+  model: string;
+  messages: AIMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a single JSON object, where the vendor supports it. */
+  json?: boolean;
+  /** Aborts the call, e.g. when the browser that asked for it goes away. */
+  signal?: AbortSignal;
+}
+
+export interface AICompletion {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: AIUsage;
+  /** Served from the response cache, so nothing was billed. */
+  cached?: boolean;
+}
+
+export interface AIJSONCompletion<T> extends AICompletion {
+  data: T;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  /** Model used when neither the task nor the environment names one. */
+  readonly defaultModel: string;
+  /** Whether the credentials this provider needs are present. */
+  isConfigured(): boolean;
+  complete(request: AIProviderRequest): Promise<AICompletion>;
+  /** Yields the completion text as it is generated. */
+  stream(request: AIProviderRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,98 @@
+import type { AIMessage, AIUsage } from './types';
+
+/**
+ * Token accounting: estimated prices per model and the per-user budget set
+ * in the environment. Prices are list prices in USD per million tokens and
+ * only need to be close enough for budgets; models without a price (local
+ * servers, the mock provider) cost nothing.
+ */
+
+export interface AIModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Matched against the start of the model name, longest prefix first
+export const AI_MODEL_PRICES: Record<string, AIModelPrice> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'gemini-1.5-flash': { prompt: 0.075, completion: 0.3 },
+  'gemini-1.5-pro': { prompt: 1.25, completion: 5 },
+};
+
+const FREE_PROVIDERS = new Set(['local', 'mock']);
+
+// Rough token count for replies that come without usage figures
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(messages: AIMessage[], reply: string): AIUsage {
+  const promptTokens = estimateTokens(messages.map(message => message.content).join('\n\n'));
+  const completionTokens = estimateTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function modelPrice(provider: string, model: string): AIModelPrice | null {
+  if (FREE_PROVIDERS.has(provider)) return null;
+
+  const prefix = Object.keys(AI_MODEL_PRICES)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? AI_MODEL_PRICES[prefix] : null;
+}
+
+// Estimated cost in USD
+export function estimateCost(provider: string, model: string, usage: AIUsage): number {
+  const price = modelPrice(provider, model);
+  if (!price) return 0;
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
+export type AIBudgetPeriod = 'day' | 'month';
+
+export interface AIBudget {
+  period: AIBudgetPeriod;
+  /** Tokens a user may spend per period. */
+  tokens?: number;
+  /** Estimated USD a user may spend per period. */
+  costUsd?: number;
+}
+
+function positiveNumber(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// AI_BUDGET_PERIOD: `day` (the default) or `month`
+export function aiBudgetPeriod(): AIBudgetPeriod {
+  return process.env.AI_BUDGET_PERIOD?.trim().toLowerCase() === 'month' ? 'month' : 'day';
+}
+
+/**
+ * The per-user budget from AI_BUDGET_TOKENS and/or AI_BUDGET_USD, reset every
+ * AI_BUDGET_PERIOD. Null when neither limit is set.
+ */
+export function getAIBudget(): AIBudget | null {
+  const tokens = positiveNumber(process.env.AI_BUDGET_TOKENS);
+  const costUsd = positiveNumber(process.env.AI_BUDGET_USD);
+  if (tokens === undefined && costUsd === undefined) return null;
+
+  return { period: aiBudgetPeriod(), tokens, costUsd };
+}
+
+// The current budget period, in UTC
+export function budgetPeriod(period: AIBudgetPeriod, now = new Date()): { start: Date; end: Date } {
+  if (period === 'month') {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z, ZodSchema, ZodError } from 'zod';
+import { NodeKindSchema } from '@/lib/node-kinds';
 
 /**
  * Common validation schemas for API endpoints
@@ -10,7 +11,8 @@ export const NodeSchema = z.object({
   id: z.string().min(1, 'ID is required'),
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   content: z.string().optional(),
-  type: z.enum(['topic', 'subtopic', 'detail']),
+  type: NodeKindSchema,
+  depth: z.number().int().min(0).optional(),
   parentId: z.string().optional(),
   metadata: z.object({
     source: z.string().optional(),
@@ -33,7 +35,7 @@ export const PaginationSchema = z.object({
 // Search/filter validation
 export const SearchFilterSchema = z.object({
   query: z.string().optional(),
-  type: z.enum(['topic', 'subtopic', 'detail']).optional(),
+  type: NodeKindSchema.optional(),
   source: z.string().optional(),
   confidence: z.number().min(0).max(1).optional(),
 });
@@ -44,6 +46,7 @@ export const OutlineRequestSchema = z.object({
   detailLevel: DetailLevelSchema,
   includeMetadata: z.boolean().default(false),
   includeRelationships: z.boolean().default(true),
+  projectId: z.string().optional(),
 });
 
 // Project validation
@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { ProjectAccessRole } from '@/lib/project-roles';
+
+/**
+ * Short-lived tokens that admit a user to a project's collaboration room.
+ * Issued by POST /api/projects/[id]/collaboration after the usual access
+ * check and verified by server/collab-server.mjs, which repeats the format
+ * below, so the two must change together.
+ */
+
+export interface CollabTokenPayload {
+  projectId: string;
+  userId: string;
+  name: string;
+  role: ProjectAccessRole;
+  exp: number; // Unix time in seconds
+}
+
+export const COLLAB_TOKEN_TTL_SECONDS = 60;
+
+export function collabSecret(): string | undefined {
+  return process.env.COLLAB_SECRET || process.env.NEXTAUTH_SECRET || undefined;
+}
+
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url');
+}
+
+export function signCollabToken(payload: Omit<CollabTokenPayload, 'exp'>, secret: string): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + COLLAB_TOKEN_TTL_SECONDS })
+  ).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+export function verifyCollabToken(token: string, secret: string): CollabTokenPayload | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as CollabTokenPayload;
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Conflict-free replicated state for the outline: which nodes it contains,
+ * their order and which of them are selected.
+ *
+ * Every node has two last-writer-wins registers (its value, where null marks a
+ * removal, and its position) and every selection flag is one more. Writes are
+ * stamped with a Lamport clock and the writer's actor ID, so replicas that
+ * have seen the same operations agree regardless of the order they arrived
+ * in. Positions are fractional-index strings: moving a node only rewrites its
+ * own position, so concurrent moves of different nodes both survive.
+ */
+import type { OutlineNode } from '@/lib/stores/outline-store';
+
+export interface Stamp {
+  clock: number;
+  actor: string;
+}
+
+export type OutlineNodeValue = Omit<OutlineNode, 'order'>;
+
+export type OutlineOp =
+  // `position` is only sent when the node is (re-)added, so editing a node never undoes a concurrent move
+  | { type: 'put-node'; id: string; node: OutlineNodeValue; position?: string; stamp: Stamp }
+  | { type: 'remove-node'; id: string; stamp: Stamp }
+  | { type: 'move-node'; id: string; position: string; stamp: Stamp }
+  | { type: 'select-node'; id: string; selected: boolean; stamp: Stamp };
+
+export interface OutlineSnapshot {
+  nodes: OutlineNode[];
+  selectedNodeIds: string[];
+}
+
+interface Register<T> {
+  value: T;
+  stamp: Stamp;
+}
+
+interface NodeEntry {
+  node: Register<OutlineNodeValue | null>;
+  position: Register<string>;
+}
+
+const INITIAL_STAMP: Stamp = { clock: 0, actor: '' };
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.actor < b.actor ? -1 : a.actor > b.actor ? 1 : 0;
+}
+
+/**
+ * A position string that sorts strictly between `before` and `after`
+ * (either may be omitted for the start or end of the list). Generated
+ * positions never end in '0', which keeps a gap below every one of them.
+ */
+export function positionBetween(before = '', after?: string): string {
+  let upper = after;
+  let result = '';
+
+  for (let i = 0; ; i++) {
+    const lo = i < before.length ? DIGITS.indexOf(before[i]) : 0;
+    const hi = upper !== undefined && i < upper.length ? DIGITS.indexOf(upper[i]) : DIGITS.length;
+
+    if (hi - lo > 1) {
+      return result + DIGITS[Math.floor((lo + hi) / 2)];
+    }
+
+    result += DIGITS[lo];
+    // Once the result is below `after` at this digit, any suffix stays below it
+    if (hi - lo === 1) upper = undefined;
+  }
+}
+
+function write<T>(register: Register<T>, value: T, stamp: Stamp): Register<T> {
+  return compareStamps(stamp, register.stamp) > 0 ? { value, stamp } : register;
+}
+
+function sameValue(a: OutlineNodeValue, b: OutlineNodeValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Indexes (into `positions`) of a longest strictly increasing subsequence
+function longestIncreasingRun(positions: string[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(positions.length).fill(-1);
+
+  positions.forEach((position, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (positions[tails[mid]] < position) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails.length ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    kept.add(index);
+  }
+  return kept;
+}
+
+export class OutlineCrdt {
+  private clock = 0;
+  private nodes = new Map<string, NodeEntry>();
+  private selection = new Map<string, Register<boolean>>();
+
+  constructor(private readonly actor: string) {}
+
+  /**
+   * Merge operations from any replica, including ones already applied.
+   */
+  apply(ops: OutlineOp[]): void {
+    for (const op of ops) {
+      this.clock = Math.max(this.clock, op.stamp.clock);
+
+      if (op.type === 'select-node') {
+        const current = this.selection.get(op.id) ?? { value: false, stamp: INITIAL_STAMP };
+        this.selection.set(op.id, write(current, op.selected, op.stamp));
+        continue;
+      }
+
+      const entry = this.nodes.get(op.id) ?? {
+        node: { value: null, stamp: INITIAL_STAMP },
+        position: { value: '', stamp: INITIAL_STAMP },
+      };
+
+      if (op.type === 'put-node') {
+        entry.node = write(entry.node, op.node, op.stamp);
+        if (op.position !== undefined) entry.position = write(entry.position, op.position, op.stamp);
+      } else if (op.type === 'remove-node') {
+        entry.node = write(entry.node, null, op.stamp);
+      } else {
+        entry.position = write(entry.position, op.position, op.stamp);
+      }
+
+      this.nodes.set(op.id, entry);
+    }
+  }
+
+  /**
+   * The outline as the store represents it: live nodes in position order
+   * (ties broken by ID) with `order` set to their index.
+   */
+  snapshot(): OutlineSnapshot {
+    const live = this.liveEntries();
+
+    return {
+      nodes: live.map(([, entry], index) => ({ ...(entry.node.value as OutlineNodeValue), order: index })),
+      selectedNodeIds: live.filter(([id]) => this.selection.get(id)?.value).map(([id]) => id),
+    };
+  }
+
+  /**
+   * Record the operations that turn the replicated state into `state` (the
+   * local store after an edit), apply them and return them for broadcast.
+   */
+  commit(state: OutlineSnapshot): OutlineOp[] {
+    const ops: OutlineOp[] = [];
+    const stamp = (): Stamp => ({ clock: ++this.clock, actor: this.actor });
+    const current = new Map(this.liveEntries());
+    const desired = [...state.nodes].sort((a, b) => a.order - b.order);
+    const desiredIds = new Set(desired.map(node => node.id));
+
+    current.forEach((_, id) => {
+      if (!desiredIds.has(id)) ops.push({ type: 'remove-node', id, stamp: stamp() });
+    });
+
+    // Keep the longest run of existing nodes that is already in order; everything else gets a new position
+    const existing = desired.filter(node => current.has(node.id));
+    const keptIndexes = longestIncreasingRun(existing.map(node => current.get(node.id)!.position.value));
+    const kept = new Set(existing.filter((_, index) => keptIndexes.has(index)).map(node => node.id));
+
+    let previousPosition: string | undefined;
+    desired.forEach((node, index) => {
+      const { order, ...value } = node;
+      const entry = current.get(node.id);
+
+      if (kept.has(node.id)) {
+        previousPosition = entry!.position.value;
+      } else {
+        const next = desired.slice(index + 1).find(candidate => kept.has(candidate.id));
+        previousPosition = positionBetween(previousPosition, next && current.get(next.id)!.position.value);
+
+        if (!entry) {
+          ops.push({ type: 'put-node', id: node.id, node: value, position: previousPosition, stamp: stamp() });
+          return;
+        }
+        ops.push({ type: 'move-node', id: node.id, position: previousPosition, stamp: stamp() });
+      }
+
+      if (!sameValue(entry!.node.value as OutlineNodeValue, value)) {
+        ops.push({ type: 'put-node', id: node.id, node: value, stamp: stamp() });
+      }
+    });
+
+    const selected = new Set(state.selectedNodeIds);
+    const selectionIds = new Set([...Array.from(this.selection.keys()), ...state.selectedNodeIds]);
+    selectionIds.forEach(id => {
+      const isSelected = selected.has(id) && desiredIds.has(id);
+      if ((this.selection.get(id)?.value ?? false) !== isSelected) {
+        ops.push({ type: 'select-node', id, selected: isSelected, stamp: stamp() });
+      }
+    });
+
+    this.apply(ops);
+    return ops;
+  }
+
+  private liveEntries(): Array<[string, NodeEntry]> {
+    return Array.from(this.nodes.entries())
+      .filter(([, entry]) => entry.node.value !== null)
+      .sort(([idA, a], [idB, b]) =>
+        a.position.value < b.position.value ? -1
+          : a.position.value > b.position.value ? 1
+            : idA < idB ? -1 : idA > idB ? 1 : 0
+      );
+  }
+}
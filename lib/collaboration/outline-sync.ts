@@ -0,0 +1,203 @@
+'use client';
+
+import { useOutlineStore } from '@/lib/stores/outline-store';
+import { OutlineCrdt, OutlineOp } from '@/lib/collaboration/outline-crdt';
+import type { ClientMessage, CollaboratorPresence, ServerMessage } from '@/lib/collaboration/protocol';
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollaborationTicket {
+  url: string;
+  token: string;
+  canEdit: boolean;
+}
+
+interface OutlineSyncOptions {
+  projectId: string;
+  // Tickets are short-lived, so a fresh one is requested for every (re)connect
+  fetchTicket: () => Promise<CollaborationTicket>;
+  onStatus: (status: CollaborationStatus) => void;
+  onPeers: (peers: CollaboratorPresence[]) => void;
+  onError: (message: string) => void;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Well within the token lifetime (COLLAB_TOKEN_TTL_SECONDS), so the server always holds a valid one
+const TOKEN_REFRESH_MS = 30000;
+
+/**
+ * Keeps the outline store in sync with everyone else in a project's
+ * collaboration room. Local edits to nodes, order and selection are turned
+ * into CRDT operations by diffing store updates, so the store actions stay
+ * unaware of collaboration; remote operations are merged and written back.
+ */
+export class OutlineSyncClient {
+  private socket: WebSocket | null = null;
+  private crdt: OutlineCrdt | null = null;
+  private peers = new Map<string, CollaboratorPresence>();
+  private unsubscribe: (() => void) | null = null;
+  private applyingRemote = false;
+  private closed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private canEdit = false;
+  private reconnectAttempts = 0;
+
+  constructor(private readonly options: OutlineSyncOptions) {}
+
+  async connect(): Promise<void> {
+    this.closed = false;
+    this.options.onStatus('connecting');
+
+    let ticket: CollaborationTicket;
+    try {
+      ticket = await this.options.fetchTicket();
+    } catch (error) {
+      this.options.onStatus('disconnected');
+      this.options.onError(error instanceof Error ? error.message : 'Failed to start collaboration');
+      return;
+    }
+    if (this.closed) return;
+
+    this.canEdit = ticket.canEdit;
+    const socket = new WebSocket(`${ticket.url}?token=${encodeURIComponent(ticket.token)}`);
+    this.socket = socket;
+
+    socket.onmessage = event => this.handleMessage(JSON.parse(event.data) as ServerMessage);
+    socket.onclose = event => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.detach();
+      this.options.onStatus('disconnected');
+      // 4001: access was refused, so retrying cannot succeed.
+      // 4002: the token ran out (e.g. a refresh failed); reconnecting checks access again.
+      if (!this.closed && event.code !== 4001) {
+        const delay = Math.min(RECONNECT_DELAY_MS * 2 ** this.reconnectAttempts++, MAX_RECONNECT_DELAY_MS);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+      }
+    };
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    const socket = this.socket;
+    this.socket = null;
+    this.detach();
+    socket?.close();
+  }
+
+  /**
+   * Tell the other collaborators which node this user is pointing at.
+   */
+  setFocus(nodeId: string | null): void {
+    this.send({ type: 'presence', focusNodeId: nodeId });
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.join(message.clientId, message.ops, message.peers);
+        break;
+      case 'ops':
+        this.crdt?.apply(message.ops);
+        this.writeToStore();
+        break;
+      case 'presence':
+        this.peers.set(message.peer.clientId, message.peer);
+        this.options.onPeers(Array.from(this.peers.values()));
+        break;
+      case 'leave':
+        this.peers.delete(message.clientId);
+        this.options.onPeers(Array.from(this.peers.values()));
+        break;
+      case 'error':
+        this.options.onError(message.message);
+        break;
+    }
+  }
+
+  private join(clientId: string, ops: OutlineOp[], peers: CollaboratorPresence[]): void {
+    this.reconnectAttempts = 0;
+    this.refreshTimer = setInterval(() => this.refreshToken(), TOKEN_REFRESH_MS);
+    this.crdt = new OutlineCrdt(clientId);
+    this.peers = new Map(peers.map(peer => [peer.clientId, peer]));
+    this.options.onPeers(peers);
+
+    if (ops.length > 0) {
+      // Join the session in progress; the room's state replaces the local copy
+      this.crdt.apply(ops);
+      this.writeToStore();
+    } else if (this.canEdit) {
+      // First in the room: seed it with the outline as loaded
+      this.commitLocal();
+    }
+
+    this.unsubscribe = useOutlineStore.subscribe((state, previous) => {
+      if (this.applyingRemote) return;
+      // Loading another project is not an edit of this one
+      if (state.projectId !== this.options.projectId) return;
+      if (state.nodes === previous.nodes && state.selectedNodeIds === previous.selectedNodeIds) return;
+
+      if (this.canEdit) {
+        this.commitLocal();
+      } else {
+        // Read-only members cannot change the shared outline
+        this.writeToStore();
+      }
+    });
+
+    this.options.onStatus('connected');
+  }
+
+  /**
+   * Hand the server a fresh token. Issuing it re-checks the user's access, so
+   * a changed role applies here too; removed members get no token and are
+   * disconnected once the current one expires.
+   */
+  private async refreshToken(): Promise<void> {
+    try {
+      const ticket = await this.options.fetchTicket();
+      this.canEdit = ticket.canEdit;
+      this.send({ type: 'auth', token: ticket.token });
+    } catch (error) {
+      this.options.onError(error instanceof Error ? error.message : 'Failed to renew collaboration access');
+    }
+  }
+
+  private commitLocal(): void {
+    if (!this.crdt) return;
+
+    const { nodes, selectedNodeIds } = useOutlineStore.getState();
+    const ops = this.crdt.commit({ nodes, selectedNodeIds });
+    if (ops.length > 0) this.send({ type: 'ops', ops });
+  }
+
+  private writeToStore(): void {
+    if (!this.crdt) return;
+
+    this.applyingRemote = true;
+    try {
+      useOutlineStore.setState(this.crdt.snapshot());
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  private detach(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.crdt = null;
+    this.peers.clear();
+    this.options.onPeers([]);
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
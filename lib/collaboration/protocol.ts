@@ -0,0 +1,30 @@
+/**
+ * Messages exchanged with the collaboration server (server/collab-server.mjs).
+ * The server relays outline operations without interpreting them and keeps
+ * the log of the current session so late joiners can catch up.
+ */
+import type { OutlineOp } from '@/lib/collaboration/outline-crdt';
+import type { ProjectAccessRole } from '@/lib/project-roles';
+
+export interface CollaboratorPresence {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  role: ProjectAccessRole;
+  // Outline node the collaborator is pointing at or dragging
+  focusNodeId: string | null;
+}
+
+export type ServerMessage =
+  | { type: 'welcome'; clientId: string; ops: OutlineOp[]; peers: CollaboratorPresence[] }
+  | { type: 'ops'; ops: OutlineOp[] }
+  | { type: 'presence'; peer: CollaboratorPresence }
+  | { type: 'leave'; clientId: string }
+  | { type: 'error'; message: string };
+
+export type ClientMessage =
+  | { type: 'ops'; ops: OutlineOp[] }
+  | { type: 'presence'; focusNodeId: string | null }
+  // A fresh token for the same room, sent before the current one expires
+  | { type: 'auth'; token: string };
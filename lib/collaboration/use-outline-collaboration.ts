@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { hasProjectRole } from '@/lib/project-roles';
+import { CollaborationStatus, OutlineSyncClient } from '@/lib/collaboration/outline-sync';
+import type { CollaboratorPresence } from '@/lib/collaboration/protocol';
+
+/**
+ * Join the collaboration room of the given saved project for as long as the
+ * calling component is mounted. Does nothing while no project is loaded.
+ */
+export function useOutlineCollaboration(projectId: string | null) {
+  const [status, setStatus] = useState<CollaborationStatus>('disconnected');
+  const [peers, setPeers] = useState<CollaboratorPresence[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<OutlineSyncClient | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    setError(null);
+    const client = new OutlineSyncClient({
+      projectId,
+      fetchTicket: async () => {
+        const response = await fetch(`/api/projects/${projectId}/collaboration`, { method: 'POST' });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to start collaboration');
+        }
+        return { url: result.url, token: result.token, canEdit: hasProjectRole(result.role, 'editor') };
+      },
+      onStatus: setStatus,
+      onPeers: setPeers,
+      onError: setError,
+    });
+
+    clientRef.current = client;
+    client.connect();
+
+    return () => {
+      client.disconnect();
+      clientRef.current = null;
+      setStatus('disconnected');
+    };
+  }, [projectId]);
+
+  const setFocus = useCallback((nodeId: string | null) => {
+    clientRef.current?.setFocus(nodeId);
+  }, []);
+
+  return { status, peers, error, setFocus };
+}
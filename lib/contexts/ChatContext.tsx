@@ -8,6 +8,9 @@ interface ChatContextType {
   setMessages: (messages: Message[]) => void;
   addMessage: (message: Message) => void;
   clearMessages: () => void;
+  // Replace the conversation from outside the chat (loading a project); bumps restoreVersion
+  restoreMessages: (messages: Message[]) => void;
+  restoreVersion: number;
   hasMessages: boolean;
 }
 
@@ -15,6 +18,7 @@ const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
 export function ChatProvider({ children }: { children: ReactNode }) {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [restoreVersion, setRestoreVersion] = useState(0);
 
   const addMessage = (message: Message) => {
     setMessages(prev => [...prev, message]);
@@ -24,6 +28,11 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     setMessages([]);
   };
 
+  const restoreMessages = (restored: Message[]) => {
+    setMessages(restored);
+    setRestoreVersion(version => version + 1);
+  };
+
   const hasMessages = messages.length > 0;
 
   return (
@@ -32,6 +41,8 @@ export function ChatProvider({ children }: { children: ReactNode }) {
       setMessages,
       addMessage,
       clearMessages,
+      restoreMessages,
+      restoreVersion,
       hasMessages
     }}>
       {children}
@@ -47,4 +58,9 @@ export function useChatContext() {
   return context;
 }
 
+// For components that may render outside a ChatProvider, such as in tests
+export function useOptionalChatContext() {
+  return useContext(ChatContext);
+}
+
 export type { Message as ChatMessage };
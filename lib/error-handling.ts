@@ -30,6 +30,13 @@ export class ValidationError extends APIError {
   }
 }
 
+export class ProjectDocumentError extends APIError {
+  constructor(message: string, details?: any) {
+    super(message, 400, 'INVALID_PROJECT_DOCUMENT', details);
+    this.name = 'ProjectDocumentError';
+  }
+}
+
 export class AuthenticationError extends APIError {
   constructor(message: string = 'Authentication required') {
     super(message, 401, 'AUTHENTICATION_ERROR');
@@ -75,6 +82,28 @@ export class ExternalServiceError extends APIError {
   }
 }
 
+export class AIResponseError extends APIError {
+  constructor(message: string, details?: any) {
+    super(message, 502, 'INVALID_AI_RESPONSE', details);
+    this.name = 'AIResponseError';
+  }
+}
+
+export class AIBudgetExceededError extends APIError {
+  constructor(message: string, details?: any) {
+    super(message, 429, 'AI_BUDGET_EXCEEDED', details);
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
+// 499 is the de facto status for "client closed request"; nobody receives it
+export class AIRequestAbortedError extends APIError {
+  constructor(message: string = 'AI request was cancelled') {
+    super(message, 499, 'AI_REQUEST_ABORTED');
+    this.name = 'AIRequestAbortedError';
+  }
+}
+
 // Log levels
 export enum LogLevel {
   ERROR = 0,
@@ -1,3 +1,4 @@
+import { nodeDepth } from '@/lib/node-kinds';
 import { OutlineNode } from '@/lib/stores/outline-store';
 
 export interface ExportOptions {
@@ -26,8 +27,8 @@ export function convertToMarkdown(
   const sortedNodes = nodes.sort((a, b) => a.order - b.order);
   
   for (const node of sortedNodes) {
-    // Determine heading level based on type
-    const level = getMarkdownLevel(node.type);
+    // Determine heading level based on depth
+    const level = getMarkdownLevel(node);
     const heading = '#'.repeat(level);
     
     markdown += `${heading} ${node.title}\n\n`;
@@ -90,7 +91,7 @@ export function convertToText(
   
   for (const node of sortedNodes) {
     // Determine indentation based on type
-    const indent = getTextIndent(node.type);
+    const indent = getTextIndent(node);
     
     text += `${indent}${node.title}\n`;
     
@@ -151,35 +152,18 @@ export function downloadFile(content: string, filename: string, mimeType: string
 }
 
 /**
- * Get markdown heading level based on node type
+ * Get markdown heading level based on node depth: topics are h2 and each
+ * level below goes one deeper, stopping at h6
  */
-function getMarkdownLevel(type: OutlineNode['type']): number {
-  switch (type) {
-    case 'topic':
-      return 2;
-    case 'subtopic':
-      return 3;
-    case 'detail':
-      return 4;
-    default:
-      return 3;
-  }
+function getMarkdownLevel(node: OutlineNode): number {
+  return Math.min(2 + nodeDepth(node), 6);
 }
 
 /**
- * Get text indentation based on node type
+ * Get text indentation based on node depth, two spaces per level
  */
-function getTextIndent(type: OutlineNode['type']): string {
-  switch (type) {
-    case 'topic':
-      return '';
-    case 'subtopic':
-      return '  ';
-    case 'detail':
-      return '    ';
-    default:
-      return '  ';
-  }
+function getTextIndent(node: OutlineNode): string {
+  return '  '.repeat(nodeDepth(node));
 }
 
 /**
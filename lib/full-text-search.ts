@@ -0,0 +1,304 @@
+/**
+ * In-memory full-text search over research nodes, ranked with BM25. A node's
+ * title, content and source titles/URLs are indexed as weighted fields, so a
+ * match in the title counts for more than one deep in the content. Queries
+ * are words, `prefix*` words and "quoted phrases"; every phrase must appear,
+ * and a result needs at least one of the other words. Kept free of
+ * server-only imports so the index can be built wherever the nodes are.
+ */
+
+export interface SearchDocument {
+  id: string;
+  title: string;
+  content?: string;
+  /** Source titles or URLs. */
+  sources?: string[];
+}
+
+export type SearchField = 'title' | 'content' | 'sources';
+
+/** Start and end offsets of a match, end exclusive. */
+export type HighlightRange = [number, number];
+
+export interface ParsedQuery {
+  terms: string[];
+  prefixes: string[];
+  phrases: string[][];
+}
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  /** Offsets into `text`. */
+  highlights: HighlightRange[];
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  /** Offsets of matches in the document's title. */
+  titleHighlights: HighlightRange[];
+  /** An excerpt of the best matching content or source, or the start of the content. */
+  snippet: SearchSnippet;
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  text: string;
+  tokens: Token[];
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  fields: Record<SearchField, IndexedField>;
+  /** Weighted term frequencies across all fields. */
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+  documentFrequency: Map<string, number>;
+  /** Every indexed term, sorted, for prefix lookups. */
+  vocabulary: string[];
+  averageLength: number;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, content: 1, sources: 1.5 };
+const FIELDS: SearchField[] = ['title', 'content', 'sources'];
+
+// Standard BM25 saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Vocabulary terms one prefix may expand to
+const MAX_PREFIX_EXPANSIONS = 50;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is',
+  'its', 'of', 'on', 'or', 'the', 'their', 'to', 'with',
+]);
+
+export function isStopWord(term: string): boolean {
+  return STOP_WORDS.has(term);
+}
+
+// Latin (with accents), Greek and Cyrillic letters and digits
+const WORD_PATTERN = /[0-9A-Za-z\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+/g;
+
+function foldTerm(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Crude plural folding, so "reefs" finds "reef"
+function stem(term: string): string {
+  return term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ term: stem(foldTerm(match[0])), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+export function parseSearchQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = tokenize(phrase).map(token => token.term);
+    if (words.length > 0) phrases.push(words);
+    return ' ';
+  });
+
+  const terms: string[] = [];
+  const prefixes: string[] = [];
+  rest.split(/\s+/).forEach(part => {
+    const words = tokenize(part).map(token => token.term);
+    if (words.length === 0) return;
+    if (part.endsWith('*')) prefixes.push(words.pop()!);
+    terms.push(...words);
+  });
+
+  // Stop words only count when the query has nothing else
+  const meaningful = terms.filter(term => !STOP_WORDS.has(term));
+  return {
+    terms: Array.from(new Set(meaningful.length > 0 || prefixes.length > 0 || phrases.length > 0 ? meaningful : terms)),
+    prefixes: Array.from(new Set(prefixes)),
+    phrases,
+  };
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  const indexed = documents.map(document => {
+    const texts: Record<SearchField, string> = {
+      title: document.title,
+      content: document.content || '',
+      sources: (document.sources || []).filter(Boolean).join('\n'),
+    };
+    const frequencies = new Map<string, number>();
+    let length = 0;
+
+    const fields = {} as Record<SearchField, IndexedField>;
+    FIELDS.forEach(field => {
+      const tokens = tokenize(texts[field]);
+      fields[field] = { text: texts[field], tokens };
+      length += tokens.length * FIELD_WEIGHTS[field];
+      tokens.forEach(token => {
+        frequencies.set(token.term, (frequencies.get(token.term) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+
+    frequencies.forEach((_, term) => {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    });
+    totalLength += length;
+
+    return { document, fields, frequencies, length };
+  });
+
+  return {
+    documents: indexed,
+    documentFrequency,
+    vocabulary: Array.from(documentFrequency.keys()).sort(),
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+  };
+}
+
+function expandPrefix(index: SearchIndex, prefix: string): string[] {
+  const vocabulary = index.vocabulary;
+  let low = 0;
+  let high = vocabulary.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (vocabulary[middle] < prefix) low = middle + 1;
+    else high = middle;
+  }
+
+  const terms: string[] = [];
+  for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(prefix) && terms.length < MAX_PREFIX_EXPANSIONS; i++) {
+    terms.push(vocabulary[i]);
+  }
+  return terms;
+}
+
+// Start of every occurrence of `phrase` in `tokens`
+function phraseStarts(tokens: Token[], phrase: string[]): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, offset) => tokens[i + offset].term === term)) starts.push(i);
+  }
+  return starts;
+}
+
+function matchRanges(field: IndexedField, terms: Set<string>, phrases: string[][]): HighlightRange[] {
+  const ranges: HighlightRange[] = field.tokens
+    .filter(token => terms.has(token.term))
+    .map(token => [token.start, token.end]);
+  phrases.forEach(phrase => {
+    phraseStarts(field.tokens, phrase).forEach(start => {
+      ranges.push([field.tokens[start].start, field.tokens[start + phrase.length - 1].end]);
+    });
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: HighlightRange[] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  });
+  return merged;
+}
+
+/**
+ * Cut `text` down to about SNIPPET_LENGTH characters around its first match,
+ * on word boundaries, shifting the highlights to match.
+ */
+function excerpt(field: SearchField, text: string, ranges: HighlightRange[]): SearchSnippet {
+  if (text.length <= SNIPPET_LENGTH) return { field, text, highlights: ranges };
+
+  let start = Math.max(0, (ranges[0]?.[0] ?? 0) - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space > (ranges[0]?.[0] ?? start) ? start : space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const lead = start > 0 ? '…' : '';
+  const shift = lead.length - start;
+  return {
+    field,
+    text: `${lead}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift] as HighlightRange),
+  };
+}
+
+export function searchIndex(index: SearchIndex, query: string | ParsedQuery): SearchHit[] {
+  const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+  const optional = new Set(parsed.terms);
+  parsed.prefixes.forEach(prefix => expandPrefix(index, prefix).forEach(term => optional.add(term)));
+
+  // Phrase words count towards the score too
+  const scored = new Set(optional);
+  parsed.phrases.forEach(phrase => phrase.filter(term => !STOP_WORDS.has(term)).forEach(term => scored.add(term)));
+  if (scored.size === 0 && parsed.phrases.length === 0) return [];
+
+  const total = index.documents.length;
+  const idf = (term: string) => {
+    const frequency = index.documentFrequency.get(term) || 0;
+    return Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  const hits: SearchHit[] = [];
+  index.documents.forEach(entry => {
+    const hasOptional = Array.from(optional).some(term => entry.frequencies.has(term));
+    const needsOptional = parsed.terms.length > 0 || parsed.prefixes.length > 0;
+    if (needsOptional && !hasOptional) return;
+    if (!parsed.phrases.every(phrase => FIELDS.some(field => phraseStarts(entry.fields[field].tokens, phrase).length > 0))) {
+      return;
+    }
+
+    const lengthNorm = index.averageLength > 0 ? entry.length / index.averageLength : 1;
+    let score = 0;
+    scored.forEach(term => {
+      const frequency = entry.frequencies.get(term);
+      if (!frequency) return;
+      score += idf(term) * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthNorm));
+    });
+
+    const bodyField = (['content', 'sources'] as SearchField[])
+      .map(field => ({ field, ranges: matchRanges(entry.fields[field], scored, parsed.phrases) }))
+      .find(candidate => candidate.ranges.length > 0);
+
+    hits.push({
+      id: entry.document.id,
+      score,
+      titleHighlights: matchRanges(entry.fields.title, scored, parsed.phrases),
+      snippet: bodyField
+        ? excerpt(bodyField.field, entry.fields[bodyField.field].text, bodyField.ranges)
+        : excerpt('content', entry.fields.content.text, []),
+    });
+  });
+
+  return hits.sort((a, b) => b.score - a.score);
+}
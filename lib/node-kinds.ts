@@ -0,0 +1,52 @@
+/**
+ * Node kinds follow from a node's depth in the research tree: the root level
+ * holds topics, then subtopics and details, and everything from depth 3 down
+ * is a micro-detail, however deep drilling goes. Depth is what matters for
+ * layout (colors, heading levels, indentation); the kind is its label. Shared
+ * by the outline store, the API validation and the visualizations, so it must
+ * stay free of server-only imports.
+ */
+import { z } from 'zod';
+
+export const NODE_KINDS = ['topic', 'subtopic', 'detail', 'micro-detail'] as const;
+
+export type NodeKind = typeof NODE_KINDS[number];
+
+export const NodeKindSchema = z.enum(NODE_KINDS);
+
+export function isNodeKind(value: unknown): value is NodeKind {
+  return typeof value === 'string' && (NODE_KINDS as readonly string[]).includes(value);
+}
+
+export function nodeKindForDepth(depth: number): NodeKind {
+  return NODE_KINDS[Math.min(Math.max(0, Math.floor(depth)), NODE_KINDS.length - 1)];
+}
+
+/**
+ * Shallowest depth a kind appears at, e.g. 3 for 'micro-detail'.
+ */
+export function depthForNodeKind(kind: NodeKind): number {
+  return NODE_KINDS.indexOf(kind);
+}
+
+function validDepth(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * A node's depth: its own `depth`, else its taxonomy level, else the
+ * shallowest depth of its kind. Nodes with none of these are roots.
+ */
+export function nodeDepth(node: { depth?: number | null; type?: string; taxonomy?: { level?: number } | null }): number {
+  if (validDepth(node.depth)) return node.depth;
+  if (validDepth(node.taxonomy?.level)) return node.taxonomy!.level;
+  return isNodeKind(node.type) ? depthForNodeKind(node.type) : 0;
+}
+
+/**
+ * The kind for loosely typed input (model output, imports, older clients): a
+ * known kind is kept, anything else falls back to the kind for `depth`.
+ */
+export function normalizeNodeKind(value: unknown, depth = 0): NodeKind {
+  return isNodeKind(value) ? value : nodeKindForDepth(depth);
+}
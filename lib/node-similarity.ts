@@ -0,0 +1,196 @@
+/**
+ * Local duplicate detection for research nodes. Nothing is sent to a model:
+ * two nodes are compared on their normalized titles, word shingles of their
+ * content and the sources they cite. Shared by the duplicates route and the
+ * visualization, so it must stay free of server-only imports.
+ */
+
+export interface SimilarityNode {
+  id: string;
+  title: string;
+  content?: string;
+  /** Source titles or URLs. */
+  sources?: string[];
+  parentId?: string | null;
+}
+
+export interface SimilarityScores {
+  title: number;
+  /** Null when either node has no content to compare. */
+  content: number | null;
+  /** Null when either node has no sources. */
+  sources: number | null;
+}
+
+export interface DuplicateCandidate {
+  /** The pair, in input order; the first is the suggested node to keep. */
+  ids: [string, string];
+  score: number;
+  scores: SimilarityScores;
+  reasons: string[];
+}
+
+export interface DuplicateOptions {
+  /** Minimum combined score for a pair to be suggested. */
+  threshold?: number;
+  /** Most pairs to return, best first. */
+  limit?: number;
+}
+
+export const DUPLICATE_THRESHOLD = 0.5;
+
+// Weights of the combined score; parts a pair has no data for are left out
+const WEIGHTS = { title: 0.5, content: 0.3, sources: 0.2 };
+
+const SHINGLE_SIZE = 3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is',
+  'its', 'of', 'on', 'or', 'the', 'their', 'to', 'with',
+]);
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function words(text: string): string[] {
+  return normalizeText(text).split(' ').filter(Boolean);
+}
+
+// Crude plural folding, so "Basics" matches "Basic"
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+export function titleTokens(title: string): Set<string> {
+  return new Set(words(title).filter(word => !STOP_WORDS.has(word)).map(stem));
+}
+
+/**
+ * Overlapping runs of `size` words. Text shorter than that is one shingle.
+ */
+export function shingles(text: string, size = SHINGLE_SIZE): Set<string> {
+  const tokens = words(text).map(stem);
+  if (tokens.length === 0) return new Set();
+  if (tokens.length <= size) return new Set([tokens.join(' ')]);
+
+  const result = new Set<string>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+function sourceKey(source: string): string {
+  return source
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/#?]+$/, '');
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return shared;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const shared = intersectionSize(a, b);
+  return shared / (a.size + b.size - shared);
+}
+
+// Shared share of the smaller set, so a short title inside a longer one still counts
+function overlap(a: Set<string>, b: Set<string>): number {
+  const smaller = Math.min(a.size, b.size);
+  return smaller === 0 ? 0 : intersectionSize(a, b) / smaller;
+}
+
+interface Features {
+  node: SimilarityNode;
+  normalizedTitle: string;
+  titleTokens: Set<string>;
+  shingles: Set<string>;
+  sources: Set<string>;
+}
+
+function features(node: SimilarityNode): Features {
+  return {
+    node,
+    normalizedTitle: normalizeText(node.title),
+    titleTokens: titleTokens(node.title),
+    shingles: shingles(node.content || ''),
+    sources: new Set((node.sources || []).filter(Boolean).map(sourceKey)),
+  };
+}
+
+function compare(a: Features, b: Features): { score: number; scores: SimilarityScores; reasons: string[] } {
+  const sameTitle = a.normalizedTitle !== '' && a.normalizedTitle === b.normalizedTitle;
+  const scores: SimilarityScores = {
+    title: sameTitle ? 1 : (jaccard(a.titleTokens, b.titleTokens) + overlap(a.titleTokens, b.titleTokens)) / 2,
+    content: a.shingles.size && b.shingles.size ? jaccard(a.shingles, b.shingles) : null,
+    sources: a.sources.size && b.sources.size ? overlap(a.sources, b.sources) : null,
+  };
+
+  let weighted = WEIGHTS.title * scores.title;
+  let weights = WEIGHTS.title;
+  if (scores.content !== null) {
+    weighted += WEIGHTS.content * scores.content;
+    weights += WEIGHTS.content;
+  }
+  if (scores.sources !== null) {
+    weighted += WEIGHTS.sources * scores.sources;
+    weights += WEIGHTS.sources;
+  }
+  // An identical title is a duplicate whatever the content says
+  const score = Math.max(weighted / weights, sameTitle ? 0.9 : 0);
+
+  const reasons: string[] = [];
+  if (sameTitle) reasons.push('Same title');
+  else if (scores.title >= 0.5) reasons.push('Similar titles');
+  if (scores.content !== null && scores.content >= 0.3) reasons.push('Overlapping content');
+  const sharedSources = intersectionSize(a.sources, b.sources);
+  if (sharedSources > 0) reasons.push(`${sharedSources} shared source${sharedSources === 1 ? '' : 's'}`);
+
+  return { score: Math.round(score * 100) / 100, scores, reasons };
+}
+
+export function nodeSimilarity(a: SimilarityNode, b: SimilarityNode) {
+  return compare(features(a), features(b));
+}
+
+/**
+ * Pairs of nodes similar enough to be merge candidates, best first. A node and
+ * its own parent are never paired: drill-down children often repeat the
+ * parent's title by design.
+ */
+export function findDuplicateCandidates(nodes: SimilarityNode[], options: DuplicateOptions = {}): DuplicateCandidate[] {
+  const threshold = options.threshold ?? DUPLICATE_THRESHOLD;
+  const all = nodes.map(features);
+  const candidates: DuplicateCandidate[] = [];
+
+  for (let i = 0; i < all.length; i++) {
+    for (let j = i + 1; j < all.length; j++) {
+      const a = all[i].node;
+      const b = all[j].node;
+      if (a.id === b.id || a.parentId === b.id || b.parentId === a.id) continue;
+
+      const { score, scores, reasons } = compare(all[i], all[j]);
+      if (score >= threshold) {
+        candidates.push({ ids: [a.id, b.id], score, scores, reasons });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  return options.limit !== undefined ? candidates.slice(0, options.limit) : candidates;
+}
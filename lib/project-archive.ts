@@ -0,0 +1,194 @@
+/**
+ * The .kniit archive: one JSON file holding a project document (outline,
+ * summary, chat history, drafts) together with the research rows behind it
+ * (nodes with their sources, edges and conflicts), so a project can move
+ * between accounts and environments. IDs inside an archive are only
+ * meaningful within it; importing assigns fresh ones.
+ */
+import { z } from 'zod';
+import { ValidationError } from '@/lib/error-handling';
+import { parseProjectDocument, ProjectDocument } from '@/lib/project-document';
+
+export const KNIIT_ARCHIVE_FORMAT = 'kniit';
+export const KNIIT_ARCHIVE_VERSION = 1;
+export const KNIIT_FILE_EXTENSION = 'kniit';
+
+export const ArchiveNodeSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  content: z.string(),
+  type: z.string(),
+  depth: z.number().int(),
+  lens: z.string(),
+  detailLevel: z.string(),
+  confidence: z.number().nullable(),
+  tags: z.array(z.string()),
+  parentId: z.string().nullable(),
+  sources: z.array(z.object({ url: z.string().nullable(), title: z.string().nullable() })),
+});
+
+export const ArchiveEdgeSchema = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+  type: z.string(),
+  weight: z.number(),
+  provenance: z.string().nullable(),
+});
+
+export const ArchiveConflictSchema = z.object({
+  title: z.string().nullable(),
+  type: z.string().nullable(),
+  severity: z.string().nullable(),
+  description: z.string(),
+  nodeIds: z.array(z.string()),
+});
+
+export const ArchiveManifestSchema = z.object({
+  format: z.literal(KNIIT_ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  title: z.string().min(1).max(200),
+  counts: z.record(z.number()).optional(), // Informational only
+});
+
+export const ProjectArchiveSchema = z.object({
+  manifest: ArchiveManifestSchema,
+  document: z.unknown(), // Validated (and migrated) by parseProjectDocument
+  research: z.object({
+    nodes: z.array(ArchiveNodeSchema),
+    edges: z.array(ArchiveEdgeSchema),
+    conflicts: z.array(ArchiveConflictSchema),
+  }),
+});
+
+export type ArchiveNode = z.infer<typeof ArchiveNodeSchema>;
+export type ArchiveEdge = z.infer<typeof ArchiveEdgeSchema>;
+export type ArchiveConflict = z.infer<typeof ArchiveConflictSchema>;
+export type ArchiveManifest = z.infer<typeof ArchiveManifestSchema>;
+
+export interface ProjectArchive {
+  manifest: ArchiveManifest;
+  document: ProjectDocument;
+  research: {
+    nodes: ArchiveNode[];
+    edges: ArchiveEdge[];
+    conflicts: ArchiveConflict[];
+  };
+}
+
+export function createProjectArchive(
+  title: string,
+  document: ProjectDocument,
+  research: ProjectArchive['research']
+): ProjectArchive {
+  return {
+    manifest: {
+      format: KNIIT_ARCHIVE_FORMAT,
+      version: KNIIT_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      title,
+      counts: {
+        nodes: research.nodes.length,
+        edges: research.edges.length,
+        sources: research.nodes.reduce((total, node) => total + node.sources.length, 0),
+        conflicts: research.conflicts.length,
+        outlineNodes: document.nodes.length,
+        chatMessages: document.chat.length,
+        drafts: document.drafts.length,
+      },
+    },
+    document,
+    research,
+  };
+}
+
+/**
+ * Validate an uploaded archive, migrating its project document to the
+ * current version. Throws ValidationError (or ProjectDocumentError for the
+ * embedded document) with a readable message when it is not usable.
+ */
+export function parseProjectArchive(raw: unknown): ProjectArchive {
+  const manifest = (raw as any)?.manifest;
+  if (manifest?.format !== KNIIT_ARCHIVE_FORMAT) {
+    throw new ValidationError('Not a KniitNon project archive');
+  }
+  if (typeof manifest.version === 'number' && manifest.version > KNIIT_ARCHIVE_VERSION) {
+    throw new ValidationError(
+      `Archive was exported by a newer version of KniitNon (archive version ${manifest.version}); please update to import it`
+    );
+  }
+
+  const result = ProjectArchiveSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.errors
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || 'archive'}: ${issue.message}`);
+    throw new ValidationError(`Archive is corrupt (${problems.join('; ')})`, result.error.errors);
+  }
+
+  return { ...result.data, document: parseProjectDocument(result.data.document) };
+}
+
+/**
+ * Copy of the archive with every node ID replaced by `newId()`, keeping
+ * references (parents, edges, conflicts, outline nodes, selection and the
+ * legacy relationship lists) pointing at the same nodes. References to nodes
+ * outside the archive are dropped, as are document conflicts about them.
+ */
+export function remapArchiveIds(archive: ProjectArchive, newId: () => string): ProjectArchive {
+  const ids = new Map<string, string>();
+  const assign = (id: string) => {
+    if (!ids.has(id)) ids.set(id, newId());
+    return ids.get(id)!;
+  };
+
+  archive.research.nodes.forEach(node => assign(node.id));
+  archive.document.nodes.forEach(node => assign(node.id));
+
+  const mapped = (id: string | null | undefined) => (id ? ids.get(id) : undefined);
+  const mappedList = (list: string[]) => list.map(id => ids.get(id)).filter((id): id is string => Boolean(id));
+
+  const { document, research } = archive;
+
+  return {
+    manifest: archive.manifest,
+    document: {
+      ...document,
+      nodes: document.nodes.map(node => ({
+        ...node,
+        id: ids.get(node.id)!,
+        parentId: mapped(node.parentId),
+        ...(node.metadata && {
+          metadata: {
+            ...node.metadata,
+            ...(node.metadata.relationships && { relationships: mappedList(node.metadata.relationships) }),
+          },
+        }),
+      })),
+      conflicts: document.conflicts
+        .filter(conflict => typeof conflict.nodeId !== 'string' || ids.has(conflict.nodeId))
+        .map(conflict => ({
+          ...conflict,
+          ...(typeof conflict.nodeId === 'string' && { nodeId: ids.get(conflict.nodeId) }),
+          ...(Array.isArray(conflict.relatedNodes) && { relatedNodes: mappedList(conflict.relatedNodes) }),
+        })),
+      visualization: {
+        ...document.visualization,
+        selectedNodeIds: mappedList(document.visualization.selectedNodeIds),
+      },
+    },
+    research: {
+      nodes: research.nodes.map(node => ({
+        ...node,
+        id: ids.get(node.id)!,
+        parentId: mapped(node.parentId) ?? null,
+      })),
+      edges: research.edges
+        .filter(edge => ids.has(edge.sourceId) && ids.has(edge.targetId))
+        .map(edge => ({ ...edge, sourceId: ids.get(edge.sourceId)!, targetId: ids.get(edge.targetId)! })),
+      conflicts: research.conflicts
+        .map(conflict => ({ ...conflict, nodeIds: mappedList(conflict.nodeIds) }))
+        .filter(conflict => conflict.nodeIds.length > 0),
+    },
+  };
+}
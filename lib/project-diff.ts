@@ -0,0 +1,106 @@
+/**
+ * Structural diff between two snapshots of a saved project (SavedPath.data),
+ * used by the revision history to describe and compare saves.
+ */
+
+export interface ProjectSnapshot {
+  title?: string;
+  data: any;
+}
+
+export interface NodeChange {
+  id: string;
+  title: string;
+  fields: string[];
+}
+
+export interface ProjectDiff {
+  titleChanged: { from: string; to: string } | null;
+  nodes: {
+    added: Array<{ id: string; title: string }>;
+    removed: Array<{ id: string; title: string }>;
+    modified: NodeChange[];
+  };
+  conflicts: { before: number; after: number };
+  summaryChanged: boolean;
+}
+
+// Node fields compared for modifications; children are compared by ID only
+const COMPARED_NODE_FIELDS = ['title', 'content', 'type', 'order', 'parentId', 'metadata'];
+
+function nodesById(data: any): Map<string, any> {
+  const nodes: any[] = Array.isArray(data?.nodes) ? data.nodes : [];
+  return new Map(nodes.filter(node => node && node.id).map(node => [String(node.id), node]));
+}
+
+function changedFields(before: any, after: any): string[] {
+  const fields = COMPARED_NODE_FIELDS.filter(
+    field => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+
+  const childIds = (node: any) => (Array.isArray(node.children) ? node.children.map((c: any) => c?.id ?? c) : []);
+  if (JSON.stringify(childIds(before)) !== JSON.stringify(childIds(after))) {
+    fields.push('children');
+  }
+
+  return fields;
+}
+
+export function diffProjectData(before: ProjectSnapshot, after: ProjectSnapshot): ProjectDiff {
+  const beforeNodes = nodesById(before.data);
+  const afterNodes = nodesById(after.data);
+
+  const added = Array.from(afterNodes.values())
+    .filter(node => !beforeNodes.has(String(node.id)))
+    .map(node => ({ id: String(node.id), title: node.title || 'Untitled' }));
+
+  const removed = Array.from(beforeNodes.values())
+    .filter(node => !afterNodes.has(String(node.id)))
+    .map(node => ({ id: String(node.id), title: node.title || 'Untitled' }));
+
+  const modified: NodeChange[] = [];
+  afterNodes.forEach((node, id) => {
+    const previous = beforeNodes.get(id);
+    if (!previous) return;
+
+    const fields = changedFields(previous, node);
+    if (fields.length > 0) {
+      modified.push({ id, title: node.title || 'Untitled', fields });
+    }
+  });
+
+  const conflictCount = (data: any) => (Array.isArray(data?.conflicts) ? data.conflicts.length : 0);
+
+  return {
+    titleChanged:
+      before.title !== undefined && after.title !== undefined && before.title !== after.title
+        ? { from: before.title, to: after.title }
+        : null,
+    nodes: { added, removed, modified },
+    conflicts: { before: conflictCount(before.data), after: conflictCount(after.data) },
+    summaryChanged: JSON.stringify(before.data?.summary ?? null) !== JSON.stringify(after.data?.summary ?? null),
+  };
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * One-line, human-readable description of a diff, used as the default change summary.
+ */
+export function describeProjectDiff(diff: ProjectDiff): string {
+  const parts: string[] = [];
+
+  if (diff.titleChanged) parts.push(`renamed to "${diff.titleChanged.to}"`);
+  if (diff.nodes.added.length) parts.push(`added ${plural(diff.nodes.added.length, 'node')}`);
+  if (diff.nodes.removed.length) parts.push(`removed ${plural(diff.nodes.removed.length, 'node')}`);
+  if (diff.nodes.modified.length) parts.push(`edited ${plural(diff.nodes.modified.length, 'node')}`);
+  if (diff.conflicts.before !== diff.conflicts.after) {
+    parts.push(`conflicts ${diff.conflicts.before} → ${diff.conflicts.after}`);
+  }
+  if (diff.summaryChanged) parts.push('updated summary');
+
+  if (parts.length === 0) return 'No changes';
+
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
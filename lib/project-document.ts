@@ -0,0 +1,186 @@
+/**
+ * Versioned schema for the project document stored in SavedPath.data.
+ *
+ * Documents are upgraded through MIGRATIONS one version at a time before they
+ * are validated, so a project saved by any earlier release still loads. Used
+ * by the outline store and the project API routes, so it must stay free of
+ * server-only imports.
+ */
+import { z } from 'zod';
+import { ProjectDocumentError } from '@/lib/error-handling';
+import { NodeKindSchema, depthForNodeKind, isNodeKind, nodeDepth } from '@/lib/node-kinds';
+
+export const PROJECT_DOCUMENT_VERSION = 3;
+
+export const ProjectNodeSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  content: z.string().optional(),
+  type: NodeKindSchema,
+  depth: z.number().int().min(0), // Depth in the research tree (see lib/node-kinds)
+  order: z.number(),
+  parentId: z.string().optional(),
+  metadata: z.object({
+    source: z.string().optional(),
+    confidence: z.number().optional(),
+    relationships: z.array(z.string()).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+export const ProjectVisualizationSchema = z.object({
+  detailLevel: z.enum(['low', 'medium', 'high']),
+  selectedNodeIds: z.array(z.string()),
+});
+
+export const ProjectChatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['system', 'user', 'assistant', 'function', 'data', 'tool']),
+  content: z.string(),
+  createdAt: z.string().optional(),
+});
+
+export const ProjectDraftSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  content: z.string(), // Editor HTML
+  updatedAt: z.string(),
+});
+
+export const ProjectDocumentSchema = z.object({
+  version: z.literal(PROJECT_DOCUMENT_VERSION),
+  nodes: z.array(ProjectNodeSchema),
+  outline: z.record(z.any()).nullable(), // Last generated outline (/api/research/outline response)
+  conflicts: z.array(z.record(z.any())),
+  summary: z.record(z.any()).nullable(),
+  visualization: ProjectVisualizationSchema,
+  chat: z.array(ProjectChatMessageSchema),
+  drafts: z.array(ProjectDraftSchema),
+  savedAt: z.string().optional(),
+});
+
+export type ProjectNode = z.infer<typeof ProjectNodeSchema>;
+export type ProjectVisualization = z.infer<typeof ProjectVisualizationSchema>;
+export type ProjectChatMessage = z.infer<typeof ProjectChatMessageSchema>;
+export type ProjectDraft = z.infer<typeof ProjectDraftSchema>;
+export type ProjectDocument = z.infer<typeof ProjectDocumentSchema>;
+
+type Migration = (document: Record<string, any>) => Record<string, any>;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // Unversioned documents: { nodes, conflicts, summary, timestamp } as saved by ProjectManager
+  0: ({ timestamp, ...document }) => ({
+    ...document,
+    version: 1,
+    nodes: Array.isArray(document.nodes)
+      ? document.nodes.map((node: any, index: number) =>
+          node && typeof node === 'object'
+            ? { ...node, id: node.id !== undefined ? String(node.id) : node.id, order: node.order ?? index }
+            : node
+        )
+      : document.nodes ?? [],
+    outline: null,
+    conflicts: document.conflicts ?? [],
+    summary: document.summary ?? null,
+    visualization: { detailLevel: 'medium', selectedNodeIds: [] },
+    savedAt: typeof timestamp === 'string' ? timestamp : undefined,
+  }),
+  // Version 1 had no chat history or editor drafts
+  1: document => ({
+    ...document,
+    version: 2,
+    chat: [],
+    drafts: [],
+  }),
+  // Version 2 nodes had only a topic/subtopic/detail type; their depth follows from it
+  2: document => ({
+    ...document,
+    version: 3,
+    nodes: Array.isArray(document.nodes)
+      ? document.nodes.map((node: any) =>
+          node && typeof node === 'object' && node.depth === undefined && isNodeKind(node.type)
+            ? { ...node, depth: depthForNodeKind(node.type) }
+            : node
+        )
+      : document.nodes,
+  }),
+};
+
+function documentVersion(document: Record<string, any>): number {
+  if (document.version === undefined) return 0;
+  if (!Number.isInteger(document.version) || document.version < 0) {
+    throw new ProjectDocumentError(`Unknown project document version: ${String(document.version)}`);
+  }
+  return document.version;
+}
+
+/**
+ * Upgrade a stored document to the current version without validating it.
+ */
+export function migrateProjectDocument(raw: unknown): Record<string, any> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ProjectDocumentError('Project data is not a document');
+  }
+
+  let document = raw as Record<string, any>;
+  let version = documentVersion(document);
+
+  if (version > PROJECT_DOCUMENT_VERSION) {
+    throw new ProjectDocumentError(
+      `Project was saved by a newer version of KniitNon (document version ${version}); please update to open it`
+    );
+  }
+
+  while (version < PROJECT_DOCUMENT_VERSION) {
+    document = MIGRATIONS[version](document);
+    version = documentVersion(document);
+  }
+
+  return document;
+}
+
+/**
+ * Migrate and validate stored project data. Throws ProjectDocumentError
+ * describing the first problems found when the document is corrupt.
+ */
+export function parseProjectDocument(raw: unknown): ProjectDocument {
+  const result = ProjectDocumentSchema.safeParse(migrateProjectDocument(raw));
+
+  if (!result.success) {
+    const problems = result.error.errors
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || 'document'}: ${issue.message}`);
+    throw new ProjectDocumentError(`Project data is corrupt (${problems.join('; ')})`, result.error.errors);
+  }
+
+  return result.data;
+}
+
+/**
+ * Build a current-version document from outline state, ready to save.
+ */
+export function createProjectDocument(state: {
+  nodes: Array<Pick<ProjectNode, 'id' | 'title' | 'type' | 'order'> & { depth?: number }>;
+  outlineContent: Record<string, any> | null;
+  conflicts: Record<string, any>[] | null;
+  summary: Record<string, any> | null;
+  detailLevel: ProjectVisualization['detailLevel'];
+  selectedNodeIds: string[];
+  chat?: ProjectChatMessage[];
+  drafts?: ProjectDraft[];
+}): ProjectDocument {
+  return {
+    version: PROJECT_DOCUMENT_VERSION,
+    nodes: state.nodes.map(node => ({ ...node, depth: nodeDepth(node) })) as ProjectNode[],
+    outline: state.outlineContent,
+    conflicts: state.conflicts ?? [],
+    summary: state.summary,
+    visualization: {
+      detailLevel: state.detailLevel,
+      selectedNodeIds: state.selectedNodeIds,
+    },
+    chat: state.chat ?? [],
+    drafts: state.drafts ?? [],
+    savedAt: new Date().toISOString(),
+  };
+}
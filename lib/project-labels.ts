@@ -0,0 +1,59 @@
+/**
+ * Folders, tags and search text for saved projects. Shared by the projects
+ * API and ProjectManager, so it must stay free of server-only imports.
+ */
+
+export const MAX_PROJECT_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_FOLDER_LENGTH = 100;
+
+export type ProjectSortField = 'updatedAt' | 'createdAt' | 'title';
+
+export const PROJECT_SORT_LABELS: Record<ProjectSortField, string> = {
+  updatedAt: 'Last updated',
+  createdAt: 'Date created',
+  title: 'Title',
+};
+
+/**
+ * Trim, collapse whitespace and drop empty or duplicate tags (compared
+ * case-insensitively, keeping the first spelling).
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    result.push(tag);
+  }
+
+  return result.slice(0, MAX_PROJECT_TAGS);
+}
+
+// Tags as typed into a single comma-separated field
+export function parseTagList(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
+
+// An empty folder name means the project is unfiled
+export function normalizeFolder(folder: string | null | undefined): string | null {
+  const name = folder?.trim().replace(/\s+/g, ' ').slice(0, MAX_FOLDER_LENGTH);
+  return name || null;
+}
+
+/**
+ * Text a project is found by: its title and the titles of the nodes in its
+ * document, lowercased so it can be matched with a plain substring search.
+ */
+export function projectSearchText(title: string, data: unknown): string {
+  const nodes = (data as any)?.nodes;
+  const nodeTitles = Array.isArray(nodes)
+    ? nodes.map(node => node?.title).filter((nodeTitle): nodeTitle is string => typeof nodeTitle === 'string')
+    : [];
+
+  return [title, ...nodeTitles].join('\n').toLowerCase();
+}
@@ -0,0 +1,37 @@
+/**
+ * Permission levels for shared projects. Shared by the API routes and the
+ * project manager UI, so it must stay free of server-only imports.
+ */
+
+// Roles a member can be invited with, from least to most privileged
+export const PROJECT_ROLES = ['viewer', 'commenter', 'editor'] as const;
+
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+// The owner is not stored as a member but outranks every member role
+export type ProjectAccessRole = ProjectRole | 'owner';
+
+const ROLE_RANK: Record<ProjectAccessRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export const PROJECT_ROLE_LABELS: Record<ProjectAccessRole, string> = {
+  viewer: 'Viewer',
+  commenter: 'Commenter',
+  editor: 'Editor',
+  owner: 'Owner',
+};
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === 'string' && (PROJECT_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `role` grants at least the permissions of `required`.
+ */
+export function hasProjectRole(role: ProjectAccessRole, required: ProjectAccessRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,402 @@
+import type { ZodType } from 'zod';
+import { AI_TASKS, AITask, resolveTaskModel } from '@/lib/ai/config';
+import { describeIssues, parseJSONResponse } from '@/lib/ai/json';
+import {
+  ChatNodesResponseSchema,
+  ConflictAnalysisResponseSchema,
+  DrillDownResponseSchema,
+  SearchResponseSchema,
+} from '@/lib/ai/schemas';
+import type { AIMessage, AIProvider } from '@/lib/ai/types';
+import { PromptDefinition, renderPrompt } from './registry';
+import {
+  CHAT_NODES_PROMPT,
+  CONFLICT_PROMPT,
+  CONFLICT_SYSTEM_PROMPT,
+  DRILL_DOWN_PROMPT,
+  DrillDownPromptInput,
+  SEARCH_PROMPT,
+  SUMMARY_PROMPT,
+  SUMMARY_SYSTEM_PROMPT,
+} from './research';
+import type { OutlineContext } from './types';
+import {
+  CONTENT_PROMPT,
+  CONTENT_SUGGESTIONS_PROMPT,
+  CONTENT_SYSTEM_PROMPT,
+  NODE_EXPLORATION_PROMPT,
+  OUTLINE_PROMPT,
+  OUTLINE_SUGGESTIONS_PROMPT,
+  OUTLINE_SYSTEM_PROMPT,
+  REFINEMENT_PROMPT,
+  REFINEMENT_SYSTEM_PROMPT,
+  STRUCTURE_SUGGESTIONS_PROMPT,
+  SUGGESTIONS_SYSTEM_PROMPT,
+} from './writing';
+
+/**
+ * Offline evaluation of the prompt registry (npm run eval:prompts). Each
+ * suite sends a prompt, rendered from recorded input fixtures, to a provider
+ * and scores the replies with structural checks: does the JSON parse and fit
+ * the route's schema, are there as many nodes as asked for, at the right
+ * depth, without duplicate titles. A run records the prompt version behind
+ * every score, so two runs compare one prompt version against another.
+ */
+
+export interface PromptExpectations {
+  /** Allowed number of nodes (or sections, or conflicts), inclusive. */
+  count?: [number, number];
+  /** Depth every node must have, or the allowed range. */
+  depth?: number | [number, number];
+}
+
+export interface PromptFixture<I = any> {
+  id: string;
+  description?: string;
+  input: I;
+  /** Replaces the expectations the suite derives from the input. */
+  expect?: PromptExpectations;
+}
+
+export interface PromptCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface PromptEvalSuite<I = any> {
+  prompt: PromptDefinition<I, any>;
+  /** Sent before the prompt, as the route does. */
+  system?: PromptDefinition<{}, any>;
+  task: AITask;
+  /** Whether the route expects a JSON object back. */
+  json: boolean;
+  schema?: ZodType;
+  /** The nodes, or other list the expectations apply to, in a parsed reply. */
+  items?: (data: any) => unknown;
+  expect?: (input: I) => PromptExpectations;
+  /** Checks only this prompt needs. */
+  checks?: (reply: { text: string; data?: any }, input: I) => PromptCheck[];
+}
+
+export interface PromptEvalResult {
+  promptId: string;
+  /** The prompt version that was evaluated, e.g. `research.drill-down@2`. */
+  ref: string;
+  fixtureId: string;
+  /** Share of checks passed, from 0 to 1. */
+  score: number;
+  checks: PromptCheck[];
+  error?: string;
+}
+
+export interface PromptEvalRun {
+  generatedAt: string;
+  provider: string;
+  results: PromptEvalResult[];
+}
+
+export interface PromptEvalComparison {
+  promptId: string;
+  baseline: { ref: string; score: number } | null;
+  current: { ref: string; score: number } | null;
+  delta: number;
+  /** "fixture: check" pairs that passed in the baseline and fail now. */
+  regressions: string[];
+  improvements: string[];
+}
+
+const nodes = (data: any) => data?.nodes;
+
+export const PROMPT_EVAL_SUITES: PromptEvalSuite[] = [
+  {
+    prompt: SEARCH_PROMPT,
+    task: 'search',
+    json: true,
+    schema: SearchResponseSchema,
+    items: nodes,
+    expect: () => ({ count: [8, 15], depth: [0, 2] }),
+  },
+  {
+    prompt: DRILL_DOWN_PROMPT,
+    task: 'drill-down',
+    json: true,
+    schema: DrillDownResponseSchema,
+    items: data => data?.drillDownNodes,
+    expect: (input: DrillDownPromptInput) => ({ count: [6, 10], depth: input.currentDepth + 1 }),
+  },
+  {
+    prompt: CHAT_NODES_PROMPT,
+    task: 'generate-from-chat',
+    json: true,
+    schema: ChatNodesResponseSchema,
+    items: nodes,
+    expect: () => ({ count: [5, 10], depth: [0, 2] }),
+  },
+  {
+    prompt: SUMMARY_PROMPT,
+    system: SUMMARY_SYSTEM_PROMPT,
+    task: 'summarize',
+    json: true,
+    checks: ({ data }) => [check('summary', typeof data?.summary === 'string' && data.summary.trim() !== '')],
+  },
+  {
+    prompt: CONFLICT_PROMPT,
+    system: CONFLICT_SYSTEM_PROMPT,
+    task: 'analyze-conflicts',
+    json: true,
+    schema: ConflictAnalysisResponseSchema,
+    checks: ({ data }, input: { nodes: Array<{ id: string }> }) => {
+      const known = new Set(input.nodes.map(node => node.id));
+      const unknown = (data?.conflicts ?? [])
+        .flatMap((conflict: any) => [conflict.nodeId, ...(conflict.relatedNodes ?? [])])
+        .filter((id: unknown) => !known.has(String(id)));
+      return [check('nodeReferences', unknown.length === 0, unknown.length ? `unknown node IDs: ${unknown.join(', ')}` : undefined)];
+    },
+  },
+  {
+    prompt: OUTLINE_PROMPT,
+    system: OUTLINE_SYSTEM_PROMPT,
+    task: 'generate-outline',
+    json: true,
+    items: data => data?.sections,
+    expect: (input: OutlineContext) => ({
+      count: input.detailLevel === 'low' ? [3, 5] : input.detailLevel === 'medium' ? [5, 8] : [5, 20],
+    }),
+  },
+  { prompt: CONTENT_PROMPT, system: CONTENT_SYSTEM_PROMPT, task: 'generate-content', json: false },
+  {
+    prompt: REFINEMENT_PROMPT,
+    system: REFINEMENT_SYSTEM_PROMPT,
+    task: 'refine-text',
+    json: false,
+    checks: ({ text }) => [check('sections', /IMPROVED TEXT:/i.test(text), 'no IMPROVED TEXT: section')],
+  },
+  { prompt: OUTLINE_SUGGESTIONS_PROMPT, system: SUGGESTIONS_SYSTEM_PROMPT, task: 'suggestions', json: false },
+  { prompt: NODE_EXPLORATION_PROMPT, system: SUGGESTIONS_SYSTEM_PROMPT, task: 'suggestions', json: false },
+  { prompt: STRUCTURE_SUGGESTIONS_PROMPT, system: SUGGESTIONS_SYSTEM_PROMPT, task: 'suggestions', json: false },
+  { prompt: CONTENT_SUGGESTIONS_PROMPT, system: SUGGESTIONS_SYSTEM_PROMPT, task: 'suggestions', json: false },
+];
+
+function check(name: string, passed: boolean, detail?: string): PromptCheck {
+  return passed ? { name, passed } : { name, passed, detail };
+}
+
+const inRange = (value: number, [min, max]: [number, number]) => value >= min && value <= max;
+
+function listChecks(items: unknown, expectations: PromptExpectations): PromptCheck[] {
+  if (!Array.isArray(items)) return [check('items', false, 'the reply has no list of nodes')];
+
+  const checks: PromptCheck[] = [];
+
+  if (expectations.count) {
+    const [min, max] = expectations.count;
+    checks.push(check('count', inRange(items.length, expectations.count), `${items.length} items, expected ${min}-${max}`));
+  }
+
+  if (expectations.depth !== undefined) {
+    const range: [number, number] = typeof expectations.depth === 'number'
+      ? [expectations.depth, expectations.depth]
+      : expectations.depth;
+    const wrong = items.filter((item: any) => typeof item?.depth !== 'number' || !inRange(item.depth, range));
+    checks.push(check(
+      'depth',
+      wrong.length === 0,
+      `${wrong.length} of ${items.length} items not at depth ${range[0] === range[1] ? range[0] : `${range[0]}-${range[1]}`}`
+    ));
+  }
+
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const item of items as any[]) {
+    const title = String(item?.title ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!title) continue;
+    if (seen.has(title)) duplicates.add(title);
+    seen.add(title);
+  }
+  checks.push(check('uniqueTitles', duplicates.size === 0, `duplicate titles: ${Array.from(duplicates).join(', ')}`));
+
+  return checks;
+}
+
+/**
+ * Score a reply. Exported so the checks can be tested without a provider.
+ */
+export function scoreReply<I>(suite: PromptEvalSuite<I>, fixture: PromptFixture<I>, text: string): PromptCheck[] {
+  const checks = [check('nonEmpty', text.trim() !== '', 'the reply is empty')];
+  let data: any;
+
+  if (suite.json) {
+    try {
+      data = parseJSONResponse(text);
+      checks.push(check('json', true));
+    } catch {
+      checks.push(check('json', false, 'the reply is not a JSON object, even after repair'));
+      return checks;
+    }
+
+    if (suite.schema) {
+      const result = suite.schema.safeParse(data);
+      checks.push(check('schema', result.success, result.success ? undefined : describeIssues(result.error.issues).join('; ')));
+    }
+  }
+
+  if (suite.items) {
+    const expectations = fixture.expect ?? suite.expect?.(fixture.input) ?? {};
+    checks.push(...listChecks(suite.items(data), expectations));
+  }
+
+  checks.push(...(suite.checks?.({ text, data }, fixture.input) ?? []));
+  return checks;
+}
+
+export function suiteMessages<I>(suite: PromptEvalSuite<I>, input: I): { messages: AIMessage[]; ref: string } {
+  const prompt = renderPrompt(suite.prompt, input);
+  const messages = suite.system ? [renderPrompt(suite.system, {}).message, prompt.message] : [prompt.message];
+  return { messages, ref: prompt.ref };
+}
+
+export async function evaluateFixture<I>(
+  suite: PromptEvalSuite<I>,
+  fixture: PromptFixture<I>,
+  provider: AIProvider
+): Promise<PromptEvalResult> {
+  const { messages, ref } = suiteMessages(suite, fixture.input);
+  const base = { promptId: suite.prompt.id, ref, fixtureId: fixture.id };
+
+  try {
+    const completion = await provider.complete({
+      task: suite.task,
+      model: resolveTaskModel(suite.task, provider.name, provider.defaultModel),
+      messages,
+      temperature: AI_TASKS[suite.task].temperature,
+      maxTokens: AI_TASKS[suite.task].maxTokens,
+      json: suite.json,
+    });
+
+    const checks = scoreReply(suite, fixture, completion.text);
+    const score = checks.filter(result => result.passed).length / checks.length;
+    return { ...base, score: Math.round(score * 1000) / 1000, checks };
+  } catch (error) {
+    return { ...base, score: 0, checks: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Run every suite that has fixtures, one request at a time.
+ */
+export async function runPromptEvals(
+  suites: PromptEvalSuite[],
+  fixtures: Record<string, PromptFixture[]>,
+  provider: AIProvider,
+  now = new Date()
+): Promise<PromptEvalRun> {
+  const results: PromptEvalResult[] = [];
+
+  for (const suite of suites) {
+    for (const fixture of fixtures[suite.prompt.id] ?? []) {
+      results.push(await evaluateFixture(suite, fixture, provider));
+    }
+  }
+
+  return { generatedAt: now.toISOString(), provider: provider.name, results };
+}
+
+function promptSummary(results: PromptEvalResult[]) {
+  if (results.length === 0) return null;
+  const score = results.reduce((sum, result) => sum + result.score, 0) / results.length;
+  return { ref: results[0].ref, score: Math.round(score * 1000) / 1000 };
+}
+
+// "fixture: check" for each failed check, or the error
+function failures(result: PromptEvalResult): Set<string> {
+  if (result.error) return new Set([`${result.fixtureId}: error`]);
+  return new Set(result.checks.filter(item => !item.passed).map(item => `${result.fixtureId}: ${item.name}`));
+}
+
+/**
+ * Compare two runs prompt by prompt. Fixtures only one run has are left out
+ * of the regression lists but still count towards that run's score.
+ */
+export function comparePromptEvals(baseline: PromptEvalRun, current: PromptEvalRun): PromptEvalComparison[] {
+  const promptIds = Array.from(new Set([...baseline.results, ...current.results].map(result => result.promptId)));
+
+  return promptIds.map(promptId => {
+    const before = baseline.results.filter(result => result.promptId === promptId);
+    const after = current.results.filter(result => result.promptId === promptId);
+    const regressions: string[] = [];
+    const improvements: string[] = [];
+
+    for (const result of after) {
+      const previous = before.find(candidate => candidate.fixtureId === result.fixtureId);
+      if (!previous) continue;
+      const was = failures(previous);
+      const now = failures(result);
+      now.forEach(failure => { if (!was.has(failure)) regressions.push(failure); });
+      was.forEach(failure => { if (!now.has(failure)) improvements.push(failure); });
+    }
+
+    const baselineSummary = promptSummary(before);
+    const currentSummary = promptSummary(after);
+
+    return {
+      promptId,
+      baseline: baselineSummary,
+      current: currentSummary,
+      delta: Math.round(((currentSummary?.score ?? 0) - (baselineSummary?.score ?? 0)) * 1000) / 1000,
+      regressions,
+      improvements,
+    };
+  });
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+/**
+ * A Markdown report of a run, compared with a baseline run when given.
+ */
+export function formatPromptEvalReport(current: PromptEvalRun, baseline?: PromptEvalRun | null): string {
+  const lines = [
+    '# Prompt evaluation',
+    '',
+    `Provider: ${current.provider}, run at ${current.generatedAt}${baseline ? `, compared with ${baseline.provider} at ${baseline.generatedAt}` : ''}.`,
+    '',
+  ];
+
+  if (baseline) {
+    const comparisons = comparePromptEvals(baseline, current);
+    lines.push('| Prompt | Baseline | Current | Change |', '|---|---|---|---|');
+    for (const item of comparisons) {
+      const before = item.baseline ? `${item.baseline.ref} ${percent(item.baseline.score)}` : '-';
+      const after = item.current ? `${item.current.ref} ${percent(item.current.score)}` : '-';
+      const change = item.delta === 0 ? '' : `${item.delta > 0 ? '+' : ''}${Math.round(item.delta * 100)} pts`;
+      lines.push(`| ${item.promptId} | ${before} | ${after} | ${change} |`);
+    }
+
+    for (const item of comparisons.filter(candidate => candidate.regressions.length || candidate.improvements.length)) {
+      lines.push('', `## ${item.promptId}`, '');
+      item.regressions.forEach(failure => lines.push(`- Regressed: ${failure}`));
+      item.improvements.forEach(failure => lines.push(`- Fixed: ${failure}`));
+    }
+  } else {
+    lines.push('| Prompt | Version | Fixtures | Score |', '|---|---|---|---|');
+    for (const promptId of Array.from(new Set(current.results.map(result => result.promptId)))) {
+      const results = current.results.filter(result => result.promptId === promptId);
+      const summary = promptSummary(results)!;
+      lines.push(`| ${promptId} | ${summary.ref} | ${results.length} | ${percent(summary.score)} |`);
+    }
+  }
+
+  const failed = current.results.filter(result => result.error || result.checks.some(item => !item.passed));
+  if (failed.length) {
+    lines.push('', '## Failures', '');
+    for (const result of failed) {
+      const problems = result.error
+        ? [result.error]
+        : result.checks.filter(item => !item.passed).map(item => `${item.name}${item.detail ? ` (${item.detail})` : ''}`);
+      lines.push(`- ${result.ref} / ${result.fixtureId}: ${problems.join('; ')}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,20 @@
+/**
+ * The prompt registry: every prompt the app sends to a model, by ID and
+ * version. Routes render prompts through PromptOverrideService so a project's
+ * overrides apply; see lib/prompts/registry.ts for the template format.
+ */
+
+import type { PromptDefinition } from './registry';
+import { RESEARCH_PROMPTS } from './research';
+import { WRITING_PROMPTS } from './writing';
+
+export type * from './types';
+export * from './registry';
+export * from './research';
+export * from './writing';
+
+export const PROMPTS: PromptDefinition[] = [...RESEARCH_PROMPTS, ...WRITING_PROMPTS];
+
+export function getPrompt(id: string): PromptDefinition | undefined {
+  return PROMPTS.find(prompt => prompt.id === id);
+}
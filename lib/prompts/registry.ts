@@ -0,0 +1,91 @@
+import type { AIMessage, AIMessageRole } from '@/lib/ai/types';
+
+/**
+ * Every prompt sent to a model is a PromptDefinition: an ID, a version that
+ * is bumped whenever the wording changes, and a template whose {{variable}}
+ * placeholders are filled from typed input. Projects may replace a template
+ * or add instructions to it (see lib/services/prompt-overrides.ts); the
+ * rendered prompt's `ref` records exactly which text was used.
+ */
+
+export type PromptValues<V extends string> = Record<V, string | number>;
+
+export interface PromptDefinition<I = any, V extends string = string> {
+  id: string;
+  version: number;
+  role: AIMessageRole;
+  description: string;
+  /** The placeholders a template may use, with what each holds. */
+  variables: Record<V, string>;
+  template: string;
+  /** Turns the caller's input into placeholder values; without it the input is the values. */
+  prepare?: (input: I) => PromptValues<V>;
+}
+
+/** A project's replacement for one prompt. */
+export interface PromptOverride {
+  promptId: string;
+  /** Replaces the built-in template. */
+  template?: string | null;
+  /** Appended to the (built-in or replaced) template, e.g. a house style or glossary. */
+  instructions?: string | null;
+  /** Bumped on every change to the override. */
+  version: number;
+}
+
+export interface RenderedPrompt {
+  message: AIMessage;
+  /** e.g. `research.search@1`, or `research.search@1+override.3` for a project's override. */
+  ref: string;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function definePrompt<V extends string, I = PromptValues<V>>(
+  definition: PromptDefinition<I, V>
+): PromptDefinition<I, V> {
+  return definition;
+}
+
+// Placeholder names used in a template, in order of first use
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1])));
+}
+
+// Placeholders an override uses that the prompt does not provide
+export function unknownPlaceholders(prompt: PromptDefinition, text: string): string[] {
+  return templatePlaceholders(text).filter(name => !(name in prompt.variables));
+}
+
+/**
+ * Fill placeholders in one pass, so values that happen to contain `{{...}}`
+ * are left alone. Unknown placeholders are kept as written.
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : placeholder
+  );
+}
+
+export function promptRef(prompt: PromptDefinition, override?: PromptOverride | null): string {
+  const ref = `${prompt.id}@${prompt.version}`;
+  return override ? `${ref}+override.${override.version}` : ref;
+}
+
+export function renderPrompt<I>(
+  prompt: PromptDefinition<I, any>,
+  input: I,
+  override?: PromptOverride | null
+): RenderedPrompt {
+  const values = prompt.prepare ? prompt.prepare(input) : (input as Record<string, string | number>);
+
+  let template = override?.template || prompt.template;
+  if (override?.instructions) {
+    template = `${template}\n\n${override.instructions}`;
+  }
+
+  return {
+    message: { role: prompt.role, content: fillTemplate(template, values) },
+    ref: promptRef(prompt, override),
+  };
+}
@@ -0,0 +1,373 @@
+import { nodeKindForDepth } from '@/lib/node-kinds';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+import { definePrompt } from './registry';
+
+/**
+ * Prompts for the /api/research routes that build and analyze the research graph.
+ */
+
+interface PromptNode {
+  id: string;
+  title: string;
+  content: string;
+  type?: string;
+  source?: string;
+}
+
+export const SEARCH_PROMPT = definePrompt({
+  id: 'research.search',
+  version: 1,
+  role: 'system',
+  description: 'Builds a research map of 8-15 connected nodes from a search query',
+  variables: {
+    query: 'The search query',
+    perspective: 'Research perspective, e.g. "general"',
+  },
+  template: `You are a research assistant that generates comprehensive research nodes for academic exploration from a search query.
+
+Given a search query, create a structured research map with interconnected nodes that provide a 10,000-foot view of the topic and drill down into specific subtopics and details. Generate nodes that would be found in academic research, including:
+
+1. Main conceptual frameworks
+2. Historical development and context
+3. Current research and findings
+4. Debates and controversies
+5. Practical applications
+6. Future directions
+7. Cross-disciplinary connections
+
+Return a JSON response with this structure:
+
+{
+  "query": "The original search query",
+  "perspective": "{{perspective}}",
+  "summary": "Brief overview of the research area generated",
+  "nodes": [
+    {
+      "id": "unique-id",
+      "title": "Node Title",
+      "content": "Comprehensive content with academic depth",
+      "type": "topic" | "subtopic" | "detail",
+      "connections": ["id1", "id2"],
+      "source": "Academic source or research area",
+      "depth": 0-2,
+      "lens": "Technology" | "Science" | "History" | "Philosophy" | "Ethics" | "Economics" | "Psychology" | "Sociology" | "Other",
+      "conflicts": ["conflicting-node-id"],
+      "children": [],
+      "parents": []
+    }
+  ]
+}
+
+Guidelines:
+- Generate 8-15 nodes for comprehensive coverage
+- Include diverse node types (topics, subtopics, details)
+- Create meaningful connections between related concepts
+- Include potential conflicts or debates between ideas
+- Ensure academic rigor and depth in content
+- Cover multiple perspectives and disciplinary lenses
+- Include both foundational concepts and cutting-edge research
+
+Search Query: "{{query}}"
+Research Perspective: "{{perspective}}"`,
+});
+
+function depthGuidance(depth: number): string {
+  switch (depth) {
+    case 1: return 'Create main subtopics and primary categories';
+    case 2: return 'Create specific aspects and detailed components';
+    case 3: return 'Create granular elements and specialized areas';
+    case 4: return 'Create micro-details and technical specifics';
+    default: return 'Create ultra-specific elements and edge cases';
+  }
+}
+
+export interface DrillDownPromptInput {
+  nodeId: string;
+  title: string;
+  content: string;
+  type: string;
+  lens?: string;
+  currentDepth: number;
+  /** How many nodes to ask for; 6-10 when omitted. */
+  count?: number;
+  /** Titles the new nodes must not repeat, e.g. existing siblings and ancestors. */
+  avoidTitles?: string[];
+}
+
+function avoidedTitles(titles: string[] = []): string {
+  if (titles.length === 0) return '';
+  return `\n\nALREADY COVERED (do not repeat these titles or close variants of them):\n${titles.map(title => `- "${title}"`).join('\n')}`;
+}
+
+export const DRILL_DOWN_PROMPT = definePrompt({
+  id: 'research.drill-down',
+  version: 2,
+  role: 'system',
+  description: 'Subdivides a node into 6-10 (or a requested number of) nodes one level deeper',
+  variables: {
+    nodeId: 'ID of the node being drilled into',
+    title: 'Parent node title',
+    content: 'Parent node content',
+    type: 'Parent node type',
+    lens: 'Parent node lens, or "General"',
+    currentDepth: 'Depth of the parent node',
+    targetDepth: 'Depth of the new nodes',
+    childType: 'Node type for the new nodes',
+    depthGuidance: 'What nodes at the target depth should cover',
+    count: 'How many nodes to generate, "6-10" by default',
+    avoidTitles: 'Titles already in the tree that must not be repeated, as a list; empty when there are none',
+  },
+  template: `You are a research assistant that creates taxonomic progressions for deep research exploration.
+
+OBJECTIVE: Generate {{count}} research nodes that are ONE LEVEL DEEPER in the taxonomic hierarchy than the parent node.
+
+TAXONOMIC PRINCIPLES:
+- Follow natural classification hierarchies (broad → specific → granular → micro-details)
+- Each new node should be a logical subdivision of the parent topic
+- Maintain conceptual coherence while enabling deeper exploration
+- Create meaningful connections that preserve the research thread
+
+PARENT NODE CONTEXT:
+- Title: "{{title}}"
+- Content: "{{content}}"
+- Current Depth: {{currentDepth}}
+- Target Depth: {{targetDepth}}
+- Type: "{{type}}"
+- Lens: "{{lens}}"
+
+DEPTH GUIDANCE:
+{{depthGuidance}}{{avoidTitles}}
+
+REQUIREMENTS:
+1. Each node title should clearly indicate its relationship to the parent
+2. Content should be substantive and academically rigorous
+3. Create logical connections between the new nodes when appropriate
+4. Ensure nodes can be further subdivided for infinite exploration
+5. Maintain the research thread from "{{title}}" through deeper levels
+6. Where one new node bears on another, add a typed relationship (${RELATIONSHIP_TYPES.join(', ')}) with a weight from 0 to 1 and a short note explaining it
+
+Return ONLY valid JSON in this exact structure:
+{
+  "parentNode": {
+    "id": "{{nodeId}}",
+    "title": "{{title}}",
+    "depth": {{currentDepth}}
+  },
+  "drillDownNodes": [
+    {
+      "id": "drill-{{nodeId}}-1",
+      "title": "Specific Subdivision Title",
+      "content": "Detailed content that builds on the parent topic with academic depth and specificity appropriate for depth level {{targetDepth}}",
+      "type": "{{childType}}",
+      "connections": ["{{nodeId}}"],
+      "relationships": [
+        { "target": "id of another new node", "type": "supports", "weight": 0.7, "note": "Why the two are related" }
+      ],
+      "source": "Research area or academic source",
+      "depth": {{targetDepth}},
+      "lens": "{{lens}}",
+      "parentId": "{{nodeId}}",
+      "taxonomy": {
+        "level": {{targetDepth}},
+        "parent": "{{title}}",
+        "branch": "subdivision-name"
+      }
+    }
+  ]
+}
+
+CRITICAL: Generate nodes that can themselves be further subdivided to enable infinite drilling down from any topic to any level of detail.`,
+  prepare: (input: DrillDownPromptInput) => {
+    const targetDepth = input.currentDepth + 1;
+    return {
+      nodeId: input.nodeId,
+      title: input.title,
+      content: input.content,
+      type: input.type,
+      lens: input.lens || 'General',
+      currentDepth: input.currentDepth,
+      targetDepth,
+      childType: nodeKindForDepth(targetDepth),
+      depthGuidance: depthGuidance(targetDepth),
+      count: input.count ? String(input.count) : '6-10',
+      avoidTitles: avoidedTitles(input.avoidTitles),
+    };
+  },
+});
+
+export const CHAT_NODES_PROMPT = definePrompt({
+  id: 'research.from-chat',
+  version: 1,
+  role: 'system',
+  description: 'Extracts research nodes from a chat conversation',
+  variables: {
+    conversation: 'The conversation, one "User: ..." or "AI: ..." line per message',
+  },
+  template: `You are a research assistant that converts conversations into structured research nodes for academic exploration.
+
+Given a chat conversation, extract the main topics, subtopics, and details that would be valuable for research. Generate a JSON response with research nodes that follow this structure:
+
+{
+  "summary": "Brief summary of the conversation topics",
+  "nodes": [
+    {
+      "id": "unique-id",
+      "title": "Node Title",
+      "content": "Detailed content about this research area",
+      "type": "topic" | "subtopic" | "detail",
+      "connections": ["id1", "id2"], // IDs of related nodes
+      "relationships": [ // Optional typed links to other nodes in this list
+        { "target": "id1", "type": ${RELATIONSHIP_TYPES.map(type => `"${type}"`).join(' | ')}, "weight": 0.0-1.0, "note": "Why they are linked" }
+      ],
+      "source": "Derived from conversation",
+      "depth": 0-2, // 0 = main topic, 1 = subtopic, 2 = detail
+      "lens": "Technology" | "Science" | "History" | "Philosophy" | "Ethics" | "Other"
+    }
+  ]
+}
+
+Make sure to:
+1. Create meaningful connections between related concepts, typing them with relationships wherever the conversation makes the link clear
+2. Include at least 5-10 nodes for a rich research experience
+3. Vary the types (topic, subtopic, detail) appropriately
+4. Extract specific details that can lead to further research
+5. Ensure each node has substantial content for exploration
+
+Conversation to analyze:
+{{conversation}}`,
+  prepare: (input: { messages: Array<{ role: string; content: string }> }) => ({
+    conversation: input.messages
+      .map(message => `${message.role === 'user' ? 'User' : 'AI'}: ${message.content}`)
+      .join('\n'),
+  }),
+});
+
+export const SUMMARY_SYSTEM_PROMPT = definePrompt({
+  id: 'research.summarize.system',
+  version: 1,
+  role: 'system',
+  description: 'Sets up the model as a research analyst for summaries',
+  variables: {},
+  template: 'You are an expert research analyst who excels at synthesizing information from multiple sources and identifying patterns, relationships, and conflicts in academic content.',
+});
+
+const SUMMARY_INSTRUCTIONS: Record<string, string> = {
+  overview: 'Provide a comprehensive overview summary of the following research nodes. Focus on the main themes, key concepts, and overall narrative. Keep it concise but informative',
+  detailed: 'Provide a detailed analysis of the following research nodes. Include specific data points, methodologies, and nuanced insights. Aim for depth over breadth',
+  connections: 'Analyze the relationships and connections between the following research nodes. Focus on how they relate to each other, shared themes, and interconnected concepts',
+  conflicts: 'Identify any conflicts, contradictions, or areas of debate between the following research nodes. Highlight disagreements in the literature or conflicting viewpoints',
+};
+
+export interface SummaryPromptInput {
+  nodes: PromptNode[];
+  summaryType: string;
+  includeRelationships: boolean;
+  includeConflicts: boolean;
+  maxLength: number;
+}
+
+export const SUMMARY_PROMPT = definePrompt({
+  id: 'research.summarize',
+  version: 1,
+  role: 'user',
+  description: 'Asks for a JSON summary of a set of nodes',
+  variables: {
+    instruction: 'What kind of summary to write, from the requested summary type',
+    maxLength: 'Word limit',
+    nodes: 'The nodes, as "**Title** (type): content" paragraphs',
+    extras: 'Optional requests to cover relationships and conflicts',
+  },
+  template: `{{instruction}} (max {{maxLength}} words):
+
+{{nodes}}{{extras}}
+
+Format your response as JSON with the following structure:
+{
+  "summary": "main summary text",
+  "keyInsights": ["insight 1", "insight 2", "insight 3"],
+  "relationships": [{"source": "node title 1", "target": "node title 2", "type": "relationship type", "description": "how they relate"}],
+  "conflicts": [{"nodes": ["conflicting node titles"], "description": "nature of conflict", "severity": "low|medium|high"}]
+}`,
+  prepare: (input: SummaryPromptInput) => {
+    let extras = '';
+    if (input.includeRelationships) {
+      extras += '\n\nAlso identify key relationships between these nodes and how they connect thematically.';
+    }
+    if (input.includeConflicts) {
+      extras += '\n\nHighlight any scholarly debates, conflicts, or unresolved questions within or between these topics.';
+    }
+
+    return {
+      instruction: SUMMARY_INSTRUCTIONS[input.summaryType] ?? SUMMARY_INSTRUCTIONS.overview,
+      maxLength: input.maxLength,
+      nodes: input.nodes.map(node => `**${node.title}** (${node.type}): ${node.content}`).join('\n\n'),
+      extras,
+    };
+  },
+});
+
+export const CONFLICT_SYSTEM_PROMPT = definePrompt({
+  id: 'research.conflicts.system',
+  version: 1,
+  role: 'system',
+  description: 'Sets up the model as an analyst of scholarly debates',
+  variables: {},
+  template: 'You are an expert research analyst specializing in identifying scholarly debates, methodological conflicts, and unresolved questions in academic content. You excel at spotting contradictions, inconsistencies, and areas where more research is needed.',
+});
+
+export const CONFLICT_PROMPT = definePrompt({
+  id: 'research.conflicts',
+  version: 1,
+  role: 'user',
+  description: 'Asks for the conflicts and open questions in a set of nodes, as JSON',
+  variables: {
+    biases: 'An extra item asking for potential biases, when requested',
+    nodes: 'The nodes, as "**Node id - Title** (source): content" paragraphs',
+  },
+  template: `Analyze the following research content for scholarly debates, conflicts, methodological disputes, and unresolved questions. Look for:
+
+1. **Methodological conflicts**: Different research methods producing different results
+2. **Empirical conflicts**: Contradictory data or findings between studies
+3. **Theoretical conflicts**: Competing theories or frameworks
+4. **Interpretive conflicts**: Different interpretations of the same data
+5. **Unresolved questions**: Areas where research is incomplete or inconclusive{{biases}}
+
+Content to analyze:
+
+{{nodes}}
+
+Identify specific conflicts and format your response as JSON with this structure:
+{
+  "conflicts": [
+    {
+      "nodeId": "node-X",
+      "conflictType": "methodological|empirical|theoretical|interpretive|unresolved",
+      "severity": "low|medium|high",
+      "description": "Description of the conflict or debate",
+      "textSegment": "The specific text that shows the conflict",
+      "relatedNodes": ["other-node-ids-if-applicable"],
+      "sources": ["conflicting source names"],
+      "keywords": ["key", "terms", "identifying", "conflict"],
+      "suggestedResolution": "How this might be resolved"
+    }
+  ]
+}`,
+  prepare: (input: { nodes: PromptNode[]; includeBiases: boolean }) => ({
+    biases: input.includeBiases
+      ? '\n6. **Potential biases**: Sources of bias that might affect conclusions'
+      : '',
+    nodes: input.nodes
+      .map(node => `**Node ${node.id} - ${node.title}** (${node.source || 'Unknown source'}): ${node.content}`)
+      .join('\n\n'),
+  }),
+});
+
+export const RESEARCH_PROMPTS = [
+  SEARCH_PROMPT,
+  DRILL_DOWN_PROMPT,
+  CHAT_NODES_PROMPT,
+  SUMMARY_SYSTEM_PROMPT,
+  SUMMARY_PROMPT,
+  CONFLICT_SYSTEM_PROMPT,
+  CONFLICT_PROMPT,
+];
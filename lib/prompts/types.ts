@@ -0,0 +1,30 @@
+import type { NodeKind } from '@/lib/node-kinds';
+
+/**
+ * Inputs the writing prompts are rendered from.
+ */
+
+export interface NodeData {
+  id: string;
+  title: string;
+  content: string;
+  type: NodeKind;
+  depth?: number;
+  source?: string;
+  connections?: string[];
+}
+
+export interface OutlineContext {
+  nodes: NodeData[];
+  detailLevel: 'low' | 'medium' | 'high';
+  purpose?: string;
+  academicLevel?: 'undergraduate' | 'graduate' | 'professional';
+}
+
+export interface ContentContext {
+  outline: any;
+  nodes: NodeData[];
+  targetLength?: 'short' | 'medium' | 'long';
+  tone?: 'academic' | 'professional' | 'casual';
+  audience?: string;
+}
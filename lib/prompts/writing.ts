@@ -0,0 +1,468 @@
+import { definePrompt } from './registry';
+import type { ContentContext, NodeData, OutlineContext } from './types';
+
+/**
+ * Prompts for the /api/ai writing assistant: outlines, prose, refinement and suggestions.
+ */
+
+export const OUTLINE_SYSTEM_PROMPT = definePrompt({
+  id: 'writing.outline.system',
+  version: 1,
+  role: 'system',
+  description: 'Sets up the model to write outlines and describes the JSON outline format',
+  variables: {},
+  template: `You are an expert academic research assistant specializing in creating well-structured, comprehensive outlines for research papers and academic content.
+
+Your role is to:
+1. Analyze the provided research nodes and their relationships
+2. Create a logical, hierarchical outline structure
+3. Ensure academic rigor and proper sequencing of ideas
+4. Adapt the detail level based on user requirements
+
+Guidelines for outline creation:
+- Start with broad concepts and narrow down to specific details
+- Ensure logical flow between sections and subsections
+- Include appropriate academic sections (Introduction, Literature Review, Analysis, Conclusion)
+- Consider the relationships and connections between nodes
+- Maintain academic tone and structure
+- Include potential sources and evidence points
+- Suggest areas that may need additional research
+
+Detail Level Guidelines:
+- LOW: High-level overview with main topics and key subtopics (3-5 main sections)
+- MEDIUM: Detailed structure with subsections and key points (5-8 main sections with 2-4 subsections each)
+- HIGH: Comprehensive outline with detailed breakdowns, evidence points, and methodology considerations
+
+Always respond with a well-formatted JSON structure containing:
+{
+  "title": "Generated outline title",
+  "sections": [
+    {
+      "id": "unique_section_id",
+      "title": "Section Title",
+      "level": 1,
+      "description": "Brief description of section content",
+      "subsections": [
+        {
+          "id": "unique_subsection_id", 
+          "title": "Subsection Title",
+          "level": 2,
+          "description": "Brief description",
+          "keyPoints": ["Point 1", "Point 2"],
+          "relatedNodes": ["node_id_1", "node_id_2"]
+        }
+      ]
+    }
+  ],
+  "suggestedLength": "estimated word count",
+  "additionalResearchAreas": ["Area 1", "Area 2"]
+}`,
+});
+
+export const OUTLINE_PROMPT = definePrompt({
+  id: 'writing.outline',
+  version: 1,
+  role: 'user',
+  description: 'Asks for an outline built from the selected nodes',
+  variables: {
+    detailLevel: 'LOW, MEDIUM or HIGH',
+    purpose: 'A "Purpose: ..." line, or empty',
+    academicLevel: 'An "Academic Level: ..." line, or empty',
+    nodes: 'The nodes, one "- Title (type): excerpt..." line each',
+    connections: 'One "Title connects to: ..." line per connected node',
+  },
+  template: `Generate an outline with the following specifications:
+
+Detail Level: {{detailLevel}}
+{{purpose}}
+{{academicLevel}}
+
+Available Research Nodes:
+{{nodes}}
+
+Node Connections:
+{{connections}}
+
+Please create a comprehensive outline that incorporates these research nodes effectively and maintains academic rigor appropriate for the specified detail level.`,
+  prepare: (context: OutlineContext) => ({
+    detailLevel: context.detailLevel.toUpperCase(),
+    purpose: context.purpose ? `Purpose: ${context.purpose}` : '',
+    academicLevel: context.academicLevel ? `Academic Level: ${context.academicLevel}` : '',
+    nodes: context.nodes.map(node =>
+      `- ${node.title} (${node.type}): ${node.content.substring(0, 200)}...`
+    ).join('\n'),
+    connections: context.nodes.filter(node => node.connections?.length).map(node =>
+      `${node.title} connects to: ${node.connections?.join(', ')}`
+    ).join('\n'),
+  }),
+});
+
+export const CONTENT_SYSTEM_PROMPT = definePrompt({
+  id: 'writing.content.system',
+  version: 1,
+  role: 'system',
+  description: 'Sets up the model as an academic writer, with tone and length guidelines',
+  variables: {},
+  template: `You are an expert academic writer with extensive experience in research writing, analysis, and scholarly communication.
+
+Your role is to:
+1. Generate high-quality academic content based on provided outlines and research nodes
+2. Maintain consistent tone, style, and academic rigor
+3. Properly integrate research findings and evidence
+4. Create coherent, well-structured prose
+
+Writing Guidelines:
+- Use clear, precise academic language appropriate for the target audience
+- Integrate evidence and examples from the provided research nodes
+- Maintain logical flow and smooth transitions between ideas
+- Include proper academic structure (topic sentences, supporting evidence, analysis)
+- Suggest in-text citations and reference points where appropriate
+- Ensure content aligns with the outline structure
+
+Content Adaptation:
+- ACADEMIC: Formal scholarly tone, complex sentence structures, discipline-specific terminology
+- PROFESSIONAL: Clear, authoritative tone suitable for business or policy contexts
+- CASUAL: Accessible language while maintaining accuracy and credibility
+
+Length Guidelines:
+- SHORT: Concise, focused content (100-300 words per section)
+- MEDIUM: Detailed explanation with examples (300-600 words per section)
+- LONG: Comprehensive analysis with multiple perspectives (600+ words per section)
+
+Always respond with well-structured content that:
+- Follows the provided outline structure
+- Integrates relevant research nodes naturally
+- Includes transition sentences between major points
+- Suggests areas for citations or additional evidence
+- Maintains consistency in voice and perspective`,
+});
+
+export const CONTENT_PROMPT = definePrompt({
+  id: 'writing.content',
+  version: 1,
+  role: 'user',
+  description: 'Asks for prose that follows an outline and draws on the selected nodes',
+  variables: {
+    targetLength: 'short, medium or long',
+    tone: 'academic, professional or casual',
+    audience: 'A "Target Audience: ..." line, or empty',
+    outline: 'The outline (or section) as JSON',
+    nodes: 'The nodes, as "- Title: content" paragraphs',
+  },
+  template: `Generate content based on the following specifications:
+
+Target Length: {{targetLength}}
+Tone: {{tone}}
+{{audience}}
+
+Outline Structure:
+{{outline}}
+
+Available Research Content:
+{{nodes}}
+
+Please generate well-structured content that follows the outline and effectively integrates the research nodes while maintaining the specified tone and length requirements.`,
+  prepare: (context: ContentContext) => ({
+    targetLength: context.targetLength || 'medium',
+    tone: context.tone || 'academic',
+    audience: context.audience ? `Target Audience: ${context.audience}` : '',
+    outline: JSON.stringify(context.outline, null, 2),
+    nodes: context.nodes.map(node => `- ${node.title}: ${node.content}`).join('\n\n'),
+  }),
+});
+
+export const REFINEMENT_SYSTEM_PROMPT = definePrompt({
+  id: 'writing.refine.system',
+  version: 1,
+  role: 'system',
+  description: 'Sets up the model as an editor, with the kinds of refinement it may be asked for',
+  variables: {},
+  template: `You are an expert editor and writing coach with specialization in academic and professional writing improvement.
+
+Your role is to:
+1. Analyze existing text for clarity, coherence, and effectiveness
+2. Suggest improvements while maintaining the author's voice and intent
+3. Expand, refine, or rephrase content based on specific user requests
+4. Ensure academic standards and proper scholarly communication
+
+Types of Refinement:
+- EXPAND: Add depth, examples, analysis, or supporting details
+- REFINE: Improve clarity, flow, word choice, and sentence structure  
+- REPHRASE: Maintain meaning while improving expression or tone
+- ACADEMIC_UPGRADE: Enhance scholarly tone and academic rigor
+- SIMPLIFY: Make complex ideas more accessible without losing precision
+
+Quality Standards:
+- Maintain factual accuracy and logical consistency
+- Preserve the original argument or thesis
+- Improve readability and engagement
+- Ensure appropriate academic or professional tone
+- Suggest specific improvements rather than generic advice
+
+Always provide:
+1. The improved text
+2. Brief explanation of changes made
+3. Suggestions for further improvement if applicable`,
+});
+
+function refinementGuidance(type: string, tone: string, targetLength?: number): string {
+  switch (type) {
+    case 'expand':
+      return 'Add depth, examples, analysis, or supporting details to make the content more comprehensive. ' +
+        (targetLength ? `Target approximately ${targetLength} words. ` : '');
+    case 'refine':
+      return 'Improve clarity, flow, word choice, and sentence structure while maintaining the original meaning. ';
+    case 'rephrase':
+      return `Maintain the exact meaning while improving expression and ${tone} tone. `;
+    case 'academic_upgrade':
+      return 'Enhance scholarly tone, add academic rigor, and use appropriate terminology for academic writing. ';
+    case 'simplify':
+      return 'Make complex ideas more accessible without losing precision or important details. ';
+    default:
+      return '';
+  }
+}
+
+export interface RefinementPromptInput {
+  text: string;
+  type: string;
+  instructions?: string;
+  targetLength?: number;
+  tone?: string;
+}
+
+export const REFINEMENT_PROMPT = definePrompt({
+  id: 'writing.refine',
+  version: 1,
+  role: 'user',
+  description: 'Asks for a refined passage, an explanation and suggestions, in labelled sections',
+  variables: {
+    action: 'The refinement type in words, e.g. "academic upgrade"',
+    text: 'The passage to refine',
+    guidance: 'What the refinement type should do',
+    tone: 'academic, professional or casual',
+    specialInstructions: 'The user\'s own instructions, if any',
+  },
+  template: `Please {{action}} the following text:
+
+"{{text}}"
+
+{{guidance}}{{specialInstructions}}
+
+Please provide your response in the following format:
+IMPROVED TEXT:
+[Your improved version here]
+
+EXPLANATION:
+[Brief explanation of the changes made]
+
+SUGGESTIONS:
+[Any additional suggestions for further improvement]`,
+  prepare: (input: RefinementPromptInput) => {
+    const tone = input.tone ?? 'academic';
+    return {
+      action: input.type.replace('_', ' '),
+      text: input.text,
+      guidance: refinementGuidance(input.type, tone, input.targetLength),
+      tone,
+      specialInstructions: input.instructions ? `\n\nSpecial instructions: ${input.instructions}` : '',
+    };
+  },
+});
+
+export const SUGGESTIONS_SYSTEM_PROMPT = definePrompt({
+  id: 'writing.suggestions.system',
+  version: 1,
+  role: 'system',
+  description: 'Guidance (MCP principles) for structured, actionable suggestions',
+  variables: {},
+  template: `You are an AI assistant operating under Model Context Protocol (MCP) guidelines to ensure structured, reliable, and contextually appropriate responses.
+
+MCP Principles:
+1. Context Awareness: Always consider the full context of the research project, user goals, and academic requirements
+2. Structured Output: Provide responses in consistent, well-formatted structures that integrate seamlessly with the application
+3. Evidence-Based: Ground all suggestions and content in the provided research nodes and academic best practices
+4. Iterative Improvement: Support progressive refinement and building upon previous work
+5. User Intent Alignment: Ensure all outputs serve the user's stated objectives and academic goals
+
+Response Framework:
+- Acknowledge the specific request and context
+- Provide structured, actionable output
+- Include confidence indicators for suggestions
+- Offer alternative approaches when appropriate
+- Maintain consistency with previous interactions and established patterns
+
+Quality Assurance:
+- Verify logical consistency across all outputs
+- Ensure academic integrity and proper attribution awareness
+- Check for completeness relative to user needs
+- Provide clear next steps or follow-up suggestions
+
+Always structure responses to be:
+1. Immediately actionable within the application context
+2. Consistent with established project patterns and style
+3. Supportive of the overall research and writing workflow
+4. Transparent about limitations or areas needing user input`,
+});
+
+const nodeExcerpts = (nodes: NodeData[], length: number, withType = true) =>
+  nodes.map(node =>
+    `- ${node.title}${withType ? ` (${node.type})` : ''}: ${node.content.substring(0, length)}...`
+  ).join('\n');
+
+export const OUTLINE_SUGGESTIONS_PROMPT = definePrompt({
+  id: 'writing.suggestions.outline',
+  version: 1,
+  role: 'user',
+  description: 'Asks how to improve an outline',
+  variables: {
+    outline: 'The outline as JSON',
+    nodes: 'The nodes, one "- Title (type): excerpt..." line each',
+  },
+  template: `Analyze the following outline and research nodes to provide suggestions for improvement:
+
+Current Outline:
+{{outline}}
+
+Available Research Nodes:
+{{nodes}}
+
+Please provide specific suggestions for:
+1. Improving the logical flow and structure
+2. Identifying gaps that need additional research
+3. Enhancing the academic rigor and depth
+4. Better integration of available research nodes
+5. Strengthening transitions and connections between sections
+
+Format your response as a structured analysis with actionable recommendations.`,
+  prepare: (input: { outline: any; nodes: NodeData[] }) => ({
+    outline: JSON.stringify(input.outline, null, 2),
+    nodes: nodeExcerpts(input.nodes, 150),
+  }),
+});
+
+export const NODE_EXPLORATION_PROMPT = definePrompt({
+  id: 'writing.suggestions.exploration',
+  version: 1,
+  role: 'user',
+  description: 'Asks which research areas and nodes are missing',
+  variables: {
+    outline: 'The outline as JSON',
+    nodes: 'The nodes, one "- Title (type)" line each',
+  },
+  template: `Based on the current research nodes and outline, suggest additional research areas and nodes that would strengthen the work:
+
+Current Outline:
+{{outline}}
+
+Existing Research Nodes:
+{{nodes}}
+
+Please suggest:
+1. Specific topics or subtopics that are missing
+2. Types of sources that would strengthen the argument
+3. Alternative perspectives or viewpoints to consider
+4. Methodological approaches that might be relevant
+5. Key scholars or seminal works in this area
+
+Provide concrete, actionable suggestions that the user can research and add to their knowledge graph.`,
+  prepare: (input: { outline: any; nodes: NodeData[] }) => ({
+    outline: JSON.stringify(input.outline, null, 2),
+    nodes: input.nodes.map(node => `- ${node.title} (${node.type})`).join('\n'),
+  }),
+});
+
+export const STRUCTURE_SUGGESTIONS_PROMPT = definePrompt({
+  id: 'writing.suggestions.structure',
+  version: 1,
+  role: 'user',
+  description: 'Asks how to organize the research, with or without an outline',
+  variables: {
+    outline: 'The outline as JSON under a heading, or a request to propose one',
+    nodes: 'The nodes, one "- Title (type): excerpt..." line each',
+    focusArea: 'A "Focus Area: ..." line, or empty',
+    academicLevel: 'An "Academic Level: ..." line, or empty',
+  },
+  template: `Analyze the following research structure and provide optimization suggestions:
+
+{{outline}}
+
+Available Research Nodes:
+{{nodes}}
+
+{{focusArea}}
+{{academicLevel}}
+
+Please provide specific suggestions for:
+1. Optimal organization and flow of sections
+2. Logical progression of arguments
+3. Balance between different topics and subtopics
+4. Integration opportunities for available research nodes
+5. Missing structural elements for academic rigor
+6. Potential restructuring for better impact
+
+Format your response with clear categories and actionable recommendations.`,
+  prepare: (input: { outline: any; nodes: NodeData[]; focusArea?: string; academicLevel?: string }) => ({
+    outline: input.outline
+      ? `Current Outline:\n${JSON.stringify(input.outline, null, 2)}`
+      : 'No outline provided - please suggest optimal structure.',
+    nodes: nodeExcerpts(input.nodes, 150),
+    focusArea: input.focusArea ? `Focus Area: ${input.focusArea}` : '',
+    academicLevel: input.academicLevel ? `Academic Level: ${input.academicLevel}` : '',
+  }),
+});
+
+export const CONTENT_SUGGESTIONS_PROMPT = definePrompt({
+  id: 'writing.suggestions.content',
+  version: 1,
+  role: 'user',
+  description: 'Asks how to strengthen a draft',
+  variables: {
+    content: 'The draft',
+    outline: 'The outline as JSON under a heading, or empty',
+    nodes: 'The nodes, one "- Title: excerpt..." line each',
+    focusArea: 'A "Focus Area: ..." line, or empty',
+  },
+  template: `Analyze the following content and provide enhancement suggestions:
+
+Current Content:
+{{content}}
+
+{{outline}}
+
+Available Research Nodes for Integration:
+{{nodes}}
+
+{{focusArea}}
+
+Please provide specific suggestions for:
+1. Content depth and detail improvements
+2. Integration of additional research nodes
+3. Clarity and flow enhancements
+4. Academic rigor and evidence strengthening
+5. Transition and connection improvements
+6. Areas requiring more support or examples
+7. Potential gaps or missing perspectives
+
+Provide concrete, actionable recommendations with specific examples where possible.`,
+  prepare: (input: { content: string; outline: any; nodes: NodeData[]; focusArea?: string }) => ({
+    content: input.content,
+    outline: input.outline ? `Related Outline Context:\n${JSON.stringify(input.outline, null, 2)}` : '',
+    nodes: nodeExcerpts(input.nodes, 100, false),
+    focusArea: input.focusArea ? `Focus Area: ${input.focusArea}` : '',
+  }),
+});
+
+export const WRITING_PROMPTS = [
+  OUTLINE_SYSTEM_PROMPT,
+  OUTLINE_PROMPT,
+  CONTENT_SYSTEM_PROMPT,
+  CONTENT_PROMPT,
+  REFINEMENT_SYSTEM_PROMPT,
+  REFINEMENT_PROMPT,
+  SUGGESTIONS_SYSTEM_PROMPT,
+  OUTLINE_SUGGESTIONS_PROMPT,
+  NODE_EXPLORATION_PROMPT,
+  STRUCTURE_SUGGESTIONS_PROMPT,
+  CONTENT_SUGGESTIONS_PROMPT,
+];
@@ -7,7 +7,10 @@ const RATE_LIMITS = {
   '/api/research/outline': { requests: 20, window: '1 h' }, // Outline generation
   '/api/research/summarize': { requests: 30, window: '1 h' }, // Summarization
   '/api/research/conflicts': { requests: 50, window: '1 h' }, // Conflict analysis
+  '/api/research/analyze-conflicts': { requests: 50, window: '1 h' }, // AI conflict analysis
+  '/api/research/search': { requests: 50, window: '1 h' }, // AI search
   '/api/research/drill-down': { requests: 50, window: '1 h' }, // Drill down
+  '/api/research/drill-down/explore': { requests: 10, window: '1 h' }, // Multi-level auto-explore
   '/api/research/import': { requests: 10, window: '1 h' }, // File import
   '/api/projects': { requests: 100, window: '1 h' }, // Project management
   default: { requests: 60, window: '1 h' } // Default rate limit
@@ -35,7 +38,7 @@ function checkInMemoryRateLimit(
   identifier: string, 
   limit: number, 
   windowMs: number
-): { success: boolean; limit: number; remaining: number; reset: Date } {
+): { success: boolean; limit: number; remaining: number; reset: Date; key: string } {
   const now = Date.now();
   const key = `${identifier}:${Math.floor(now / windowMs)}`;
   
@@ -57,7 +60,8 @@ function checkInMemoryRateLimit(
     success,
     limit,
     remaining: Math.max(0, limit - current.count),
-    reset: new Date(current.resetTime)
+    reset: new Date(current.resetTime),
+    key
   };
 }
 
@@ -149,6 +153,8 @@ export async function applyRateLimit(request: NextRequest): Promise<NextResponse
   
   // Add rate limit headers to successful responses too
   if (!response && result.success) {
+    // Remembered so releaseRateLimit gives back this window's request
+    (request as any).__rateLimitKey = result.key;
     // We'll add this in the middleware
     (request as any).__rateLimitHeaders = {
       'X-RateLimit-Limit': config.requests.toString(),
@@ -160,6 +166,20 @@ export async function applyRateLimit(request: NextRequest): Promise<NextResponse
   return response;
 }
 
+/**
+ * Give a request counted by applyRateLimit back to the client, for calls
+ * that were cancelled before they produced anything (e.g. an aborted AI call).
+ */
+export function releaseRateLimit(request: NextRequest): void {
+  const key = (request as any).__rateLimitKey;
+  const current = key ? inMemoryRateLimit.get(key) : undefined;
+
+  if (current && current.count > 0) {
+    current.count--;
+  }
+  delete (request as any).__rateLimitKey;
+}
+
 /**
  * Rate limiting middleware for API routes
  */
@@ -0,0 +1,73 @@
+/**
+ * Typed relationships between research nodes. Shared by the API routes that
+ * create edges and the visualizations that draw them, so it must stay free of
+ * server-only imports.
+ */
+
+export const RELATIONSHIP_TYPES = ['supports', 'contradicts', 'part-of', 'causes', 'example-of', 'related'] as const;
+
+export type RelationshipType = typeof RELATIONSHIP_TYPES[number];
+
+/**
+ * A typed edge as sent to and from the API. `target` is a node ID (or, inside a
+ * freshly generated batch, the model's ID for a sibling node).
+ */
+export interface Relationship {
+  target: string;
+  type: RelationshipType;
+  weight: number;
+  provenance?: string;
+}
+
+export interface RelationshipStyle {
+  label: string;
+  color: string;
+  dashArray?: string;
+}
+
+// 'related' is the fallback for legacy untyped connections
+export const RELATIONSHIP_STYLES: Record<RelationshipType, RelationshipStyle> = {
+  supports: { label: 'Supports', color: '#16a34a' },
+  contradicts: { label: 'Contradicts', color: '#dc2626', dashArray: '6 3' },
+  'part-of': { label: 'Part of', color: '#2563eb' },
+  causes: { label: 'Causes', color: '#d97706' },
+  'example-of': { label: 'Example of', color: '#7c3aed', dashArray: '2 3' },
+  related: { label: 'Related', color: '#9ca3af' },
+};
+
+/**
+ * How a drawn edge looks: its type's color and dash, wider the heavier it is.
+ * Untyped and 'related' edges stay faint so typed ones stand out.
+ */
+export function relationshipStroke(type?: RelationshipType, weight = 0.5) {
+  const style = RELATIONSHIP_STYLES[type || 'related'];
+  return {
+    color: style.color,
+    dashArray: style.dashArray,
+    width: 1 + weight * 2,
+    opacity: type && type !== 'related' ? 0.8 : 0.4,
+  };
+}
+
+export function isRelationshipType(value: unknown): value is RelationshipType {
+  return typeof value === 'string' && (RELATIONSHIP_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Coerce loosely typed input (usually model output) into a relationship,
+ * or return null when it has no usable target.
+ */
+export function normalizeRelationship(value: any, provenance?: string): Relationship | null {
+  const target = value?.target ?? value?.targetId;
+  if (typeof target !== 'string' || target.length === 0) return null;
+
+  const type = typeof value.type === 'string' ? value.type.toLowerCase().replace(/[\s_]+/g, '-') : '';
+  const weight = typeof value.weight === 'number' && !Number.isNaN(value.weight) ? value.weight : 1;
+
+  return {
+    target,
+    type: isRelationshipType(type) ? type : 'related',
+    weight: Math.min(1, Math.max(0, weight)),
+    provenance: typeof value.note === 'string' ? value.note : value.provenance ?? provenance,
+  };
+}
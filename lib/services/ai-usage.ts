@@ -0,0 +1,172 @@
+import prisma from '@/lib/db';
+import { AIBudgetExceededError } from '@/lib/error-handling';
+import type { AITask } from '@/lib/ai/config';
+import type { AIUsage, AIUsageContext } from '@/lib/ai/types';
+import { AIBudget, AIBudgetPeriod, aiBudgetPeriod, budgetPeriod, estimateCost, getAIBudget } from '@/lib/ai/usage';
+
+/**
+ * Every model call made for a signed-in user is recorded with its tokens and
+ * estimated cost, so usage can be reported per route and per project and
+ * checked against the budget before the next call.
+ */
+
+export interface AIUsageEvent {
+  task: AITask;
+  provider: string;
+  model: string;
+  usage: AIUsage;
+  cached?: boolean;
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageSummary {
+  period: AIBudgetPeriod;
+  periodStart: Date;
+  resetsAt: Date;
+  budget: AIBudget | null;
+  totals: AIUsageTotals;
+  byRoute: (AIUsageTotals & { route: string })[];
+  byProject: (AIUsageTotals & { projectId: string | null; title: string | null })[];
+}
+
+const USAGE_SUMS = {
+  promptTokens: true,
+  completionTokens: true,
+  totalTokens: true,
+  costUsd: true,
+} as const;
+
+function toTotals(row: {
+  _count: { _all: number } | number;
+  _sum: Partial<Record<keyof typeof USAGE_SUMS, number | null>>;
+}): AIUsageTotals {
+  return {
+    requests: typeof row._count === 'number' ? row._count : row._count._all,
+    promptTokens: row._sum.promptTokens ?? 0,
+    completionTokens: row._sum.completionTokens ?? 0,
+    totalTokens: row._sum.totalTokens ?? 0,
+    costUsd: row._sum.costUsd ?? 0,
+  };
+}
+
+export class AIUsageService {
+  /**
+   * Store one call. Cache hits are recorded too, with no tokens, so reports
+   * show how many requests the cache answered.
+   */
+  static async record(context: AIUsageContext, event: AIUsageEvent) {
+    const usage = event.cached
+      ? { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      : event.usage;
+
+    return prisma.aIUsageRecord.create({
+      data: {
+        userId: context.userId,
+        projectId: context.projectId ?? null,
+        route: context.route,
+        task: event.task,
+        provider: event.provider,
+        model: event.model,
+        ...usage,
+        costUsd: estimateCost(event.provider, event.model, usage),
+        cached: Boolean(event.cached),
+      },
+    });
+  }
+
+  static async totals(userId: string, since: Date): Promise<AIUsageTotals> {
+    const row = await prisma.aIUsageRecord.aggregate({
+      where: { userId, createdAt: { gte: since } },
+      _count: { _all: true },
+      _sum: USAGE_SUMS,
+    });
+    return toTotals(row);
+  }
+
+  /**
+   * Throws AIBudgetExceededError when the user has used up the tokens or
+   * spend allowed for the current period. Does nothing without a budget.
+   */
+  static async assertWithinBudget(userId: string, budget = getAIBudget(), now = new Date()) {
+    if (!budget) return;
+
+    const { start, end } = budgetPeriod(budget.period, now);
+    const used = await this.totals(userId, start);
+
+    const exceeded =
+      (budget.tokens !== undefined && used.totalTokens >= budget.tokens) ||
+      (budget.costUsd !== undefined && used.costUsd >= budget.costUsd);
+
+    if (exceeded) {
+      throw new AIBudgetExceededError(
+        `AI usage budget for this ${budget.period} has been used up`,
+        {
+          period: budget.period,
+          limit: { tokens: budget.tokens ?? null, costUsd: budget.costUsd ?? null },
+          used: { tokens: used.totalTokens, costUsd: used.costUsd },
+          resetsAt: end.toISOString(),
+        }
+      );
+    }
+  }
+
+  // The user's usage in the current budget period
+  static async summary(userId: string, now = new Date()): Promise<AIUsageSummary> {
+    const budget = getAIBudget();
+    const period = budget?.period ?? aiBudgetPeriod();
+    const { start, end } = budgetPeriod(period, now);
+    const where = { userId, createdAt: { gte: start } };
+
+    const [totals, routes, projects] = await Promise.all([
+      this.totals(userId, start),
+      prisma.aIUsageRecord.groupBy({
+        by: ['route'],
+        where,
+        _count: { _all: true },
+        _sum: USAGE_SUMS,
+      }),
+      prisma.aIUsageRecord.groupBy({
+        by: ['projectId'],
+        where,
+        _count: { _all: true },
+        _sum: USAGE_SUMS,
+      }),
+    ]);
+
+    const projectIds = projects.map(row => row.projectId).filter((id): id is string => Boolean(id));
+    const titles = new Map(
+      projectIds.length
+        ? (await prisma.savedPath.findMany({
+            where: { id: { in: projectIds }, userId },
+            select: { id: true, title: true },
+          })).map(project => [project.id, project.title])
+        : []
+    );
+
+    const byCost = (a: AIUsageTotals, b: AIUsageTotals) =>
+      b.costUsd - a.costUsd || b.totalTokens - a.totalTokens;
+
+    return {
+      period,
+      periodStart: start,
+      resetsAt: end,
+      budget,
+      totals,
+      byRoute: routes.map(row => ({ route: row.route, ...toTotals(row) })).sort(byCost),
+      byProject: projects
+        .map(row => ({
+          projectId: row.projectId,
+          title: row.projectId ? titles.get(row.projectId) ?? null : null,
+          ...toTotals(row),
+        }))
+        .sort(byCost),
+    };
+  }
+}
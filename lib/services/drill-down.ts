@@ -0,0 +1,238 @@
+import { AIRequestOptions, generateJSON } from '@/lib/ai';
+import { DrillDownResponseSchema } from '@/lib/ai/schemas';
+import { AIRequestAbortedError } from '@/lib/error-handling';
+import { NodeKind, nodeKindForDepth } from '@/lib/node-kinds';
+import { DRILL_DOWN_PROMPT } from '@/lib/prompts';
+import { Relationship, normalizeRelationship } from '@/lib/relationships';
+import { NodeRepository, fromGeneratedNode, normalizeTitle, withStoredIds } from './node-repository';
+import { PromptOverrideService } from './prompt-overrides';
+import type { ResearchScope } from './research-scope';
+
+/**
+ * Drill-down generation for /api/research/drill-down, which subdivides one
+ * node a level deeper, and for auto-explore, which repeats that breadth-first
+ * over a whole subtree so a multi-level taxonomy can be seeded in one action.
+ */
+
+export interface DrillDownParent {
+  id: string;
+  title: string;
+  content?: string;
+  type?: string;
+  lens?: string;
+  depth: number;
+}
+
+export interface DrillDownNode {
+  id: string;
+  title: string;
+  content: string;
+  type: NodeKind;
+  connections: string[];
+  relationships: Relationship[];
+  source: string;
+  depth: number;
+  lens: string;
+  parentId: string;
+  taxonomy: { level: number; parent: string; branch: string };
+}
+
+export interface DrillDownResult {
+  parentNode: unknown;
+  drillDownNodes: DrillDownNode[];
+  /** `ref` of the rendered prompt, e.g. research.drill-down@2. */
+  promptVersion: string;
+}
+
+export interface DrillDownRequest {
+  /** How many nodes to ask for; the prompt's default range when omitted. */
+  count?: number;
+  /** Titles the new nodes must not repeat. */
+  avoidTitles?: string[];
+}
+
+export interface ExploreOptions {
+  /** Levels to add below the root. */
+  levels: number;
+  /** Children per expanded node. */
+  breadth: number;
+  /** Total nodes to generate across all levels. */
+  maxNodes: number;
+}
+
+export interface ExploreLevel {
+  depth: number;
+  nodes: DrillDownNode[];
+  /** Nodes generated so far, this level included. */
+  total: number;
+  promptVersion: string;
+}
+
+export const EXPLORE_LIMITS = {
+  maxLevels: 3,
+  maxBreadth: 10,
+  maxNodes: 100,
+};
+
+/**
+ * Fill in whatever the model left out and tie every node to its parent: a
+ * 'part-of' relationship, the parent's ID as a connection and a taxonomy entry.
+ * Consecutive siblings are chained so the new level reads as one thread.
+ */
+function shapeNodes(parent: DrillDownParent, generated: any[]): DrillDownNode[] {
+  const depth = parent.depth + 1;
+
+  const nodes: DrillDownNode[] = generated.map((node: any, index: number) => ({
+    id: node.id || `drill-${parent.id}-${Date.now()}-${index}`,
+    title: node.title || `${parent.title} - Subdivision ${index + 1}`,
+    content: node.content || `Detailed exploration of ${parent.title} at taxonomic level ${depth}.`,
+    type: nodeKindForDepth(depth),
+    connections: [parent.id],
+    relationships: [
+      { target: parent.id, type: 'part-of', weight: 1, provenance: `Drill-down of "${parent.title}"` },
+      ...(Array.isArray(node.relationships) ? node.relationships : [])
+        .map((relationship: unknown) => normalizeRelationship(relationship, 'drill-down'))
+        .filter((relationship: Relationship | null): relationship is Relationship =>
+          relationship !== null && relationship.target !== parent.id
+        ),
+    ],
+    source: node.source || `Level ${depth} analysis of ${parent.title}`,
+    depth,
+    lens: node.lens || parent.lens || 'General',
+    parentId: parent.id,
+    taxonomy: {
+      level: depth,
+      parent: parent.title,
+      branch: node.taxonomy?.branch || `branch-${index + 1}`,
+    },
+  }));
+
+  nodes.forEach((node, index) => {
+    const next = nodes[index + 1];
+    if (!next) return;
+    if (!node.connections.includes(next.id)) node.connections.push(next.id);
+    if (!next.connections.includes(node.id)) next.connections.push(node.id);
+  });
+
+  return nodes;
+}
+
+/**
+ * Nodes whose titles are not in `taken` or repeated earlier in the list.
+ */
+function withNewTitles(nodes: DrillDownNode[], taken: string[]): DrillDownNode[] {
+  const seen = new Set(taken.map(normalizeTitle));
+  return nodes.filter(node => {
+    const title = normalizeTitle(node.title);
+    if (seen.has(title)) return false;
+    seen.add(title);
+    return true;
+  });
+}
+
+export class DrillDownService {
+  /**
+   * Ask the model for the next level below `parent`. Nothing is stored.
+   */
+  static async generate(
+    scope: ResearchScope,
+    parent: DrillDownParent,
+    options: AIRequestOptions = {},
+    request: DrillDownRequest = {}
+  ): Promise<DrillDownResult> {
+    const prompt = await PromptOverrideService.render(scope, DRILL_DOWN_PROMPT, {
+      nodeId: parent.id,
+      title: parent.title,
+      content: parent.content || '',
+      type: parent.type || 'topic',
+      lens: parent.lens,
+      currentDepth: parent.depth,
+      count: request.count,
+      avoidTitles: request.avoidTitles,
+    });
+
+    const { data }: { data: any } = await generateJSON('drill-down', [prompt.message], {
+      ...options,
+      schema: DrillDownResponseSchema,
+    });
+
+    return {
+      parentNode: data.parentNode,
+      drillDownNodes: shapeNodes(parent, data.drillDownNodes),
+      promptVersion: prompt.ref,
+    };
+  }
+
+  /**
+   * Expand the subtree below `root` breadth-first, yielding each level once
+   * all of its nodes are generated and stored. Every expansion is told the
+   * titles of the node's ancestors and existing children, and any repeats the
+   * model still returns are dropped. Stops early once `maxNodes` is reached
+   * or a level comes back empty.
+   */
+  static async *explore(
+    scope: ResearchScope,
+    root: DrillDownParent,
+    explore: ExploreOptions,
+    options: AIRequestOptions = {}
+  ): AsyncGenerator<ExploreLevel> {
+    const ancestors = await this.storedTitles(() => NodeRepository.findAncestors(scope, root.id));
+    let frontier = [{ parent: root, lineage: [...ancestors.reverse(), root.title] }];
+    let total = 0;
+
+    for (let level = 1; level <= explore.levels && frontier.length > 0 && total < explore.maxNodes; level++) {
+      const next: typeof frontier = [];
+      const levelNodes: DrillDownNode[] = [];
+      let promptVersion = '';
+
+      for (const { parent, lineage } of frontier) {
+        if (total >= explore.maxNodes) break;
+        if (options.signal?.aborted) throw new AIRequestAbortedError();
+
+        const siblings = await this.storedTitles(() =>
+          NodeRepository.findNodes(scope, { parentId: parent.id }).then(result => result.nodes)
+        );
+        const avoidTitles = [...lineage, ...siblings];
+        const count = Math.min(explore.breadth, explore.maxNodes - total);
+
+        const result = await this.generate(scope, parent, options, { count, avoidTitles });
+        let nodes = withNewTitles(result.drillDownNodes, avoidTitles).slice(0, count);
+        promptVersion = result.promptVersion;
+
+        // Append rather than replace, so children from earlier drill-downs stay
+        try {
+          const stored = await NodeRepository.createNodes(
+            scope,
+            nodes.map(node => ({ ...fromGeneratedNode(node, 'drill-down'), promptVersion }))
+          );
+          nodes = withStoredIds(nodes, stored);
+        } catch (persistError) {
+          console.error('Failed to persist explored nodes:', persistError);
+        }
+
+        total += nodes.length;
+        levelNodes.push(...nodes);
+        next.push(...nodes.map(node => ({
+          parent: { id: node.id, title: node.title, content: node.content, type: node.type, lens: node.lens, depth: node.depth },
+          lineage: [...lineage, node.title],
+        })));
+      }
+
+      if (levelNodes.length === 0) return;
+      yield { depth: root.depth + level, nodes: levelNodes, total, promptVersion };
+      frontier = next;
+    }
+  }
+
+  // Titles of stored nodes; a failed lookup only weakens the duplicate check
+  private static async storedTitles(load: () => Promise<Array<{ title: string }>>): Promise<string[]> {
+    try {
+      return (await load()).map(node => node.title);
+    } catch (error) {
+      console.error('Failed to load stored nodes for drill-down:', error);
+      return [];
+    }
+  }
+}
+
+export default DrillDownService;
@@ -0,0 +1,93 @@
+import { NotFoundError } from '@/lib/error-handling';
+import {
+  TermCounts,
+  cosineSimilarity,
+  inverseDocumentFrequencies,
+  sharedTerms,
+  termCounts,
+  tfidfVector,
+} from '@/lib/term-vectors';
+import { NodeRepository, ResearchNode, primarySource } from './node-repository';
+import type { ResearchScope } from './research-scope';
+
+/**
+ * Related-node suggestions: the stored nodes most similar to a given one, by
+ * cosine similarity of TF-IDF vectors (see lib/term-vectors), that it is not
+ * yet linked to. Nothing leaves the server.
+ */
+
+export interface RelatedNode {
+  id: string;
+  title: string;
+  content: string;
+  type: string;
+  depth: number;
+  lens: string;
+  source?: string;
+  /** Cosine similarity, 0-1. */
+  score: number;
+  /** Terms the two nodes share, most significant first. */
+  sharedTerms: string[];
+}
+
+export interface RelatedNodeOptions {
+  limit?: number;
+  /** Suggestions scoring below this are dropped as noise. */
+  minScore?: number;
+}
+
+export const MAX_COMPARED_NODES = 2000;
+export const MIN_RELATED_SCORE = 0.1;
+
+// Nodes stored before term counts were kept get them computed on the fly
+function countsOf(node: ResearchNode): TermCounts {
+  return node.termCounts ?? termCounts(node.title, node.content);
+}
+
+export class NodeRecommendationService {
+  static async findRelated(scope: ResearchScope, nodeId: string, options: RelatedNodeOptions = {}): Promise<RelatedNode[]> {
+    const [node] = await NodeRepository.findByIds(scope, [nodeId]);
+    if (!node) {
+      throw new NotFoundError('Node');
+    }
+
+    const { nodes } = await NodeRepository.findNodes(
+      scope,
+      {},
+      { limit: MAX_COMPARED_NODES, sortBy: 'updatedAt', sortOrder: 'desc' }
+    );
+    const corpus = nodes.some(candidate => candidate.id === node.id) ? nodes : [node, ...nodes];
+
+    const counts = corpus.map(countsOf);
+    const idf = inverseDocumentFrequencies(counts);
+    const target = tfidfVector(countsOf(node), idf);
+
+    // Linked nodes, the parent and children are already connected in the graph
+    const linked = new Set([node.id, ...node.connections]);
+    if (node.parentId) linked.add(node.parentId);
+
+    return corpus
+      .map((candidate, index) => ({ candidate, index }))
+      .filter(({ candidate }) => !linked.has(candidate.id) && candidate.parentId !== node.id)
+      .map(({ candidate, index }) => {
+        const vector = tfidfVector(counts[index], idf);
+        return { candidate, vector, score: cosineSimilarity(target, vector) };
+      })
+      .filter(({ score }) => score >= (options.minScore ?? MIN_RELATED_SCORE))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 5)
+      .map(({ candidate, vector, score }) => ({
+        id: candidate.id,
+        title: candidate.title,
+        content: candidate.content,
+        type: candidate.type,
+        depth: candidate.depth,
+        lens: candidate.lens,
+        source: primarySource(candidate),
+        score: Math.round(score * 1000) / 1000,
+        sharedTerms: sharedTerms(target, vector),
+      }));
+  }
+}
+
+export default NodeRecommendationService;
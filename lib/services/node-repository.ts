@@ -0,0 +1,734 @@
+import prisma from '@/lib/db';
+import { NotFoundError, ValidationError } from '@/lib/error-handling';
+import { normalizeNodeKind } from '@/lib/node-kinds';
+import { Relationship, RelationshipType, normalizeRelationship } from '@/lib/relationships';
+import { TermCounts, isTermCounts, termCounts } from '@/lib/term-vectors';
+import type { ResearchScope } from './research-scope';
+
+/**
+ * Persistence layer for research nodes, their sources and detected conflicts.
+ * Every /api/research/* route reads and writes nodes through this module so
+ * the research graph outlives the browser session. Every method takes the
+ * caller's ResearchScope; nodes outside it are invisible and cannot be linked.
+ */
+
+export type NodeDetailLevel = 'low' | 'medium' | 'high';
+
+export type NodeSortField = 'title' | 'type' | 'depth' | 'lens' | 'confidence' | 'createdAt' | 'updatedAt';
+
+export interface ResearchNodeSource {
+  id: string;
+  url: string | null;
+  title: string | null;
+}
+
+export interface ResearchEdge {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  type: RelationshipType;
+  weight: number;
+  provenance: string | null;
+}
+
+export interface ResearchNode {
+  id: string;
+  title: string;
+  content: string;
+  type: string;
+  depth: number;
+  lens: string;
+  detailLevel: NodeDetailLevel;
+  confidence: number | null;
+  tags: string[];
+  parentId: string | null;
+  projectId: string | null;
+  /** Registry prompt that generated the node (see lib/prompts), if any. */
+  promptVersion: string | null;
+  /** Stored term counts of the title and content; null for nodes stored before they were kept. */
+  termCounts: TermCounts | null;
+  sources: ResearchNodeSource[];
+  /** IDs of every node linked to this one, in either direction and of any type. */
+  connections: string[];
+  edges: ResearchEdge[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NodeQuery {
+  ids?: string[];
+  search?: string;
+  lens?: string;
+  depth?: number;
+  /** Direct children of this node. */
+  parentId?: string;
+  detailLevel?: NodeDetailLevel;
+  types?: string[];
+  tags?: string[];
+  source?: string;
+  confidenceRange?: [number, number];
+  createdBetween?: [Date, Date];
+}
+
+export interface NodeQueryOptions {
+  offset?: number;
+  limit?: number;
+  sortBy?: NodeSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CreateNodeInput {
+  /**
+   * Caller-side identifier (e.g. an ID the model invented). It is only used to
+   * resolve connections within the same batch; stored nodes get fresh IDs.
+   */
+  key?: string;
+  title: string;
+  content: string;
+  type?: string;
+  depth?: number;
+  lens?: string;
+  detailLevel?: NodeDetailLevel;
+  confidence?: number | null;
+  tags?: string[];
+  parentId?: string | null;
+  /** `ref` of the rendered prompt the node came from. */
+  promptVersion?: string | null;
+  sources?: Array<{ url?: string | null; title?: string | null }>;
+  /** Untyped links, stored as 'related' edges. */
+  connections?: string[];
+  /** Typed outgoing edges; these win over a plain connection to the same target. */
+  relationships?: Relationship[];
+  /** Default provenance note for this node's edges, e.g. 'drill-down'. */
+  provenance?: string;
+}
+
+export interface CreateConflictInput {
+  title?: string;
+  type?: string;
+  severity?: string;
+  description: string;
+  nodeIds: string[];
+}
+
+export const NODE_SORT_FIELDS: NodeSortField[] = ['title', 'type', 'depth', 'lens', 'confidence', 'createdAt', 'updatedAt'];
+
+const EDGE_SELECT = {
+  id: true,
+  sourceId: true,
+  targetId: true,
+  type: true,
+  weight: true,
+  provenance: true,
+} as const;
+
+const NODE_INCLUDE = {
+  sources: { select: { id: true, url: true, title: true } },
+  outgoing: { select: EDGE_SELECT },
+  incoming: { select: EDGE_SELECT },
+} as const;
+
+/**
+ * Map a Prisma row (with NODE_INCLUDE) to the domain shape. Edges are kept
+ * directed, while `connections` merges both directions into one neighbour list.
+ */
+function toResearchNode(row: any): ResearchNode {
+  const edges: ResearchEdge[] = [...(row.outgoing || []), ...(row.incoming || [])];
+  const connections = new Set<string>(
+    edges.map(edge => (edge.sourceId === row.id ? edge.targetId : edge.sourceId))
+  );
+
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    type: row.type,
+    depth: row.depth,
+    lens: row.lens,
+    detailLevel: row.detailLevel as NodeDetailLevel,
+    confidence: row.confidence ?? null,
+    tags: row.tags || [],
+    parentId: row.parentId ?? null,
+    projectId: row.projectId ?? null,
+    promptVersion: row.promptVersion ?? null,
+    termCounts: isTermCounts(row.termCounts) ? row.termCounts : null,
+    sources: row.sources || [],
+    connections: Array.from(connections),
+    edges,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Detail levels that satisfy a requested level. Low and medium views share the
+ * same concise nodes; the high view includes everything.
+ */
+function detailLevelsFor(level: NodeDetailLevel): NodeDetailLevel[] | undefined {
+  switch (level) {
+    case 'low':
+    case 'medium':
+      return ['low', 'medium'];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Ownership filter for a scope: all of the user's nodes, or only one project's.
+ */
+function scopeWhere(scope: ResearchScope): Record<string, any> {
+  return {
+    userId: scope.userId,
+    ...(scope.projectId && { projectId: scope.projectId }),
+  };
+}
+
+function buildWhere(scope: ResearchScope, query: NodeQuery): Record<string, any> {
+  const and: Record<string, any>[] = [scopeWhere(scope)];
+
+  if (query.ids) {
+    and.push({ id: { in: query.ids } });
+  }
+
+  if (query.search) {
+    and.push({
+      OR: [
+        { title: { contains: query.search, mode: 'insensitive' } },
+        { content: { contains: query.search, mode: 'insensitive' } },
+        { sources: { some: { title: { contains: query.search, mode: 'insensitive' } } } },
+      ],
+    });
+  }
+
+  if (query.lens) {
+    and.push({ lens: { equals: query.lens, mode: 'insensitive' } });
+  }
+
+  if (query.depth !== undefined) {
+    and.push({ depth: query.depth });
+  }
+
+  if (query.parentId) {
+    and.push({ parentId: query.parentId });
+  }
+
+  if (query.detailLevel) {
+    const levels = detailLevelsFor(query.detailLevel);
+    if (levels) and.push({ detailLevel: { in: levels } });
+  }
+
+  if (query.types?.length) {
+    and.push({ type: { in: query.types } });
+  }
+
+  if (query.tags?.length) {
+    and.push({ tags: { hasSome: query.tags } });
+  }
+
+  if (query.source) {
+    and.push({
+      sources: {
+        some: {
+          OR: [
+            { title: { contains: query.source, mode: 'insensitive' } },
+            { url: { contains: query.source, mode: 'insensitive' } },
+          ],
+        },
+      },
+    });
+  }
+
+  if (query.confidenceRange) {
+    const [min, max] = query.confidenceRange;
+    and.push({ confidence: { gte: min, lte: max } });
+  }
+
+  if (query.createdBetween) {
+    const [start, end] = query.createdBetween;
+    and.push({ createdAt: { gte: start, lte: end } });
+  }
+
+  return { AND: and };
+}
+
+function buildOrderBy(query: NodeQuery, options: NodeQueryOptions): Record<string, 'asc' | 'desc'>[] {
+  const orderBy: Record<string, 'asc' | 'desc'>[] = [];
+
+  if (options.sortBy && NODE_SORT_FIELDS.includes(options.sortBy)) {
+    orderBy.push({ [options.sortBy]: options.sortOrder || 'asc' });
+  } else if (query.detailLevel === 'high') {
+    // Surface the comprehensive versions first; 'high' sorts before 'low' and 'medium'.
+    orderBy.push({ detailLevel: 'asc' });
+  }
+
+  orderBy.push({ createdAt: 'asc' });
+  return orderBy;
+}
+
+function toCreateData(scope: ResearchScope, input: CreateNodeInput) {
+  return {
+    userId: scope.userId,
+    projectId: scope.projectId ?? null,
+    title: input.title,
+    content: input.content,
+    type: normalizeNodeKind(input.type, input.depth ?? 0),
+    depth: input.depth ?? 0,
+    lens: input.lens || 'Other',
+    detailLevel: input.detailLevel || 'medium',
+    confidence: input.confidence ?? null,
+    tags: input.tags || [],
+    parentId: input.parentId ?? null,
+    promptVersion: input.promptVersion ?? null,
+    termCounts: termCounts(input.title, input.content),
+    sources: {
+      create: (input.sources || [])
+        .filter(source => source.url || source.title)
+        .map(source => ({ url: source.url ?? null, title: source.title ?? null, userId: scope.userId })),
+    },
+  };
+}
+
+/**
+ * All outgoing edges for a node input: its typed relationships plus a 'related'
+ * edge for every plain connection that has no typed relationship to the same target.
+ */
+function edgeRelationships(input: CreateNodeInput): Relationship[] {
+  const typed = (input.relationships || []).map(relationship => ({
+    ...relationship,
+    provenance: relationship.provenance ?? input.provenance,
+  }));
+  const typedTargets = new Set(typed.map(relationship => relationship.target));
+
+  const untyped = Array.from(new Set(input.connections || []))
+    .filter(target => !typedTargets.has(target))
+    .map(target => ({ target, type: 'related' as const, weight: 1, provenance: input.provenance }));
+
+  return [...typed, ...untyped];
+}
+
+export class NodeRepository {
+  /**
+   * Find nodes matching the query, returning one page plus the total match count.
+   */
+  static async findNodes(
+    scope: ResearchScope,
+    query: NodeQuery = {},
+    options: NodeQueryOptions = {}
+  ): Promise<{ nodes: ResearchNode[]; total: number }> {
+    const where = buildWhere(scope, query);
+
+    const [rows, total] = await prisma.$transaction([
+      prisma.node.findMany({
+        where,
+        include: NODE_INCLUDE,
+        orderBy: buildOrderBy(query, options),
+        ...(options.offset !== undefined && { skip: options.offset }),
+        ...(options.limit !== undefined && { take: options.limit }),
+      }),
+      prisma.node.count({ where }),
+    ]);
+
+    return { nodes: rows.map(toResearchNode), total };
+  }
+
+  /**
+   * Fetch nodes by ID, preserving the order of the requested IDs and skipping unknown ones.
+   */
+  static async findByIds(scope: ResearchScope, ids: string[]): Promise<ResearchNode[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await prisma.node.findMany({
+      where: { id: { in: ids }, ...scopeWhere(scope) },
+      include: NODE_INCLUDE,
+    });
+
+    const byId = new Map(rows.map(row => [row.id, toResearchNode(row)]));
+    return ids.map(id => byId.get(id)).filter((node): node is ResearchNode => Boolean(node));
+  }
+
+  /**
+   * Ancestors of a node, nearest first. Stops at a node that is missing from
+   * the scope, and after `maxDepth` steps in case the parent links form a cycle.
+   */
+  static async findAncestors(scope: ResearchScope, nodeId: string, maxDepth = 20): Promise<ResearchNode[]> {
+    const ancestors: ResearchNode[] = [];
+    const seen = new Set([nodeId]);
+    let [current] = await this.findByIds(scope, [nodeId]);
+
+    while (current?.parentId && !seen.has(current.parentId) && ancestors.length < maxDepth) {
+      seen.add(current.parentId);
+      [current] = await this.findByIds(scope, [current.parentId]);
+      if (current) ancestors.push(current);
+    }
+
+    return ancestors;
+  }
+
+  static async count(scope: ResearchScope): Promise<number> {
+    return prisma.node.count({ where: scopeWhere(scope) });
+  }
+
+  /**
+   * Persist a batch of nodes and return them in input order. Edge targets may
+   * name a `key` from the same batch or the ID of a node already stored;
+   * references to unknown nodes are dropped.
+   */
+  static async createNodes(scope: ResearchScope, inputs: CreateNodeInput[]): Promise<ResearchNode[]> {
+    if (inputs.length === 0) return [];
+
+    const createdIds = await prisma.$transaction(async (tx) => {
+      const ids: string[] = [];
+      const idsByKey = new Map<string, string>();
+
+      for (const input of inputs) {
+        const created = await tx.node.create({ data: toCreateData(scope, input), select: { id: true } });
+        ids.push(created.id);
+        if (input.key) idsByKey.set(input.key, created.id);
+      }
+
+      const relationshipsPerInput = inputs.map(edgeRelationships);
+      const external = relationshipsPerInput
+        .flat()
+        .map(relationship => relationship.target)
+        .filter(ref => !idsByKey.has(ref));
+      const existing = new Set(
+        (await tx.node.findMany({
+          where: { id: { in: Array.from(new Set(external)) }, ...scopeWhere(scope) },
+          select: { id: true },
+        })).map(n => n.id)
+      );
+
+      // Untyped links are symmetric, so keep only one 'related' edge per node pair
+      const relatedPairs = new Set<string>();
+      const isNewPair = (sourceId: string, targetId: string, type: RelationshipType) => {
+        if (type !== 'related') return true;
+        const pair = [sourceId, targetId].sort().join('|');
+        if (relatedPairs.has(pair)) return false;
+        relatedPairs.add(pair);
+        return true;
+      };
+
+      const edges = relationshipsPerInput.flatMap((relationships, i) =>
+        relationships
+          .map(relationship => ({
+            ...relationship,
+            targetId: idsByKey.get(relationship.target) || (existing.has(relationship.target) ? relationship.target : undefined),
+          }))
+          .filter(relationship =>
+            relationship.targetId &&
+            relationship.targetId !== ids[i] &&
+            isNewPair(ids[i], relationship.targetId, relationship.type)
+          )
+          .map(relationship => ({
+            sourceId: ids[i],
+            targetId: relationship.targetId!,
+            type: relationship.type,
+            weight: relationship.weight,
+            provenance: relationship.provenance ?? null,
+            userId: scope.userId,
+            projectId: scope.projectId ?? null,
+          }))
+      );
+
+      if (edges.length > 0) {
+        await tx.edge.createMany({ data: edges, skipDuplicates: true });
+      }
+
+      return ids;
+    });
+
+    return this.findByIds(scope, createdIds);
+  }
+
+  /**
+   * Store new children of a node alongside the ones it already has. An input
+   * whose title matches an existing child is not stored again: that child is
+   * returned in its place, and links from the other inputs point at it. The
+   * result lines up with `inputs`.
+   */
+  static async addChildren(
+    scope: ResearchScope,
+    parentId: string,
+    inputs: CreateNodeInput[]
+  ): Promise<ResearchNode[]> {
+    const { nodes: children } = await this.findNodes(scope, { parentId });
+    const byTitle = new Map(children.map(child => [normalizeTitle(child.title), child]));
+
+    const existing = inputs.map(input => byTitle.get(normalizeTitle(input.title)));
+    const existingIds = new Map<string, string>();
+    inputs.forEach((input, index) => {
+      if (input.key && existing[index]) existingIds.set(input.key, existing[index]!.id);
+    });
+    const remap = (ref: string) => existingIds.get(ref) || ref;
+
+    const created = await this.createNodes(
+      scope,
+      inputs
+        .filter((_, index) => !existing[index])
+        .map(input => ({
+          ...input,
+          parentId,
+          connections: input.connections?.map(remap),
+          relationships: input.relationships?.map(relationship => ({ ...relationship, target: remap(relationship.target) })),
+        }))
+    );
+
+    let next = 0;
+    return existing.map(child => child ?? created[next++]);
+  }
+
+  /**
+   * Merge duplicates into `targetId` and delete them. Their edges, children
+   * and conflicts move to the target, as do sources it does not already cite;
+   * tags are unioned and the higher confidence wins. The target keeps its own
+   * title and content. Edges that would link the target to itself, or repeat
+   * one it already has, are dropped.
+   */
+  static async mergeNodes(scope: ResearchScope, targetId: string, sourceIds: string[]): Promise<ResearchNode> {
+    const mergedIds = Array.from(new Set(sourceIds)).filter(id => id !== targetId);
+    if (mergedIds.length === 0) {
+      throw new ValidationError('Choose at least one other node to merge');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const rows = await tx.node.findMany({
+        where: { id: { in: [targetId, ...mergedIds] }, ...scopeWhere(scope) },
+        include: {
+          sources: { select: { id: true, url: true, title: true } },
+          conflicts: { select: { id: true } },
+        },
+      });
+      const target = rows.find(row => row.id === targetId);
+      const merged = rows.filter(row => row.id !== targetId);
+      if (!target || merged.length !== mergedIds.length) {
+        throw new NotFoundError('Node');
+      }
+
+      const remap = (id: string) => (mergedIds.includes(id) ? targetId : id);
+      const edges = await tx.edge.findMany({
+        where: { OR: [{ sourceId: { in: mergedIds } }, { targetId: { in: mergedIds } }] },
+      });
+      await tx.edge.deleteMany({ where: { id: { in: edges.map(edge => edge.id) } } });
+      const moved = edges
+        .map(({ id, createdAt, ...edge }) => ({ ...edge, sourceId: remap(edge.sourceId), targetId: remap(edge.targetId) }))
+        .filter(edge => edge.sourceId !== edge.targetId);
+      if (moved.length > 0) {
+        await tx.edge.createMany({ data: moved, skipDuplicates: true });
+      }
+
+      // Sources the target already cites are deleted along with their node
+      const cited = new Set(target.sources.map(source => `${source.url ?? ''}|${source.title ?? ''}`));
+      const newSources = merged.flatMap(row => row.sources).filter(source => {
+        const key = `${source.url ?? ''}|${source.title ?? ''}`;
+        if (cited.has(key)) return false;
+        cited.add(key);
+        return true;
+      });
+      if (newSources.length > 0) {
+        await tx.source.updateMany({
+          where: { id: { in: newSources.map(source => source.id) } },
+          data: { nodeId: targetId },
+        });
+      }
+
+      await tx.node.updateMany({
+        where: { parentId: { in: mergedIds }, id: { not: targetId }, ...scopeWhere(scope) },
+        data: { parentId: targetId },
+      });
+
+      // A target nested under one of the merged nodes takes that node's place
+      const parents = new Map(merged.map(row => [row.id, row.parentId]));
+      let parentId = target.parentId;
+      const seen = new Set<string>();
+      while (parentId && parents.has(parentId) && !seen.has(parentId)) {
+        seen.add(parentId);
+        parentId = parents.get(parentId) ?? null;
+      }
+
+      const confidences = rows.map(row => row.confidence).filter((value): value is number => value !== null);
+      await tx.node.update({
+        where: { id: targetId },
+        data: {
+          parentId: parentId && !mergedIds.includes(parentId) ? parentId : null,
+          tags: Array.from(new Set(rows.flatMap(row => row.tags))),
+          confidence: confidences.length > 0 ? Math.max(...confidences) : null,
+          conflicts: { connect: merged.flatMap(row => row.conflicts).map(conflict => ({ id: conflict.id })) },
+        },
+      });
+
+      await tx.node.deleteMany({ where: { id: { in: mergedIds }, ...scopeWhere(scope) } });
+    });
+
+    const [node] = await this.findByIds(scope, [targetId]);
+    return node;
+  }
+
+  /**
+   * Link two existing nodes with a typed edge. Returns false when they are
+   * already linked that way, counting a 'related' edge in either direction
+   * since untyped links are symmetric.
+   */
+  static async connectNodes(
+    scope: ResearchScope,
+    sourceId: string,
+    targetId: string,
+    relationship: Omit<Relationship, 'target'>
+  ): Promise<boolean> {
+    if (sourceId === targetId) {
+      throw new ValidationError('A node cannot be connected to itself');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const found = await tx.node.count({ where: { id: { in: [sourceId, targetId] }, ...scopeWhere(scope) } });
+      if (found !== 2) {
+        throw new NotFoundError('Node');
+      }
+
+      const pairs = [{ sourceId, targetId }];
+      if (relationship.type === 'related') pairs.push({ sourceId: targetId, targetId: sourceId });
+      const existing = await tx.edge.count({
+        where: { type: relationship.type, OR: pairs },
+      });
+      if (existing > 0) return false;
+
+      // A concurrent request may store the same edge after the check; skipping the duplicate reports it as already connected
+      const { count } = await tx.edge.createMany({
+        data: [{
+          sourceId,
+          targetId,
+          type: relationship.type,
+          weight: relationship.weight,
+          provenance: relationship.provenance ?? null,
+          userId: scope.userId,
+          projectId: scope.projectId ?? null,
+        }],
+        skipDuplicates: true,
+      });
+      return count > 0;
+    });
+  }
+
+  /**
+   * Record detected conflicts against the nodes they involve.
+   */
+  static async createConflicts(scope: ResearchScope, inputs: CreateConflictInput[]): Promise<void> {
+    const nodeIds = Array.from(new Set(inputs.flatMap(input => input.nodeIds)));
+    const existing = new Set(
+      (await prisma.node.findMany({
+        where: { id: { in: nodeIds }, ...scopeWhere(scope) },
+        select: { id: true },
+      })).map(n => n.id)
+    );
+
+    await prisma.$transaction(
+      inputs
+        .map(input => ({ ...input, nodeIds: input.nodeIds.filter(id => existing.has(id)) }))
+        .filter(input => input.nodeIds.length > 0)
+        .map(input =>
+          prisma.conflict.create({
+            data: {
+              title: input.title,
+              type: input.type,
+              severity: input.severity,
+              description: input.description,
+              userId: scope.userId,
+              projectId: scope.projectId ?? null,
+              nodes: { connect: input.nodeIds.map(id => ({ id })) },
+            },
+          })
+        )
+    );
+  }
+}
+
+/**
+ * First source label for a node, used by routes that expose a single `source` string.
+ */
+export function primarySource(node: ResearchNode): string | undefined {
+  const source = node.sources[0];
+  return source ? source.title || source.url || undefined : undefined;
+}
+
+/**
+ * Typed edges leaving a node, in the shape the API returns to clients.
+ */
+export function outgoingRelationships(node: ResearchNode): Relationship[] {
+  return node.edges
+    .filter(edge => edge.sourceId === node.id)
+    .map(edge => ({
+      target: edge.targetId,
+      type: edge.type,
+      weight: edge.weight,
+      ...(edge.provenance && { provenance: edge.provenance }),
+    }));
+}
+
+/**
+ * Title key used to spot repeats: case and whitespace are ignored.
+ */
+export function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Fields of generated nodes that hold references to other nodes in the same batch
+const NODE_REFERENCE_FIELDS = ['connections', 'conflicts', 'children', 'parents'] as const;
+
+/**
+ * Swap the model-generated IDs of freshly persisted nodes for their stored IDs,
+ * keeping whatever extra fields the route returns. `stored` must be the result
+ * of `createNodes` for the same list, in the same order.
+ */
+export function withStoredIds<T extends { id: string }>(generated: T[], stored: ResearchNode[]): T[] {
+  const idMap = new Map(generated.map((node, index) => [node.id, stored[index]?.id || node.id]));
+  const remap = (ref: string) => idMap.get(ref) || ref;
+
+  return generated.map(node => {
+    const remapped: Record<string, unknown> = { ...node, id: remap(node.id) };
+    for (const field of NODE_REFERENCE_FIELDS) {
+      const refs = remapped[field];
+      if (Array.isArray(refs)) remapped[field] = refs.map(remap);
+    }
+    if (Array.isArray(remapped.relationships)) {
+      remapped.relationships = (remapped.relationships as Relationship[]).map(relationship => ({
+        ...relationship,
+        target: remap(relationship.target),
+      }));
+    }
+    return remapped as T;
+  });
+}
+
+/**
+ * Build repository input from a node produced by one of the AI routes.
+ */
+export function fromGeneratedNode(node: {
+  id?: string;
+  title: string;
+  content: string;
+  type?: string;
+  depth?: number;
+  lens?: string;
+  parentId?: string;
+  source?: string;
+  connections?: string[];
+  relationships?: unknown[];
+}, provenance?: string): CreateNodeInput {
+  return {
+    key: node.id,
+    title: node.title,
+    content: node.content,
+    type: node.type,
+    depth: node.depth,
+    lens: node.lens,
+    parentId: node.parentId,
+    sources: node.source ? [{ title: node.source }] : [],
+    connections: node.connections,
+    relationships: (node.relationships || [])
+      .map(relationship => normalizeRelationship(relationship))
+      .filter((relationship): relationship is Relationship => relationship !== null),
+    provenance,
+  };
+}
+
+export default NodeRepository;
@@ -0,0 +1,104 @@
+import { HighlightRange, SearchSnippet, buildSearchIndex, searchIndex } from '@/lib/full-text-search';
+import { NodeRepository, primarySource } from './node-repository';
+import type { ResearchScope } from './research-scope';
+
+/**
+ * Full-text search over a user's stored nodes (see lib/full-text-search).
+ * The index is built per request from the most recently updated nodes, so
+ * results always reflect the latest edits without an index to keep in sync.
+ */
+
+export interface NodeSearchOptions {
+  lens?: string;
+  depth?: number;
+  offset?: number;
+  limit?: number;
+}
+
+export interface NodeSearchResult {
+  id: string;
+  title: string;
+  content: string;
+  type: string;
+  depth: number;
+  lens: string;
+  source?: string;
+  score: number;
+  titleHighlights: HighlightRange[];
+  snippet: SearchSnippet;
+}
+
+export interface SearchFacet<T> {
+  value: T;
+  count: number;
+}
+
+export interface NodeSearchResponse {
+  results: NodeSearchResult[];
+  /** Matches after the lens and depth filters. */
+  total: number;
+  /** Match counts per lens and depth, before those filters. */
+  facets: {
+    lens: SearchFacet<string>[];
+    depth: SearchFacet<number>[];
+  };
+  /** Nodes searched; less than the user's total when over MAX_INDEXED_NODES. */
+  indexed: number;
+}
+
+export const MAX_INDEXED_NODES = 2000;
+
+function countBy<T>(values: T[]): SearchFacet<T>[] {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).map(([value, count]) => ({ value, count }));
+}
+
+export class NodeSearchService {
+  static async search(scope: ResearchScope, query: string, options: NodeSearchOptions = {}): Promise<NodeSearchResponse> {
+    const { nodes } = await NodeRepository.findNodes(
+      scope,
+      {},
+      { limit: MAX_INDEXED_NODES, sortBy: 'updatedAt', sortOrder: 'desc' }
+    );
+    const byId = new Map(nodes.map(node => [node.id, node]));
+
+    const index = buildSearchIndex(nodes.map(node => ({
+      id: node.id,
+      title: node.title,
+      content: node.content,
+      sources: node.sources.flatMap(source => [source.title, source.url]).filter((value): value is string => !!value),
+    })));
+    const matches = searchIndex(index, query).map(hit => ({ hit, node: byId.get(hit.id)! }));
+
+    const lens = options.lens?.toLowerCase();
+    const filtered = matches.filter(({ node }) =>
+      (lens === undefined || node.lens.toLowerCase() === lens) &&
+      (options.depth === undefined || node.depth === options.depth)
+    );
+    const offset = options.offset ?? 0;
+
+    return {
+      results: filtered.slice(offset, offset + (options.limit ?? 20)).map(({ hit, node }) => ({
+        id: node.id,
+        title: node.title,
+        content: node.content,
+        type: node.type,
+        depth: node.depth,
+        lens: node.lens,
+        source: primarySource(node),
+        score: Math.round(hit.score * 1000) / 1000,
+        titleHighlights: hit.titleHighlights,
+        snippet: hit.snippet,
+      })),
+      total: filtered.length,
+      facets: {
+        lens: countBy(matches.map(({ node }) => node.lens)).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+        depth: countBy(matches.map(({ node }) => node.depth)).sort((a, b) => a.value - b.value),
+      },
+      indexed: nodes.length,
+    };
+  }
+}
+
+export default NodeSearchService;
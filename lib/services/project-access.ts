@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/db';
+import { hasProjectRole, isProjectRole, ProjectAccessRole } from '@/lib/project-roles';
+
+/**
+ * The signed-in user's access to one SavedPath, either as its owner or
+ * through a ProjectMember row.
+ */
+export interface ProjectAccess {
+  userId: string;
+  projectId: string;
+  ownerId: string;
+  role: ProjectAccessRole;
+}
+
+/**
+ * Resolve the signed-in user's access to a project and check it grants at
+ * least `required`. Returns a ready-made 401/404/403 response otherwise, so
+ * routes can simply `if (access instanceof NextResponse) return access;`.
+ * Projects the user cannot see at all, and projects in the trash, are
+ * reported as not found.
+ */
+export async function requireProjectAccess(
+  projectId: string,
+  required: ProjectAccessRole = 'viewer'
+): Promise<ProjectAccess | NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email || !session.user.id) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const userId = session.user.id;
+  const project = await prisma.savedPath.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      userId: true,
+      deletedAt: true,
+      members: {
+        where: { userId },
+        select: { role: true },
+      },
+    },
+  });
+
+  const memberRole = project?.members[0]?.role;
+  const role: ProjectAccessRole | null = !project || project.deletedAt
+    ? null
+    : project.userId === userId
+      ? 'owner'
+      : isProjectRole(memberRole) ? memberRole : null;
+
+  if (!project || !role) {
+    return NextResponse.json(
+      { success: false, error: 'Project not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!hasProjectRole(role, required)) {
+    return NextResponse.json(
+      { success: false, error: 'Insufficient permissions' },
+      { status: 403 }
+    );
+  }
+
+  return { userId, projectId: project.id, ownerId: project.userId, role };
+}
@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import prisma from '@/lib/db';
+import { parseProjectDocument } from '@/lib/project-document';
+import {
+  ArchiveNode,
+  createProjectArchive,
+  ProjectArchive,
+  remapArchiveIds,
+} from '@/lib/project-archive';
+import { normalizeNodeKind } from '@/lib/node-kinds';
+import { ProjectRevisionService } from '@/lib/services/project-revisions';
+import { termCounts } from '@/lib/term-vectors';
+
+/**
+ * Builds .kniit archives from a project and its research rows, and turns
+ * uploaded archives back into a new project owned by the importing user.
+ */
+export class ProjectArchiveService {
+  /**
+   * Everything needed to recreate the project elsewhere: its document and
+   * the owner's research nodes that belong to it, either through projectId
+   * or because they appear in the outline.
+   */
+  static async build(projectId: string, ownerId: string): Promise<ProjectArchive | null> {
+    const project = await prisma.savedPath.findUnique({
+      where: { id: projectId },
+      select: { title: true, data: true },
+    });
+    if (!project) return null;
+
+    const document = parseProjectDocument(project.data);
+    const outlineIds = document.nodes.map(node => node.id);
+
+    const nodes = await prisma.node.findMany({
+      where: { userId: ownerId, OR: [{ projectId }, { id: { in: outlineIds } }] },
+      include: { sources: { select: { url: true, title: true } } },
+      orderBy: [{ depth: 'asc' }, { createdAt: 'asc' }],
+    });
+    const nodeIds = nodes.map(node => node.id);
+
+    const [edges, conflicts] = await Promise.all([
+      prisma.edge.findMany({
+        where: { userId: ownerId, sourceId: { in: nodeIds }, targetId: { in: nodeIds } },
+        select: { sourceId: true, targetId: true, type: true, weight: true, provenance: true },
+      }),
+      prisma.conflict.findMany({
+        where: { userId: ownerId, OR: [{ projectId }, { nodes: { some: { id: { in: nodeIds } } } }] },
+        include: { nodes: { select: { id: true } } },
+      }),
+    ]);
+
+    const exported = new Set(nodeIds);
+
+    return createProjectArchive(project.title, document, {
+      nodes: nodes.map((node): ArchiveNode => ({
+        id: node.id,
+        title: node.title,
+        content: node.content,
+        type: node.type,
+        depth: node.depth,
+        lens: node.lens,
+        detailLevel: node.detailLevel,
+        confidence: node.confidence,
+        tags: node.tags,
+        parentId: node.parentId && exported.has(node.parentId) ? node.parentId : null,
+        sources: node.sources,
+      })),
+      edges,
+      conflicts: conflicts.map(conflict => ({
+        title: conflict.title,
+        type: conflict.type,
+        severity: conflict.severity,
+        description: conflict.description,
+        nodeIds: conflict.nodes.map(node => node.id).filter(id => exported.has(id)),
+      })),
+    });
+  }
+
+  /**
+   * Create a new project for `userId` from a parsed archive. All node IDs
+   * are regenerated so importing never collides with existing rows, even
+   * when the same archive is imported twice.
+   */
+  static async restore(archive: ProjectArchive, userId: string) {
+    const { manifest, document, research } = remapArchiveIds(archive, randomUUID);
+
+    const project = await ProjectRevisionService.saveWithRevision({
+      ownerId: userId,
+      authorId: userId,
+      title: manifest.title,
+      data: { ...document, savedAt: new Date().toISOString() },
+      summary: 'Imported from archive',
+    });
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.node.createMany({
+          data: research.nodes.map(({ sources, ...node }) => ({
+            ...node,
+            type: normalizeNodeKind(node.type, node.depth),
+            termCounts: termCounts(node.title, node.content),
+            userId,
+            projectId: project.id,
+          })),
+        });
+        await tx.source.createMany({
+          data: research.nodes.flatMap(node =>
+            node.sources.map(source => ({ ...source, nodeId: node.id, userId }))
+          ),
+        });
+        await tx.edge.createMany({
+          data: research.edges.map(edge => ({ ...edge, userId, projectId: project.id })),
+          skipDuplicates: true,
+        });
+        for (const { nodeIds, ...conflict } of research.conflicts) {
+          await tx.conflict.create({
+            data: {
+              ...conflict,
+              userId,
+              projectId: project.id,
+              nodes: { connect: nodeIds.map(id => ({ id })) },
+            },
+          });
+        }
+      });
+    } catch (error) {
+      // Don't leave a project behind whose research failed to import
+      await prisma.savedPath.delete({ where: { id: project.id } }).catch(() => undefined);
+      throw error;
+    }
+
+    return project;
+  }
+}
@@ -0,0 +1,76 @@
+import prisma from '@/lib/db';
+
+/**
+ * Comments on shared projects. Anyone who can see a project can read them;
+ * commenters and up can add them. Callers are expected to have checked the
+ * acting user's role with requireProjectAccess first.
+ */
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export interface ProjectCommentItem {
+  id: string;
+  body: string;
+  nodeId: string | null;
+  author: { id: string; name: string | null; email: string | null };
+  createdAt: Date;
+}
+
+const COMMENT_SELECT = {
+  id: true,
+  body: true,
+  nodeId: true,
+  createdAt: true,
+  author: { select: { id: true, name: true, email: true } },
+} as const;
+
+export class ProjectCommentService {
+  /**
+   * Oldest first, optionally only those about one node.
+   */
+  static async list(projectId: string, nodeId?: string): Promise<ProjectCommentItem[]> {
+    return prisma.projectComment.findMany({
+      where: { projectId, ...(nodeId && { nodeId }) },
+      orderBy: { createdAt: 'asc' },
+      select: COMMENT_SELECT,
+    });
+  }
+
+  static async add(
+    projectId: string,
+    authorId: string,
+    comment: { body: string; nodeId?: string | null }
+  ): Promise<ProjectCommentItem> {
+    return prisma.projectComment.create({
+      data: {
+        projectId,
+        authorId,
+        body: comment.body.trim(),
+        nodeId: comment.nodeId ?? null,
+      },
+      select: COMMENT_SELECT,
+    });
+  }
+
+  /**
+   * Delete a comment. Its author can delete it, and the owner can delete any
+   * comment. Returns null when the comment does not exist on this project,
+   * false when the user may not delete it.
+   */
+  static async remove(
+    projectId: string,
+    commentId: string,
+    user: { id: string; isOwner: boolean }
+  ): Promise<boolean | null> {
+    const comment = await prisma.projectComment.findFirst({
+      where: { id: commentId, projectId },
+      select: { authorId: true },
+    });
+
+    if (!comment) return null;
+    if (!user.isOwner && comment.authorId !== user.id) return false;
+
+    await prisma.projectComment.delete({ where: { id: commentId } });
+    return true;
+  }
+}
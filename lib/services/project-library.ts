@@ -0,0 +1,165 @@
+import prisma from '@/lib/db';
+import { normalizeFolder, normalizeTags, projectSearchText, ProjectSortField } from '@/lib/project-labels';
+
+/**
+ * Listing, searching and organizing a user's own saved projects. Folders and
+ * tags belong to the owner and are not part of a project's revisions.
+ */
+
+export interface ProjectQuery {
+  /** Matched against the project title and the titles of its nodes. */
+  search?: string;
+  /** Folder name; null lists unfiled projects only. */
+  folder?: string | null;
+  /** Projects must have every one of these tags, compared case-insensitively. */
+  tags?: string[];
+}
+
+export interface ProjectQueryOptions {
+  offset?: number;
+  limit?: number;
+  sortBy?: ProjectSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface ProjectFacet {
+  name: string;
+  count: number;
+}
+
+const PROJECT_LIST_SELECT = {
+  id: true,
+  title: true,
+  data: true,
+  folder: true,
+  tags: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// `tagSpellings` holds, per wanted tag, every spelling of it the user has stored
+function buildWhere(userId: string, query: ProjectQuery, tagSpellings: string[][] = []): Record<string, any> {
+  const and: Record<string, any>[] = [{ userId, deletedAt: null }];
+
+  if (query.search?.trim()) {
+    and.push({ searchText: { contains: query.search.trim().toLowerCase() } });
+  }
+
+  if (query.folder !== undefined) {
+    and.push({ folder: query.folder });
+  }
+
+  tagSpellings.forEach(spellings => {
+    and.push({ OR: spellings.map(tag => ({ tags: { has: tag } })) });
+  });
+
+  return { AND: and };
+}
+
+/**
+ * Stored tags keep the first spelling they were given, so a wanted tag is
+ * matched against each of the user's tags that equals it ignoring case.
+ */
+async function findTagSpellings(userId: string, tags: string[]): Promise<string[][]> {
+  const projects = await prisma.savedPath.findMany({
+    where: { userId, deletedAt: null, NOT: { tags: { isEmpty: true } } },
+    select: { tags: true },
+  });
+
+  const stored = new Set<string>();
+  projects.forEach(project => project.tags.forEach(tag => stored.add(tag)));
+
+  return normalizeTags(tags).map(tag => {
+    const spellings = Array.from(stored).filter(storedTag => storedTag.toLowerCase() === tag.toLowerCase());
+    return spellings.length > 0 ? spellings : [tag];
+  });
+}
+
+/**
+ * Fill in searchText for the user's projects saved before it existed, so
+ * their node titles can be searched without saving each project again.
+ */
+async function backfillSearchText(userId: string) {
+  const projects = await prisma.savedPath.findMany({
+    where: { userId, deletedAt: null, searchText: '' },
+    select: { id: true, title: true, data: true, updatedAt: true },
+  });
+
+  for (const project of projects) {
+    await prisma.savedPath.update({
+      where: { id: project.id },
+      // Keep updatedAt, which the "Last updated" sort relies on
+      data: { searchText: projectSearchText(project.title, project.data), updatedAt: project.updatedAt },
+    });
+  }
+}
+
+export class ProjectLibraryService {
+  static async findProjects(
+    userId: string,
+    query: ProjectQuery = {},
+    options: ProjectQueryOptions = {}
+  ) {
+    await backfillSearchText(userId);
+
+    const where = buildWhere(userId, query, query.tags?.length ? await findTagSpellings(userId, query.tags) : []);
+    const sortBy = options.sortBy ?? 'updatedAt';
+
+    const [projects, total] = await prisma.$transaction([
+      prisma.savedPath.findMany({
+        where,
+        select: PROJECT_LIST_SELECT,
+        orderBy: { [sortBy]: options.sortOrder ?? (sortBy === 'title' ? 'asc' : 'desc') },
+        ...(options.offset !== undefined && { skip: options.offset }),
+        ...(options.limit !== undefined && { take: options.limit }),
+      }),
+      prisma.savedPath.count({ where }),
+    ]);
+
+    return { projects, total };
+  }
+
+  /**
+   * The user's folders and tags with how many projects use each, for
+   * building filters.
+   */
+  static async facets(userId: string): Promise<{ folders: ProjectFacet[]; tags: ProjectFacet[]; unfiled: number }> {
+    const projects = await prisma.savedPath.findMany({
+      where: { userId, deletedAt: null },
+      select: { folder: true, tags: true },
+    });
+
+    const folders = new Map<string, number>();
+    const tags = new Map<string, number>();
+    let unfiled = 0;
+
+    for (const project of projects) {
+      if (project.folder) {
+        folders.set(project.folder, (folders.get(project.folder) ?? 0) + 1);
+      } else {
+        unfiled++;
+      }
+      project.tags.forEach(tag => tags.set(tag, (tags.get(tag) ?? 0) + 1));
+    }
+
+    const sorted = (counts: Map<string, number>) =>
+      Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+
+    return { folders: sorted(folders), tags: sorted(tags), unfiled };
+  }
+
+  /**
+   * Move a project to a folder and/or replace its tags. Fields left
+   * undefined are unchanged.
+   */
+  static async organize(projectId: string, labels: { folder?: string | null; tags?: string[] }) {
+    return prisma.savedPath.update({
+      where: { id: projectId },
+      data: {
+        ...(labels.folder !== undefined && { folder: normalizeFolder(labels.folder) }),
+        ...(labels.tags && { tags: normalizeTags(labels.tags) }),
+      },
+      select: PROJECT_LIST_SELECT,
+    });
+  }
+}
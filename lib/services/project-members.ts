@@ -0,0 +1,132 @@
+import prisma from '@/lib/db';
+import { ProjectRole } from '@/lib/project-roles';
+
+/**
+ * Memberships of shared projects. Callers are expected to have checked the
+ * acting user's role with requireProjectAccess first.
+ */
+
+export interface ProjectMemberUser {
+  id: string;
+  name: string | null;
+  email: string | null;
+  username: string | null;
+}
+
+export interface ProjectMemberItem {
+  user: ProjectMemberUser;
+  role: ProjectRole | 'owner';
+  createdAt: Date;
+}
+
+const USER_SELECT = { select: { id: true, name: true, email: true, username: true } } as const;
+
+export class ProjectMemberService {
+  /**
+   * Owner first, then members in the order they were invited.
+   */
+  static async list(projectId: string): Promise<ProjectMemberItem[]> {
+    const project = await prisma.savedPath.findUnique({
+      where: { id: projectId },
+      select: {
+        createdAt: true,
+        user: USER_SELECT,
+        members: {
+          orderBy: { createdAt: 'asc' },
+          select: { role: true, createdAt: true, user: USER_SELECT },
+        },
+      },
+    });
+
+    if (!project) return [];
+
+    return [
+      { user: project.user, role: 'owner', createdAt: project.createdAt },
+      ...project.members.map(member => ({
+        user: member.user,
+        role: member.role as ProjectRole,
+        createdAt: member.createdAt,
+      })),
+    ];
+  }
+
+  /**
+   * Find the user to invite by email address or username.
+   */
+  static async findInvitee(identifier: string) {
+    const value = identifier.trim();
+
+    return prisma.user.findFirst({
+      where: value.includes('@')
+        ? { email: { equals: value, mode: 'insensitive' } }
+        : { username: value },
+      select: { id: true, name: true, email: true, username: true },
+    });
+  }
+
+  /**
+   * Add a member, or change the role of an existing one.
+   */
+  static async invite(projectId: string, userId: string, role: ProjectRole) {
+    return prisma.projectMember.upsert({
+      where: { projectId_userId: { projectId, userId } },
+      create: { projectId, userId, role },
+      update: { role },
+      select: { role: true, createdAt: true, user: USER_SELECT },
+    });
+  }
+
+  /**
+   * Returns null when the user is not a member of the project.
+   */
+  static async updateRole(projectId: string, userId: string, role: ProjectRole) {
+    const { count } = await prisma.projectMember.updateMany({
+      where: { projectId, userId },
+      data: { role },
+    });
+
+    if (count === 0) return null;
+
+    return prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+      select: { role: true, createdAt: true, user: USER_SELECT },
+    });
+  }
+
+  static async remove(projectId: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.projectMember.deleteMany({
+      where: { projectId, userId },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Projects other users have shared with this user, most recently updated first.
+   */
+  static async sharedWith(userId: string) {
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId, project: { deletedAt: null } },
+      orderBy: { project: { updatedAt: 'desc' } },
+      select: {
+        role: true,
+        project: {
+          select: {
+            id: true,
+            title: true,
+            data: true,
+            createdAt: true,
+            updatedAt: true,
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+    });
+
+    return memberships.map(({ role, project: { user, ...project } }) => ({
+      ...project,
+      role: role as ProjectRole,
+      owner: user,
+    }));
+  }
+}
@@ -0,0 +1,242 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { describeProjectDiff, diffProjectData, ProjectDiff } from '@/lib/project-diff';
+import { parseProjectDocument } from '@/lib/project-document';
+import { projectSearchText } from '@/lib/project-labels';
+
+/**
+ * Append-only revision history for saved projects. Every create, update and
+ * restore of a SavedPath goes through `saveWithRevision`, so the history is
+ * never rewritten and any earlier state can be brought back.
+ */
+
+export interface RevisionAuthor {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface RevisionListItem {
+  number: number;
+  title: string;
+  summary: string;
+  author: RevisionAuthor | null;
+  nodeCount: number;
+  createdAt: Date;
+}
+
+export interface Revision extends RevisionListItem {
+  data: any;
+}
+
+interface SaveParams {
+  /** Existing project to update; omitted when creating one. */
+  projectId?: string;
+  /** Owner of a newly created project. */
+  ownerId?: string;
+  /** Folder and tags of a newly created project; not part of its revisions. */
+  folder?: string | null;
+  tags?: string[];
+  authorId: string;
+  title?: string;
+  data?: any;
+  summary?: string;
+}
+
+const AUTHOR_SELECT = { select: { id: true, name: true, email: true } } as const;
+
+const PROJECT_SELECT = {
+  id: true,
+  title: true,
+  data: true,
+  folder: true,
+  tags: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Concurrent saves of a project can claim the same next revision number. The
+// unique (projectId, number) constraint rejects all but the first, and the
+// others are retried against the state it committed.
+const MAX_SAVE_ATTEMPTS = 5;
+
+function isRevisionNumberTaken(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function nodeCount(data: any): number {
+  return Array.isArray(data?.nodes) ? data.nodes.length : 0;
+}
+
+function toRevision(row: any): Revision {
+  return {
+    number: row.number,
+    title: row.title,
+    summary: row.summary,
+    author: row.author ?? null,
+    nodeCount: nodeCount(row.data),
+    createdAt: row.createdAt,
+    data: row.data,
+  };
+}
+
+export class ProjectRevisionService {
+  /**
+   * Write the project's new state and append a revision for it in one
+   * transaction. Without an explicit summary, one is derived from the diff
+   * against the previous revision.
+   */
+  static async saveWithRevision(params: SaveParams) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.saveOnce(params);
+      } catch (error) {
+        if (attempt >= MAX_SAVE_ATTEMPTS || !params.projectId || !isRevisionNumberTaken(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private static async saveOnce(params: SaveParams) {
+    return prisma.$transaction(async (tx) => {
+      const previous = params.projectId
+        ? await tx.savedPath.findUnique({ where: { id: params.projectId }, select: PROJECT_SELECT })
+        : null;
+
+      // Projects saved before history existed get their current state kept as revision 1
+      if (previous && !(await tx.projectRevision.count({ where: { projectId: previous.id } }))) {
+        await this.append(tx, previous.id, {
+          title: previous.title,
+          data: previous.data,
+          summary: 'State before revision history',
+          authorId: null,
+        });
+      }
+
+      const project = previous
+        ? await tx.savedPath.update({
+            where: { id: previous.id },
+            data: {
+              ...(params.title && { title: params.title }),
+              ...(params.data && { data: params.data }),
+              searchText: projectSearchText(params.title || previous.title, params.data ?? previous.data),
+            },
+            select: PROJECT_SELECT,
+          })
+        : await tx.savedPath.create({
+            data: {
+              title: params.title!,
+              data: params.data,
+              searchText: projectSearchText(params.title!, params.data),
+              folder: params.folder ?? null,
+              tags: params.tags ?? [],
+              userId: params.ownerId ?? params.authorId,
+            },
+            select: PROJECT_SELECT,
+          });
+
+      const summary = params.summary?.trim() || (previous
+        ? describeProjectDiff(diffProjectData(previous, project))
+        : 'Created project');
+
+      await this.append(tx, project.id, {
+        title: project.title,
+        data: project.data,
+        summary,
+        authorId: params.authorId,
+      });
+
+      return project;
+    });
+  }
+
+  static async list(projectId: string): Promise<RevisionListItem[]> {
+    const rows = await prisma.projectRevision.findMany({
+      where: { projectId },
+      orderBy: { number: 'desc' },
+      include: { author: AUTHOR_SELECT },
+    });
+
+    return rows.map(row => {
+      const { data, ...item } = toRevision(row);
+      return item;
+    });
+  }
+
+  static async get(projectId: string, number: number): Promise<Revision | null> {
+    const row = await prisma.projectRevision.findUnique({
+      where: { projectId_number: { projectId, number } },
+      include: { author: AUTHOR_SELECT },
+    });
+
+    return row ? toRevision(row) : null;
+  }
+
+  /**
+   * Compare a revision with another one, by default the revision just before it.
+   * Returns null when either revision does not exist.
+   */
+  static async diff(
+    projectId: string,
+    number: number,
+    against?: number
+  ): Promise<{ from: number | null; to: number; diff: ProjectDiff } | null> {
+    const target = await this.get(projectId, number);
+    if (!target) return null;
+
+    const baseNumber = against ?? number - 1;
+    const base = baseNumber > 0 ? await this.get(projectId, baseNumber) : null;
+    if (against !== undefined && !base) return null;
+
+    return {
+      from: base?.number ?? null,
+      to: target.number,
+      diff: diffProjectData(base ?? { title: target.title, data: {} }, target),
+    };
+  }
+
+  /**
+   * Bring back an earlier revision. This records a new revision rather than
+   * deleting the later ones, so a restore can itself be undone. Revisions
+   * saved in an older document format are migrated first; a corrupt one
+   * throws ProjectDocumentError.
+   */
+  static async restore(projectId: string, number: number, authorId: string) {
+    const revision = await this.get(projectId, number);
+    if (!revision) return null;
+
+    return this.saveWithRevision({
+      projectId,
+      authorId,
+      title: revision.title,
+      data: parseProjectDocument(revision.data),
+      summary: `Restored revision ${number}`,
+    });
+  }
+
+  private static async append(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    revision: { title: string; data: any; summary: string; authorId: string | null }
+  ) {
+    const latest = await tx.projectRevision.findFirst({
+      where: { projectId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    return tx.projectRevision.create({
+      data: {
+        projectId,
+        number: (latest?.number ?? 0) + 1,
+        title: revision.title,
+        data: revision.data ?? Prisma.JsonNull,
+        summary: revision.summary,
+        authorId: revision.authorId,
+      },
+    });
+  }
+}
+
+export default ProjectRevisionService;
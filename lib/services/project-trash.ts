@@ -0,0 +1,107 @@
+import prisma from '@/lib/db';
+
+/**
+ * Deleting a project moves it to its owner's trash by setting deletedAt.
+ * Trashed projects are hidden from every other endpoint (including from the
+ * members they are shared with) until they are restored, and are removed for
+ * good once they have been in the trash longer than the retention window.
+ * There is no background job: expired projects are purged whenever projects
+ * are listed or deleted, and can no longer be restored in the meantime.
+ */
+
+export const PROJECT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashedProject {
+  id: string;
+  title: string;
+  createdAt: Date;
+  deletedAt: Date;
+  /** When the project will be purged automatically. */
+  purgeAt: Date;
+}
+
+function retentionCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - PROJECT_TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export class ProjectTrashService {
+  static async moveToTrash(projectId: string) {
+    return prisma.savedPath.update({
+      where: { id: projectId },
+      data: { deletedAt: new Date() },
+      select: { id: true, deletedAt: true },
+    });
+  }
+
+  /**
+   * The user's trashed projects, most recently deleted first. Projects past
+   * the retention window are purged first, so they never show up here.
+   */
+  static async list(userId: string): Promise<TrashedProject[]> {
+    await this.purgeExpired(userId);
+
+    const rows = await prisma.savedPath.findMany({
+      where: { userId, deletedAt: { not: null } },
+      orderBy: { deletedAt: 'desc' },
+      select: { id: true, title: true, createdAt: true, deletedAt: true },
+    });
+
+    return rows.map(row => ({
+      ...row,
+      deletedAt: row.deletedAt!,
+      purgeAt: new Date(row.deletedAt!.getTime() + PROJECT_TRASH_RETENTION_DAYS * DAY_MS),
+    }));
+  }
+
+  /**
+   * Take a project out of the trash. Returns null when it is not in the
+   * user's trash (never deleted, expired, already purged or someone else's).
+   */
+  static async restore(projectId: string, userId: string) {
+    const { count } = await prisma.savedPath.updateMany({
+      where: { id: projectId, userId, deletedAt: { not: null, gte: retentionCutoff() } },
+      data: { deletedAt: null },
+    });
+    if (count === 0) return null;
+
+    return prisma.savedPath.findUnique({
+      where: { id: projectId },
+      select: { id: true, title: true, data: true, createdAt: true, updatedAt: true },
+    });
+  }
+
+  /**
+   * Permanently delete a trashed project together with its revisions,
+   * members and research rows. Returns false when it is not in the trash.
+   */
+  static async purge(projectId: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.savedPath.deleteMany({
+      where: { id: projectId, userId, deletedAt: { not: null } },
+    });
+    return count > 0;
+  }
+
+  /** Permanently delete everything in the user's trash. */
+  static async empty(userId: string): Promise<number> {
+    const { count } = await prisma.savedPath.deleteMany({
+      where: { userId, deletedAt: { not: null } },
+    });
+    return count;
+  }
+
+  /**
+   * Permanently delete projects past the retention window: the user's, or
+   * everyone's when no user is given.
+   */
+  static async purgeExpired(userId?: string): Promise<number> {
+    const { count } = await prisma.savedPath.deleteMany({
+      where: {
+        ...(userId && { userId }),
+        deletedAt: { lt: retentionCutoff() },
+      },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,125 @@
+import prisma from '@/lib/db';
+import { ValidationError } from '@/lib/error-handling';
+import {
+  PROMPTS,
+  PromptDefinition,
+  PromptOverride,
+  RenderedPrompt,
+  renderPrompt,
+  unknownPlaceholders,
+} from '@/lib/prompts';
+import type { ResearchScope } from './research-scope';
+
+/**
+ * Per-project prompt overrides: a project can replace a registry prompt's
+ * template, append instructions to it (a house style, a domain glossary), or
+ * both. Callers are expected to have checked the acting user's role with
+ * requireProjectAccess first.
+ */
+
+export interface PromptOverrideChanges {
+  template?: string | null;
+  instructions?: string | null;
+}
+
+export interface ProjectPromptItem {
+  id: string;
+  version: number;
+  role: string;
+  description: string;
+  variables: Record<string, string>;
+  template: string;
+  override: (PromptOverride & { updatedAt: Date }) | null;
+}
+
+const OVERRIDE_SELECT = {
+  promptId: true,
+  template: true,
+  instructions: true,
+  version: true,
+  updatedAt: true,
+} as const;
+
+// Blank text means "not overridden"
+function normalize(text: string | null | undefined): string | null {
+  return text?.trim() ? text : null;
+}
+
+export class PromptOverrideService {
+  /**
+   * Every registry prompt, each with the project's override if it has one.
+   */
+  static async list(projectId: string): Promise<ProjectPromptItem[]> {
+    const overrides = await prisma.promptOverride.findMany({
+      where: { projectId },
+      select: OVERRIDE_SELECT,
+    });
+    const byPrompt = new Map(overrides.map(override => [override.promptId, override]));
+
+    return PROMPTS.map(prompt => ({
+      id: prompt.id,
+      version: prompt.version,
+      role: prompt.role,
+      description: prompt.description,
+      variables: prompt.variables,
+      template: prompt.template,
+      override: byPrompt.get(prompt.id) ?? null,
+    }));
+  }
+
+  static async find(projectId: string, promptId: string): Promise<PromptOverride | null> {
+    return prisma.promptOverride.findUnique({
+      where: { projectId_promptId: { projectId, promptId } },
+      select: OVERRIDE_SELECT,
+    });
+  }
+
+  /**
+   * Create or change a project's override, bumping its version. Throws
+   * ValidationError when the text uses placeholders the prompt does not
+   * provide, or when neither a template nor instructions are given.
+   */
+  static async save(projectId: string, prompt: PromptDefinition, changes: PromptOverrideChanges, userId: string) {
+    const template = normalize(changes.template);
+    const instructions = normalize(changes.instructions);
+
+    if (!template && !instructions) {
+      throw new ValidationError('An override needs a template or instructions');
+    }
+
+    const unknown = unknownPlaceholders(prompt, `${template ?? ''}\n${instructions ?? ''}`);
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}`, {
+        unknown,
+        available: Object.keys(prompt.variables),
+      });
+    }
+
+    return prisma.promptOverride.upsert({
+      where: { projectId_promptId: { projectId, promptId: prompt.id } },
+      create: { projectId, promptId: prompt.id, template, instructions, updatedById: userId },
+      update: { template, instructions, updatedById: userId, version: { increment: 1 } },
+      select: OVERRIDE_SELECT,
+    });
+  }
+
+  /**
+   * Go back to the built-in prompt. Returns false when there was no override.
+   */
+  static async remove(projectId: string, promptId: string): Promise<boolean> {
+    const { count } = await prisma.promptOverride.deleteMany({ where: { projectId, promptId } });
+    return count > 0;
+  }
+
+  /**
+   * Render a prompt for a request, with the scope's project override applied.
+   */
+  static async render<I>(
+    scope: ResearchScope | null,
+    prompt: PromptDefinition<I, any>,
+    input: I
+  ): Promise<RenderedPrompt> {
+    const override = scope?.projectId ? await this.find(scope.projectId, prompt.id) : null;
+    return renderPrompt(prompt, input, override);
+  }
+}
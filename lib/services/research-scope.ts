@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/db';
+
+/**
+ * Owner of the research nodes a request may read or write: always a user,
+ * optionally narrowed to one of their projects (SavedPath).
+ */
+export interface ResearchScope {
+  userId: string;
+  projectId?: string;
+}
+
+/**
+ * Resolve the research scope for the signed-in user. Returns a ready-made
+ * 401/404 response when there is no session or the project is not theirs,
+ * so routes can simply `if (scope instanceof NextResponse) return scope;`.
+ */
+export async function requireResearchScope(projectId?: string | null): Promise<ResearchScope | NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email || !session.user.id) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  if (!projectId) {
+    return { userId: session.user.id };
+  }
+
+  const project = await prisma.savedPath.findFirst({
+    where: {
+      id: projectId,
+      userId: session.user.id,
+      deletedAt: null,
+    },
+    select: { id: true },
+  });
+
+  if (!project) {
+    return NextResponse.json(
+      { success: false, error: 'Project not found' },
+      { status: 404 }
+    );
+  }
+
+  return { userId: session.user.id, projectId: project.id };
+}
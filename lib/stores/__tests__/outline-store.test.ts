@@ -208,7 +208,8 @@ describe('useOutlineStore', () => {
       result.current.loadProject(projectData);
     });
 
-    expect(result.current.nodes).toEqual(projectData.nodes);
+    // Unversioned documents are migrated, which gives their nodes a depth
+    expect(result.current.nodes).toEqual([{ ...projectData.nodes[0], depth: 0 }]);
     expect(result.current.conflicts).toEqual(projectData.conflicts);
     expect(result.current.summary).toEqual(projectData.summary);
     expect(result.current.selectedNodeIds).toEqual([]);
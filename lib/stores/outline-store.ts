@@ -2,12 +2,17 @@
 
 import { create } from 'zustand';
 import { DetailLevel } from '@/components/AdjustableDetailSlider';
+import { NodeKind } from '@/lib/node-kinds';
+import { parseProjectDocument, ProjectDocument, ProjectDraft } from '@/lib/project-document';
+import type { ProjectAccessRole } from '@/lib/project-roles';
 
 export interface OutlineNode {
   id: string;
   title: string;
   content?: string;
-  type: 'topic' | 'subtopic' | 'detail';
+  type: NodeKind;
+  // Depth in the research tree; inferred from the kind when missing (see nodeDepth)
+  depth?: number;
   order: number;
   parentId?: string;
   metadata?: {
@@ -27,6 +32,12 @@ export interface OutlineState {
   outlineContent: any | null;
   conflicts: any[] | null;
   summary: any | null;
+  // Long-form editor drafts saved with the project
+  drafts: ProjectDraft[];
+  // Saved project the outline was loaded from; collaboration sessions are per project
+  projectId: string | null;
+  // The user's role on that project; 'owner' for their own projects
+  projectRole: ProjectAccessRole | null;
   
   // Actions
   addNode: (node: Omit<OutlineNode, 'order'>) => void;
@@ -34,6 +45,8 @@ export interface OutlineState {
   removeNode: (nodeId: string) => void;
   clearNodes: () => void;
   reorderNodes: (startIndex: number, endIndex: number) => void;
+  // Points every reference to the merged nodes at the node they were merged into
+  mergeNodes: (targetId: string, sourceIds: string[]) => void;
   toggleNodeSelection: (nodeId: string) => void;
   setSelectedNodes: (nodeIds: string[]) => void;
   clearSelection: () => void;
@@ -45,7 +58,11 @@ export interface OutlineState {
   setNodes: (nodes: OutlineNode[]) => void;
   setConflicts: (conflicts: any[]) => void;
   setSummary: (summary: any) => void;
-  loadProject: (projectData: any) => void;
+  // Adds the draft, or replaces the one with the same id, stamping updatedAt
+  saveDraft: (draft: Omit<ProjectDraft, 'updatedAt'>) => void;
+  // Migrates and validates stored data; throws ProjectDocumentError (and sets error) if it is corrupt.
+  // Returns the document so callers can restore the parts kept outside this store (chat history).
+  loadProject: (projectData: unknown, projectId?: string, role?: ProjectAccessRole) => ProjectDocument;
 }
 
 export const useOutlineStore = create<OutlineState>((set, get) => ({
@@ -58,6 +75,9 @@ export const useOutlineStore = create<OutlineState>((set, get) => ({
   outlineContent: null,
   conflicts: null,
   summary: null,
+  drafts: [],
+  projectId: null,
+  projectRole: null,
 
   // Actions
   addNode: (node) => 
@@ -108,6 +128,50 @@ export const useOutlineStore = create<OutlineState>((set, get) => ({
       return { nodes: reorderedNodes };
     }),
 
+  mergeNodes: (targetId, sourceIds) =>
+    set((state) => {
+      const merged = new Set(sourceIds.filter(id => id !== targetId));
+      const remap = (id: string) => (merged.has(id) ? targetId : id);
+      const involved = state.nodes.filter(node => node.id === targetId || merged.has(node.id));
+
+      // The target keeps its place in the outline, or takes the first merged node's
+      const keptIndex = state.nodes.findIndex(node => node.id === targetId || merged.has(node.id));
+      const kept = involved.find(node => node.id === targetId) ?? involved[0];
+      const confidences = involved
+        .map(node => node.metadata?.confidence)
+        .filter((value): value is number => value !== undefined);
+
+      const nodes = state.nodes
+        .filter((node, index) => index === keptIndex || (node.id !== targetId && !merged.has(node.id)))
+        .map(node => {
+          const isKept = node === state.nodes[keptIndex];
+          const base = isKept ? { ...kept, id: targetId, order: node.order } : node;
+          const relationships = isKept
+            ? involved.flatMap(candidate => candidate.metadata?.relationships || [])
+            : node.metadata?.relationships;
+          const parentId = base.parentId && remap(base.parentId);
+
+          return {
+            ...base,
+            parentId: parentId && parentId !== base.id ? parentId : undefined,
+            ...((isKept || relationships) && {
+              metadata: {
+                ...base.metadata,
+                ...(isKept && confidences.length > 0 && { confidence: Math.max(...confidences) }),
+                ...(relationships && {
+                  relationships: Array.from(new Set(relationships.map(remap))).filter(id => id !== base.id),
+                }),
+              },
+            }),
+          };
+        });
+
+      return {
+        nodes,
+        selectedNodeIds: Array.from(new Set(state.selectedNodeIds.map(remap))),
+      };
+    }),
+
   toggleNodeSelection: (nodeId) =>
     set((state) => ({
       selectedNodeIds: state.selectedNodeIds.includes(nodeId)
@@ -144,6 +208,7 @@ export const useOutlineStore = create<OutlineState>((set, get) => ({
         body: JSON.stringify({
           nodeIds: idsToFetch,
           detailLevel: state.detailLevel,
+          projectId: researchProjectId(),
         }),
       });
 
@@ -178,13 +243,48 @@ export const useOutlineStore = create<OutlineState>((set, get) => ({
   setSummary: (summary) =>
     set(() => ({ summary })),
 
-  loadProject: (projectData) =>
+  saveDraft: (draft) =>
+    set((state) => {
+      const saved = { ...draft, updatedAt: new Date().toISOString() };
+      return {
+        drafts: state.drafts.some(d => d.id === draft.id)
+          ? state.drafts.map(d => (d.id === draft.id ? saved : d))
+          : [...state.drafts, saved],
+      };
+    }),
+
+  loadProject: (projectData, projectId, role = 'owner') => {
+    let document;
+    try {
+      document = parseProjectDocument(projectData);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load project' });
+      throw error;
+    }
+
     set(() => ({
-      nodes: projectData.nodes || [],
-      conflicts: projectData.conflicts || null,
-      summary: projectData.summary || null,
-      selectedNodeIds: [],
-      outlineContent: null,
+      nodes: document.nodes as OutlineNode[],
+      conflicts: document.conflicts.length > 0 ? document.conflicts : null,
+      summary: document.summary,
+      outlineContent: document.outline,
+      detailLevel: document.visualization.detailLevel,
+      selectedNodeIds: document.visualization.selectedNodeIds,
+      drafts: document.drafts,
+      projectId: projectId ?? null,
+      projectRole: projectId ? role : null,
       error: null,
-    })),
+    }));
+
+    return document;
+  },
 }));
+
+/**
+ * Project to scope research requests (/api/research/*, AI writing) to. Those
+ * routes only accept the user's own projects, so requests made from a project
+ * shared with them stay unscoped.
+ */
+export function researchProjectId(): string | undefined {
+  const { projectId, projectRole } = useOutlineStore.getState();
+  return projectId && projectRole === 'owner' ? projectId : undefined;
+}
@@ -0,0 +1,91 @@
+/**
+ * TF-IDF vectors of node text, for finding related nodes without an external
+ * service. A node's term counts depend only on its own title and content, so
+ * they are stored with it (Node.termCounts); inverse document frequencies
+ * depend on the whole collection and are applied when comparing. Kept free of
+ * server-only imports.
+ */
+import { isStopWord, tokenize } from '@/lib/full-text-search';
+
+/** Occurrences of each (folded, singularized) term. */
+export type TermCounts = Record<string, number>;
+
+// A title word says more about a node than one in its body
+const TITLE_TERM_WEIGHT = 2;
+
+function countTerms(counts: TermCounts, text: string, weight: number) {
+  tokenize(text).forEach(({ term }) => {
+    if (term.length < 2 || isStopWord(term) || /^\d+$/.test(term)) return;
+    counts[term] = (counts[term] || 0) + weight;
+  });
+}
+
+export function termCounts(title: string, content = ''): TermCounts {
+  const counts: TermCounts = {};
+  countTerms(counts, title, TITLE_TERM_WEIGHT);
+  countTerms(counts, content, 1);
+  return counts;
+}
+
+export function isTermCounts(value: unknown): value is TermCounts {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(count => typeof count === 'number');
+}
+
+/**
+ * Smoothed IDF for every term in `documents`: ln((1 + N) / (1 + df)) + 1.
+ */
+export function inverseDocumentFrequencies(documents: TermCounts[]): Map<string, number> {
+  const frequency = new Map<string, number>();
+  documents.forEach(counts => {
+    Object.keys(counts).forEach(term => frequency.set(term, (frequency.get(term) || 0) + 1));
+  });
+
+  const idf = new Map<string, number>();
+  frequency.forEach((df, term) => idf.set(term, Math.log((1 + documents.length) / (1 + df)) + 1));
+  return idf;
+}
+
+/**
+ * Unit-length TF-IDF vector, with sublinear term frequency so one word
+ * repeated throughout a long text does not dominate.
+ */
+export function tfidfVector(counts: TermCounts, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+  Object.keys(counts).forEach(term => {
+    if (counts[term] <= 0) return;
+    const weight = (1 + Math.log(counts[term])) * (idf.get(term) ?? 1);
+    vector.set(term, weight);
+    norm += weight * weight;
+  });
+
+  norm = Math.sqrt(norm);
+  vector.forEach((weight, term) => vector.set(term, weight / norm));
+  return vector;
+}
+
+/** Cosine similarity of two unit-length vectors. */
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.forEach((weight, term) => {
+    dot += weight * (larger.get(term) || 0);
+  });
+  return dot;
+}
+
+/**
+ * Terms both vectors contain, those contributing most to their similarity first.
+ */
+export function sharedTerms(a: Map<string, number>, b: Map<string, number>, limit = 5): string[] {
+  const shared: Array<[string, number]> = [];
+  a.forEach((weight, term) => {
+    const other = b.get(term);
+    if (other) shared.push([term, weight * other]);
+  });
+  return shared
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, limit)
+    .map(([term]) => term);
+}
@@ -0,0 +1,83 @@
+/**
+ * Text refinement types and reply parsing. Shared by /api/ai/refine-text and
+ * LongFormTextEditor, so it must stay free of server-only imports.
+ */
+
+export const REFINEMENT_TYPES = ['expand', 'refine', 'rephrase', 'academic_upgrade', 'simplify'] as const;
+
+export type RefinementType = typeof REFINEMENT_TYPES[number];
+
+export const REFINEMENT_LABELS: Record<RefinementType, string> = {
+  expand: 'Expand',
+  refine: 'Refine',
+  rephrase: 'Rephrase',
+  academic_upgrade: 'Make academic',
+  simplify: 'Simplify',
+};
+
+const IMPROVED_TEXT_HEADER = 'IMPROVED TEXT:';
+const EXPLANATION_HEADER = 'EXPLANATION:';
+
+/**
+ * Parse the refinement response to extract components
+ */
+export function parseRefinementResponse(response: string): {
+  improvedText: string;
+  explanation: string;
+  suggestions: string[];
+} {
+  const sections = response.split(/(?:IMPROVED TEXT:|EXPLANATION:|SUGGESTIONS:)/i);
+  
+  let improvedText = '';
+  let explanation = '';
+  let suggestions: string[] = [];
+
+  if (sections.length >= 2) {
+    improvedText = sections[1]?.trim() || '';
+  }
+  
+  if (sections.length >= 3) {
+    explanation = sections[2]?.trim() || '';
+  }
+  
+  if (sections.length >= 4) {
+    const suggestionsText = sections[3]?.trim() || '';
+    suggestions = suggestionsText
+      .split('\n')
+      .map(s => s.trim())
+      .filter(s => s.length > 0 && !s.startsWith('-'))
+      .map(s => s.replace(/^[-•]\s*/, ''));
+  }
+
+  // Fallback if parsing fails
+  if (!improvedText) {
+    improvedText = response;
+    explanation = 'Text has been refined according to your specifications.';
+    suggestions = ['Review the changes and make any additional adjustments as needed.'];
+  }
+
+  return { improvedText, explanation, suggestions };
+}
+
+/**
+ * The improved text from a reply that is still streaming in: nothing while
+ * the header is arriving, then whatever follows it up to EXPLANATION.
+ */
+export function partialImprovedText(partial: string): string {
+  const trimmed = partial.trimStart();
+  if (IMPROVED_TEXT_HEADER.startsWith(trimmed.toUpperCase())) return '';
+
+  // A reply that ignored the format is shown as it is
+  const headerAt = trimmed.toUpperCase().indexOf(IMPROVED_TEXT_HEADER);
+  let improved = headerAt === -1 ? trimmed : trimmed.slice(headerAt + IMPROVED_TEXT_HEADER.length);
+  improved = improved.split(/EXPLANATION:/i)[0];
+
+  // Hold back a last line that may be the start of "EXPLANATION:"
+  const lineStart = improved.lastIndexOf('\n');
+  const lastLine = improved.slice(lineStart + 1).trim();
+  if (lineStart !== -1 && lastLine && EXPLANATION_HEADER.startsWith(lastLine.toUpperCase())) {
+    improved = improved.slice(0, lineStart);
+  }
+
+  return improved.trim();
+}
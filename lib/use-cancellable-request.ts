@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * One cancellable request at a time, e.g. an AI call behind a dialog.
+ * `start` aborts whatever is still running and returns the signal to pass to
+ * fetch; `finish` returns false for a request that was cancelled or
+ * replaced, so its result can be dropped. Unmounting cancels too, so a closed
+ * dialog or a page the user left stops its request on the server as well.
+ */
+export function useCancellableRequest() {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const start = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsPending(true);
+    return controller.signal;
+  }, []);
+
+  const finish = useCallback((signal: AbortSignal) => {
+    if (controllerRef.current?.signal !== signal) return false;
+    controllerRef.current = null;
+    setIsPending(false);
+    return true;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsPending(false);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { start, finish, cancel, isPending };
+}
@@ -0,0 +1,141 @@
+/**
+ * Evaluate the prompt registry against recorded fixtures (see
+ * lib/prompts/evaluation.ts).
+ *
+ *   npm run eval:prompts                            # replay recorded replies
+ *   npm run eval:prompts -- --provider openai --record
+ *   npm run eval:prompts -- --prompt research.drill-down --update-baseline
+ *
+ * --provider NAME      provider to ask (default replay; any AI_PROVIDER name)
+ * --record             save the replies to the recordings file for later replays
+ * --prompt ID          only evaluate this prompt (repeatable)
+ * --baseline FILE      run to compare with (default evals/prompts/baseline.json)
+ * --update-baseline    store this run as the baseline
+ *
+ * Fixtures are read from evals/prompts/fixtures/<prompt id>.json. Each run's
+ * results and Markdown report are written to evals/prompts/reports/, and the
+ * command exits with status 1 when any check that passed in the baseline
+ * now fails.
+ */
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { AI_PROVIDERS } from '@/lib/ai/providers';
+import {
+  DEFAULT_AI_REPLAY_FILE,
+  createRecordingProvider,
+  readRecordings,
+  writeRecordings,
+} from '@/lib/ai/providers/replay';
+import {
+  PROMPT_EVAL_SUITES,
+  PromptEvalRun,
+  PromptFixture,
+  comparePromptEvals,
+  formatPromptEvalReport,
+  runPromptEvals,
+} from '@/lib/prompts/evaluation';
+
+const EVALS_DIR = path.join(process.cwd(), 'evals', 'prompts');
+const FIXTURES_DIR = path.join(EVALS_DIR, 'fixtures');
+const REPORTS_DIR = path.join(EVALS_DIR, 'reports');
+
+function parseArgs(argv: string[]) {
+  const options = {
+    provider: 'replay',
+    record: false,
+    prompts: [] as string[],
+    baseline: path.join(EVALS_DIR, 'baseline.json'),
+    updateBaseline: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--provider': options.provider = value(); break;
+      case '--record': options.record = true; break;
+      case '--prompt': options.prompts.push(value()); break;
+      case '--baseline': options.baseline = path.resolve(value()); break;
+      case '--update-baseline': options.updateBaseline = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function readFixtures(): Record<string, PromptFixture[]> {
+  const fixtures: Record<string, PromptFixture[]> = {};
+  for (const file of readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.json'))) {
+    fixtures[path.basename(file, '.json')] = JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+  }
+  return fixtures;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const create = AI_PROVIDERS[options.provider];
+  if (!create) {
+    throw new Error(`Unknown provider "${options.provider}" (expected one of: ${Object.keys(AI_PROVIDERS).join(', ')})`);
+  }
+  if (options.record && options.provider === 'replay') {
+    throw new Error('--record needs a provider that calls a model, e.g. --provider openai');
+  }
+
+  const recordingsFile = path.resolve(process.env.AI_REPLAY_FILE || DEFAULT_AI_REPLAY_FILE);
+  const recordings = options.record ? readRecordings(recordingsFile) : null;
+  const provider = recordings ? createRecordingProvider(create(), recordings) : create();
+  if (!provider.isConfigured()) {
+    throw new Error(`The ${provider.name} provider is not configured; set its API key or base URL`);
+  }
+
+  const suites = PROMPT_EVAL_SUITES.filter(suite => !options.prompts.length || options.prompts.includes(suite.prompt.id));
+  const unknown = options.prompts.filter(id => !suites.some(suite => suite.prompt.id === id));
+  if (unknown.length) throw new Error(`No evaluation suite for ${unknown.join(', ')}`);
+
+  const fixtures = readFixtures();
+  const current = await runPromptEvals(suites, fixtures, provider);
+  if (recordings) await writeRecordings(recordingsFile, recordings);
+
+  let baseline: PromptEvalRun | null = null;
+  if (existsSync(options.baseline)) {
+    baseline = JSON.parse(readFileSync(options.baseline, 'utf8'));
+    // Compare only the prompts evaluated this time
+    baseline!.results = baseline!.results.filter(result => suites.some(suite => suite.prompt.id === result.promptId));
+  }
+
+  const report = formatPromptEvalReport(current, baseline);
+  const stamp = current.generatedAt.replace(/[:.]/g, '-');
+  await mkdir(REPORTS_DIR, { recursive: true });
+  await writeFile(path.join(REPORTS_DIR, `${stamp}.json`), `${JSON.stringify(current, null, 2)}\n`);
+  await writeFile(path.join(REPORTS_DIR, `${stamp}.md`), report);
+  console.log(report);
+  console.log(`Report written to ${path.relative(process.cwd(), path.join(REPORTS_DIR, `${stamp}.md`))}`);
+
+  if (options.updateBaseline) {
+    // Keep the baseline's results for prompts this run skipped
+    const previous: PromptEvalRun | null = existsSync(options.baseline)
+      ? JSON.parse(readFileSync(options.baseline, 'utf8'))
+      : null;
+    const kept = previous?.results.filter(result => !current.results.some(item => item.promptId === result.promptId)) ?? [];
+    await writeFile(options.baseline, `${JSON.stringify({ ...current, results: [...kept, ...current.results] }, null, 2)}\n`);
+    console.log(`Baseline updated: ${path.relative(process.cwd(), options.baseline)}`);
+    return;
+  }
+
+  if (baseline && comparePromptEvals(baseline, current).some(item => item.regressions.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,249 @@
+/**
+ * Local WebSocket server for real-time outline collaboration.
+ *
+ *   npm run collab            # listens on COLLAB_PORT (default 3001)
+ *
+ * Clients join a room per project with a token from
+ * POST /api/projects/[id]/collaboration. The server relays outline operations
+ * (see lib/collaboration/outline-crdt.ts) and presence between the members of
+ * a room and keeps the room's operation log so late joiners can catch up. It
+ * checks the shape and size of operations but does not merge them, except to
+ * compact a log that grows past its cap. A room is dropped when its last
+ * member leaves, so saving the project is still done through the projects API.
+ *
+ * Tokens are short-lived, so clients send a fresh one before theirs expires;
+ * that is how a collaborator's role changes, or their removal, reach an open
+ * connection. A connection whose token runs out is closed.
+ */
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.COLLAB_PORT || 3001);
+const SECRET = process.env.COLLAB_SECRET || process.env.NEXTAUTH_SECRET;
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const MAX_OPS_PER_MESSAGE = 2000;
+const MAX_OP_BYTES = 32 * 1024;
+const MAX_ID_LENGTH = 200;
+const MAX_POSITION_LENGTH = 1000;
+// Past this the log is compacted; a room whose compacted log is still this long takes no more operations
+const MAX_ROOM_OPS = 10000;
+// How long after its token expires a connection may still send a fresh one
+const TOKEN_GRACE_MS = 15 * 1000;
+
+// Roles allowed to change the outline; viewers and commenters only see it
+const EDIT_ROLES = new Set(['editor', 'owner']);
+
+const COLORS = ['#2563eb', '#16a34a', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#65a30d'];
+
+if (!SECRET) {
+  console.error('COLLAB_SECRET or NEXTAUTH_SECRET must be set');
+  process.exit(1);
+}
+
+/** @type {Map<string, { ops: any[], clients: Map<string, { socket: import('ws').WebSocket, presence: any }> }>} */
+const rooms = new Map();
+
+// Mirrors verifyCollabToken in lib/collaboration/collab-token.ts
+function verifyToken(token) {
+  const [body, signature] = String(token || '').split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(createHmac('sha256', SECRET).update(body).digest('base64url'));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Matches the positions generated by positionBetween in lib/collaboration/outline-crdt.ts
+const POSITION_PATTERN = /^[0-9a-z]+$/;
+
+function isId(value) {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
+
+function isPosition(value) {
+  return typeof value === 'string' && value.length <= MAX_POSITION_LENGTH && POSITION_PATTERN.test(value);
+}
+
+function isStamp(stamp) {
+  return Boolean(stamp)
+    && Number.isSafeInteger(stamp.clock) && stamp.clock >= 0
+    && typeof stamp.actor === 'string' && stamp.actor.length <= MAX_ID_LENGTH;
+}
+
+function isNodeValue(node, id) {
+  return Boolean(node) && typeof node === 'object' && !Array.isArray(node)
+    && node.id === id && typeof node.title === 'string' && typeof node.type === 'string';
+}
+
+// Mirrors the OutlineOp type in lib/collaboration/outline-crdt.ts
+function isValidOp(op) {
+  if (!op || typeof op !== 'object' || !isId(op.id) || !isStamp(op.stamp)) return false;
+  if (JSON.stringify(op).length > MAX_OP_BYTES) return false;
+
+  switch (op.type) {
+    case 'put-node':
+      return isNodeValue(op.node, op.id) && (op.position === undefined || isPosition(op.position));
+    case 'remove-node':
+      return true;
+    case 'move-node':
+      return isPosition(op.position);
+    case 'select-node':
+      return typeof op.selected === 'boolean';
+    default:
+      return false;
+  }
+}
+
+// Mirrors compareStamps in lib/collaboration/outline-crdt.ts
+function compareStamps(a, b) {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.actor < b.actor ? -1 : a.actor > b.actor ? 1 : 0;
+}
+
+/**
+ * The operations that still decide a node's value, position or selection,
+ * in their original order. Replaying them gives the same outline as the
+ * whole log, since every register keeps its last write (see OutlineCrdt).
+ */
+function compactOps(ops) {
+  const winners = new Map();
+  const claim = (register, op) => {
+    const current = winners.get(register);
+    if (!current || compareStamps(op.stamp, current.stamp) > 0) winners.set(register, op);
+  };
+
+  ops.forEach(op => {
+    if (op.type === 'select-node') claim(`selected:${op.id}`, op);
+    if (op.type === 'put-node' || op.type === 'remove-node') claim(`node:${op.id}`, op);
+    if (op.type === 'move-node' || (op.type === 'put-node' && op.position !== undefined)) claim(`position:${op.id}`, op);
+  });
+
+  const kept = new Set(winners.values());
+  return ops.filter(op => kept.has(op));
+}
+
+// Append to the room's log, compacting it once it passes the cap. Returns false when the ops do not fit.
+function appendOps(room, ops) {
+  if (room.ops.length + ops.length > MAX_ROOM_OPS) {
+    room.ops = compactOps(room.ops);
+    if (room.ops.length + ops.length > MAX_ROOM_OPS) return false;
+  }
+  room.ops.push(...ops);
+  return true;
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room, message, exceptClientId) {
+  room.clients.forEach((client, clientId) => {
+    if (clientId !== exceptClientId) send(client.socket, message);
+  });
+}
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', (socket, request) => {
+  const url = new URL(request.url || '/', 'http://localhost');
+  let token = verifyToken(url.searchParams.get('token'));
+
+  if (!token) {
+    socket.close(4001, 'Invalid or expired token');
+    return;
+  }
+
+  const room = rooms.get(token.projectId) || { ops: [], clients: new Map() };
+  rooms.set(token.projectId, room);
+
+  const clientId = randomUUID();
+  const presence = {
+    clientId,
+    userId: token.userId,
+    name: token.name,
+    color: COLORS[room.clients.size % COLORS.length],
+    role: token.role,
+    focusNodeId: null,
+  };
+
+  // Closed unless a fresh token arrives in time; 4002 lets the client reconnect, which checks access again
+  let expiryTimer;
+  const scheduleExpiry = () => {
+    clearTimeout(expiryTimer);
+    expiryTimer = setTimeout(
+      () => socket.close(4002, 'Token expired'),
+      Math.max(0, token.exp * 1000 - Date.now()) + TOKEN_GRACE_MS
+    );
+  };
+  scheduleExpiry();
+
+  send(socket, {
+    type: 'welcome',
+    clientId,
+    ops: room.ops,
+    peers: Array.from(room.clients.values()).map(client => client.presence),
+  });
+  room.clients.set(clientId, { socket, presence });
+  broadcast(room, { type: 'presence', peer: presence }, clientId);
+
+  socket.on('message', data => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+
+    if (message.type === 'ops' && Array.isArray(message.ops)) {
+      if (!EDIT_ROLES.has(token.role)) {
+        send(socket, { type: 'error', message: 'Your role on this project is read-only' });
+        return;
+      }
+      if (message.ops.length > MAX_OPS_PER_MESSAGE || !message.ops.every(isValidOp)) {
+        send(socket, { type: 'error', message: 'Invalid outline operations' });
+        return;
+      }
+      if (!appendOps(room, message.ops)) {
+        send(socket, { type: 'error', message: 'The shared outline is too large to take more changes' });
+        return;
+      }
+      broadcast(room, { type: 'ops', ops: message.ops }, clientId);
+    } else if (message.type === 'auth') {
+      const fresh = verifyToken(message.token);
+      if (!fresh || fresh.projectId !== token.projectId || fresh.userId !== token.userId) {
+        send(socket, { type: 'error', message: 'Invalid or expired token' });
+        return;
+      }
+      token = fresh;
+      scheduleExpiry();
+      if (presence.role !== token.role) {
+        presence.role = token.role;
+        broadcast(room, { type: 'presence', peer: presence }, clientId);
+      }
+    } else if (message.type === 'presence') {
+      presence.focusNodeId = typeof message.focusNodeId === 'string' ? message.focusNodeId : null;
+      broadcast(room, { type: 'presence', peer: presence }, clientId);
+    }
+  });
+
+  socket.on('close', () => {
+    clearTimeout(expiryTimer);
+    room.clients.delete(clientId);
+    broadcast(room, { type: 'leave', clientId });
+    if (room.clients.size === 0) rooms.delete(token.projectId);
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Collaboration server listening on ws://localhost:${PORT}`);
+});